@@ -26,6 +26,7 @@ import SettingsPage from './pages/SettingsPage'
 import ClientDetailPage from './pages/ClientDetailPage'
 import CSVUploadPage from './pages/CSVUploadPage'
 import ProfilePage from './pages/ProfilePage'
+import AuditPage from './pages/AuditPage'
 import AdminLayout from './components/layout/AdminLayout'
 
 function App() {
@@ -37,14 +38,15 @@ function App() {
             {/* Public routes */}
             <Route path="/login" element={<LoginPage />} />
             
-            {/* Protected routes */}
-            <Route path="/" element={<ProtectedRoute><AdminLayout><DashboardPage /></AdminLayout></ProtectedRoute>} />
-            <Route path="/dashboard" element={<ProtectedRoute><AdminLayout><DashboardPage /></AdminLayout></ProtectedRoute>} />
-            <Route path="/csv-upload" element={<ProtectedRoute><AdminLayout><CSVUploadPage /></AdminLayout></ProtectedRoute>} />
-            <Route path="/check-ins" element={<ProtectedRoute><AdminLayout><CheckInsPage /></AdminLayout></ProtectedRoute>} />
-            <Route path="/settings" element={<ProtectedRoute><AdminLayout><SettingsPage /></AdminLayout></ProtectedRoute>} />
+            {/* Protected routes - each needs the permission its role grants (see common/types/permissions.ts) */}
+            <Route path="/" element={<ProtectedRoute permission="dashboard.view" redirectIfDenied><AdminLayout><DashboardPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/dashboard" element={<ProtectedRoute permission="dashboard.view" redirectIfDenied><AdminLayout><DashboardPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/csv-upload" element={<ProtectedRoute permission="csv.upload"><AdminLayout><CSVUploadPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/check-ins" element={<ProtectedRoute permission="checkins.view"><AdminLayout><CheckInsPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/settings" element={<ProtectedRoute permission="settings.manage"><AdminLayout><SettingsPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/audit" element={<ProtectedRoute permission="audit.view"><AdminLayout><AuditPage /></AdminLayout></ProtectedRoute>} />
             <Route path="/profile" element={<ProtectedRoute><AdminLayout><ProfilePage /></AdminLayout></ProtectedRoute>} />
-            <Route path="/clients/:id" element={<ProtectedRoute><AdminLayout><ClientDetailPage /></AdminLayout></ProtectedRoute>} />
+            <Route path="/clients/:id" element={<ProtectedRoute permission="checkins.view"><AdminLayout><ClientDetailPage /></AdminLayout></ProtectedRoute>} />
           </Routes>
         </Box>
       </AuthProvider>
@@ -9,17 +9,15 @@
  * - Throws error in production if API URL not configured
  * - Consistent URL construction across the application
  * 
- * Note: Components using these URLs should implement smart polling with:
- * - Page Visibility API to pause when tab is hidden
- * - Exponential backoff on connection errors
- * - Appropriate polling intervals (30-120 seconds based on priority)
+ * Note: Components should not poll these URLs on their own timers; they
+ * subscribe to real-time events instead (see ../lib/realtime.ts).
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
  * @since 2025-10-28
  * @license Proprietary - see LICENSE file for details
  * 
- * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
+ * @see {@link ../lib/realtime.ts} Real-time event subscriptions
  */
 
 export const getApiBaseUrl = (): string => {
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Type definitions for merge uploads in Foodbank Check-In and Appointment System admin panel
+ *
+ * When the day's appointments are already loaded, a new file is compared
+ * with them instead of being uploaded over the top. Staff review the
+ * differences (new clients, changed fields, appointments no longer in the
+ * file, clients who already checked in) and apply the ones they choose.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-23
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../utils/appointmentDiff.ts} Appointment diff
+ * @see {@link ../../components/features/csv/CSVMergeReviewModal.tsx} Merge review
+ */
+
+import type { CheckInRecord } from './checkIn';
+
+export type AppointmentDiffKind = 'new' | 'changed' | 'removed' | 'unchanged';
+
+export interface AppointmentFieldChange {
+  // Import field, e.g. 'phoneNumber'
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface AppointmentDiffEntry {
+  clientId: string;
+  kind: AppointmentDiffKind;
+  // Row in the new file (the header is row 1); absent for removed appointments
+  row?: number;
+  // Values from the new file by import field; absent for removed appointments
+  values?: Record<string, string>;
+  // Loaded appointment; absent for new clients
+  existing?: CheckInRecord;
+  changes: AppointmentFieldChange[];
+  // The client checked in or staff already handled the appointment
+  isCheckedIn: boolean;
+}
+
+export interface AppointmentMergeRequest {
+  // New clients' rows, as a CSV with the standard headers
+  csv: string;
+  // Only the fields that changed, by import field
+  updates: Array<{ clientId: string; changes: Record<string, string> }>;
+  // Client IDs of appointments to remove
+  removals: string[];
+}
+
+export interface AppointmentMergeResult {
+  added: number;
+  updated: number;
+  removed: number;
+  warning?: string;
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Type definitions for the audit trail in Foodbank Check-In and Appointment System admin panel
+ *
+ * The backend records every admin mutation - status changes, client edits,
+ * reschedules, help-request updates, household reviews, settings changes and
+ * data clears - with the staff member who made it, taken from their session,
+ * the values before and after, and the reason given. The Audit page reads
+ * these entries; nothing in the admin panel writes them directly.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-26
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../pages/AuditPage.tsx} Audit page
+ * @see {@link ../../utils/audit.ts} Audit helpers
+ */
+
+export type AuditEntityType =
+  | 'appointment'
+  | 'client'
+  | 'helpRequest'
+  | 'householdUpdate'
+  | 'settings'
+  | 'data';
+
+export type AuditAction =
+  | 'status_changed'
+  | 'rescheduled'
+  | 'ticket_called'
+  | 'client_edited'
+  | 'household_reviewed'
+  | 'help_request_updated'
+  | 'settings_changed'
+  | 'csv_uploaded'
+  | 'data_cleared'
+  | 'data_restored';
+
+export interface AuditActor {
+  id: string;
+  email: string;
+  // Role at the time of the change; older entries may not have one
+  role?: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  // ISO timestamp from the server
+  timestamp: string;
+  actor: AuditActor;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Readable name for the entity, e.g. the client's name or the setting changed
+  entityLabel?: string | null;
+  // Only the fields that changed; null when the entity was created or removed
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason?: string | null;
+}
+
+export interface AuditFilters {
+  // Matches the actor's email, partly or fully
+  actor?: string;
+  entityType?: AuditEntityType;
+  // Matches the entity id or label, e.g. a check-in id or a client's name
+  entity?: string;
+  // Inclusive YYYY-MM-DD range
+  from: string;
+  to: string;
+}
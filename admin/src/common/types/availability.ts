@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Type definitions for appointment availability in Foodbank Check-In and Appointment System admin panel
+ * 
+ * This module defines the shape of the availability data used by the
+ * reschedule slot picker: which days are open and how many places are left
+ * in each time slot. The types are defined with the slot logic shared with
+ * the client application.
+ * 
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-10
+ * @license Proprietary - see LICENSE file for details
+ * 
+ * @see {@link ../../components/features/appointments/AppointmentSlotPicker.tsx} Slot picker
+ * @see {@link ../../../../shared/appointmentSlots.ts} Shared slot logic
+ */
+
+export type { AvailabilitySlot, AvailabilityDay, SlotSelection } from '../../../../shared/appointmentSlots';
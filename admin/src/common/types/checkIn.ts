@@ -12,6 +12,8 @@
  * @see {@link ./index.ts} Type definitions index
  */
 
+import type { RequestOptionCategory } from './specialRequests';
+
 export interface CheckInRecord {
   id: string;
   clientId: string;
@@ -37,6 +39,8 @@ export interface CheckInRecord {
   
   // Completion data
   completionTime?: string;
+  // Catalog options the client selected, by stable option ID
+  requestSelections?: Array<{ optionId: string; category: RequestOptionCategory; detail?: string }>;
   dietaryRestrictions?: string[];
   allergies?: string;
   unwantedFoods?: string;
@@ -46,10 +50,22 @@ export interface CheckInRecord {
   notificationPreference?: string;
   phone?: string;
   phoneCarrier?: string;
+  reminderConsentAt?: string;
+  reminderLanguage?: string;
+  // Privacy notice version the client accepted before checking in, when and in which language
+  privacyConsentVersion?: number;
+  privacyConsentAt?: string;
+  privacyConsentLanguage?: string;
   location?: string;
   program?: string; // Link2Feed Program field (e.g., Food Hamper, Emergency Support)
   clientType?: string;
   waitTime?: number;
+  // When staff last called the client's ticket
+  calledAt?: string;
+  
+  // Offline kiosk data - set when the check-in was queued on the kiosk and synced later
+  queuedOnKiosk?: boolean;
+  queuedAt?: string;
   
   // Appointment data
   pickUpDate?: string;
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Type definitions for soft-deleted data in Foodbank Check-In and Appointment System admin panel
+ *
+ * Clearing all data no longer deletes it straight away. The backend sets the
+ * cleared records aside as one batch and keeps it until `purgeAt`, when the
+ * regular purge removes it for good; until then the batch can be restored
+ * from the CSV upload page.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-27
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../components/features/csv/RecentlyClearedData.tsx} Recently cleared data panel
+ */
+
+export interface ClearedDataCounts {
+  clients: number;
+  appointments: number;
+  checkIns: number;
+  uploads: number;
+}
+
+export interface ClearedDataBatch {
+  id: string;
+  // ISO timestamps from the server
+  clearedAt: string;
+  purgeAt: string;
+  clearedBy?: string | null;
+  reason?: string | null;
+  counts: ClearedDataCounts;
+}
@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Type definitions for household update requests in Foodbank Check-In and Appointment System admin panel
+ * 
+ * Clients review their household counts during check-in and can propose
+ * changes. Each proposal is kept as a pending request with a snapshot of the
+ * record the client saw, and only overwrites the client record once a staff
+ * member approves it on the client detail page.
+ * 
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-16
+ * @license Proprietary - see LICENSE file for details
+ * 
+ * @see {@link ../../components/features/clients/HouseholdUpdateReview.tsx} Review panel
+ */
+
+export interface HouseholdComposition {
+  adults: number;
+  seniors: number;
+  children: number;
+  // Ages of the children, e.g. "5, 7, 12"
+  childrensAges: string;
+}
+
+export type HouseholdUpdateStatus = 'pending' | 'approved' | 'rejected';
+
+export interface HouseholdUpdateRequest {
+  id: string;
+  clientId: string;
+  status: HouseholdUpdateStatus;
+  // Record as the client saw it when proposing the change
+  current: HouseholdComposition;
+  proposed: HouseholdComposition;
+  note?: string | null;
+  submittedAt: string;
+  reviewedAt?: string | null;
+  reviewedBy?: string | null;
+  rejectionReason?: string | null;
+}
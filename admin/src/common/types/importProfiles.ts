@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Type definitions for appointment import profiles in Foodbank Check-In and Appointment System admin panel
+ *
+ * An import profile is a saved column mapping for one kind of appointment
+ * file: which column feeds each field, how its dates are written, and the
+ * transformations and fallback values to apply. Profiles are shared by all
+ * staff. The header row of the file a profile was saved from is stored with
+ * it, so the next file with the same columns picks the profile automatically.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-22
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../utils/csvImport.ts} Profile detection
+ * @see {@link ../../components/features/csv/CSVImportWizard.tsx} CSV import wizard
+ */
+
+import { CSVFieldMapping } from './index';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  // Header row of the file the profile was saved from
+  headers: string[];
+  mappings: CSVFieldMapping[];
+  updatedAt: string;
+  updatedBy?: string | null;
+}
+
+export type ImportProfileInput = Pick<ImportProfile, 'name' | 'headers' | 'mappings'>;
+
+export interface ImportProfilesResponse {
+  success: boolean;
+  data?: { profiles: ImportProfile[] };
+  error?: string;
+}
@@ -42,6 +42,8 @@ export interface CSVFieldMapping {
   required: boolean;
   transformation?: 'capitalize' | 'lowercase' | 'uppercase' | 'trim';
   fallbackValue?: string;
+  // date-fns pattern the source writes dates in; converted to the standard Pick Up Date format
+  dateFormat?: string;
 }
 
 export interface CSVValidationRule {
@@ -51,6 +53,50 @@ export interface CSVValidationRule {
   validator?: (value: any) => boolean;
 }
 
+// A CSV file parsed in the browser, before anything is uploaded
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+}
+
+// One sheet of an uploaded workbook; a CSV file is a single sheet
+export interface ImportSheet {
+  name: string;
+  data: ParsedCSV;
+}
+
+export interface CSVRowError {
+  // Spreadsheet row number; the header is row 1
+  row: number;
+  // Target field, or '' for a problem with the row itself
+  field: string;
+  value: string;
+  message: string;
+}
+
+// API Response Types
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// Today's CSV data, from /status/day
+export interface DayStatus {
+  today: string;
+  csvDate: string;
+  data: {
+    present: boolean;
+    count: number;
+    expiresAt?: string;
+  };
+}
+
+export interface DayStatusResponse extends ApiResponse<DayStatus> {
+  // Changes whenever the day's data is replaced (upload, purge, expiry)
+  dataVersion?: string | number;
+}
+
 // Check-in Types - moved to checkIn.ts for better organization
 export type { CheckInRecord as CheckIn } from './checkIn';
 
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Type definitions for operating hours in Foodbank Check-In and Appointment System admin panel
+ *
+ * Operating hours are set on the Settings page: the weekly opening hours of
+ * each location, how long an appointment slot is and how many days must pass
+ * before a client can be booked again. The check-ins schedule, the
+ * availability the backend offers when rebooking, and the client app's
+ * appointment details all follow them.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../utils/operatingHours.ts} Operating hours helpers
+ * @see {@link ../../components/features/settings/OperatingHoursManager.tsx} Operating hours manager
+ */
+
+export interface OperatingPeriod {
+  // 0 = Sunday ... 6 = Saturday
+  day: number;
+  // HH:MM (24-hour); close is exclusive
+  open: string;
+  close: string;
+}
+
+export interface LocationHours {
+  id: string;
+  // Matches the Location column of uploaded appointments
+  name: string;
+  // A day can have several periods (e.g. a morning and an evening session); days not listed are closed
+  periods: OperatingPeriod[];
+}
+
+export interface OperatingHours {
+  locations: LocationHours[];
+  // Length of one appointment slot in minutes
+  slotMinutes: number;
+  // Days after a visit before the next appointment can be booked
+  rebookIntervalDays: number;
+  updatedAt?: string;
+  updatedBy?: string | null;
+}
+
+export type OperatingHoursInput = Omit<OperatingHours, 'updatedAt' | 'updatedBy'>;
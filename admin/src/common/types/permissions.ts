@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Staff roles and permissions for Foodbank Check-In and Appointment System admin panel
+ *
+ * Every staff account has one role, set in Supabase as `role` in the user's
+ * app_metadata. The matrix below decides which pages, menu entries and
+ * actions each role gets. The backend checks the same permissions on every
+ * request; hiding an action here only keeps staff from running into errors.
+ *
+ * - Volunteer: at the door - find clients, mark hampers collected, print tickets
+ * - Front desk: also the dashboard, calling tickets, cancelling and rebooking
+ * - Coordinator: also CSV uploads, exports, client edits, settings and the audit trail
+ * - Administrator: everything, including clearing data and the Link2Feed connection
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-25
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../contexts/AuthContext.tsx} Authentication context
+ * @see {@link ../../components/ui/ProtectedRoute.tsx} Protected route
+ */
+
+export type StaffRole = 'volunteer' | 'frontDesk' | 'coordinator' | 'administrator';
+
+export type Permission =
+  // Search check-ins and open client details
+  | 'checkins.view'
+  | 'checkins.markCollected'
+  | 'tickets.print'
+  | 'tickets.call'
+  | 'dashboard.view'
+  | 'appointments.cancel'
+  | 'appointments.reschedule'
+  | 'clients.edit'
+  | 'csv.upload'
+  | 'data.export'
+  | 'data.clear'
+  // Request catalog, privacy notice and operating hours
+  | 'settings.manage'
+  // Audit page; exporting it also needs data.export
+  | 'audit.view'
+  | 'link2feed.configure';
+
+export const STAFF_ROLES: StaffRole[] = ['volunteer', 'frontDesk', 'coordinator', 'administrator'];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  volunteer: 'Volunteer',
+  frontDesk: 'Front desk',
+  coordinator: 'Coordinator',
+  administrator: 'Administrator',
+};
+
+const VOLUNTEER_PERMISSIONS: Permission[] = ['checkins.view', 'checkins.markCollected', 'tickets.print'];
+
+const FRONT_DESK_PERMISSIONS: Permission[] = [
+  ...VOLUNTEER_PERMISSIONS,
+  'dashboard.view',
+  'tickets.call',
+  'appointments.cancel',
+  'appointments.reschedule',
+];
+
+const COORDINATOR_PERMISSIONS: Permission[] = [
+  ...FRONT_DESK_PERMISSIONS,
+  'clients.edit',
+  'csv.upload',
+  'data.export',
+  'settings.manage',
+  'audit.view',
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  volunteer: VOLUNTEER_PERMISSIONS,
+  frontDesk: FRONT_DESK_PERMISSIONS,
+  coordinator: COORDINATOR_PERMISSIONS,
+  administrator: [...COORDINATOR_PERMISSIONS, 'data.clear', 'link2feed.configure'],
+};
+
+export const hasPermission = (role: StaffRole | null, permission: Permission): boolean => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
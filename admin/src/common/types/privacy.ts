@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Type definitions for privacy consent in Foodbank Check-In and Appointment System admin panel
+ * 
+ * Clients accept the privacy notice on the check-in kiosk before entering any
+ * personal information. Admins edit the notice on the Settings page; each
+ * edit is published as a new version and the version a client accepted is
+ * stored with their check-in, so staff can tell when a client last agreed to
+ * an outdated notice.
+ * 
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ * 
+ * @see {@link ../../components/features/settings/PrivacyNoticeManager.tsx} Privacy notice manager
+ */
+
+export interface PrivacyNoticeVersion {
+  // Increases with every published edit; version 1 is the notice shipped with the kiosk
+  version: number;
+  // Notice text by client language code ('en' is always present)
+  text: Record<string, string>;
+  publishedAt: string;
+  publishedBy?: string | null;
+}
+
+export type PrivacyConsentStatus = 'current' | 'outdated' | 'missing';
+
+/**
+ * Compare the version a client accepted with the current notice
+ */
+export const getPrivacyConsentStatus = (
+  acceptedVersion: number | null | undefined,
+  currentVersion: number | null | undefined
+): PrivacyConsentStatus => {
+  if (!acceptedVersion) return 'missing';
+  if (currentVersion && acceptedVersion < currentVersion) return 'outdated';
+  return 'current';
+};
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Real-time event types for Foodbank Check-In and Appointment System admin panel
+ *
+ * The backend pushes these events over a Server-Sent Events stream whenever
+ * check-ins, help requests or the day's data change. When the stream is not
+ * available the admin panel polls instead and produces the same events by
+ * comparing each response with the previous one, so components don't need to
+ * know which of the two is running.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-19
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/realtime.ts} Real-time subscriptions
+ */
+
+import type { CheckInRecord } from './checkIn';
+
+export type RealtimeEvent =
+  | { type: 'checkin.created'; checkInId: string; clientId?: string; at: string }
+  | {
+      type: 'checkin.status_changed';
+      checkInId: string;
+      status: CheckInRecord['status'];
+      previousStatus?: CheckInRecord['status'];
+      at: string;
+    }
+  | { type: 'help_request.created'; helpRequestId: string; at: string }
+  // The day's data was replaced, e.g. a CSV upload, a purge or the nightly expiry
+  | { type: 'data.version_bumped'; dataVersion: string; at: string }
+  // Events may have been missed (reconnect, tab was hidden); subscribers should reload
+  | { type: 'resync'; at: string };
+
+export type RealtimeEventType = RealtimeEvent['type'];
+
+// 'stream' while the event stream is open, 'polling' while the fallback poller runs
+export type RealtimeMode = 'idle' | 'stream' | 'polling';
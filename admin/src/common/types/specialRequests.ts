@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Type definitions for the special-request catalog in Foodbank Check-In and Appointment System admin panel
+ * 
+ * This module defines the request options staff manage from the Settings
+ * page: dietary needs, allergies, baby needs, hygiene items and pet food.
+ * The client check-in renders its special requests page from this catalog
+ * and submits the option IDs, so IDs never change once an option exists.
+ * 
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-15
+ * @license Proprietary - see LICENSE file for details
+ * 
+ * @see {@link ../../components/features/settings/RequestCatalogManager.tsx} Catalog manager
+ */
+
+export type RequestOptionCategory = 'dietary' | 'allergy' | 'baby_needs' | 'hygiene' | 'pet_food';
+
+export const REQUEST_CATEGORY_LABELS: Record<RequestOptionCategory, string> = {
+  dietary: 'Dietary',
+  allergy: 'Allergy',
+  baby_needs: 'Baby needs',
+  hygiene: 'Hygiene',
+  pet_food: 'Pet food',
+};
+
+// Icons available to the client app, keyed by the name stored with the option
+export type RequestOptionIcon =
+  | 'carrot'
+  | 'leaf'
+  | 'bread'
+  | 'noFood'
+  | 'mosque'
+  | 'synagogue'
+  | 'allergy'
+  | 'peanut'
+  | 'egg'
+  | 'fish'
+  | 'cheese'
+  | 'baby'
+  | 'soap'
+  | 'tooth'
+  | 'paw'
+  | 'apple';
+
+// Text in several languages, keyed by language code ('en' is required)
+export type LocalizedText = Record<string, string>;
+
+export interface RequestOption {
+  // Stable identifier used in check-in submissions and reports
+  id: string;
+  category: RequestOptionCategory;
+  labels: LocalizedText;
+  icon: RequestOptionIcon;
+  // Ask the client for a detail when selected, e.g. diaper size
+  detailPrompt?: LocalizedText | null;
+  // YYYY-MM-DD, inclusive; open-ended when not set
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  // Selections allowed per day; null means unlimited
+  stockLimit?: number | null;
+  // Selections left today, calculated by the backend
+  remaining?: number | null;
+  sortOrder: number;
+  // Hidden options stay in reports but are not offered to clients
+  isActive: boolean;
+  updatedAt?: string;
+}
+
+export type RequestOptionInput = Omit<RequestOption, 'remaining' | 'updatedAt'>;
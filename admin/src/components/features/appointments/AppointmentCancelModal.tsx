@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Appointment cancellation modal for Foodbank Check-In and Appointment System admin panel
+ *
+ * This component asks for the reason before an appointment is cancelled, so
+ * the audit trail shows why when a client later disputes the cancellation.
+ * The cancellation itself can still be undone from the toast that follows.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-26
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../../pages/CheckInsPage.tsx} Check-ins page
+ */
+
+import React, { useState } from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalFooter,
+  ModalBody,
+  ModalCloseButton,
+  Button,
+  HStack,
+  Text,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input
+} from '@chakra-ui/react';
+
+interface AppointmentCancelModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientName?: string;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+const AppointmentCancelModal: React.FC<AppointmentCancelModalProps> = ({
+  isOpen,
+  onClose,
+  clientName,
+  onConfirm
+}) => {
+  const [reason, setReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleClose = () => {
+    setReason('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    setIsCancelling(true);
+    try {
+      await onConfirm(reason.trim());
+      handleClose();
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} isCentered>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Cancel Appointment</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Text fontSize="sm" color="gray.600" mb={4}>
+            Cancel {clientName ? `${clientName}'s` : 'this'} appointment?
+          </Text>
+          <FormControl>
+            <FormLabel fontSize="sm">Reason (optional)</FormLabel>
+            <Input
+              size="sm"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Client called to cancel"
+            />
+            <FormHelperText>Shown in the audit trail with this change</FormHelperText>
+          </FormControl>
+        </ModalBody>
+
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={handleClose}>
+              Keep Appointment
+            </Button>
+            <Button colorScheme="red" onClick={handleConfirm} isLoading={isCancelling} loadingText="Cancelling...">
+              Cancel Appointment
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default AppointmentCancelModal;
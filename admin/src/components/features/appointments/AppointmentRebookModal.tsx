@@ -3,6 +3,8 @@
  * 
  * This component allows admins to edit the next appointment date for clients.
  * It focuses solely on updating the appointment date that appears on printed tickets.
+ * Dates and times are picked from the backend's availability, so only open days
+ * and slots with places left can be chosen.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -10,6 +12,7 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../DashboardPage.tsx} Dashboard page
+ * @see {@link ./AppointmentSlotPicker.tsx} Slot picker
  */
 
 import React, { useState } from 'react';
@@ -22,9 +25,6 @@ import {
   ModalBody,
   ModalCloseButton,
   Button,
-  FormControl,
-  FormLabel,
-  Input,
   VStack,
   HStack,
   Text,
@@ -32,10 +32,17 @@ import {
   Alert,
   AlertIcon,
   AlertDescription,
-  Box
+  Box,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Input
 } from '@chakra-ui/react';
 import { FiCalendar, FiUser } from 'react-icons/fi';
-import { api } from '../../../lib/api';
+import { api, getAvailability } from '../../../lib/api';
+import { invalidateQueries } from '../../../lib/queryCache';
+import { SlotSelection } from '../../../common/types/availability';
+import AppointmentSlotPicker from './AppointmentSlotPicker';
 
 interface AppointmentRebookModalProps {
   isOpen: boolean;
@@ -51,35 +58,21 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
   onUpdated
 }) => {
   const [isLoading, setIsLoading] = useState(false);
-  const [newDate, setNewDate] = useState('');
-  const [newTime, setNewTime] = useState('10:00');
+  const [slot, setSlot] = useState<SlotSelection | null>(null);
+  const [reason, setReason] = useState('');
   const toast = useToast();
 
   const handleSubmit = async () => {
-    if (!newDate) {
+    if (!slot?.date || !slot.time) {
       toast({
         title: 'Date Required',
-        description: 'Please select a new appointment date to reschedule.',
+        description: 'Please select a new appointment date and time to reschedule.',
         status: 'error',
         duration: 7000,
         isClosable: true,
       });
       return;
     }
-    // Ensure future date/time
-    try {
-      const candidate = new Date(`${newDate}T${newTime || '10:00'}:00`);
-      if (candidate.getTime() <= Date.now()) {
-        toast({
-          title: 'Invalid Date',
-          description: 'The appointment date must be in the future. Please select a date after today.',
-          status: 'error',
-          duration: 7000,
-          isClosable: true,
-        });
-        return;
-      }
-    } catch {}
 
     setIsLoading(true);
     try {
@@ -103,10 +96,12 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ newDate, newTime }),
+        // The reason is kept with the change in the audit trail
+        body: JSON.stringify({ newDate: slot.date, newTime: slot.time, reason: reason.trim() || undefined }),
       });
 
       if (response.ok) {
+        invalidateQueries(['/checkin/appointments', '/csv/all']);
         toast({
           title: 'Appointment Rescheduled',
           description: 'The client\'s next appointment has been successfully rescheduled.',
@@ -117,8 +112,8 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
         
         onUpdated?.();
         onClose();
-        setNewDate('');
-        setNewTime('10:00');
+        setSlot(null);
+        setReason('');
       } else {
         const error = await response.json();
         toast({
@@ -146,15 +141,15 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
   // Initialize with current next appointment date if available
   React.useEffect(() => {
     if (client?.nextAppointmentDate) {
-      setNewDate(client.nextAppointmentDate);
-    }
-    if (client?.nextAppointmentTime) {
-      setNewTime(client.nextAppointmentTime);
+      setSlot({
+        date: client.nextAppointmentDate,
+        time: client.nextAppointmentTime || '',
+      });
     }
   }, [client]);
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} size="md" isCentered>
+    <Modal isOpen={isOpen} onClose={onClose} size="lg" isCentered>
       <ModalOverlay />
       <ModalContent>
         <ModalHeader>
@@ -178,25 +173,22 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
               </Text>
             </Box>
 
-            {/* Date & Time Inputs */}
-            <FormControl isRequired>
-              <FormLabel>Next Appointment Date</FormLabel>
-              <Input
-                type="date"
-                value={newDate}
-                onChange={(e) => setNewDate(e.target.value)}
-                min={new Date().toISOString().split('T')[0]}
-              />
-            </FormControl>
+            {/* Date & Time Picker */}
+            <AppointmentSlotPicker
+              value={slot}
+              onChange={setSlot}
+              loadAvailability={getAvailability}
+            />
 
-            <FormControl isRequired>
-              <FormLabel>Next Appointment Time</FormLabel>
+            <FormControl>
+              <FormLabel fontSize="sm">Reason (optional)</FormLabel>
               <Input
-                type="time"
-                value={newTime}
-                onChange={(e) => setNewTime(e.target.value)}
-                step={300}
+                size="sm"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Client asked to move to Friday"
               />
+              <FormHelperText>Shown in the audit trail with this change</FormHelperText>
             </FormControl>
 
             {/* Info */}
@@ -217,6 +209,7 @@ const AppointmentRebookModal: React.FC<AppointmentRebookModalProps> = ({
             <Button
               colorScheme="blue"
               onClick={handleSubmit}
+              isDisabled={!slot?.time}
               isLoading={isLoading}
               loadingText="Updating..."
             >
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Appointment slot picker for Foodbank Check-In and Appointment System admin panel
+ *
+ * This component shows a month calendar and the time slots of the selected
+ * day, based on availability fetched from the backend. Closed days (weekends,
+ * holidays, days before the minimum rebooking interval) and full slots are
+ * greyed out, and each open slot shows how many places are left, so staff can
+ * only pick an appointment the backend will accept.
+ *
+ * The calendar rules are shared with the picker the client application shows
+ * when a client reschedules.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-10
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./AppointmentRebookModal.tsx} Appointment rebook modal
+ * @see {@link ../../../../../shared/appointmentSlots.ts} Shared slot logic
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  HStack,
+  IconButton,
+  SimpleGrid,
+  Spinner,
+  Text,
+  Tooltip,
+  VStack,
+} from '@chakra-ui/react';
+import { FiChevronLeft, FiChevronRight } from 'react-icons/fi';
+import { AvailabilityDay, SlotSelection } from '../../../common/types/availability';
+import {
+  formatTimeOfDay,
+  fromDateKey,
+  getCalendarDays,
+  getLeadingBlanks,
+  getMonthRange,
+  getWeekdayLabels,
+  isCurrentOrPastMonth,
+  isSlotFull,
+  toDateKey,
+  UnavailableReason,
+} from '../../../../../shared/appointmentSlots';
+
+interface AppointmentSlotPickerProps {
+  value: SlotSelection | null;
+  onChange: (value: SlotSelection | null) => void;
+  // Fetch availability for an inclusive YYYY-MM-DD range
+  loadAvailability: (from: string, to: string) => Promise<AvailabilityDay[]>;
+  locale?: string;
+}
+
+const AppointmentSlotPicker: React.FC<AppointmentSlotPickerProps> = ({
+  value,
+  onChange,
+  loadAvailability,
+  locale = 'en-US',
+}) => {
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const start = value ? fromDateKey(value.date) : new Date();
+    return new Date(start.getFullYear(), start.getMonth(), 1);
+  });
+  const [days, setDays] = useState<Record<string, AvailabilityDay>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  // Months already fetched, keyed by YYYY-MM-01
+  const loadedMonths = useRef(new Set<string>());
+
+  const monthKey = toDateKey(visibleMonth);
+
+  useEffect(() => {
+    if (loadedMonths.current.has(monthKey)) return;
+
+    let isCurrent = true;
+    const { from, to } = getMonthRange(visibleMonth);
+
+    setIsLoading(true);
+    setError(null);
+    loadAvailability(from, to)
+      .then((result) => {
+        if (!isCurrent) return;
+        loadedMonths.current.add(monthKey);
+        setDays((prev) => {
+          const next = { ...prev };
+          result.forEach((day) => {
+            next[day.date] = day;
+          });
+          return next;
+        });
+      })
+      .catch((err) => {
+        console.error('Failed to load appointment availability:', err);
+        if (isCurrent) setError('Unable to load available appointments. Please try again.');
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [monthKey, reloadCount]);
+
+  const selectedDay = value ? days[value.date] : undefined;
+  const calendarDays = getCalendarDays(visibleMonth, days);
+  const weekdayLabels = getWeekdayLabels(locale);
+
+  const describeUnavailable = (reason?: UnavailableReason): string | undefined => {
+    if (!reason) return undefined;
+    return reason.kind === 'closed' ? reason.closedReason || 'Closed' : 'Fully booked';
+  };
+
+  const changeMonth = (offset: number) => {
+    setVisibleMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  return (
+    <VStack spacing={4} align="stretch" w="full">
+      {/* Month navigation */}
+      <Flex align="center" justify="space-between">
+        <IconButton
+          aria-label="Previous month"
+          icon={<FiChevronLeft />}
+          size="sm"
+          variant="ghost"
+          onClick={() => changeMonth(-1)}
+          isDisabled={isCurrentOrPastMonth(visibleMonth)}
+        />
+        <HStack spacing={2}>
+          <Text fontWeight="semibold">
+            {visibleMonth.toLocaleDateString(locale, { month: 'long', year: 'numeric' })}
+          </Text>
+          {isLoading && <Spinner size="xs" />}
+        </HStack>
+        <IconButton
+          aria-label="Next month"
+          icon={<FiChevronRight />}
+          size="sm"
+          variant="ghost"
+          onClick={() => changeMonth(1)}
+        />
+      </Flex>
+
+      {error && (
+        <Alert status="error" borderRadius="md" fontSize="sm">
+          <AlertIcon />
+          <AlertDescription flex="1">{error}</AlertDescription>
+          <Button size="xs" onClick={() => setReloadCount((count) => count + 1)}>
+            Retry
+          </Button>
+        </Alert>
+      )}
+
+      {/* Calendar */}
+      <SimpleGrid columns={7} spacing={1}>
+        {weekdayLabels.map((label) => (
+          <Text key={label} fontSize="xs" color="gray.500" textAlign="center" fontWeight="medium">
+            {label}
+          </Text>
+        ))}
+        {Array.from({ length: getLeadingBlanks(visibleMonth) }, (_, i) => (
+          <Box key={`blank-${i}`} />
+        ))}
+        {calendarDays.map(({ key, date, isAvailable, isFull, unavailableReason }) => {
+          const isSelected = value?.date === key;
+          const reason = describeUnavailable(unavailableReason);
+
+          return (
+            <Tooltip key={key} label={reason} isDisabled={!reason} hasArrow>
+              <Button
+                size="sm"
+                h="40px"
+                px={0}
+                variant={isSelected ? 'solid' : 'ghost'}
+                colorScheme={isSelected ? 'green' : 'gray'}
+                isDisabled={!isAvailable}
+                textDecoration={isFull ? 'line-through' : undefined}
+                onClick={() => onChange({ date: key, time: '' })}
+                aria-label={date.toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric' })}
+                aria-pressed={isSelected}
+              >
+                {date.getDate()}
+              </Button>
+            </Tooltip>
+          );
+        })}
+      </SimpleGrid>
+
+      {/* Time slots for the selected day */}
+      {value && (
+        <Box>
+          <Text fontSize="sm" fontWeight="semibold" mb={2}>
+            {fromDateKey(value.date).toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric' })}
+          </Text>
+          {selectedDay && selectedDay.slots.length > 0 ? (
+            <SimpleGrid columns={{ base: 2, md: 3 }} spacing={2}>
+              {selectedDay.slots.map((slot) => {
+                const slotFull = isSlotFull(slot);
+                const isSelected = value.time === slot.time;
+                return (
+                  <Button
+                    key={slot.time}
+                    size="sm"
+                    h="auto"
+                    py={2}
+                    flexDirection="column"
+                    variant={isSelected ? 'solid' : 'outline'}
+                    colorScheme={isSelected ? 'green' : 'gray'}
+                    isDisabled={slotFull}
+                    onClick={() => onChange({ date: value.date, time: slot.time })}
+                    aria-pressed={isSelected}
+                  >
+                    <Text>{formatTimeOfDay(slot.time)}</Text>
+                    <Text fontSize="xs" fontWeight="normal">
+                      {slotFull ? 'Full' : `${slot.remaining} of ${slot.capacity} left`}
+                    </Text>
+                  </Button>
+                );
+              })}
+            </SimpleGrid>
+          ) : (
+            <Text fontSize="sm" color="gray.500">
+              No times available on this day.
+            </Text>
+          )}
+        </Box>
+      )}
+    </VStack>
+  );
+};
+
+export default AppointmentSlotPicker;
@@ -25,6 +25,7 @@ import {
   VStack,
   HStack,
   FormControl,
+  FormHelperText,
   FormLabel,
   Input,
   Textarea,
@@ -47,6 +48,7 @@ import {
   WrapItem
 } from '@chakra-ui/react';
 import { api } from '../../../lib/api';
+import { invalidateQueries } from '../../../lib/queryCache';
 
 interface ClientEditModalProps {
   isOpen: boolean;
@@ -67,6 +69,8 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [tempData, setTempData] = useState<any>(null);
+  // Sent with the permanent save and kept with the change in the audit trail
+  const [changeReason, setChangeReason] = useState('');
   const toast = useToast();
 
   useEffect(() => {
@@ -85,6 +89,7 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
         notes: client.notes || ''
       });
       setHasChanges(false);
+      setChangeReason('');
       loadTempData();
     }
   }, [client]);
@@ -135,6 +140,7 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
       
       if (response.ok) {
         const result = await response.json();
+        invalidateQueries(['/csv/all', '/checkin/appointments']);
         onSave(result.client);
         toast({
           title: 'Changes Saved',
@@ -166,6 +172,7 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
       });
       
       if (response.ok) {
+        invalidateQueries(['/csv/all', '/checkin/appointments']);
         setTempData(null);
         setHasChanges(false);
         setFormData({
@@ -201,11 +208,13 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
     
     try {
       const response = await api(`/admin/clients/${client.clientId}/save`, {
-        method: 'POST'
+        method: 'POST',
+        body: JSON.stringify({ reason: changeReason.trim() || undefined })
       });
       
       if (response.ok) {
         const result = await response.json();
+        invalidateQueries(['/csv/all', '/checkin/appointments']);
         toast({
           title: 'Changes Saved Permanently',
           description: result.message || 'Client information has been saved permanently to the system.',
@@ -401,6 +410,19 @@ const ClientEditModal: React.FC<ClientEditModalProps> = ({
               </FormControl>
             </Box>
 
+            {tempData && (
+              <FormControl>
+                <FormLabel fontSize={{ base: "sm", md: "md" }}>Reason for Change (optional)</FormLabel>
+                <Input
+                  value={changeReason}
+                  onChange={(e) => setChangeReason(e.target.value)}
+                  placeholder="e.g. Client moved and gave a new phone number"
+                  size={{ base: "sm", md: "md" }}
+                />
+                <FormHelperText>Shown in the audit trail when the changes are saved permanently</FormHelperText>
+              </FormControl>
+            )}
+
             {/* Current Dietary Display */}
             {formData.dietaryConsiderations && formData.dietaryConsiderations !== 'None' && (
               <Box>
@@ -12,7 +12,7 @@
  * @see {@link ../ClientDetailPage.tsx} Client detail page
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   VStack,
@@ -22,37 +22,17 @@ import {
   Badge,
 } from '@chakra-ui/react';
 import { useNavigate } from 'react-router-dom';
-import { api } from '../../../lib/api';
+import { useQuery } from '../../../lib/queryCache';
+import { ApiResponse } from '../../../common/types';
 
 export const ClientLookup: React.FC = () => {
-  const [allClients, setAllClients] = useState<any[]>([]);
+  // Shared with the client data viewer through the query cache
+  const { data: result, isLoading: loading } = useQuery<ApiResponse<any[]>>('/csv/all');
+  const allClients = useMemo(() => result?.data || [], [result]);
   const [searchTerm, setSearchTerm] = useState('');
   const [filteredClients, setFilteredClients] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
 
-  useEffect(() => {
-    const loadClients = async () => {
-      setLoading(true);
-      try {
-        const response = await api('/csv/all');
-        if (response.ok) {
-          const result = await response.json();
-          const clients = result.data || [];
-          setAllClients(clients);
-          setFilteredClients(clients);
-        } else {
-          console.error('Failed to load clients, status:', response.status);
-        }
-      } catch (err) {
-        console.error('Failed to load clients:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadClients();
-  }, []);
-
   // Filter clients as user types
   useEffect(() => {
     if (!searchTerm.trim()) {
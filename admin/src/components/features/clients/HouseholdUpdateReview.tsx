@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Household update review panel for Foodbank Check-In and Appointment System admin panel
+ *
+ * Shows the household changes a client proposed at check-in next to the
+ * counts on their record, with the changed rows highlighted. Staff approve a
+ * proposal to overwrite the record or reject it with an optional reason; the
+ * record never changes until one of them does.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-16
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../../common/types/householdUpdate.ts} Household update types
+ * @see {@link ../../../pages/ClientDetailPage.tsx} Client detail page
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Textarea,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { FiCheck, FiX } from 'react-icons/fi';
+import { getPendingHouseholdUpdates, reviewHouseholdUpdate } from '../../../lib/api';
+import { invalidateQueries } from '../../../lib/queryCache';
+import { logger } from '../../../utils/logger';
+import { HouseholdComposition, HouseholdUpdateRequest } from '../../../common/types/householdUpdate';
+
+interface HouseholdUpdateReviewProps {
+  clientId: string;
+  // Household counts currently on the client record
+  record: HouseholdComposition;
+  // Called with the approved counts so the page can show the updated record
+  onApproved: (household: HouseholdComposition) => void;
+}
+
+const FIELDS: Array<{ key: keyof HouseholdComposition; label: string }> = [
+  { key: 'adults', label: 'Adults' },
+  { key: 'seniors', label: 'Seniors' },
+  { key: 'children', label: 'Children' },
+  { key: 'childrensAges', label: "Children's ages" },
+];
+
+const normalizeAges = (ages: string | null | undefined): string => {
+  return String(ages || '')
+    .split(/[,;/]+/)
+    .map((age) => age.trim())
+    .filter(Boolean)
+    .join(', ');
+};
+
+const sameValue = (key: keyof HouseholdComposition, a: HouseholdComposition, b: HouseholdComposition): boolean => {
+  return key === 'childrensAges' ? normalizeAges(a[key]) === normalizeAges(b[key]) : Number(a[key]) === Number(b[key]);
+};
+
+const householdSize = (household: HouseholdComposition): number => {
+  return Number(household.adults) + Number(household.seniors) + Number(household.children);
+};
+
+const displayValue = (value: string | number): string => {
+  return value === '' || value === null || value === undefined ? '—' : String(value);
+};
+
+const HouseholdUpdateReview: React.FC<HouseholdUpdateReviewProps> = ({ clientId, record, onApproved }) => {
+  const toast = useToast();
+  const [updates, setUpdates] = useState<HouseholdUpdateRequest[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  const loadUpdates = useCallback(async () => {
+    setError(null);
+    try {
+      setUpdates(await getPendingHouseholdUpdates(clientId));
+    } catch (err: any) {
+      logger.error('Failed to load household updates:', err);
+      setError(err.message || 'Failed to load household updates');
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    loadUpdates();
+  }, [loadUpdates]);
+
+  const handleReview = async (update: HouseholdUpdateRequest, decision: 'approve' | 'reject') => {
+    setReviewingId(update.id);
+    try {
+      await reviewHouseholdUpdate(update.id, decision, decision === 'reject' ? rejectionReason.trim() || undefined : undefined);
+      setUpdates((prev) => prev.filter((candidate) => candidate.id !== update.id));
+      setRejectingId(null);
+      setRejectionReason('');
+      if (decision === 'approve') {
+        invalidateQueries(['/csv/all', '/checkin/appointments']);
+        onApproved(update.proposed);
+      }
+      toast({
+        title: decision === 'approve' ? 'Household updated' : 'Household change rejected',
+        description:
+          decision === 'approve'
+            ? 'The client record now shows the proposed household.'
+            : 'The client record was left unchanged.',
+        status: decision === 'approve' ? 'success' : 'info',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err: any) {
+      logger.error(`Failed to ${decision} household update:`, err);
+      toast({
+        title: 'Error',
+        description: err.message || `Failed to ${decision} household update`,
+        status: 'error',
+        duration: 7000,
+        isClosable: true,
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <Alert status="warning" borderRadius="md">
+        <AlertIcon />
+        <AlertDescription fontSize="sm">{error}</AlertDescription>
+        <Button size="xs" ml="auto" onClick={loadUpdates}>
+          Retry
+        </Button>
+      </Alert>
+    );
+  }
+
+  if (updates.length === 0) return null;
+
+  return (
+    <VStack spacing={4} align="stretch">
+      {updates.map((update) => {
+        // The record changed after the client saw it, e.g. staff edited it or an earlier proposal was approved
+        const recordChanged = FIELDS.some(({ key }) => !sameValue(key, update.current, record));
+        const isBusy = reviewingId === update.id;
+
+        return (
+          <Box key={update.id} p={4} border="1px solid" borderColor="orange.200" bg="orange.50" borderRadius="md">
+            <VStack spacing={3} align="stretch">
+              <HStack justify="space-between" wrap="wrap" gap={2}>
+                <HStack spacing={2}>
+                  <Heading size="sm" color="admin.primary">
+                    Household change requested
+                  </Heading>
+                  <Badge colorScheme="orange">Pending review</Badge>
+                </HStack>
+                <Text fontSize="sm" color="gray.600">
+                  Submitted {new Date(update.submittedAt).toLocaleString()}
+                </Text>
+              </HStack>
+
+              {recordChanged && (
+                <Alert status="warning" borderRadius="md" py={2}>
+                  <AlertIcon />
+                  <AlertDescription fontSize="sm">
+                    The record has changed since the client made this request. Check the current values before approving.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table size="sm" bg="white" borderRadius="md">
+                <Thead>
+                  <Tr>
+                    <Th>Field</Th>
+                    <Th>On record</Th>
+                    <Th>Proposed</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {FIELDS.map(({ key, label }) => {
+                    const changed = !sameValue(key, record, update.proposed);
+                    return (
+                      <Tr key={key} bg={changed ? 'yellow.50' : undefined}>
+                        <Td fontWeight="medium">{label}</Td>
+                        <Td color={changed ? 'gray.500' : undefined} textDecoration={changed ? 'line-through' : undefined}>
+                          {displayValue(key === 'childrensAges' ? normalizeAges(record[key]) : record[key])}
+                        </Td>
+                        <Td fontWeight={changed ? 'bold' : undefined}>
+                          {displayValue(key === 'childrensAges' ? normalizeAges(update.proposed[key]) : update.proposed[key])}
+                        </Td>
+                      </Tr>
+                    );
+                  })}
+                  <Tr>
+                    <Td fontWeight="medium">Household size</Td>
+                    <Td>{householdSize(record)}</Td>
+                    <Td fontWeight={householdSize(record) !== householdSize(update.proposed) ? 'bold' : undefined}>
+                      {householdSize(update.proposed)}
+                    </Td>
+                  </Tr>
+                </Tbody>
+              </Table>
+
+              {update.note && (
+                <Box>
+                  <Text fontSize="sm" fontWeight="bold">
+                    Client note:
+                  </Text>
+                  <Text fontSize="sm" whiteSpace="pre-wrap">
+                    {update.note}
+                  </Text>
+                </Box>
+              )}
+
+              {rejectingId === update.id ? (
+                <VStack spacing={2} align="stretch">
+                  <Textarea
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(e.target.value)}
+                    placeholder="Reason for rejecting (optional, kept with the request)"
+                    size="sm"
+                    bg="white"
+                    rows={2}
+                  />
+                  <HStack justify="flex-end">
+                    <Button size="sm" variant="ghost" onClick={() => setRejectingId(null)} isDisabled={isBusy}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      colorScheme="red"
+                      leftIcon={<FiX />}
+                      onClick={() => handleReview(update, 'reject')}
+                      isLoading={isBusy}
+                    >
+                      Reject change
+                    </Button>
+                  </HStack>
+                </VStack>
+              ) : (
+                <HStack justify="flex-end">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    colorScheme="red"
+                    leftIcon={<FiX />}
+                    onClick={() => {
+                      setRejectingId(update.id);
+                      setRejectionReason('');
+                    }}
+                    isDisabled={!!reviewingId}
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    colorScheme="green"
+                    leftIcon={<FiCheck />}
+                    onClick={() => handleReview(update, 'approve')}
+                    isLoading={isBusy}
+                    isDisabled={!!reviewingId && !isBusy}
+                  >
+                    Approve
+                  </Button>
+                </HStack>
+              )}
+            </VStack>
+          </Box>
+        );
+      })}
+    </VStack>
+  );
+};
+
+export default HouseholdUpdateReview;
@@ -13,7 +13,7 @@
  * @see {@link ../CSVUploader.tsx} CSV uploader component
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   VStack,
@@ -46,24 +46,23 @@ import {
 } from '@chakra-ui/react';
 import { FiSearch, FiRefreshCw, FiDownload, FiEye } from 'react-icons/fi';
 import { useToast } from '@chakra-ui/react';
-import { api } from '../../../lib/api';
+import { useQuery } from '../../../lib/queryCache';
+import { ApiResponse } from '../../../common/types';
 import { formatPhoneNumberShort } from '../../../common/utils/phoneFormatter';
+import { useAuth } from '../../../contexts/AuthContext';
 
 const CSVDataViewer: React.FC = () => {
-  const [allData, setAllData] = useState<any[]>([]);
+  // Client records, shared with client lookup and the client pages through the query cache
+  const { data: result, error: fetchError, isLoading: loading, refresh } = useQuery<ApiResponse<any[]>>('/csv/all');
+  const allData = useMemo(() => result?.data || [], [result]);
+  const totalRecords = allData.length;
+  const error = fetchError ? 'No client check-ins were found. Please upload a CSV file.' : null;
   const [filteredData, setFilteredData] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [totalRecords, setTotalRecords] = useState(0);
   const { isOpen, onOpen, onClose } = useDisclosure();
   const [selectedRecord, setSelectedRecord] = useState<any>(null);
   const toast = useToast();
-
-  // Load data on mount
-  useEffect(() => {
-    loadData();
-  }, []);
+  const { can } = useAuth();
 
   // Filter data when search term changes
   useEffect(() => {
@@ -88,29 +87,6 @@ const CSVDataViewer: React.FC = () => {
     }
   }, [searchTerm, allData]);
 
-  const loadData = async () => {
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await api('/csv/all');
-      if (response.ok) {
-        const result = await response.json();
-        const data = result.data || [];
-        setAllData(data);
-        setFilteredData(data);
-        setTotalRecords(data.length);
-      } else {
-        setError('No client check-ins were found. Please upload a CSV file.');
-      }
-    } catch (err) {
-      setError('No client check-ins were found. Please upload a CSV file.');
-      console.error('Error loading data:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleViewDetails = (record: any) => {
     setSelectedRecord(record);
     onOpen();
@@ -226,21 +202,23 @@ const CSVDataViewer: React.FC = () => {
         <HStack spacing={2}>
           <Button
             leftIcon={<FiRefreshCw />}
-            onClick={loadData}
+            onClick={() => refresh()}
             size="sm"
             variant="outline"
           >
             Refresh
           </Button>
-          <Button
-            leftIcon={<FiDownload />}
-            onClick={exportToCSV}
-            size="sm"
-            colorScheme="blue"
-            isDisabled={filteredData.length === 0}
-          >
-            Export CSV
-          </Button>
+          {can('data.export') && (
+            <Button
+              leftIcon={<FiDownload />}
+              onClick={exportToCSV}
+              size="sm"
+              colorScheme="blue"
+              isDisabled={filteredData.length === 0}
+            >
+              Export CSV
+            </Button>
+          )}
         </HStack>
       </Flex>
 
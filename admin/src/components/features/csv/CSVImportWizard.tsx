@@ -0,0 +1,517 @@
+/**
+ * @fileoverview CSV import wizard for Foodbank Check-In and Appointment System admin panel
+ *
+ * This modal sits between choosing a CSV file and uploading it. The first step
+ * shows which column of the file feeds each appointment field, matched
+ * automatically from the headers and adjustable by hand. The second step
+ * validates every row against that mapping and lists the problems (a badly
+ * formatted pick up date, a missing phone number, a household count that
+ * isn't a number) so they can be fixed in the file, or those rows left out,
+ * before anything reaches the server.
+ *
+ * Workbooks with several sheets ask which one holds the appointments. When a
+ * saved import profile matches the file's headers it is applied right away;
+ * the mapping, with its date format, transformations and fallback values, can
+ * be saved as a new profile or update the one in use.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-21
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./CSVUploader.tsx} CSV uploader component
+ * @see {@link ../../../utils/csvImport.ts} CSV parsing, mapping and validation
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { saveImportProfile } from '../../../lib/api';
+import { invalidateQueries, useQuery } from '../../../lib/queryCache';
+import { CSVFieldMapping, ImportSheet } from '../../../common/types';
+import { ImportProfilesResponse } from '../../../common/types/importProfiles';
+import {
+  CSV_IMPORT_FIELDS,
+  DATE_FORMATS,
+  applyImportProfile,
+  autoMapHeaders,
+  buildMappedCSV,
+  detectImportProfile,
+  formatDateExample,
+  getMappedValue,
+  getUnmappedRequiredFields,
+  validateRows,
+} from '../../../utils/csvImport';
+
+// Enough to see what's wrong without rendering thousands of table rows
+const MAX_LISTED_ERRORS = 100;
+const PREVIEW_ROWS = 5;
+
+const TRANSFORMATIONS: Array<{ value: NonNullable<CSVFieldMapping['transformation']>; label: string }> = [
+  { value: 'trim', label: 'As is' },
+  { value: 'capitalize', label: 'Capitalize Words' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+];
+
+interface CSVImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: File | null;
+  // A CSV file is one sheet; a workbook may have several
+  sheets: ImportSheet[];
+  // Profile chosen on the upload page; empty to detect one from the headers
+  profileId?: string;
+  // Called with the mapped file, ready for /csv/upload
+  onConfirm: (file: File) => void;
+}
+
+const fieldLabel = (targetField: string): string => {
+  return CSV_IMPORT_FIELDS.find((field) => field.targetField === targetField)?.label || targetField;
+};
+
+const CSVImportWizard: React.FC<CSVImportWizardProps> = ({ isOpen, onClose, file, sheets, profileId, onConfirm }) => {
+  const toast = useToast();
+  const { data: profilesResult } = useQuery<ImportProfilesResponse>('/csv/profiles');
+  const profiles = useMemo(() => profilesResult?.data?.profiles || [], [profilesResult]);
+
+  const [step, setStep] = useState<'mapping' | 'review'>('mapping');
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mappings, setMappings] = useState<CSVFieldMapping[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState('');
+  const [isDetectedProfile, setIsDetectedProfile] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+
+  const parsed = sheets[sheetIndex]?.data || null;
+
+  // Start on the first sheet with appointments in it
+  useEffect(() => {
+    if (isOpen) {
+      setSheetIndex(Math.max(0, sheets.findIndex((sheet) => sheet.data.rows.length > 0)));
+    }
+  }, [isOpen, sheets]);
+
+  useEffect(() => {
+    if (!isOpen || !parsed) return;
+
+    const chosen = profileId ? profiles.find((profile) => profile.id === profileId) : undefined;
+    const profile = chosen || (profileId ? null : detectImportProfile(parsed.headers, profiles));
+    setMappings(profile ? applyImportProfile(parsed.headers, profile) : autoMapHeaders(parsed.headers));
+    setActiveProfileId(profile?.id || '');
+    setIsDetectedProfile(!!profile && !chosen);
+    setProfileName(profile?.name || '');
+    setStep('mapping');
+    setSkipInvalidRows(false);
+    // Profiles loading later shouldn't overwrite a mapping being edited
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, parsed, profileId]);
+
+  const unmappedRequired = useMemo(() => getUnmappedRequiredFields(mappings), [mappings]);
+
+  const errors = useMemo(
+    () => (parsed && step === 'review' ? validateRows(parsed, mappings) : []),
+    [parsed, mappings, step]
+  );
+  const invalidRows = useMemo(() => new Set(errors.map((error) => error.row)), [errors]);
+
+  if (!parsed || !file) return null;
+
+  const unusedHeaders = parsed.headers.filter(
+    (header) => header && !mappings.some((mapping) => mapping.sourceField === header)
+  );
+  const validRowCount = parsed.rows.length - invalidRows.size;
+  const mappedFields = mappings.filter((mapping) => mapping.sourceField);
+  const canUpload = validRowCount > 0 && (invalidRows.size === 0 || skipInvalidRows);
+
+  const handleMappingChange = (targetField: string, sourceField: string) => {
+    setMappings((prev) =>
+      prev.map((mapping) => {
+        if (mapping.targetField === targetField) return { ...mapping, sourceField };
+        // A column feeds one field; move it rather than map it twice
+        if (sourceField && mapping.sourceField === sourceField) return { ...mapping, sourceField: '' };
+        return mapping;
+      })
+    );
+  };
+
+  const updateMapping = (targetField: string, changes: Partial<CSVFieldMapping>) => {
+    setMappings((prev) =>
+      prev.map((mapping) => (mapping.targetField === targetField ? { ...mapping, ...changes } : mapping))
+    );
+  };
+
+  const handleProfileChange = (id: string) => {
+    const profile = profiles.find((candidate) => candidate.id === id);
+    setMappings(profile ? applyImportProfile(parsed.headers, profile) : autoMapHeaders(parsed.headers));
+    setActiveProfileId(profile?.id || '');
+    setIsDetectedProfile(false);
+    setProfileName(profile?.name || '');
+  };
+
+  const handleSaveProfile = async () => {
+    const name = profileName.trim();
+    if (!name) return;
+
+    // Saving under an existing name updates that profile
+    const existing = profiles.find((profile) => profile.name.toLowerCase() === name.toLowerCase());
+    setIsSavingProfile(true);
+    try {
+      const saved = await saveImportProfile({ name, headers: parsed.headers, mappings }, existing?.id);
+      setActiveProfileId(saved.id);
+      setIsDetectedProfile(false);
+      invalidateQueries(['/csv/profiles']);
+      toast({
+        title: existing ? `Profile "${saved.name}" updated` : `Profile "${saved.name}" saved`,
+        description: 'Files with the same columns will use it automatically',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err: any) {
+      toast({
+        title: 'Failed to save profile',
+        description: err.message,
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleUpload = () => {
+    const csv = buildMappedCSV(parsed, mappings, skipInvalidRows ? invalidRows : undefined);
+    const name = file.name.replace(/\.[^.]+$/, '') + '.csv';
+    onConfirm(new File([csv], name, { type: 'text/csv' }));
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="6xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader color="#25385D">
+          {step === 'mapping' ? 'Match columns' : 'Review rows'}
+          <Text fontSize="sm" fontWeight="normal" color="gray.500">
+            Step {step === 'mapping' ? 1 : 2} of 2 · {file.name}
+            {sheets.length > 1 ? ` · ${sheets[sheetIndex].name}` : ''} · {parsed.rows.length} rows
+          </Text>
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          {step === 'mapping' ? (
+            <VStack spacing={4} align="stretch">
+              <HStack spacing={4} align="end" flexWrap="wrap">
+                {sheets.length > 1 && (
+                  <FormControl maxW="260px">
+                    <FormLabel fontSize="sm">Sheet</FormLabel>
+                    <Select size="sm" value={sheetIndex} onChange={(e) => setSheetIndex(Number(e.target.value))}>
+                      {sheets.map((sheet, index) => (
+                        <option key={sheet.name} value={index}>
+                          {sheet.name} ({sheet.data.rows.length} rows)
+                        </option>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+                <FormControl maxW="320px">
+                  <FormLabel fontSize="sm">
+                    Import profile
+                    {isDetectedProfile && (
+                      <Badge ml={2} colorScheme="green">
+                        Detected
+                      </Badge>
+                    )}
+                  </FormLabel>
+                  <Select size="sm" value={activeProfileId} onChange={(e) => handleProfileChange(e.target.value)}>
+                    <option value="">None - match by header names</option>
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+              </HStack>
+
+              <Text fontSize="sm" color="gray.600">
+                Choose the column in your file for each field and how its values should be read. Check the sample
+                values from the first row.
+              </Text>
+
+              {unmappedRequired.length > 0 && (
+                <Alert status="warning" borderRadius="md">
+                  <AlertIcon />
+                  <AlertDescription fontSize="sm">
+                    No column chosen for {unmappedRequired.map((field) => field.label).join(', ')}. These fields are
+                    required.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <TableContainer>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Field</Th>
+                      <Th>Column in file</Th>
+                      <Th>Format</Th>
+                      <Th>If empty</Th>
+                      <Th>First row</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {mappings.map((mapping) => (
+                      <Tr key={mapping.targetField}>
+                        <Td fontWeight="medium">
+                          {fieldLabel(mapping.targetField)}
+                          {mapping.required && (
+                            <Text as="span" color="red.500">
+                              {' '}*
+                            </Text>
+                          )}
+                        </Td>
+                        <Td>
+                          <Select
+                            size="sm"
+                            value={mapping.sourceField}
+                            onChange={(e) => handleMappingChange(mapping.targetField, e.target.value)}
+                            placeholder="Not in file"
+                            borderColor={mapping.required && !mapping.sourceField ? 'orange.400' : undefined}
+                          >
+                            {parsed.headers.filter(Boolean).map((header) => (
+                              <option key={header} value={header}>
+                                {header}
+                              </option>
+                            ))}
+                          </Select>
+                        </Td>
+                        <Td>
+                          {mapping.dataType === 'date' ? (
+                            <Select
+                              size="sm"
+                              value={mapping.dateFormat}
+                              onChange={(e) => updateMapping(mapping.targetField, { dateFormat: e.target.value })}
+                              isDisabled={!mapping.sourceField}
+                            >
+                              {DATE_FORMATS.map((dateFormat) => (
+                                <option key={dateFormat} value={dateFormat}>
+                                  {formatDateExample(dateFormat)}
+                                </option>
+                              ))}
+                            </Select>
+                          ) : mapping.dataType === 'string' ? (
+                            <Select
+                              size="sm"
+                              value={mapping.transformation || 'trim'}
+                              onChange={(e) =>
+                                updateMapping(mapping.targetField, {
+                                  transformation: e.target.value as CSVFieldMapping['transformation'],
+                                })
+                              }
+                              isDisabled={!mapping.sourceField}
+                            >
+                              {TRANSFORMATIONS.map((transformation) => (
+                                <option key={transformation.value} value={transformation.value}>
+                                  {transformation.label}
+                                </option>
+                              ))}
+                            </Select>
+                          ) : null}
+                        </Td>
+                        <Td>
+                          <Input
+                            size="sm"
+                            maxW="120px"
+                            value={mapping.fallbackValue || ''}
+                            onChange={(e) => updateMapping(mapping.targetField, { fallbackValue: e.target.value })}
+                            placeholder="—"
+                            isDisabled={!mapping.sourceField}
+                          />
+                        </Td>
+                        <Td maxW="240px" whiteSpace="normal">
+                          <Text fontSize="sm" color="gray.600" noOfLines={2}>
+                            {mapping.sourceField && parsed.rows[0] ? getMappedValue(parsed, parsed.rows[0], mapping) : '—'}
+                          </Text>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </TableContainer>
+
+              {unusedHeaders.length > 0 && (
+                <Text fontSize="sm" color="gray.500">
+                  Other columns are uploaded as they are: {unusedHeaders.join(', ')}
+                </Text>
+              )}
+
+              <HStack spacing={3} pt={2} borderTop="1px" borderColor="gray.100">
+                <Input
+                  size="sm"
+                  maxW="280px"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder="Profile name, e.g. Link2Feed 2025"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleSaveProfile}
+                  isLoading={isSavingProfile}
+                  isDisabled={!profileName.trim()}
+                >
+                  {profiles.some((profile) => profile.name.toLowerCase() === profileName.trim().toLowerCase())
+                    ? 'Update profile'
+                    : 'Save as profile'}
+                </Button>
+              </HStack>
+            </VStack>
+          ) : (
+            <VStack spacing={4} align="stretch">
+              {invalidRows.size === 0 ? (
+                <Alert status="success" borderRadius="md">
+                  <AlertIcon />
+                  <AlertDescription fontSize="sm">All {parsed.rows.length} rows are valid.</AlertDescription>
+                </Alert>
+              ) : (
+                <Alert status="error" borderRadius="md">
+                  <AlertIcon />
+                  <AlertDescription fontSize="sm">
+                    {invalidRows.size} of {parsed.rows.length} rows have problems. Fix them in the file and choose it
+                    again, or leave those rows out of the upload.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {errors.length > 0 && (
+                <>
+                  <TableContainer maxH="320px" overflowY="auto" border="1px" borderColor="gray.200" borderRadius="md">
+                    <Table size="sm">
+                      <Thead position="sticky" top={0} bg="white">
+                        <Tr>
+                          <Th>Row</Th>
+                          <Th>Field</Th>
+                          <Th>Value</Th>
+                          <Th>Problem</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                          <Tr key={`${error.row}-${error.field}`}>
+                            <Td>{error.row}</Td>
+                            <Td>{error.field ? fieldLabel(error.field) : '—'}</Td>
+                            <Td maxW="180px" whiteSpace="normal">
+                              <Text fontSize="sm" noOfLines={2}>
+                                {error.value || <Badge colorScheme="gray">empty</Badge>}
+                              </Text>
+                            </Td>
+                            <Td whiteSpace="normal" fontSize="sm" color="red.600">
+                              {error.message}
+                            </Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                  {errors.length > MAX_LISTED_ERRORS && (
+                    <Text fontSize="sm" color="gray.500">
+                      Showing the first {MAX_LISTED_ERRORS} of {errors.length} problems.
+                    </Text>
+                  )}
+                  <Checkbox isChecked={skipInvalidRows} onChange={(e) => setSkipInvalidRows(e.target.checked)}>
+                    Leave out the {invalidRows.size} rows with problems and upload the other {validRowCount}
+                  </Checkbox>
+                </>
+              )}
+
+              <Box>
+                <Text fontWeight="medium" fontSize="sm" mb={2}>
+                  Preview
+                </Text>
+                <TableContainer border="1px" borderColor="gray.200" borderRadius="md">
+                  <Table size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Row</Th>
+                        {mappedFields.map((mapping) => (
+                          <Th key={mapping.targetField}>{fieldLabel(mapping.targetField)}</Th>
+                        ))}
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {parsed.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                        <Tr key={index} bg={invalidRows.has(index + 2) ? 'red.50' : undefined}>
+                          <Td>{index + 2}</Td>
+                          {mappedFields.map((mapping) => (
+                            <Td key={mapping.targetField}>{getMappedValue(parsed, row, mapping)}</Td>
+                          ))}
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            </VStack>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            {step === 'mapping' ? (
+              <>
+                <Button variant="ghost" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button colorScheme="blue" onClick={() => setStep('review')} isDisabled={unmappedRequired.length > 0}>
+                  Check rows
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" onClick={() => setStep('mapping')}>
+                  Back
+                </Button>
+                <Button colorScheme="blue" onClick={handleUpload} isDisabled={!canUpload}>
+                  Upload {skipInvalidRows ? validRowCount : parsed.rows.length} rows
+                </Button>
+              </>
+            )}
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default CSVImportWizard;
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Merge review for Foodbank Check-In and Appointment System admin panel
+ *
+ * This modal opens instead of a plain upload when the day's appointments are
+ * already loaded, e.g. when a corrected export arrives mid-day. It lists what
+ * the new file would change: new clients, changed fields, appointments the
+ * file no longer has, and clients who already checked in. Staff tick the
+ * changes to apply; everything else about the loaded appointments, including
+ * check-in progress, is kept.
+ *
+ * Changes to clients who already checked in are listed but not selected, and
+ * their appointments can't be removed.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-23
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./CSVUploader.tsx} CSV uploader component
+ * @see {@link ../../../utils/appointmentDiff.ts} Appointment diff
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  HStack,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { mergeAppointments } from '../../../lib/api';
+import { ParsedCSV } from '../../../common/types';
+import { AppointmentDiffEntry, AppointmentMergeResult } from '../../../common/types/appointmentMerge';
+import { getStatusColorScheme } from '../../../common/utils/statusColors';
+import { buildMergeRequest } from '../../../utils/appointmentDiff';
+import { CSV_IMPORT_FIELDS } from '../../../utils/csvImport';
+
+interface CSVMergeReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  // The file as it left the import wizard, with the standard headers
+  parsed: ParsedCSV | null;
+  entries: AppointmentDiffEntry[];
+  onMerged: (result: AppointmentMergeResult) => void;
+}
+
+type SectionId = 'new' | 'changed' | 'removed' | 'checkedIn';
+
+const SECTIONS: Array<{ id: SectionId; title: string; description: string }> = [
+  { id: 'new', title: 'New clients', description: 'In the new file but not loaded yet' },
+  { id: 'changed', title: 'Changed', description: 'Loaded appointments with different details in the new file' },
+  { id: 'removed', title: 'Removed', description: 'Loaded from an earlier file but missing from this one' },
+  {
+    id: 'checkedIn',
+    title: 'Already checked in',
+    description: 'Changes for clients who checked in or were already handled. Apply with care.',
+  },
+];
+
+const sectionOf = (entry: AppointmentDiffEntry): SectionId | null => {
+  if (entry.kind === 'unchanged') return null;
+  if (entry.kind === 'new') return 'new';
+  if (entry.isCheckedIn) return 'checkedIn';
+  return entry.kind;
+};
+
+const entryKey = (entry: AppointmentDiffEntry): string => `${entry.kind}:${entry.clientId}`;
+
+// Checked-in appointments can't be removed, so there is nothing to select
+const isSelectable = (entry: AppointmentDiffEntry): boolean => !(entry.kind === 'removed' && entry.isCheckedIn);
+
+const fieldLabel = (field: string): string => {
+  return CSV_IMPORT_FIELDS.find((candidate) => candidate.targetField === field)?.label || field;
+};
+
+const CSVMergeReviewModal: React.FC<CSVMergeReviewModalProps> = ({
+  isOpen,
+  onClose,
+  fileName,
+  parsed,
+  entries,
+  onMerged,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const sections = useMemo(() => {
+    const grouped = new Map<SectionId, AppointmentDiffEntry[]>(SECTIONS.map((section) => [section.id, []]));
+    entries.forEach((entry) => {
+      const section = sectionOf(entry);
+      if (section) grouped.get(section)!.push(entry);
+    });
+    return grouped;
+  }, [entries]);
+
+  const unchangedCount = entries.filter((entry) => entry.kind === 'unchanged').length;
+  const differenceCount = entries.length - unchangedCount;
+
+  // Everything except changes to checked-in clients starts selected
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(
+        new Set(
+          entries
+            .filter((entry) => sectionOf(entry) && sectionOf(entry) !== 'checkedIn')
+            .map(entryKey)
+        )
+      );
+      setApplyError(null);
+    }
+  }, [isOpen, entries]);
+
+  const toggle = (keys: string[], isChecked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => (isChecked ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!parsed) return;
+    setIsApplying(true);
+    setApplyError(null);
+    try {
+      const result = await mergeAppointments(
+        buildMergeRequest(
+          parsed,
+          entries.filter((entry) => selected.has(entryKey(entry)))
+        )
+      );
+      onMerged(result);
+    } catch (err: any) {
+      setApplyError(err.message || 'Failed to apply changes');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const renderDetails = (entry: AppointmentDiffEntry) => {
+    if (entry.kind === 'new') {
+      return (
+        <Text fontSize="sm" color="gray.600">
+          {entry.values?.pickUpDate}
+          {entry.values?.phoneNumber ? ` · ${entry.values.phoneNumber}` : ''}
+        </Text>
+      );
+    }
+    if (entry.kind === 'removed') {
+      return (
+        <Text fontSize="sm" color="gray.600">
+          {entry.isCheckedIn ? 'Not in the new file. Kept, because the client already checked in.' : 'Not in the new file'}
+        </Text>
+      );
+    }
+    return (
+      <VStack align="start" spacing={0}>
+        {entry.changes.map((change) => (
+          <Text key={change.field} fontSize="sm">
+            <Text as="span" fontWeight="medium">
+              {fieldLabel(change.field)}:
+            </Text>{' '}
+            <Text as="span" color="gray.500" textDecoration="line-through">
+              {change.before || 'empty'}
+            </Text>{' '}
+            → {change.after || 'empty'}
+          </Text>
+        ))}
+      </VStack>
+    );
+  };
+
+  const selectedCount = entries.filter((entry) => selected.has(entryKey(entry)) && isSelectable(entry)).length;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader color="#25385D">
+          Review changes
+          <Text fontSize="sm" fontWeight="normal" color="gray.500">
+            {fileName} compared with today's loaded appointments
+          </Text>
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            {applyError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {applyError}
+              </Alert>
+            )}
+
+            <Wrap spacing={2}>
+              {SECTIONS.map((section) => (
+                <WrapItem key={section.id}>
+                  <Badge colorScheme={section.id === 'checkedIn' ? 'orange' : 'blue'} px={2} py={1}>
+                    {sections.get(section.id)!.length} {section.title.toLowerCase()}
+                  </Badge>
+                </WrapItem>
+              ))}
+              <WrapItem>
+                <Badge colorScheme="gray" px={2} py={1}>
+                  {unchangedCount} unchanged
+                </Badge>
+              </WrapItem>
+            </Wrap>
+
+            {differenceCount === 0 && (
+              <Alert status="success" borderRadius="md">
+                <AlertIcon />
+                <AlertDescription fontSize="sm">
+                  The new file matches the loaded appointments. There is nothing to change.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {SECTIONS.map((section) => {
+              const sectionEntries = sections.get(section.id)!;
+              if (sectionEntries.length === 0) return null;
+              const keys = sectionEntries.filter(isSelectable).map(entryKey);
+              const selectedInSection = keys.filter((key) => selected.has(key)).length;
+
+              return (
+                <Box key={section.id}>
+                  <HStack justify="space-between" mb={1}>
+                    <Checkbox
+                      isChecked={keys.length > 0 && selectedInSection === keys.length}
+                      isIndeterminate={selectedInSection > 0 && selectedInSection < keys.length}
+                      isDisabled={keys.length === 0}
+                      onChange={(e) => toggle(keys, e.target.checked)}
+                      fontWeight="600"
+                    >
+                      {section.title} ({sectionEntries.length})
+                    </Checkbox>
+                  </HStack>
+                  <Text fontSize="sm" color="gray.500" mb={2}>
+                    {section.description}
+                  </Text>
+                  <TableContainer maxH="260px" overflowY="auto" border="1px" borderColor="gray.200" borderRadius="md">
+                    <Table size="sm">
+                      <Thead position="sticky" top={0} bg="white">
+                        <Tr>
+                          <Th w="40px" />
+                          <Th>Client #</Th>
+                          <Th>Name</Th>
+                          {section.id === 'checkedIn' && <Th>Status</Th>}
+                          <Th>Details</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {sectionEntries.map((entry) => (
+                          <Tr key={entryKey(entry)}>
+                            <Td>
+                              <Checkbox
+                                isChecked={isSelectable(entry) && selected.has(entryKey(entry))}
+                                isDisabled={!isSelectable(entry)}
+                                onChange={(e) => toggle([entryKey(entry)], e.target.checked)}
+                                aria-label={`Apply change for client ${entry.clientId}`}
+                              />
+                            </Td>
+                            <Td>{entry.clientId}</Td>
+                            <Td>{entry.existing?.clientName || entry.values?.name}</Td>
+                            {section.id === 'checkedIn' && (
+                              <Td>
+                                <Badge colorScheme={getStatusColorScheme(entry.existing?.status || '')}>
+                                  {entry.existing?.status}
+                                </Badge>
+                              </Td>
+                            )}
+                            <Td whiteSpace="normal">{renderDetails(entry)}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                </Box>
+              );
+            })}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isApplying}>
+              {differenceCount === 0 ? 'Close' : 'Cancel'}
+            </Button>
+            {differenceCount > 0 && (
+              <Button colorScheme="blue" onClick={handleApply} isLoading={isApplying} isDisabled={selectedCount === 0}>
+                Apply {selectedCount} {selectedCount === 1 ? 'change' : 'changes'}
+              </Button>
+            )}
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default CSVMergeReviewModal;
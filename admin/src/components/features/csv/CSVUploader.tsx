@@ -3,7 +3,11 @@
  * 
  * This component handles CSV file uploads with drag-and-drop functionality,
  * file validation, and progress tracking. It provides a user-friendly
- * interface for bulk appointment data import.
+ * interface for bulk appointment data import. Chosen files (CSV or Excel
+ * .xlsx) are read in the browser and go through the import wizard (column
+ * matching and row validation) before they are uploaded as CSV. When the
+ * day's appointments are already loaded, the file is compared with them and
+ * staff choose which differences to apply instead of uploading over the top.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -11,6 +15,8 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../CSVUploadPage.tsx} CSV upload page
+ * @see {@link ./CSVImportWizard.tsx} CSV import wizard
+ * @see {@link ./CSVMergeReviewModal.tsx} Merge review
  */
 
 import React, { useState, useCallback } from 'react';
@@ -21,12 +27,23 @@ import {
 } from '@chakra-ui/react';
 import { FiUpload, FiFile, FiInfo, FiAlertCircle } from 'react-icons/fi';
 import { api } from '../../../lib/api';
+import { fetchQuery, invalidateQueries } from '../../../lib/queryCache';
+import { ApiResponse, DayStatusResponse, ImportSheet, ParsedCSV } from '../../../common/types';
+import { CheckInRecord } from '../../../common/types/checkIn';
+import { AppointmentDiffEntry, AppointmentMergeResult } from '../../../common/types/appointmentMerge';
+import { diffAppointments } from '../../../utils/appointmentDiff';
+import { parseCSV } from '../../../utils/csvImport';
+import { readXLSX } from '../../../utils/xlsxReader';
+import CSVImportWizard from './CSVImportWizard';
+import CSVMergeReviewModal from './CSVMergeReviewModal';
 
 interface CSVUploaderProps {
   onUploadSuccess?: () => void;
+  // Import profile to map files with; empty to detect one from the headers
+  profileId?: string;
 }
 
-const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
+const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess, profileId }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [dragActive, setDragActive] = useState(false);
@@ -34,15 +51,31 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
   const [pendingFile, setPendingFile] = useState<File | null>(null);
   const [dateMismatchWarning, setDateMismatchWarning] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [wizardFile, setWizardFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<ImportSheet[]>([]);
+  const [mergeReview, setMergeReview] = useState<{
+    fileName: string;
+    parsed: ParsedCSV;
+    entries: AppointmentDiffEntry[];
+  } | null>(null);
   const toast = useToast();
   
   const closeModal = () => setIsModalOpen(false);
 
-  const handleFileSelect = (file: File) => {
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+  const closeWizard = () => {
+    setWizardFile(null);
+    setSheets([]);
+  };
+
+  const handleFileSelect = async (file: File) => {
+    const fileName = file.name.toLowerCase();
+    const isWorkbook = fileName.endsWith('.xlsx');
+    if (!fileName.endsWith('.csv') && !isWorkbook) {
       toast({
         title: 'Invalid File Type',
-        description: 'Please select a CSV file exported from Link2Feed. The file must have a .csv extension.',
+        description: fileName.endsWith('.xls')
+          ? 'Older Excel (.xls) workbooks are not supported. Please save the file as .xlsx or .csv and try again.'
+          : 'Please select a CSV file exported from Link2Feed, or an Excel workbook (.xlsx).',
         status: 'error',
         duration: 7000,
         isClosable: true,
@@ -61,34 +94,86 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
       return;
     }
 
-    uploadFile(file);
+    let fileSheets: ImportSheet[];
+    try {
+      fileSheets = isWorkbook ? await readXLSX(file) : [{ name: file.name, data: parseCSV(await file.text()) }];
+    } catch (error) {
+      toast({
+        title: isWorkbook ? 'Unreadable Excel File' : 'Unreadable CSV File',
+        description: error instanceof Error ? error.message : 'The file could not be read.',
+        status: 'error',
+        duration: 7000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    if (fileSheets.every((sheet) => sheet.data.rows.length === 0)) {
+      toast({
+        title: 'No Appointments Found',
+        description: isWorkbook
+          ? 'None of the sheets in the workbook have rows below their header row.'
+          : 'The file only contains a header row. Please export the appointments again from Link2Feed.',
+        status: 'error',
+        duration: 7000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    setSheets(fileSheets);
+    setWizardFile(file);
+  };
+
+  const handleWizardConfirm = (mappedFile: File) => {
+    closeWizard();
+    uploadFile(mappedFile);
   };
 
   const uploadFile = async (file: File) => {
-    // Warn if data already exists
+    let loadedCount: number | null = null;
     try {
-      const statusResponse = await api('/status/day');
-      const statusResult = await statusResponse.json();
-      
-      if (statusResult.success && statusResult.data?.present) {
-        const confirmed = window.confirm(
-          '⚠️ CSV data already exists in the system!\n\n' +
-          `Current records: ${statusResult.data.count}\n\n` +
-          'If you upload a new CSV file:\n' +
-          '• Duplicate records will be skipped\n' +
-          '• Only new clients will be added\n' +
-          '• Existing client data will be preserved\n\n' +
-          'Do you want to continue with the upload?'
-        );
-        
-        if (!confirmed) {
-          return;
-        }
+      const statusResult = await fetchQuery<DayStatusResponse>('/status/day', undefined, { force: true });
+      if (statusResult.success && statusResult.data?.data.present) {
+        loadedCount = statusResult.data.data.count;
       }
     } catch (error) {
       // Continue with upload if check fails
     }
 
+    // Data already loaded: review the differences instead of uploading over it
+    if (loadedCount !== null) {
+      try {
+        const [appointments, text] = await Promise.all([
+          fetchQuery<ApiResponse<CheckInRecord[]>>('/checkin/appointments', undefined, { force: true }),
+          file.text(),
+        ]);
+        if (!appointments.success) {
+          throw new Error(appointments.error || 'Failed to load appointments');
+        }
+        const parsed = parseCSV(text);
+        setMergeReview({ fileName: file.name, parsed, entries: diffAppointments(parsed, appointments.data || []) });
+        return;
+      } catch (error) {
+        console.error('Failed to compare with loaded appointments:', error);
+      }
+
+      // Couldn't compare - ask before uploading over the loaded data
+      const confirmed = window.confirm(
+        '⚠️ CSV data already exists in the system!\n\n' +
+        `Current records: ${loadedCount}\n\n` +
+        'The new file could not be compared with it. If you upload it anyway:\n' +
+        '• Duplicate records will be skipped\n' +
+        '• Only new clients will be added\n' +
+        '• Existing client data will be preserved\n\n' +
+        'Do you want to continue with the upload?'
+      );
+
+      if (!confirmed) {
+        return;
+      }
+    }
+
     setIsUploading(true);
     setUploadProgress(0);
     setUploadResult(null);
@@ -163,10 +248,8 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
           onUploadSuccess();
         }
         
-        // Trigger immediate status refresh to start polling
-        window.dispatchEvent(new CustomEvent('csvDataImported', { 
-          detail: { count: result.count } 
-        }));
+        // Every open view refetches the new day's data
+        invalidateQueries();
       } else {
         setUploadResult({
           success: false,
@@ -202,6 +285,35 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
     }
   };
 
+  const handleMerged = (result: AppointmentMergeResult) => {
+    setMergeReview(null);
+    const message = `Added ${result.added}, updated ${result.updated} and removed ${result.removed} appointments`;
+    setUploadResult({ success: true, message });
+    toast({
+      title: 'Changes Applied',
+      description: message,
+      status: 'success',
+      duration: 5000,
+      isClosable: true,
+    });
+    if (result.warning) {
+      toast({
+        title: 'Date Mismatch Detected',
+        description: result.warning,
+        status: 'warning',
+        duration: 6000,
+        isClosable: true,
+      });
+    }
+
+    if (onUploadSuccess) {
+      onUploadSuccess();
+    }
+
+    // Every open view refetches the merged data
+    invalidateQueries();
+  };
+
   const handleConfirmDateMismatchUpload = async () => {
     if (pendingFile) {
       closeModal();
@@ -268,9 +380,8 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
           onUploadSuccess();
         }
         
-        window.dispatchEvent(new CustomEvent('csvDataImported', { 
-          detail: { count: result.count } 
-        }));
+        // Every open view refetches the new day's data
+        invalidateQueries();
       }
     } catch (error) {
       console.error('Upload error:', error);
@@ -310,6 +421,8 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
     if (e.target.files && e.target.files[0]) {
       handleFileSelect(e.target.files[0]);
     }
+    // Choosing the same file again after fixing it should open the wizard again
+    e.target.value = '';
   };
 
   return (
@@ -334,7 +447,7 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
           <Icon as={FiUpload} boxSize={8} color="blue.500" />
           <VStack spacing={2}>
             <Text fontSize="lg" fontWeight="medium" color="gray.700">
-              Drop your CSV file here
+              Drop your CSV or Excel file here
             </Text>
             <Text fontSize="sm" color="gray.500">
               or click to browse files
@@ -351,7 +464,7 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
           <input
             id="csv-file-input"
             type="file"
-            accept=".csv"
+            accept=".csv,.xlsx"
             onChange={handleFileInputChange}
             style={{ display: 'none' }}
             disabled={isUploading}
@@ -411,7 +524,7 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
           </Text>
         </Flex>
         <Text fontSize="sm" color="blue.600" mb={2}>
-          <strong>Required Headers:</strong>
+          <strong>Expected Headers:</strong> Columns with other names can be matched to these before upload.
         </Text>
         <VStack align="start" spacing={1} mt={2}>
           <Text fontSize="xs" color="blue.600">
@@ -450,6 +563,24 @@ const CSVUploader: React.FC<CSVUploaderProps> = ({ onUploadSuccess }) => {
         </VStack>
       </Box>
 
+      <CSVImportWizard
+        isOpen={!!wizardFile}
+        onClose={closeWizard}
+        file={wizardFile}
+        sheets={sheets}
+        profileId={profileId}
+        onConfirm={handleWizardConfirm}
+      />
+
+      <CSVMergeReviewModal
+        isOpen={!!mergeReview}
+        onClose={() => setMergeReview(null)}
+        fileName={mergeReview?.fileName || ''}
+        parsed={mergeReview?.parsed || null}
+        entries={mergeReview?.entries || []}
+        onMerged={handleMerged}
+      />
+
       {/* Date Mismatch Confirmation Modal */}
       <Modal isOpen={isModalOpen} onClose={closeModal} size="lg" isCentered>
         <ModalOverlay bg="blackAlpha.600" backdropFilter="blur(4px)" />
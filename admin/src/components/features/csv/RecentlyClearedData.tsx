@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Recently cleared data panel for Foodbank Check-In and Appointment System admin panel
+ *
+ * This panel lists data cleared with "Clear All Data" that the backend still
+ * keeps, and restores a batch in full before the purge removes it. The panel
+ * is hidden when nothing is waiting to be purged.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-27
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../../pages/CSVUploadPage.tsx} CSV upload page
+ * @see {@link ../../../common/types/clearedData.ts} Cleared data types
+ */
+
+import React, { useState } from 'react';
+import { Box, Button, HStack, Heading, Icon, Text, VStack, useToast } from '@chakra-ui/react';
+import { FiRotateCcw, FiTrash2 } from 'react-icons/fi';
+import { formatDistanceToNow } from 'date-fns';
+import { restoreClearedData } from '../../../lib/api';
+import { invalidateQueries, useQuery } from '../../../lib/queryCache';
+import { ApiResponse } from '../../../common/types';
+import { ClearedDataBatch } from '../../../common/types/clearedData';
+
+const describeCounts = (batch: ClearedDataBatch): string => {
+  const { clients, appointments, checkIns } = batch.counts;
+  return [
+    `${clients} client${clients === 1 ? '' : 's'}`,
+    `${appointments} appointment${appointments === 1 ? '' : 's'}`,
+    `${checkIns} check-in${checkIns === 1 ? '' : 's'}`,
+  ].join(', ');
+};
+
+const RecentlyClearedData: React.FC = () => {
+  const { data } = useQuery<ApiResponse<ClearedDataBatch[]>>('/status/cleared');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const toast = useToast();
+
+  // Batches past their purge time are gone even if the list hasn't refreshed yet
+  const batches = ((data?.success && data.data) || []).filter((batch) => new Date(batch.purgeAt) > new Date());
+
+  const handleRestore = async (batch: ClearedDataBatch) => {
+    if (!window.confirm(`Restore ${describeCounts(batch)} cleared ${new Date(batch.clearedAt).toLocaleString('en-US')}?`)) {
+      return;
+    }
+
+    setRestoringId(batch.id);
+    try {
+      await restoreClearedData(batch.id);
+      // Every open view refetches and shows the restored day
+      invalidateQueries();
+      toast({
+        title: 'Data Restored',
+        description: `Restored ${describeCounts(batch)}.`,
+        status: 'success',
+        duration: 4000,
+        isClosable: true,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Restore Failed',
+        description: error.message || 'Unable to restore the data. Please try again or contact technical support.',
+        status: 'error',
+        duration: 6000,
+        isClosable: true,
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (batches.length === 0) return null;
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="sm" border="1px solid" borderColor="orange.200" overflow="hidden">
+      <Box bg="orange.50" px={6} py={4} borderBottom="1px solid" borderColor="orange.100">
+        <HStack spacing={3}>
+          <Icon as={FiTrash2} color="orange.600" boxSize={6} />
+          <VStack spacing={0} align="start">
+            <Heading size="md" color="#25385D">
+              Recently cleared data
+            </Heading>
+            <Text fontSize="sm" color="gray.600">
+              Cleared data can be restored until it is purged
+            </Text>
+          </VStack>
+        </HStack>
+      </Box>
+      <VStack spacing={0} align="stretch" divider={<Box borderBottom="1px solid" borderColor="gray.100" />}>
+        {batches.map((batch) => (
+          <HStack key={batch.id} px={6} py={4} justify="space-between" wrap="wrap" gap={3}>
+            <VStack spacing={0} align="start">
+              <Text fontWeight="600" color="gray.800">
+                Cleared {new Date(batch.clearedAt).toLocaleString('en-US')}
+                {batch.clearedBy && ` by ${batch.clearedBy}`}
+              </Text>
+              <Text fontSize="sm" color="gray.600">
+                {describeCounts(batch)}
+                {batch.reason && ` — ${batch.reason}`}
+              </Text>
+              <Text fontSize="xs" color="orange.700">
+                Purged {formatDistanceToNow(new Date(batch.purgeAt), { addSuffix: true })}
+              </Text>
+            </VStack>
+            <Button
+              size="sm"
+              colorScheme="orange"
+              variant="outline"
+              leftIcon={<FiRotateCcw />}
+              onClick={() => handleRestore(batch)}
+              isLoading={restoringId === batch.id}
+              isDisabled={!!restoringId && restoringId !== batch.id}
+            >
+              Restore
+            </Button>
+          </HStack>
+        ))}
+      </VStack>
+    </Box>
+  );
+};
+
+export default RecentlyClearedData;
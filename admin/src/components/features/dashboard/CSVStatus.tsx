@@ -13,8 +13,9 @@
  * @see {@link ../CSVUploadPage.tsx} CSV upload page
  */
 
-import React, { useState, useEffect } from 'react';
-import { api } from '../../../lib/api';
+import React, { useEffect } from 'react';
+import { useQuery } from '../../../lib/queryCache';
+import { DayStatusResponse } from '../../../common/types';
 import {
   Box,
   VStack,
@@ -28,136 +29,34 @@ import {
 } from '@chakra-ui/react';
 import { useNavigate } from 'react-router-dom';
 import { FiDatabase, FiClock, FiCheckCircle, FiXCircle } from 'react-icons/fi';
-
-interface DayStatus {
-  today: string;
-  csvDate: string;
-  data: {
-    present: boolean;
-    count: number;
-    expiresAt?: string;
-  };
-}
+import { useAuth } from '../../../contexts/AuthContext';
 
 interface CSVStatusProps {
   onRefresh?: () => void;
 }
 
 const CSVStatus: React.FC<CSVStatusProps> = ({ onRefresh }) => {
-  const [status, setStatus] = useState<DayStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Shared with the sidebar and analytics through the query cache, which
+  // refetches it after uploads, purges and data version changes
+  const {
+    data: result,
+    error: fetchError,
+    isLoading: loading,
+    isValidating,
+    refresh,
+  } = useQuery<DayStatusResponse>('/status/day');
+  const status = result?.success ? result.data || null : null;
+  const error = fetchError
+    ? 'No client check-ins were found. Please upload a CSV file.'
+    : result && !result.success
+      ? result.error || 'Failed to fetch status'
+      : null;
   const navigate = useNavigate();
+  const { can } = useAuth();
 
   const bgColor = 'white'; // Fixed white background
   const borderColor = 'gray.300'; // More visible border
 
-  /**
-   * Polling setup with Page Visibility API
-   * 
-   * Best Practices Implemented:
-   * - Page Visibility API: Pauses polling when browser tab is hidden
-   * - Conditional Polling: Only polls when data exists (reduces unnecessary calls)
-   * - Event-Driven: Immediate refresh on CSV import events
-   * - Optimized Interval: 2 minutes (reduced from 30s to minimize API calls)
-   * - Smart Conditions: Only polls when tab is visible and data exists
-   * - Proper Cleanup: Clears intervals and removes event listeners on unmount
-   * 
-   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
-   */
-  useEffect(() => {
-    fetchStatus();
-    
-    // Listen for CSV import events to start polling
-    const handleCSVImport = () => {
-      fetchStatus(); // Immediate refresh
-    };
-    
-    window.addEventListener('csvDataImported', handleCSVImport);
-    
-    // Only start polling if we have data or are loading, and tab is visible
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      if ((status?.data?.present || loading) && isVisible) {
-        // Auto-refresh every 2 minutes ONLY when data exists and tab is visible
-        interval = setInterval(() => {
-          if (!document.hidden) {
-            fetchStatus();
-          }
-        }, 120000); // Poll every 2 minutes (optimized to reduce API calls by 75%)
-      }
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately and start polling
-        fetchStatus();
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    };
-    
-    // Start polling if conditions are met
-    startPolling();
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      window.removeEventListener('csvDataImported', handleCSVImport);
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [status?.data?.present, loading]); // Re-run when data presence changes
-
-  const fetchStatus = async () => {
-    try {
-      const response = await api('/status/day');
-      
-      if (response.status === 429) {
-        // Rate limited - don't show error, just skip this update
-        console.warn('Rate limited - skipping status update');
-        return;
-      }
-      
-      const result = await response.json();
-      
-      if (result.success) {
-        // Check if data version changed (data was purged)
-        const lastVersion = localStorage.getItem('dataVersion');
-        if (result.dataVersion && result.dataVersion.toString() !== lastVersion) {
-          localStorage.setItem('dataVersion', result.dataVersion.toString());
-          // Trigger a page refresh to update all components
-          window.location.reload();
-          return;
-        }
-        
-        setStatus(result.data);
-        setError(null);
-        // Call the refresh callback if provided
-        if (onRefresh) {
-          onRefresh();
-        }
-      } else {
-        setError(result.error || 'Failed to fetch status');
-      }
-    } catch (err) {
-      console.error('Status fetch error:', err);
-      setError('No client check-ins were found. Please upload a CSV file.');
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Expose refresh function to parent components
   useEffect(() => {
     if (onRefresh) {
@@ -313,8 +212,8 @@ const CSVStatus: React.FC<CSVStatusProps> = ({ onRefresh }) => {
                 size="xs"
                 variant="outline"
                 colorScheme="blue"
-                onClick={fetchStatus}
-                isLoading={loading}
+                onClick={() => refresh()}
+                isLoading={isValidating}
               >
                 Check for Data
               </Button>
@@ -376,7 +275,7 @@ const CSVStatus: React.FC<CSVStatusProps> = ({ onRefresh }) => {
         )}
 
         {/* Action Hint */}
-        {!status?.data.present && (
+        {!status?.data.present && can('csv.upload') && (
           <Box
             p={3}
             bg="blue.50"
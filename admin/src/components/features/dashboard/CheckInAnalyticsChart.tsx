@@ -34,8 +34,8 @@ import {
   ResponsiveContainer,
   Legend
 } from 'recharts';
-import { api } from '../../../lib/api';
-import { getApiUrl } from '../../../common/apiConfig';
+import { useQuery } from '../../../lib/queryCache';
+import { ApiResponse, DayStatusResponse } from '../../../common/types';
 
 
 interface ChartData {
@@ -76,252 +76,144 @@ const CheckInAnalyticsChart: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
   const [screenWidth, setScreenWidth] = useState(window.innerWidth);
-  const [csvStatus, setCsvStatus] = useState<{
-    loading: boolean;
-    hasData: boolean;
-    count: number;
-    error: string | null;
-  }>({
-    loading: true,
-    hasData: false,
-    count: 0,
-    error: null
-  });
-
-
+  // Shared with the rest of the dashboard through the query cache
+  const { data: dayStatus } = useQuery<DayStatusResponse>('/status/day');
+  const { data: appointmentsResult, error: appointmentsError } =
+    useQuery<ApiResponse<any[]>>('/checkin/appointments');
+  const hasCsvData = !!(dayStatus?.success && dayStatus.data?.data?.present);
 
-  // Fetch CSV status (same as sidebar)
-  const fetchCsvStatus = async () => {
-    try {
-      const response = await api('/status/day');
-      
-      if (response.status === 429) {
-        console.warn('Rate limited - skipping CSV status update');
-        return;
-      }
-      
-      const result = await response.json();
-      
-      if (result.success) {
-        const lastVersion = localStorage.getItem('dataVersion');
-        if (result.dataVersion && result.dataVersion.toString() !== lastVersion) {
-          localStorage.setItem('dataVersion', result.dataVersion.toString());
-          window.location.reload();
-          return;
-        }
-        
-        setCsvStatus({
-          loading: false,
-          hasData: result.data?.data?.present || false,
-          count: result.data?.data?.count || 0,
-          error: null
-        });
-      } else {
-        setCsvStatus({
-          loading: false,
-          hasData: false,
-          count: 0,
-          error: result.error || 'Failed to fetch status'
-        });
-      }
-    } catch (err) {
-      // Only log errors that aren't connection refused (server not running)
-      if (err instanceof TypeError && err.message.includes('Failed to fetch')) {
-        console.warn('Backend server not available for CSV status, will retry later');
-      } else {
-        console.error('CSV status fetch error:', err);
-      }
-      setCsvStatus({
-        loading: false,
-        hasData: false,
-        count: 0,
-        error: 'No CSV data available'
-      });
-    }
-  };
-
-  // Fetch real-time analytics data from appointments
+  // Update analytics from the appointments response
   // IMPORTANT: Includes ALL appointments including Pending status
   // This ensures the dashboard shows all scheduled appointments
-  // OPTIMIZED: Only sets loading on initial load, not on every poll to prevent glitchy behavior
-  const fetchAnalytics = async (isInitialLoad: boolean = false) => {
-    try {
-      // Only show loading spinner on initial load, not on every poll
-      if (isInitialLoad) {
-        setIsLoading(true);
-      }
+  // OPTIMIZED: Only replaces state that actually changed to prevent glitchy behavior
+  const updateAnalytics = (data: ApiResponse<any[]>) => {
+    if (data.success && data.data) {
+      const appointments = data.data;
       
-      const response = await fetch(getApiUrl('/checkin/appointments'), {
-        signal: AbortSignal.timeout(10000) // 10 second timeout
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      // IMPORTANT: Include ALL appointments including Pending status
+      // Filter to today's appointments only (for chart display)
+      const today = new Date();
+      const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
       
-      const data = await response.json();
-      
-      if (data.success && data.data) {
-        const appointments = data.data;
-        
-        // IMPORTANT: Include ALL appointments including Pending status
-        // Filter to today's appointments only (for chart display)
-        const today = new Date();
-        const todayStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-        
-        // Filter to today's appointments (by appointmentTime, pickUpISO, or pickUpDate)
-        // IMPORTANT: Include ALL appointments for today, regardless of time
-        // This ensures pending appointments after 2 PM are included
-        const todayAppointments = appointments.filter((a: any) => {
-          // Try appointmentTime first (most reliable)
-          if (a.appointmentTime) {
-            try {
-              const apptDate = new Date(a.appointmentTime);
-              if (!isNaN(apptDate.getTime())) {
-                const apptDateStr = apptDate.toISOString().split('T')[0];
-                return apptDateStr === todayStr;
-              }
-            } catch (e) {
-              // Invalid date, continue to next check
+      // Filter to today's appointments (by appointmentTime, pickUpISO, or pickUpDate)
+      // IMPORTANT: Include ALL appointments for today, regardless of time
+      // This ensures pending appointments after 2 PM are included
+      const todayAppointments = appointments.filter((a: any) => {
+        // Try appointmentTime first (most reliable)
+        if (a.appointmentTime) {
+          try {
+            const apptDate = new Date(a.appointmentTime);
+            if (!isNaN(apptDate.getTime())) {
+              const apptDateStr = apptDate.toISOString().split('T')[0];
+              return apptDateStr === todayStr;
             }
+          } catch (e) {
+            // Invalid date, continue to next check
           }
-          // Try pickUpISO (timezone-aware ISO string)
-          if (a.pickUpISO) {
-            try {
-              const apptDate = new Date(a.pickUpISO);
-              if (!isNaN(apptDate.getTime())) {
-                const apptDateStr = apptDate.toISOString().split('T')[0];
-                return apptDateStr === todayStr;
-              }
-            } catch (e) {
-              // Invalid date, continue to next check
+        }
+        // Try pickUpISO (timezone-aware ISO string)
+        if (a.pickUpISO) {
+          try {
+            const apptDate = new Date(a.pickUpISO);
+            if (!isNaN(apptDate.getTime())) {
+              const apptDateStr = apptDate.toISOString().split('T')[0];
+              return apptDateStr === todayStr;
             }
+          } catch (e) {
+            // Invalid date, continue to next check
           }
-          // Try pickUpDate (date string YYYY-MM-DD)
-          if (a.pickUpDate) {
-            return a.pickUpDate === todayStr;
-          }
-          return false;
-        });
-        
-        // Calculate stats - IMPORTANT: Includes Pending appointments
-        // Colors must match summary panels:
-        // - Completed: Green (#8CAB6D) - Collected/Shipped
-        // - Pending: Teal Green (#2B7B8C) - Pending/Rescheduled (future appointments that haven't happened yet)
-        // - No Show: Red (#E76F51) - Not Collected/Cancelled (missed appointments)
-        const completed = todayAppointments.filter((a: any) => a.status === 'Collected' || a.status === 'Shipped').length;
-        // Pending: Waiting to be collected or rescheduled (teal green in chart, matches summary panel)
-        // IMPORTANT: This includes all Pending appointments for today (future appointments that haven't happened yet)
-        const pending = todayAppointments.filter((a: any) => a.status === 'Pending' || a.status === 'Rescheduled').length;
-        // No Show: Not collected or cancelled (red in chart, matches summary panel)
-        const noShow = todayAppointments.filter((a: any) => a.status === 'Not Collected' || a.status === 'Cancelled').length;
-        
-        // Generate new chart data
-        const newChartData = generateTimeIntervalChartData(todayAppointments);
+        }
+        // Try pickUpDate (date string YYYY-MM-DD)
+        if (a.pickUpDate) {
+          return a.pickUpDate === todayStr;
+        }
+        return false;
+      });
+      
+      // Calculate stats - IMPORTANT: Includes Pending appointments
+      // Colors must match summary panels:
+      // - Completed: Green (#8CAB6D) - Collected/Shipped
+      // - Pending: Teal Green (#2B7B8C) - Pending/Rescheduled (future appointments that haven't happened yet)
+      // - No Show: Red (#E76F51) - Not Collected/Cancelled (missed appointments)
+      const completed = todayAppointments.filter((a: any) => a.status === 'Collected' || a.status === 'Shipped').length;
+      // Pending: Waiting to be collected or rescheduled (teal green in chart, matches summary panel)
+      // IMPORTANT: This includes all Pending appointments for today (future appointments that haven't happened yet)
+      const pending = todayAppointments.filter((a: any) => a.status === 'Pending' || a.status === 'Rescheduled').length;
+      // No Show: Not collected or cancelled (red in chart, matches summary panel)
+      const noShow = todayAppointments.filter((a: any) => a.status === 'Not Collected' || a.status === 'Cancelled').length;
+      
+      // Generate new chart data
+      const newChartData = generateTimeIntervalChartData(todayAppointments);
+      
+      // OPTIMIZED: Only update state if data actually changed to prevent unnecessary re-renders
+      setStats(prevStats => {
+        const newStats = {
+          totalCheckIns: todayAppointments.length,
+          completed,
+          pending,
+          noShow,
+          averageWaitTime: 0,
+          currentHour: new Date().getHours(),
+          peakHour: 0,
+          peakCount: 0
+        };
         
-        // OPTIMIZED: Only update state if data actually changed to prevent unnecessary re-renders
-        setStats(prevStats => {
-          const newStats = {
-            totalCheckIns: todayAppointments.length,
-            completed,
-            pending,
-            noShow,
-            averageWaitTime: 0,
-            currentHour: new Date().getHours(),
-            peakHour: 0,
-            peakCount: 0
-          };
+        // Only update if stats changed
+        if (
+          prevStats.totalCheckIns !== newStats.totalCheckIns ||
+          prevStats.completed !== newStats.completed ||
+          prevStats.pending !== newStats.pending ||
+          prevStats.noShow !== newStats.noShow
+        ) {
+          return newStats;
+        }
+        return prevStats;
+      });
+      
+      // Only update chart data if it changed (prevent unnecessary re-renders)
+      setChartData(prevData => {
+        // Simple comparison - if lengths differ, data changed
+        if (prevData.length !== newChartData.length) {
+          return newChartData;
+        }
+        // Deep comparison for first and last items to catch changes
+        if (newChartData.length > 0 && prevData.length > 0) {
+          const firstChanged = 
+            prevData[0]?.completed !== newChartData[0]?.completed ||
+            prevData[0]?.pending !== newChartData[0]?.pending ||
+            prevData[0]?.noShow !== newChartData[0]?.noShow;
+          const lastChanged = 
+            prevData[prevData.length - 1]?.completed !== newChartData[newChartData.length - 1]?.completed ||
+            prevData[prevData.length - 1]?.pending !== newChartData[newChartData.length - 1]?.pending ||
+            prevData[prevData.length - 1]?.noShow !== newChartData[newChartData.length - 1]?.noShow;
           
-          // Only update if stats changed
-          if (
-            prevStats.totalCheckIns !== newStats.totalCheckIns ||
-            prevStats.completed !== newStats.completed ||
-            prevStats.pending !== newStats.pending ||
-            prevStats.noShow !== newStats.noShow
-          ) {
-            return newStats;
-          }
-          return prevStats;
-        });
-        
-        // Only update chart data if it changed (prevent unnecessary re-renders)
-        setChartData(prevData => {
-          // Simple comparison - if lengths differ, data changed
-          if (prevData.length !== newChartData.length) {
+          if (firstChanged || lastChanged) {
             return newChartData;
           }
-          // Deep comparison for first and last items to catch changes
-          if (newChartData.length > 0 && prevData.length > 0) {
-            const firstChanged = 
-              prevData[0]?.completed !== newChartData[0]?.completed ||
-              prevData[0]?.pending !== newChartData[0]?.pending ||
-              prevData[0]?.noShow !== newChartData[0]?.noShow;
-            const lastChanged = 
-              prevData[prevData.length - 1]?.completed !== newChartData[newChartData.length - 1]?.completed ||
-              prevData[prevData.length - 1]?.pending !== newChartData[newChartData.length - 1]?.pending ||
-              prevData[prevData.length - 1]?.noShow !== newChartData[newChartData.length - 1]?.noShow;
-            
-            if (firstChanged || lastChanged) {
-              return newChartData;
-            }
-          }
-          return prevData; // No change, keep previous data
-        });
-        
-        setLastUpdate(new Date());
-      } else {
-        // Only update if we don't have data yet
-        setStats(prevStats => {
-          if (prevStats.totalCheckIns === 0) {
-            return prevStats; // Already empty, no need to update
-          }
-          return {
-            totalCheckIns: 0,
-            completed: 0,
-            pending: 0,
-            noShow: 0,
-            averageWaitTime: 0,
-            currentHour: new Date().getHours(),
-            peakHour: 0,
-            peakCount: 0
-          };
-        });
-        setChartData(prevData => prevData.length === 0 ? prevData : []);
-        setLastUpdate(new Date());
-      }
-    } catch (error) {
-      // Only log errors that aren't connection refused (server not running)
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        console.warn('Backend server not available for analytics, will retry later');
-      } else {
-        console.error('Error fetching analytics:', error);
-      }
-      // Don't reset stats on connection errors, keep existing data
-      // Only update on non-connection errors
-      if (!(error instanceof TypeError && error.message.includes('Failed to fetch'))) {
-        setStats(prevStats => {
-          if (prevStats.totalCheckIns === 0) {
-            return prevStats; // Already empty
-          }
-          return {
-            totalCheckIns: 0,
-            completed: 0,
-            pending: 0,
-            noShow: 0,
-            averageWaitTime: 0,
-            currentHour: new Date().getHours(),
-            peakHour: 0,
-            peakCount: 0
-          };
-        });
-        setChartData(prevData => prevData.length === 0 ? prevData : []);
-        setLastUpdate(new Date());
-      }
-    } finally {
-      // Only set loading to false on initial load
-      if (isInitialLoad) {
-        setIsLoading(false);
-      }
+        }
+        return prevData; // No change, keep previous data
+      });
+      
+      setLastUpdate(new Date());
+    } else {
+      // Only update if we don't have data yet
+      setStats(prevStats => {
+        if (prevStats.totalCheckIns === 0) {
+          return prevStats; // Already empty, no need to update
+        }
+        return {
+          totalCheckIns: 0,
+          completed: 0,
+          pending: 0,
+          noShow: 0,
+          averageWaitTime: 0,
+          currentHour: new Date().getHours(),
+          peakHour: 0,
+          peakCount: 0
+        };
+      });
+      setChartData(prevData => prevData.length === 0 ? prevData : []);
+      setLastUpdate(new Date());
     }
   };
 
@@ -443,73 +335,22 @@ const CheckInAnalyticsChart: React.FC = () => {
   };
 
   /**
-   * Polling setup with Page Visibility API
-   * 
-   * Best Practices Implemented:
-   * - Page Visibility API: Pauses polling when browser tab is hidden
-   * - Real-time Updates: 30 second interval for responsive dashboard
-   * - Smart Conditions: Only polls when tab is visible
-   * - Proper Cleanup: Clears intervals and removes event listeners on unmount
-   * - State Management: Prevents race conditions with proper loading states
-   * 
-   * IMPORTANT: Removed hover pause to prevent glitchy behavior.
-   * Chart updates smoothly without interrupting user interaction.
-   * 
-   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
+   * Redraw whenever the shared appointments query updates: after real-time
+   * events, data version changes and the admin's own changes
+   *
+   * Only the first load shows the spinner; later updates replace the chart
+   * data in place so it doesn't flicker while someone is reading it.
    */
   useEffect(() => {
-    // Initial fetch with loading state
-    fetchCsvStatus();
-    fetchAnalytics(true); // Pass true for initial load to show loading spinner
-    
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    let isFetching = false; // Prevent concurrent fetches
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      interval = setInterval(() => {
-        // Only poll if tab is visible and not already fetching
-        if (!document.hidden && !isFetching) {
-          isFetching = true;
-          // OPTIMIZED: Don't show loading spinner on polls, only on initial load
-          Promise.all([fetchCsvStatus(), fetchAnalytics(false)])
-            .finally(() => {
-              isFetching = false;
-            });
-        }
-      }, 30000); // Poll every 30 seconds for real-time updates
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately (without loading spinner) and start polling
-        fetchCsvStatus();
-        fetchAnalytics(false); // Don't show loading spinner on visibility change
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    };
-    
-    // Start polling if visible
-    if (isVisible) {
-      startPolling();
+    if (appointmentsResult) {
+      updateAnalytics(appointmentsResult);
+      setIsLoading(false);
+    } else if (appointmentsError) {
+      // Nothing to show yet; keep the empty chart rather than spinning forever
+      setIsLoading(false);
     }
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, []); // Empty dependency array - only run once on mount
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [appointmentsResult, appointmentsError]);
 
   // Track screen width changes for responsive chart
   useEffect(() => {
@@ -860,7 +701,7 @@ const CheckInAnalyticsChart: React.FC = () => {
                     <Text color="gray.600" fontWeight="medium">Loading chart data...</Text>
                   </VStack>
                 </Center>
-              ) : !csvStatus.hasData ? (
+              ) : !hasCsvData ? (
                 <Center h="100%">
                   <VStack spacing={4}>
                     <Text fontSize="lg" color="gray.500" fontWeight="medium">
@@ -43,20 +43,36 @@ import {
   ModalBody,
   ModalCloseButton,
   useDisclosure,
-  Textarea
+  Textarea,
+  FormControl,
+  FormHelperText,
+  FormLabel
 } from '@chakra-ui/react';
 import { FiSearch, FiEye, FiCheck, FiClock, FiPhone, FiMail } from 'react-icons/fi';
 import { api } from '../../../lib/api';
+import { subscribeToRealtime } from '../../../lib/realtime';
+import { useUndoToast } from '../../ui/UndoToast';
+
+// Extra message a client added from the status chip after sending the request
+interface HelpRequestFollowUp {
+  message: string;
+  created_at: string;
+}
+
 interface HelpRequest {
   id: number;
+  // Short reference shown to the client
+  reference?: string;
   client_phone: string;
   client_last_name: string;
   client_email?: string;
   message: string;
   current_page: string;
-  status: 'pending' | 'in_progress' | 'resolved';
+  // 'cancelled' is set by the client; staff set the others
+  status: 'pending' | 'in_progress' | 'resolved' | 'cancelled';
   has_existing_appointment: boolean;
   created_at: string;
+  follow_ups?: HelpRequestFollowUp[];
 }
 
 const HelpRequestsTable: React.FC = () => {
@@ -66,17 +82,19 @@ const HelpRequestsTable: React.FC = () => {
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRequest, setSelectedRequest] = useState<HelpRequest | null>(null);
+  // Reason entered in the detail modal, kept with the status change in the audit trail
+  const [statusReason, setStatusReason] = useState('');
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const consecutiveErrorsRef = useRef(0); // Use ref to track errors in closures (avoids stale closure)
   const { isOpen, onOpen, onClose } = useDisclosure();
   const toast = useToast();
+  const showUndoToast = useUndoToast();
 
   /**
    * Fetch help requests from backend API
    * 
    * Best Practices:
    * - Uses authenticated API helper with automatic token inclusion
-   * - Implements exponential backoff (stops after 3 consecutive errors)
    * - Handles connection errors gracefully without spamming user
    * - Resets error count on successful load
    */
@@ -120,7 +138,7 @@ const HelpRequestsTable: React.FC = () => {
     } catch (err) {
       console.error('Error fetching help requests:', err);
       
-      // Track consecutive errors for exponential backoff
+      // Track consecutive errors so the user is only warned once
       const newErrorCount = consecutiveErrorsRef.current + 1;
       consecutiveErrorsRef.current = newErrorCount;
       
@@ -130,21 +148,6 @@ const HelpRequestsTable: React.FC = () => {
         setError(null);
         setHelpRequests([]);
         
-        // Exponential backoff: stop polling after 3 consecutive errors
-        if (newErrorCount >= 3) {
-          // Stop polling - user can manually refresh
-          if (hasLoadedOnce) {
-            toast({
-              title: 'Connection Lost',
-              description: 'Unable to connect to the server. Polling has been paused. Please refresh manually or check your connection.',
-              status: 'warning',
-              duration: 7000,
-              isClosable: true,
-            });
-          }
-          return; // Don't continue polling
-        }
-        
         // Only show warning if we've loaded successfully before (first error only)
         if (hasLoadedOnce && newErrorCount === 1) {
           toast({
@@ -173,28 +176,38 @@ const HelpRequestsTable: React.FC = () => {
     }
   };
 
-  // Update request status
-  const updateStatus = async (id: number, newStatus: string) => {
+  const putStatus = async (id: number, status: string, reason?: string) => {
+    // Use authenticated API helper
+    const response = await api(`/help-requests/${id}/status`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status, reason: reason || undefined })
+    });
+    
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to update status');
+    }
+  };
+
+  /**
+   * Update request status; the toast can set it back to the previous status
+   *
+   * A reason can be given from the detail modal. The Resolve button in the
+   * table doesn't ask for one - resolving is the normal end of a request and
+   * the audit entry already shows the status before and after.
+   */
+  const updateStatus = async (id: number, newStatus: string, previousStatus: string, reason?: string) => {
     try {
-      // Use authenticated API helper
-      const response = await api(`/help-requests/${id}/status`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus })
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to update status');
-      }
-      
+      await putStatus(id, newStatus, reason);
       await fetchHelpRequests();
-      toast({
+      showUndoToast({
         title: 'Status Updated',
         description: 'The help request status has been updated successfully.',
-        status: 'success',
-        duration: 4000,
-        isClosable: true,
+        onUndo: async () => {
+          await putStatus(id, previousStatus, 'Undone by staff');
+          await fetchHelpRequests();
+        },
       });
     } catch (error) {
       console.error('Error updating status:', error);
@@ -214,7 +227,8 @@ const HelpRequestsTable: React.FC = () => {
     const matchesSearch = 
       request.client_phone.toLowerCase().includes(searchTerm.toLowerCase()) ||
       request.client_last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      request.message.toLowerCase().includes(searchTerm.toLowerCase());
+      request.message.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (request.reference || '').toLowerCase().includes(searchTerm.toLowerCase());
     
     return matchesStatus && matchesSearch;
   });
@@ -243,17 +257,12 @@ const HelpRequestsTable: React.FC = () => {
   };
 
   /**
-   * Polling setup with Page Visibility API and exponential backoff
-   * 
-   * Best Practices Implemented:
-   * - Page Visibility API: Pauses polling when browser tab is hidden
-   * - Exponential Backoff: Stops polling after 3 consecutive connection errors
-   * - Optimized Interval: 30 seconds (reduced from 5s to minimize API calls)
-   * - Smart Conditions: Only polls when tab visible, not loading, and connection healthy
-   * - Proper Cleanup: Clears intervals and removes event listeners on unmount
-   * 
-   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
-   * @see {@link https://aws.amazon.com/builders-library/timeouts-retries-and-backoff-with-jitter/} Exponential Backoff
+   * Initial load and real-time updates
+   *
+   * New help requests are pushed as they are created, so the table reloads
+   * within a second instead of on a timer.
+   *
+   * @see {@link ../../../lib/realtime.ts} Real-time event subscriptions
    */
   useEffect(() => {
     // Initial fetch - delay slightly to avoid race condition on page load
@@ -261,48 +270,13 @@ const HelpRequestsTable: React.FC = () => {
       fetchHelpRequests();
     }, 1000);
     
-    // Use visibility API to pause polling when tab is hidden
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      interval = setInterval(() => {
-        // Only poll if tab is visible, not loading, and haven't hit error limit
-        // Use ref to get current error count (avoids stale closure)
-        if (!document.hidden && !loading && consecutiveErrorsRef.current < 3) {
-          fetchHelpRequests();
-        }
-      }, 30000); // Poll every 30 seconds (optimized to reduce API calls by 80%)
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately and start polling
-        fetchHelpRequests();
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    };
-    
-    // Start polling if visible
-    if (isVisible) {
-      startPolling();
-    }
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const unsubscribe = subscribeToRealtime(['help_request.created'], () => {
+      fetchHelpRequests();
+    });
     
     return () => {
       clearTimeout(initialTimeout);
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      unsubscribe();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run once on mount
@@ -383,6 +357,7 @@ const HelpRequestsTable: React.FC = () => {
             <option value="pending">Pending</option>
             <option value="in_progress">In Progress</option>
             <option value="resolved">Resolved</option>
+            <option value="cancelled">Cancelled</option>
           </Select>
         </HStack>
       </VStack>
@@ -409,6 +384,11 @@ const HelpRequestsTable: React.FC = () => {
                     <Text fontWeight="medium">
                       {request.client_last_name}
                     </Text>
+                    {request.reference && (
+                      <Text fontSize="xs" color="gray.500" fontFamily="mono">
+                        {request.reference}
+                      </Text>
+                    )}
                     {request.has_existing_appointment && (
                       <Badge size="sm" colorScheme="green">
                         Has Appointment
@@ -434,6 +414,11 @@ const HelpRequestsTable: React.FC = () => {
                   <Text fontSize="sm" noOfLines={2}>
                     {request.message}
                   </Text>
+                  {!!request.follow_ups?.length && (
+                    <Badge size="sm" colorScheme="purple" mt={1}>
+                      {request.follow_ups.length} follow-up{request.follow_ups.length === 1 ? '' : 's'}
+                    </Badge>
+                  )}
                 </Td>
                 <Td>
                   <Text fontSize="sm" color="gray.600">
@@ -458,17 +443,18 @@ const HelpRequestsTable: React.FC = () => {
                       leftIcon={<FiEye />}
                       onClick={() => {
                         setSelectedRequest(request);
+                        setStatusReason('');
                         onOpen();
                       }}
                     >
                       View
                     </Button>
-                    {request.status !== 'resolved' && (
+                    {request.status !== 'resolved' && request.status !== 'cancelled' && (
                       <Button
                         size="sm"
                         colorScheme="green"
                         leftIcon={<FiCheck />}
-                        onClick={() => updateStatus(request.id, 'resolved')}
+                        onClick={() => updateStatus(request.id, 'resolved', request.status)}
                       >
                         Resolve
                       </Button>
@@ -497,7 +483,10 @@ const HelpRequestsTable: React.FC = () => {
             {selectedRequest && (
               <VStack spacing={4} align="stretch">
                 <HStack justify="space-between">
-                  <Text fontWeight="bold">Client: {selectedRequest.client_last_name}</Text>
+                  <Text fontWeight="bold">
+                    Client: {selectedRequest.client_last_name}
+                    {selectedRequest.reference && ` (${selectedRequest.reference})`}
+                  </Text>
                   <Badge colorScheme={getStatusColor(selectedRequest.status)}>
                     {selectedRequest.status.replace('_', ' ')}
                   </Badge>
@@ -529,6 +518,20 @@ const HelpRequestsTable: React.FC = () => {
                   />
                 </Box>
 
+                {!!selectedRequest.follow_ups?.length && (
+                  <Box>
+                    <Text fontWeight="medium" mb={2}>Follow-up Messages:</Text>
+                    <VStack align="stretch" spacing={2}>
+                      {selectedRequest.follow_ups.map((followUp, index) => (
+                        <Box key={index} p={2} bg="purple.50" borderRadius="md">
+                          <Text fontSize="sm">{followUp.message}</Text>
+                          <Text fontSize="xs" color="gray.500">{formatDate(followUp.created_at)}</Text>
+                        </Box>
+                      ))}
+                    </VStack>
+                  </Box>
+                )}
+
                 <Box>
                   <Text fontWeight="medium" mb={2}>Details:</Text>
                   <VStack align="start" spacing={1}>
@@ -544,28 +547,43 @@ const HelpRequestsTable: React.FC = () => {
                   </VStack>
                 </Box>
 
-                <HStack spacing={2} pt={4}>
-                  <Button
-                    colorScheme="green"
-                    leftIcon={<FiCheck />}
-                    onClick={() => {
-                      updateStatus(selectedRequest.id, 'resolved');
-                      onClose();
-                    }}
-                  >
-                    Mark Resolved
-                  </Button>
-                  <Button
-                    variant="outline"
-                    leftIcon={<FiClock />}
-                    onClick={() => {
-                      updateStatus(selectedRequest.id, 'in_progress');
-                      onClose();
-                    }}
-                  >
-                    Mark In Progress
-                  </Button>
-                </HStack>
+                {/* Cancelled by the client - nothing left for staff to do */}
+                {selectedRequest.status !== 'cancelled' && (
+                  <>
+                    <FormControl pt={4}>
+                      <FormLabel fontSize="sm">Reason (optional)</FormLabel>
+                      <Input
+                        size="sm"
+                        value={statusReason}
+                        onChange={(e) => setStatusReason(e.target.value)}
+                        placeholder="e.g. Client helped at the desk"
+                      />
+                      <FormHelperText>Shown in the audit trail with this change</FormHelperText>
+                    </FormControl>
+                    <HStack spacing={2}>
+                      <Button
+                        colorScheme="green"
+                        leftIcon={<FiCheck />}
+                        onClick={() => {
+                          updateStatus(selectedRequest.id, 'resolved', selectedRequest.status, statusReason.trim());
+                          onClose();
+                        }}
+                      >
+                        Mark Resolved
+                      </Button>
+                      <Button
+                        variant="outline"
+                        leftIcon={<FiClock />}
+                        onClick={() => {
+                          updateStatus(selectedRequest.id, 'in_progress', selectedRequest.status, statusReason.trim());
+                          onClose();
+                        }}
+                      >
+                        Mark In Progress
+                      </Button>
+                    </HStack>
+                  </>
+                )}
               </VStack>
             )}
           </ModalBody>
@@ -29,6 +29,8 @@ import {
   FiUpload,
   FiLink,
 } from 'react-icons/fi';
+import { useAuth } from '../../../contexts/AuthContext';
+import { Permission } from '../../../common/types/permissions';
 
 // Enhanced TypeScript interfaces
 interface QuickAction {
@@ -38,7 +40,7 @@ interface QuickAction {
   icon: React.ComponentType<any>;
   variant: 'primary' | 'secondary' | 'success' | 'warning' | 'info';
   onClick: () => void;
-  permission?: string;
+  permission?: Permission;
   badge?: string;
   disabled?: boolean;
   tooltip?: string;
@@ -51,11 +53,12 @@ interface QuickActionsProps {
 
 const QuickActions: React.FC<QuickActionsProps> = ({ onAction, className }) => {
   const prefersReducedMotion = usePrefersReducedMotion();
+  const { can } = useAuth();
   
   // Responsive breakpoint values
 
   // Memoized quick actions - only keeping working features
-  const quickActions: QuickAction[] = useMemo(() => [
+  const quickActions: QuickAction[] = useMemo(() => ([
     {
       id: 'upload-csv',
       title: 'Upload Client Data',
@@ -63,7 +66,7 @@ const QuickActions: React.FC<QuickActionsProps> = ({ onAction, className }) => {
       icon: FiUpload,
       variant: 'primary',
       onClick: () => onAction('upload-csv'),
-      permission: 'manage_csv',
+      permission: 'csv.upload',
       badge: 'New',
     },
     {
@@ -73,10 +76,10 @@ const QuickActions: React.FC<QuickActionsProps> = ({ onAction, className }) => {
       icon: FiLink,
       variant: 'info',
       onClick: () => onAction('link2feed-config'),
-      permission: 'manage_integrations',
+      permission: 'link2feed.configure',
       badge: 'API',
     },
-  ], [onAction]);
+  ] as QuickAction[]).filter((action) => !action.permission || can(action.permission)), [onAction, can]);
 
   // Memoized keyboard navigation handler
   const handleKeyDown = useCallback((event: React.KeyboardEvent, actionId: string) => {
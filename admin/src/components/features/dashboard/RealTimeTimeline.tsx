@@ -33,7 +33,8 @@ import {
   Center
 } from '@chakra-ui/react';
 import { formatPhoneNumber } from '../../../common/utils/phoneFormatter';
-import { getApiUrl } from '../../../common/apiConfig';
+import { useQuery } from '../../../lib/queryCache';
+import { ApiResponse } from '../../../common/types';
 
 interface CheckInRecord {
   id: string;
@@ -146,110 +147,56 @@ const RealTimeTimeline: React.FC = () => {
   };
 
   /**
-   * Fetch check-ins data for timeline visualization
+   * Check-ins for the timeline, from the appointments query shared with the
+   * rest of the dashboard
    * 
    * Best Practices:
    * - Filters to today's appointments (8 AM - 8 PM window)
-   * - Handles connection errors gracefully
+   * - Redraws whenever the query cache refetches after a real-time event
    * - Preserves existing data on transient errors
    */
-  const fetchCheckIns = async () => {
-    try {
-      // Use appointments endpoint to include CSV appointments
-      const response = await fetch(getApiUrl('/checkin/appointments'));
-      const data = await response.json();
-      
-      if (data.success && data.data) {
-        // Filter to today's window (08:00–20:00)
-        const now = new Date();
-        const y = now.getFullYear();
-        const m = String(now.getMonth() + 1).padStart(2, '0');
-        const d = String(now.getDate()).padStart(2, '0');
-        const todayStr = `${y}-${m}-${d}`;
+  const { data: appointmentsResult, error: appointmentsError } =
+    useQuery<ApiResponse<any[]>>('/checkin/appointments');
 
-        const todayCheckIns = (data.data as any[])
-          .map((r: any) => ({
-            ...r,
-            checkInTime: r.checkInTime || r.pickUpISO || (r.pickUpTime ? `${todayStr}T${r.pickUpTime}:00` : undefined)
-          }))
-          .filter((r: any) => {
-            if (!r.checkInTime) return false;
-            const dt = new Date(r.checkInTime);
-            const sameDay = dt.getFullYear() === now.getFullYear() && dt.getMonth() === now.getMonth() && dt.getDate() === now.getDate();
-            const hour = dt.getHours();
-            return sameDay && hour >= 8 && hour < 20;
-          });
-        
-        setTimelineData(generateTimelineData(todayCheckIns));
-        setStats(calculateStats(todayCheckIns));
-        setLastUpdate(new Date());
-      } else {
-        setTimelineData(generateTimelineData([]));
-        setStats(calculateStats([]));
-      }
-    } catch (error) {
-      console.error('Error fetching check-ins:', error);
-      // Don't clear data on error, just log it
-    } finally {
+  useEffect(() => {
+    if (appointmentsError) {
+      // Don't clear data on error, just stop the spinner
       setIsLoading(false);
+      return;
     }
-  };
+    if (!appointmentsResult) return;
 
-  /**
-   * Polling setup with Page Visibility API
-   * 
-   * Best Practices Implemented:
-   * - Page Visibility API: Pauses polling when browser tab is hidden
-   * - Optimized Interval: 60 seconds (reduced from 15s to minimize API calls)
-   * - Smart Conditions: Only polls when tab is visible
-   * - Proper Cleanup: Clears intervals and removes event listeners on unmount
-   * 
-   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
-   */
-  useEffect(() => {
-    fetchCheckIns();
-    
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      interval = setInterval(() => {
-        // Only poll if tab is visible
-        if (!document.hidden) {
-          fetchCheckIns();
-        }
-      }, 60000); // Poll every 60 seconds (optimized to reduce API calls by 75%)
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately and start polling
-        fetchCheckIns();
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    };
-    
-    // Start polling if visible
-    if (isVisible) {
-      startPolling();
+    const data = appointmentsResult;
+    if (data.success && data.data) {
+      // Filter to today's window (08:00–20:00)
+      const now = new Date();
+      const y = now.getFullYear();
+      const m = String(now.getMonth() + 1).padStart(2, '0');
+      const d = String(now.getDate()).padStart(2, '0');
+      const todayStr = `${y}-${m}-${d}`;
+
+      const todayCheckIns = (data.data as any[])
+        .map((r: any) => ({
+          ...r,
+          checkInTime: r.checkInTime || r.pickUpISO || (r.pickUpTime ? `${todayStr}T${r.pickUpTime}:00` : undefined)
+        }))
+        .filter((r: any) => {
+          if (!r.checkInTime) return false;
+          const dt = new Date(r.checkInTime);
+          const sameDay = dt.getFullYear() === now.getFullYear() && dt.getMonth() === now.getMonth() && dt.getDate() === now.getDate();
+          const hour = dt.getHours();
+          return sameDay && hour >= 8 && hour < 20;
+        });
+      
+      setTimelineData(generateTimelineData(todayCheckIns));
+      setStats(calculateStats(todayCheckIns));
+      setLastUpdate(new Date());
+    } else {
+      setTimelineData(generateTimelineData([]));
+      setStats(calculateStats([]));
     }
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, []);
+    setIsLoading(false);
+  }, [appointmentsResult, appointmentsError]);
 
   // Get color for timeline bar
   const getBarColor = (hour: number, completed: number, pending: number) => {
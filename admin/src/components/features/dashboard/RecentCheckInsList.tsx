@@ -38,6 +38,7 @@ import { formatPhoneNumber } from '../../../common/utils/phoneFormatter';
 import { printTicket } from '../../../utils/printTicket';
 import AppointmentRebookModal from '../appointments/AppointmentRebookModal';
 import { getStatusColorScheme } from '../../../common/utils/statusColors';
+import { useAuth } from '../../../contexts/AuthContext';
 
 
 interface RecentCheckInsListProps {
@@ -53,6 +54,7 @@ const RecentCheckInsList: React.FC<RecentCheckInsListProps> = ({
 }) => {
   const [selectedClient, setSelectedClient] = React.useState<any>(null);
   const [isRebookModalOpen, setIsRebookModalOpen] = React.useState(false);
+  const { can } = useAuth();
 
   // IMPORTANT: Use consistent status colors matching analytics chart
   // Use shared utility for consistency across all admin features
@@ -253,42 +255,46 @@ const RecentCheckInsList: React.FC<RecentCheckInsListProps> = ({
                     </Badge>
                     
                     <HStack spacing={1}>
-                      <Tooltip label="Print Ticket" placement="top">
-                        <Button
-                          size="xs"
-                          variant="ghost"
-                          color="gray.500"
-                          _hover={{ color: 'blue.500', bg: 'blue.50' }}
-                          onClick={() => {
-                            /**
-                             * Best Practice: Uses centralized printTicket utility
-                             * to ensure consistent ticket generation across the application.
-                             * All print buttons use the same endpoint and data structure.
-                             */
-                            const id = (checkIn as any).id;
-                            if (id) {
-                              printTicket(id);
-                            }
-                          }}
-                        >
-                          <FiPrinter size="14px" />
-                        </Button>
-                      </Tooltip>
+                      {can('tickets.print') && (
+                        <Tooltip label="Print Ticket" placement="top">
+                          <Button
+                            size="xs"
+                            variant="ghost"
+                            color="gray.500"
+                            _hover={{ color: 'blue.500', bg: 'blue.50' }}
+                            onClick={() => {
+                              /**
+                               * Best Practice: Uses centralized printTicket utility
+                               * to ensure consistent ticket generation across the application.
+                               * All print buttons use the same endpoint and data structure.
+                               */
+                              const id = (checkIn as any).id;
+                              if (id) {
+                                printTicket(id);
+                              }
+                            }}
+                          >
+                            <FiPrinter size="14px" />
+                          </Button>
+                        </Tooltip>
+                      )}
                       
-                      <Tooltip label="Edit Next Appointment Date" placement="top">
-                        <Button
-                          size="xs"
-                          variant="ghost"
-                          color="gray.500"
-                          _hover={{ color: 'blue.500', bg: 'blue.50' }}
-                          onClick={() => {
-                            setSelectedClient(checkIn);
-                            setIsRebookModalOpen(true);
-                          }}
-                        >
-                          <FiCalendar size="14px" />
-                        </Button>
-                      </Tooltip>
+                      {can('appointments.reschedule') && (
+                        <Tooltip label="Edit Next Appointment Date" placement="top">
+                          <Button
+                            size="xs"
+                            variant="ghost"
+                            color="gray.500"
+                            _hover={{ color: 'blue.500', bg: 'blue.50' }}
+                            onClick={() => {
+                              setSelectedClient(checkIn);
+                              setIsRebookModalOpen(true);
+                            }}
+                          >
+                            <FiCalendar size="14px" />
+                          </Button>
+                        </Tooltip>
+                      )}
                       
                       <Tooltip label="More Actions" placement="top">
                         <Button
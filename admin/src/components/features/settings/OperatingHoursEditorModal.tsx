@@ -0,0 +1,311 @@
+/**
+ * @fileoverview Operating hours editor for Foodbank Check-In and Appointment System admin panel
+ *
+ * This modal edits the operating hours: each location's name and weekly
+ * opening hours, the appointment slot length and the minimum rebooking
+ * interval. A day can have more than one period, e.g. a morning session and
+ * an evening session; days without a period are closed.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./OperatingHoursManager.tsx} Operating hours manager
+ * @see {@link ../../../utils/operatingHours.ts} Operating hours helpers
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Divider,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  SimpleGrid,
+  Text,
+  Tooltip,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { FiPlus, FiTrash2, FiX } from 'react-icons/fi';
+import { saveOperatingHours } from '../../../lib/api';
+import { LocationHours, OperatingHours, OperatingPeriod } from '../../../common/types/operatingHours';
+import {
+  REBOOK_INTERVAL_RANGE,
+  SLOT_MINUTES_RANGE,
+  WEEKDAY_NAMES,
+  validateOperatingHours,
+} from '../../../utils/operatingHours';
+
+interface OperatingHoursEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  hours: OperatingHours;
+  onSaved: (hours: OperatingHours) => void;
+}
+
+// Monday first, the way staff read a week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface FormState {
+  locations: LocationHours[];
+  slotMinutes: string;
+  rebookIntervalDays: string;
+}
+
+const toFormState = (hours: OperatingHours): FormState => ({
+  locations: hours.locations.map((location) => ({
+    ...location,
+    periods: location.periods.map((period) => ({ ...period })),
+  })),
+  slotMinutes: String(hours.slotMinutes),
+  rebookIntervalDays: String(hours.rebookIntervalDays),
+});
+
+// A new period starts when the day's last one closes, or at 9 AM
+const nextPeriod = (periods: OperatingPeriod[], day: number): OperatingPeriod => {
+  const last = periods.filter((period) => period.day === day).pop();
+  if (!last) return { day, open: '09:00', close: '17:00' };
+  const [hours] = last.close.split(':').map(Number);
+  const closeHour = Math.min(hours + 3, 23);
+  return { day, open: last.close, close: `${String(closeHour).padStart(2, '0')}:${closeHour === 23 ? '59' : '00'}` };
+};
+
+const OperatingHoursEditorModal: React.FC<OperatingHoursEditorModalProps> = ({ isOpen, onClose, hours, onSaved }) => {
+  const toast = useToast();
+  const [form, setForm] = useState<FormState>(() => toFormState(hours));
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(toFormState(hours));
+      setSaveError(null);
+    }
+  }, [isOpen, hours]);
+
+  const updateLocation = (index: number, changes: Partial<LocationHours>) => {
+    setForm((prev) => ({
+      ...prev,
+      locations: prev.locations.map((location, i) => (i === index ? { ...location, ...changes } : location)),
+    }));
+  };
+
+  const updatePeriod = (locationIndex: number, periodIndex: number, changes: Partial<OperatingPeriod>) => {
+    const location = form.locations[locationIndex];
+    updateLocation(locationIndex, {
+      periods: location.periods.map((period, i) => (i === periodIndex ? { ...period, ...changes } : period)),
+    });
+  };
+
+  const addLocation = () => {
+    setForm((prev) => ({
+      ...prev,
+      locations: [...prev.locations, { id: `location-${Date.now()}`, name: '', periods: [] }],
+    }));
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      locations: form.locations.map((location) => ({ ...location, name: location.name.trim() })),
+      slotMinutes: Number(form.slotMinutes),
+      rebookIntervalDays: Number(form.rebookIntervalDays),
+    };
+    const validationError = validateOperatingHours(payload);
+    setSaveError(validationError);
+    if (validationError) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await saveOperatingHours(payload);
+      toast({
+        title: 'Operating hours saved',
+        description: 'The schedule and rebooking now follow the new hours',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save operating hours');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader color="#25385D">Edit operating hours</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            {saveError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {saveError}
+              </Alert>
+            )}
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel fontSize="sm">Slot length (minutes)</FormLabel>
+                <Input
+                  type="number"
+                  min={SLOT_MINUTES_RANGE.min}
+                  max={SLOT_MINUTES_RANGE.max}
+                  value={form.slotMinutes}
+                  onChange={(e) => setForm((prev) => ({ ...prev, slotMinutes: e.target.value }))}
+                />
+                <FormHelperText>How long each appointment slot is</FormHelperText>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Minimum rebooking interval (days)</FormLabel>
+                <Input
+                  type="number"
+                  min={REBOOK_INTERVAL_RANGE.min}
+                  max={REBOOK_INTERVAL_RANGE.max}
+                  value={form.rebookIntervalDays}
+                  onChange={(e) => setForm((prev) => ({ ...prev, rebookIntervalDays: e.target.value }))}
+                />
+                <FormHelperText>Days after a visit before the next appointment, e.g. 14 or 21</FormHelperText>
+              </FormControl>
+            </SimpleGrid>
+
+            {form.locations.map((location, locationIndex) => (
+              <Box key={location.id}>
+                <Divider mb={4} />
+                <HStack spacing={3} mb={3}>
+                  <FormControl isRequired>
+                    <FormLabel fontSize="sm">Location</FormLabel>
+                    <Input
+                      value={location.name}
+                      onChange={(e) => updateLocation(locationIndex, { name: e.target.value })}
+                      placeholder="e.g. Main location"
+                    />
+                    <FormHelperText>Appointments whose Location matches this name follow these hours</FormHelperText>
+                  </FormControl>
+                  {form.locations.length > 1 && (
+                    <Tooltip label="Remove location" hasArrow>
+                      <IconButton
+                        aria-label={`Remove ${location.name || 'location'}`}
+                        icon={<FiTrash2 />}
+                        size="sm"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() =>
+                          setForm((prev) => ({
+                            ...prev,
+                            locations: prev.locations.filter((_, i) => i !== locationIndex),
+                          }))
+                        }
+                      />
+                    </Tooltip>
+                  )}
+                </HStack>
+
+                <VStack spacing={2} align="stretch">
+                  {WEEKDAY_ORDER.map((day) => {
+                    const dayPeriods = location.periods
+                      .map((period, periodIndex) => ({ period, periodIndex }))
+                      .filter(({ period }) => period.day === day);
+                    return (
+                      <HStack key={day} align="start" spacing={3}>
+                        <Text fontSize="sm" fontWeight="500" w="100px" pt={1}>
+                          {WEEKDAY_NAMES[day]}
+                        </Text>
+                        <VStack spacing={1} align="stretch" flex={1}>
+                          {dayPeriods.length === 0 && (
+                            <Text fontSize="sm" color="gray.500" pt={1}>
+                              Closed
+                            </Text>
+                          )}
+                          {dayPeriods.map(({ period, periodIndex }) => (
+                            <HStack key={periodIndex} spacing={2}>
+                              <Input
+                                type="time"
+                                size="sm"
+                                w="130px"
+                                value={period.open}
+                                onChange={(e) => updatePeriod(locationIndex, periodIndex, { open: e.target.value })}
+                                aria-label={`${WEEKDAY_NAMES[day]} opening time`}
+                              />
+                              <Text fontSize="sm">to</Text>
+                              <Input
+                                type="time"
+                                size="sm"
+                                w="130px"
+                                value={period.close}
+                                onChange={(e) => updatePeriod(locationIndex, periodIndex, { close: e.target.value })}
+                                aria-label={`${WEEKDAY_NAMES[day]} closing time`}
+                              />
+                              <IconButton
+                                aria-label={`Remove ${WEEKDAY_NAMES[day]} hours`}
+                                icon={<FiX />}
+                                size="xs"
+                                variant="ghost"
+                                onClick={() =>
+                                  updateLocation(locationIndex, {
+                                    periods: location.periods.filter((_, i) => i !== periodIndex),
+                                  })
+                                }
+                              />
+                            </HStack>
+                          ))}
+                        </VStack>
+                        <Button
+                          size="xs"
+                          variant="ghost"
+                          leftIcon={<FiPlus />}
+                          onClick={() =>
+                            updateLocation(locationIndex, {
+                              periods: [...location.periods, nextPeriod(location.periods, day)],
+                            })
+                          }
+                        >
+                          {dayPeriods.length === 0 ? 'Open' : 'Add session'}
+                        </Button>
+                      </HStack>
+                    );
+                  })}
+                </VStack>
+              </Box>
+            ))}
+
+            <Button size="sm" variant="outline" leftIcon={<FiPlus />} onClick={addLocation} alignSelf="start">
+              Add location
+            </Button>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handleSave} isLoading={isSaving}>
+              Save
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default OperatingHoursEditorModal;
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Operating hours manager for Foodbank Check-In and Appointment System admin panel
+ *
+ * This Settings card shows when each location is open, the appointment slot
+ * length and the minimum rebooking interval. The check-ins schedule only
+ * lists appointments within these hours, and the backend offers rebooking
+ * slots from them, for staff and for clients on the kiosk.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./OperatingHoursEditorModal.tsx} Operating hours editor
+ * @see {@link ../../../pages/SettingsPage.tsx} Settings page
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  HStack,
+  Icon,
+  IconButton,
+  SimpleGrid,
+  Spinner,
+  Text,
+  Tooltip,
+  VStack,
+  Wrap,
+  WrapItem,
+} from '@chakra-ui/react';
+import { FiClock, FiEdit2, FiRefreshCw } from 'react-icons/fi';
+import { invalidateQueries } from '../../../lib/queryCache';
+import { WEEKDAY_NAMES, useOperatingHours } from '../../../utils/operatingHours';
+import { formatTimeOfDay } from '../../../../../shared/appointmentSlots';
+import OperatingHoursEditorModal from './OperatingHoursEditorModal';
+
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const OperatingHoursManager: React.FC = () => {
+  const { hours, data, error, isLoading, isValidating, refresh } = useOperatingHours();
+  const [isEditing, setIsEditing] = useState(false);
+  const isConfigured = !!data?.success && !!data.data;
+
+  return (
+    <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
+      <CardBody p={6}>
+        <VStack spacing={4} align="stretch">
+          <HStack justify="space-between" align="center" wrap="wrap" gap={3}>
+            <HStack spacing={3}>
+              <Box
+                p={2}
+                bg="orange.100"
+                borderRadius="full"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+              >
+                <Icon as={FiClock} color="#25385D" boxSize={5} />
+              </Box>
+              <VStack spacing={0} align="start">
+                <Heading size="md" color="#25385D">
+                  Operating Hours
+                </Heading>
+                <Text color="gray.500" fontSize="sm">
+                  Opening hours, appointment slots and how soon clients can rebook
+                </Text>
+              </VStack>
+            </HStack>
+            <HStack spacing={2}>
+              <Tooltip label="Refresh" hasArrow>
+                <IconButton
+                  aria-label="Refresh operating hours"
+                  icon={<FiRefreshCw />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => refresh().catch(() => undefined)}
+                  isLoading={isValidating}
+                />
+              </Tooltip>
+              <Button
+                leftIcon={<FiEdit2 />}
+                size="sm"
+                colorScheme="blue"
+                onClick={() => setIsEditing(true)}
+                isDisabled={isLoading}
+              >
+                Edit hours
+              </Button>
+            </HStack>
+          </HStack>
+
+          {error && (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription fontSize="sm">
+                {error.message || 'Failed to load operating hours'}. The default hours are shown.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <HStack justify="center" py={6}>
+              <Spinner size="md" color="blue.500" />
+            </HStack>
+          ) : (
+            <>
+              <Wrap spacing={2}>
+                <WrapItem>
+                  <Badge colorScheme="blue" px={2} py={1}>
+                    {hours.slotMinutes}-minute slots
+                  </Badge>
+                </WrapItem>
+                <WrapItem>
+                  <Badge colorScheme="purple" px={2} py={1}>
+                    Rebook after {hours.rebookIntervalDays} days
+                  </Badge>
+                </WrapItem>
+                {!isConfigured && !error && (
+                  <WrapItem>
+                    <Badge colorScheme="gray" px={2} py={1}>
+                      Default hours
+                    </Badge>
+                  </WrapItem>
+                )}
+              </Wrap>
+
+              <SimpleGrid columns={{ base: 1, md: Math.min(hours.locations.length, 2) }} spacing={4}>
+                {hours.locations.map((location) => (
+                  <Box key={location.id} p={4} bg="gray.50" borderRadius="md">
+                    <Text fontWeight="600" color="gray.700" mb={2}>
+                      {location.name}
+                    </Text>
+                    {WEEKDAY_ORDER.map((day) => {
+                      const periods = location.periods.filter((period) => period.day === day);
+                      return (
+                        <HStack key={day} justify="space-between" fontSize="sm">
+                          <Text color="gray.600">{WEEKDAY_NAMES[day]}</Text>
+                          <Text color={periods.length > 0 ? 'gray.800' : 'gray.400'}>
+                            {periods.length > 0
+                              ? periods
+                                  .map((period) => `${formatTimeOfDay(period.open)} – ${formatTimeOfDay(period.close)}`)
+                                  .join(', ')
+                              : 'Closed'}
+                          </Text>
+                        </HStack>
+                      );
+                    })}
+                  </Box>
+                ))}
+              </SimpleGrid>
+
+              {hours.updatedAt && (
+                <Text fontSize="xs" color="gray.500">
+                  Last changed {new Date(hours.updatedAt).toLocaleString('en-US')}
+                  {hours.updatedBy && ` by ${hours.updatedBy}`}
+                </Text>
+              )}
+            </>
+          )}
+        </VStack>
+      </CardBody>
+
+      <OperatingHoursEditorModal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        hours={hours}
+        onSaved={() => invalidateQueries(['/settings/operating-hours'])}
+      />
+    </Card>
+  );
+};
+
+export default OperatingHoursManager;
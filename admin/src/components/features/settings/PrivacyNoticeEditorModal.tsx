@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Privacy notice editor for Foodbank Check-In and Appointment System admin panel
+ *
+ * This modal edits the privacy notice clients accept on the check-in kiosk,
+ * in each client language. Saving publishes the text as a new version; the
+ * published versions themselves are never changed, and clients who accepted
+ * an earlier version are shown as outdated on their client record.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./PrivacyNoticeManager.tsx} Privacy notice manager
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+  Textarea,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { publishPrivacyNotice } from '../../../lib/api';
+import { PrivacyNoticeVersion } from '../../../common/types/privacy';
+import { CLIENT_LANGUAGES } from './RequestOptionEditorModal';
+
+interface PrivacyNoticeEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Current version, used as the starting text
+  notice?: PrivacyNoticeVersion;
+  onPublished: (notice: PrivacyNoticeVersion) => void;
+}
+
+const PrivacyNoticeEditorModal: React.FC<PrivacyNoticeEditorModalProps> = ({ isOpen, onClose, notice, onPublished }) => {
+  const toast = useToast();
+  const [text, setText] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setText({ ...(notice?.text || {}) });
+      setError(null);
+      setSaveError(null);
+    }
+  }, [isOpen, notice]);
+
+  const isUnchanged = CLIENT_LANGUAGES.every(
+    ({ code }) => (text[code] || '').trim() === (notice?.text[code] || '').trim()
+  );
+
+  const handlePublish = async () => {
+    if (!text.en?.trim()) {
+      setError('The English notice is required');
+      return;
+    }
+
+    // Languages left blank fall back to English on the kiosk
+    const payload = Object.fromEntries(
+      Object.entries(text)
+        .map(([code, value]) => [code, value.trim()])
+        .filter(([, value]) => value)
+    );
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const published = await publishPrivacyNotice(payload);
+      toast({
+        title: `Privacy notice version ${published.version} published`,
+        description: 'Clients will be asked to accept the new version at their next check-in',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      onPublished(published);
+      onClose();
+    } catch (err: any) {
+      setSaveError(err.message || 'Failed to publish privacy notice');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader color="#25385D">Edit privacy notice</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            {saveError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {saveError}
+              </Alert>
+            )}
+
+            <Alert status="info" borderRadius="md">
+              <AlertIcon />
+              <Text fontSize="sm">
+                Publishing creates {notice ? `version ${notice.version + 1}` : 'a new version'}. Clients who
+                accepted an earlier version will be shown as outdated until they accept the new one at check-in.
+              </Text>
+            </Alert>
+
+            {CLIENT_LANGUAGES.map((language) => (
+              <FormControl key={language.code} isInvalid={language.code === 'en' && !!error}>
+                <FormLabel fontSize="sm">
+                  {language.name}
+                  {language.code === 'en' ? ' *' : ''}
+                </FormLabel>
+                <Textarea
+                  value={text[language.code] || ''}
+                  onChange={(e) => {
+                    setText((prev) => ({ ...prev, [language.code]: e.target.value }));
+                    if (language.code === 'en') setError(null);
+                  }}
+                  dir={language.dir}
+                  rows={language.code === 'en' ? 8 : 5}
+                  size="sm"
+                />
+                {language.code === 'en' ? (
+                  <FormErrorMessage>{error}</FormErrorMessage>
+                ) : (
+                  <FormHelperText>Leave empty to show the English notice</FormHelperText>
+                )}
+              </FormControl>
+            ))}
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handlePublish} isLoading={isSaving} isDisabled={isUnchanged}>
+              Publish new version
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default PrivacyNoticeEditorModal;
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Privacy notice manager for Foodbank Check-In and Appointment System admin panel
+ *
+ * This Settings card shows the privacy notice clients accept on the check-in
+ * kiosk before entering any personal information: the current version, the
+ * languages it is translated into, and the versions published before it.
+ * Edits are published as a new version so each recorded consent keeps
+ * pointing at the text the client saw.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./PrivacyNoticeEditorModal.tsx} Notice editor
+ * @see {@link ../../../pages/SettingsPage.tsx} Settings page
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  HStack,
+  Icon,
+  IconButton,
+  Spinner,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+  VStack,
+} from '@chakra-ui/react';
+import { FiEdit2, FiLock, FiRefreshCw } from 'react-icons/fi';
+import { getPrivacyNotices } from '../../../lib/api';
+import { logger } from '../../../utils/logger';
+import { PrivacyNoticeVersion } from '../../../common/types/privacy';
+import PrivacyNoticeEditorModal from './PrivacyNoticeEditorModal';
+import { CLIENT_LANGUAGES } from './RequestOptionEditorModal';
+
+const translatedLanguages = (notice: PrivacyNoticeVersion): string[] => {
+  return CLIENT_LANGUAGES.filter(({ code }) => notice.text[code]?.trim()).map(({ name }) => name);
+};
+
+const PrivacyNoticeManager: React.FC = () => {
+  const [notices, setNotices] = useState<PrivacyNoticeVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const loadNotices = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setNotices(await getPrivacyNotices());
+    } catch (err: any) {
+      logger.error('Failed to load privacy notices:', err);
+      setError(err.message || 'Failed to load privacy notices');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotices();
+  }, [loadNotices]);
+
+  const current = notices[0];
+  const missingLanguages = current
+    ? CLIENT_LANGUAGES.filter(({ code }) => !current.text[code]?.trim()).map(({ name }) => name)
+    : [];
+
+  return (
+    <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
+      <CardBody p={6}>
+        <VStack spacing={4} align="stretch">
+          <HStack justify="space-between" align="center" wrap="wrap" gap={3}>
+            <HStack spacing={3}>
+              <Box
+                p={2}
+                bg="purple.100"
+                borderRadius="full"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+              >
+                <Icon as={FiLock} color="#25385D" boxSize={5} />
+              </Box>
+              <VStack spacing={0} align="start">
+                <Heading size="md" color="#25385D">
+                  Privacy Notice
+                </Heading>
+                <Text color="gray.500" fontSize="sm">
+                  The notice clients accept on the kiosk before checking in (PIPEDA consent)
+                </Text>
+              </VStack>
+            </HStack>
+            <HStack spacing={2}>
+              <Tooltip label="Refresh" hasArrow>
+                <IconButton
+                  aria-label="Refresh privacy notice"
+                  icon={<FiRefreshCw />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={loadNotices}
+                  isDisabled={isLoading}
+                />
+              </Tooltip>
+              <Button
+                leftIcon={<FiEdit2 />}
+                size="sm"
+                colorScheme="blue"
+                onClick={() => setIsEditing(true)}
+                isDisabled={isLoading || !!error}
+              >
+                Edit notice
+              </Button>
+            </HStack>
+          </HStack>
+
+          {error && (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription fontSize="sm">{error}</AlertDescription>
+              <Button size="xs" ml="auto" onClick={loadNotices}>
+                Retry
+              </Button>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <HStack justify="center" py={6}>
+              <Spinner size="md" color="blue.500" />
+            </HStack>
+          ) : !error && !current ? (
+            <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+              No notice published yet. The kiosk shows the notice it shipped with (version 1).
+            </Text>
+          ) : (
+            !error &&
+            current && (
+              <>
+                <Box p={4} bg="gray.50" borderRadius="md">
+                  <HStack spacing={2} mb={2}>
+                    <Badge colorScheme="green">Version {current.version}</Badge>
+                    <Text fontSize="sm" color="gray.600">
+                      Published {new Date(current.publishedAt).toLocaleString('en-US')}
+                      {current.publishedBy && ` by ${current.publishedBy}`}
+                    </Text>
+                  </HStack>
+                  <Text fontSize="sm" whiteSpace="pre-wrap" noOfLines={6}>
+                    {current.text.en}
+                  </Text>
+                </Box>
+
+                {missingLanguages.length > 0 && (
+                  <Alert status="warning" borderRadius="md">
+                    <AlertIcon />
+                    <AlertDescription fontSize="sm">
+                      Not translated into {missingLanguages.join(', ')}. Clients using these languages see the English
+                      notice.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {notices.length > 1 && (
+                  <TableContainer>
+                    <Table size="sm">
+                      <Thead>
+                        <Tr>
+                          <Th>Earlier versions</Th>
+                          <Th>Published</Th>
+                          <Th>Languages</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {notices.slice(1).map((notice) => (
+                          <Tr key={notice.version}>
+                            <Td fontSize="sm">Version {notice.version}</Td>
+                            <Td fontSize="sm">{new Date(notice.publishedAt).toLocaleDateString('en-US')}</Td>
+                            <Td fontSize="sm">{translatedLanguages(notice).length} of {CLIENT_LANGUAGES.length}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </>
+            )
+          )}
+        </VStack>
+      </CardBody>
+
+      <PrivacyNoticeEditorModal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        notice={current}
+        onPublished={(published) => setNotices((prev) => [published, ...prev])}
+      />
+    </Card>
+  );
+};
+
+export default PrivacyNoticeManager;
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Special-request catalog manager for Foodbank Check-In and Appointment System admin panel
+ *
+ * This Settings card lists the request options clients can choose on the
+ * special requests page of the check-in - dietary needs, allergies, baby
+ * needs, hygiene items and pet food - with the dates they are offered and
+ * today's stock. Staff can add options, edit them, and hide options that are
+ * no longer offered. Options are never deleted so past requests keep their
+ * meaning in reports.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-15
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./RequestOptionEditorModal.tsx} Option editor
+ * @see {@link ../../../pages/SettingsPage.tsx} Settings page
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  HStack,
+  Icon,
+  IconButton,
+  Spinner,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tooltip,
+  Tr,
+  VStack,
+} from '@chakra-ui/react';
+import { FiEdit2, FiList, FiPlus, FiRefreshCw } from 'react-icons/fi';
+import { getRequestCatalog } from '../../../lib/api';
+import { logger } from '../../../utils/logger';
+import {
+  REQUEST_CATEGORY_LABELS,
+  RequestOption,
+  RequestOptionCategory,
+} from '../../../common/types/specialRequests';
+import RequestOptionEditorModal, { REQUEST_ICONS } from './RequestOptionEditorModal';
+
+const CATEGORY_ORDER = Object.keys(REQUEST_CATEGORY_LABELS) as RequestOptionCategory[];
+
+const CATEGORY_COLORS: Record<RequestOptionCategory, string> = {
+  dietary: 'green',
+  allergy: 'red',
+  baby_needs: 'pink',
+  hygiene: 'cyan',
+  pet_food: 'orange',
+};
+
+// YYYY-MM-DD in local time
+const todayKey = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const formatWindow = (option: RequestOption): string => {
+  if (!option.activeFrom && !option.activeUntil) return 'Always';
+  if (option.activeFrom && option.activeUntil) return `${option.activeFrom} – ${option.activeUntil}`;
+  if (option.activeFrom) return `From ${option.activeFrom}`;
+  return `Until ${option.activeUntil}`;
+};
+
+// What clients see today: hidden, outside its dates, or offered
+const getOptionStatus = (option: RequestOption): { label: string; colorScheme: string } => {
+  const today = todayKey();
+  if (!option.isActive) return { label: 'Hidden', colorScheme: 'gray' };
+  if (option.activeFrom && option.activeFrom > today) return { label: 'Scheduled', colorScheme: 'blue' };
+  if (option.activeUntil && option.activeUntil < today) return { label: 'Ended', colorScheme: 'gray' };
+  if (option.remaining != null && option.remaining <= 0) return { label: 'Out of stock', colorScheme: 'orange' };
+  return { label: 'Offered', colorScheme: 'green' };
+};
+
+const RequestCatalogManager: React.FC = () => {
+  const [options, setOptions] = useState<RequestOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ option?: RequestOption } | null>(null);
+
+  const loadCatalog = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setOptions(await getRequestCatalog());
+    } catch (err: any) {
+      logger.error('Failed to load request catalog:', err);
+      setError(err.message || 'Failed to load request options');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const sortedOptions = useMemo(
+    () =>
+      [...options].sort(
+        (a, b) =>
+          CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.sortOrder - b.sortOrder
+      ),
+    [options]
+  );
+
+  const handleSaved = (saved: RequestOption) => {
+    setOptions((prev) =>
+      prev.some((option) => option.id === saved.id)
+        ? prev.map((option) => (option.id === saved.id ? saved : option))
+        : [...prev, saved]
+    );
+  };
+
+  return (
+    <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
+      <CardBody p={6}>
+        <VStack spacing={4} align="stretch">
+          <HStack justify="space-between" align="center" wrap="wrap" gap={3}>
+            <HStack spacing={3}>
+              <Box
+                p={2}
+                bg="green.100"
+                borderRadius="full"
+                display="flex"
+                alignItems="center"
+                justifyContent="center"
+              >
+                <Icon as={FiList} color="#25385D" boxSize={5} />
+              </Box>
+              <VStack spacing={0} align="start">
+                <Heading size="md" color="#25385D">
+                  Special Request Options
+                </Heading>
+                <Text color="gray.500" fontSize="sm">
+                  Dietary, allergy, baby, hygiene and pet food options clients can choose at check-in
+                </Text>
+              </VStack>
+            </HStack>
+            <HStack spacing={2}>
+              <Tooltip label="Refresh" hasArrow>
+                <IconButton
+                  aria-label="Refresh request options"
+                  icon={<FiRefreshCw />}
+                  size="sm"
+                  variant="ghost"
+                  onClick={loadCatalog}
+                  isDisabled={isLoading}
+                />
+              </Tooltip>
+              <Button
+                leftIcon={<FiPlus />}
+                size="sm"
+                colorScheme="blue"
+                onClick={() => setEditing({})}
+                isDisabled={isLoading || !!error}
+              >
+                Add option
+              </Button>
+            </HStack>
+          </HStack>
+
+          {error && (
+            <Alert status="error" borderRadius="md">
+              <AlertIcon />
+              <AlertDescription fontSize="sm">{error}</AlertDescription>
+              <Button size="xs" ml="auto" onClick={loadCatalog}>
+                Retry
+              </Button>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <HStack justify="center" py={6}>
+              <Spinner size="md" color="blue.500" />
+            </HStack>
+          ) : !error && sortedOptions.length === 0 ? (
+            <Text fontSize="sm" color="gray.500" textAlign="center" py={4}>
+              No request options yet. Clients will only see the free-text fields.
+            </Text>
+          ) : (
+            !error && (
+              <TableContainer>
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>Option</Th>
+                      <Th>Category</Th>
+                      <Th>Offered</Th>
+                      <Th isNumeric>Stock today</Th>
+                      <Th>Status</Th>
+                      <Th />
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {sortedOptions.map((option) => {
+                      const status = getOptionStatus(option);
+                      const translations = Object.keys(option.labels).filter((code) => option.labels[code]).length;
+                      return (
+                        <Tr key={option.id}>
+                          <Td>
+                            <HStack spacing={3}>
+                              <Icon as={REQUEST_ICONS[option.icon]} color="gray.600" />
+                              <VStack spacing={0} align="start">
+                                <Text fontSize="sm" fontWeight="medium">
+                                  {option.labels.en || option.id}
+                                </Text>
+                                <Text fontSize="xs" color="gray.500" fontFamily="mono">
+                                  {option.id} · {translations} language{translations === 1 ? '' : 's'}
+                                  {option.detailPrompt?.en ? ' · asks for detail' : ''}
+                                </Text>
+                              </VStack>
+                            </HStack>
+                          </Td>
+                          <Td>
+                            <Badge colorScheme={CATEGORY_COLORS[option.category]} variant="subtle">
+                              {REQUEST_CATEGORY_LABELS[option.category]}
+                            </Badge>
+                          </Td>
+                          <Td fontSize="sm">{formatWindow(option)}</Td>
+                          <Td isNumeric fontSize="sm">
+                            {option.stockLimit == null
+                              ? 'Unlimited'
+                              : `${option.remaining ?? option.stockLimit} of ${option.stockLimit}`}
+                          </Td>
+                          <Td>
+                            <Badge colorScheme={status.colorScheme}>{status.label}</Badge>
+                          </Td>
+                          <Td>
+                            <IconButton
+                              aria-label={`Edit ${option.labels.en || option.id}`}
+                              icon={<FiEdit2 />}
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setEditing({ option })}
+                            />
+                          </Td>
+                        </Tr>
+                      );
+                    })}
+                  </Tbody>
+                </Table>
+              </TableContainer>
+            )
+          )}
+        </VStack>
+      </CardBody>
+
+      <RequestOptionEditorModal
+        isOpen={!!editing}
+        onClose={() => setEditing(null)}
+        option={editing?.option}
+        existingIds={options.map((option) => option.id)}
+        nextSortOrder={options.reduce((max, option) => Math.max(max, option.sortOrder), 0) + 1}
+        onSaved={handleSaved}
+      />
+    </Card>
+  );
+};
+
+export default RequestCatalogManager;
@@ -0,0 +1,446 @@
+/**
+ * @fileoverview Request option editor for Foodbank Check-In and Appointment System admin panel
+ *
+ * This modal creates or edits one option of the special-request catalog:
+ * its category, icon, labels in each client language, an optional detail
+ * question, the dates it is offered and an optional daily stock limit.
+ * The option ID is chosen once when the option is created and cannot be
+ * changed afterwards, so reports keep counting the same option.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-15
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./RequestCatalogManager.tsx} Catalog manager
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Divider,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  SimpleGrid,
+  Switch,
+  Text,
+  Tooltip,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import {
+  FaAllergies,
+  FaAppleAlt,
+  FaBaby,
+  FaBreadSlice,
+  FaCarrot,
+  FaCheese,
+  FaEgg,
+  FaFish,
+  FaLeaf,
+  FaPaw,
+  FaPumpSoap,
+  FaTooth,
+} from 'react-icons/fa';
+import { GiPeanut } from 'react-icons/gi';
+import { MdMosque, MdNoFood, MdSynagogue } from 'react-icons/md';
+import { saveRequestOption } from '../../../lib/api';
+import {
+  LocalizedText,
+  REQUEST_CATEGORY_LABELS,
+  RequestOption,
+  RequestOptionCategory,
+  RequestOptionIcon,
+  RequestOptionInput,
+} from '../../../common/types/specialRequests';
+
+// Same icons as the client special requests page
+export const REQUEST_ICONS: Record<RequestOptionIcon, React.ElementType> = {
+  carrot: FaCarrot,
+  leaf: FaLeaf,
+  bread: FaBreadSlice,
+  noFood: MdNoFood,
+  mosque: MdMosque,
+  synagogue: MdSynagogue,
+  allergy: FaAllergies,
+  peanut: GiPeanut,
+  egg: FaEgg,
+  fish: FaFish,
+  cheese: FaCheese,
+  baby: FaBaby,
+  soap: FaPumpSoap,
+  tooth: FaTooth,
+  paw: FaPaw,
+  apple: FaAppleAlt,
+};
+
+// Languages offered in the client check-in
+export const CLIENT_LANGUAGES: Array<{ code: string; name: string; dir?: 'rtl' }> = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ar', name: 'Arabic', dir: 'rtl' },
+  { code: 'pa', name: 'Punjabi' },
+];
+
+const OPTION_ID_PATTERN = /^[a-z][a-zA-Z0-9_-]*$/;
+
+interface RequestOptionEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Undefined when adding a new option
+  option?: RequestOption;
+  existingIds: string[];
+  nextSortOrder: number;
+  onSaved: (option: RequestOption) => void;
+}
+
+interface FormState {
+  id: string;
+  category: RequestOptionCategory;
+  icon: RequestOptionIcon;
+  labels: LocalizedText;
+  asksForDetail: boolean;
+  detailPrompt: LocalizedText;
+  activeFrom: string;
+  activeUntil: string;
+  stockLimit: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+type FormErrors = Partial<Record<'id' | 'label' | 'detailPrompt' | 'activeUntil' | 'stockLimit', string>>;
+
+const toFormState = (option: RequestOption | undefined, nextSortOrder: number): FormState => ({
+  id: option?.id || '',
+  category: option?.category || 'dietary',
+  icon: option?.icon || 'carrot',
+  labels: { ...(option?.labels || {}) },
+  asksForDetail: !!option?.detailPrompt?.en,
+  detailPrompt: { ...(option?.detailPrompt || {}) },
+  activeFrom: option?.activeFrom || '',
+  activeUntil: option?.activeUntil || '',
+  stockLimit: option?.stockLimit != null ? String(option.stockLimit) : '',
+  sortOrder: String(option?.sortOrder ?? nextSortOrder),
+  isActive: option?.isActive ?? true,
+});
+
+// Drop languages left blank so the client falls back to English
+const trimText = (text: LocalizedText): LocalizedText => {
+  return Object.fromEntries(
+    Object.entries(text)
+      .map(([code, value]) => [code, value.trim()])
+      .filter(([, value]) => value)
+  );
+};
+
+const RequestOptionEditorModal: React.FC<RequestOptionEditorModalProps> = ({
+  isOpen,
+  onClose,
+  option,
+  existingIds,
+  nextSortOrder,
+  onSaved,
+}) => {
+  const toast = useToast();
+  const isNew = !option;
+  const [form, setForm] = useState<FormState>(() => toFormState(option, nextSortOrder));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(toFormState(option, nextSortOrder));
+      setErrors({});
+      setSaveError(null);
+    }
+  }, [isOpen, option, nextSortOrder]);
+
+  const update = <K extends keyof FormState>(key: K, value: FormState[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const validate = (): FormErrors => {
+    const next: FormErrors = {};
+
+    if (isNew) {
+      if (!OPTION_ID_PATTERN.test(form.id)) {
+        next.id = 'Start with a lowercase letter; use letters, numbers, "-" or "_" only';
+      } else if (existingIds.includes(form.id)) {
+        next.id = 'An option with this ID already exists';
+      }
+    }
+    if (!form.labels.en?.trim()) {
+      next.label = 'An English label is required';
+    }
+    if (form.asksForDetail && !form.detailPrompt.en?.trim()) {
+      next.detailPrompt = 'An English question is required';
+    }
+    if (form.activeFrom && form.activeUntil && form.activeUntil < form.activeFrom) {
+      next.activeUntil = 'The end date must be on or after the start date';
+    }
+    if (form.stockLimit && (!Number.isInteger(Number(form.stockLimit)) || Number(form.stockLimit) < 0)) {
+      next.stockLimit = 'Enter a whole number, or leave empty for unlimited';
+    }
+
+    return next;
+  };
+
+  const handleSave = async () => {
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    const payload: RequestOptionInput = {
+      id: form.id,
+      category: form.category,
+      icon: form.icon,
+      labels: trimText(form.labels),
+      detailPrompt: form.asksForDetail ? trimText(form.detailPrompt) : null,
+      activeFrom: form.activeFrom || null,
+      activeUntil: form.activeUntil || null,
+      stockLimit: form.stockLimit ? Number(form.stockLimit) : null,
+      sortOrder: Number(form.sortOrder) || 0,
+      isActive: form.isActive,
+    };
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const saved = await saveRequestOption(payload, isNew);
+      toast({
+        title: isNew ? 'Option added' : 'Option updated',
+        description: `"${payload.labels.en}" is saved in the request catalog`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save request option');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader color="#25385D">{isNew ? 'Add request option' : 'Edit request option'}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack spacing={5} align="stretch">
+            {saveError && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {saveError}
+              </Alert>
+            )}
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl isRequired={isNew} isInvalid={!!errors.id}>
+                <FormLabel fontSize="sm">Option ID</FormLabel>
+                <Input
+                  value={form.id}
+                  onChange={(e) => update('id', e.target.value.trim())}
+                  placeholder="e.g. nutFree"
+                  isReadOnly={!isNew}
+                  bg={isNew ? 'white' : 'gray.50'}
+                  fontFamily="mono"
+                />
+                {errors.id ? (
+                  <FormErrorMessage>{errors.id}</FormErrorMessage>
+                ) : (
+                  <FormHelperText>Used in reports; cannot be changed later</FormHelperText>
+                )}
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Category</FormLabel>
+                <Select
+                  value={form.category}
+                  onChange={(e) => update('category', e.target.value as RequestOptionCategory)}
+                >
+                  {(Object.keys(REQUEST_CATEGORY_LABELS) as RequestOptionCategory[]).map((category) => (
+                    <option key={category} value={category}>
+                      {REQUEST_CATEGORY_LABELS[category]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+            </SimpleGrid>
+
+            <FormControl>
+              <FormLabel fontSize="sm">Icon</FormLabel>
+              <HStack spacing={2} wrap="wrap" role="radiogroup" aria-label="Icon">
+                {(Object.keys(REQUEST_ICONS) as RequestOptionIcon[]).map((icon) => {
+                  const IconCmp = REQUEST_ICONS[icon];
+                  const isSelected = form.icon === icon;
+                  return (
+                    <Tooltip key={icon} label={icon} hasArrow>
+                      <Button
+                        size="sm"
+                        role="radio"
+                        aria-checked={isSelected}
+                        aria-label={icon}
+                        variant={isSelected ? 'solid' : 'outline'}
+                        colorScheme={isSelected ? 'blue' : 'gray'}
+                        onClick={() => update('icon', icon)}
+                      >
+                        <IconCmp />
+                      </Button>
+                    </Tooltip>
+                  );
+                })}
+              </HStack>
+            </FormControl>
+
+            <Divider />
+
+            <Box>
+              <Text fontSize="sm" fontWeight="600" color="gray.700" mb={1}>
+                Labels
+              </Text>
+              <Text fontSize="xs" color="gray.500" mb={3}>
+                Languages left empty show the English label
+              </Text>
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+                {CLIENT_LANGUAGES.map((language) => (
+                  <FormControl
+                    key={language.code}
+                    isRequired={language.code === 'en'}
+                    isInvalid={language.code === 'en' && !!errors.label}
+                  >
+                    <FormLabel fontSize="xs" mb={1}>{language.name}</FormLabel>
+                    <Input
+                      size="sm"
+                      dir={language.dir}
+                      value={form.labels[language.code] || ''}
+                      onChange={(e) => update('labels', { ...form.labels, [language.code]: e.target.value })}
+                    />
+                    {language.code === 'en' && <FormErrorMessage>{errors.label}</FormErrorMessage>}
+                  </FormControl>
+                ))}
+              </SimpleGrid>
+            </Box>
+
+            <FormControl display="flex" alignItems="center">
+              <Switch
+                id="request-option-detail"
+                isChecked={form.asksForDetail}
+                onChange={(e) => update('asksForDetail', e.target.checked)}
+                mr={3}
+              />
+              <FormLabel htmlFor="request-option-detail" mb={0} fontSize="sm">
+                Ask the client for a detail when selected (e.g. diaper size)
+              </FormLabel>
+            </FormControl>
+
+            {form.asksForDetail && (
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing={3}>
+                {CLIENT_LANGUAGES.map((language) => (
+                  <FormControl
+                    key={language.code}
+                    isRequired={language.code === 'en'}
+                    isInvalid={language.code === 'en' && !!errors.detailPrompt}
+                  >
+                    <FormLabel fontSize="xs" mb={1}>Question – {language.name}</FormLabel>
+                    <Input
+                      size="sm"
+                      dir={language.dir}
+                      value={form.detailPrompt[language.code] || ''}
+                      onChange={(e) => update('detailPrompt', { ...form.detailPrompt, [language.code]: e.target.value })}
+                    />
+                    {language.code === 'en' && <FormErrorMessage>{errors.detailPrompt}</FormErrorMessage>}
+                  </FormControl>
+                ))}
+              </SimpleGrid>
+            )}
+
+            <Divider />
+
+            <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+              <FormControl>
+                <FormLabel fontSize="sm">Offered from</FormLabel>
+                <Input type="date" value={form.activeFrom} onChange={(e) => update('activeFrom', e.target.value)} />
+                <FormHelperText>Empty: starting now</FormHelperText>
+              </FormControl>
+              <FormControl isInvalid={!!errors.activeUntil}>
+                <FormLabel fontSize="sm">Offered until</FormLabel>
+                <Input type="date" value={form.activeUntil} onChange={(e) => update('activeUntil', e.target.value)} />
+                {errors.activeUntil ? (
+                  <FormErrorMessage>{errors.activeUntil}</FormErrorMessage>
+                ) : (
+                  <FormHelperText>Empty: no end date</FormHelperText>
+                )}
+              </FormControl>
+              <FormControl isInvalid={!!errors.stockLimit}>
+                <FormLabel fontSize="sm">Daily stock limit</FormLabel>
+                <Input
+                  type="number"
+                  min={0}
+                  value={form.stockLimit}
+                  onChange={(e) => update('stockLimit', e.target.value)}
+                  placeholder="Unlimited"
+                />
+                {errors.stockLimit ? (
+                  <FormErrorMessage>{errors.stockLimit}</FormErrorMessage>
+                ) : (
+                  <FormHelperText>Clients see "Out of stock" once this many have been requested today</FormHelperText>
+                )}
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Sort order</FormLabel>
+                <Input type="number" value={form.sortOrder} onChange={(e) => update('sortOrder', e.target.value)} />
+                <FormHelperText>Lower numbers are shown first within the category</FormHelperText>
+              </FormControl>
+            </SimpleGrid>
+
+            <FormControl display="flex" alignItems="center">
+              <Switch
+                id="request-option-active"
+                isChecked={form.isActive}
+                onChange={(e) => update('isActive', e.target.checked)}
+                mr={3}
+              />
+              <FormLabel htmlFor="request-option-active" mb={0} fontSize="sm">
+                Offer this option to clients
+              </FormLabel>
+            </FormControl>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose} isDisabled={isSaving}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handleSave} isLoading={isSaving}>
+              Save
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default RequestOptionEditorModal;
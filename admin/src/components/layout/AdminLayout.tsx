@@ -56,6 +56,7 @@ import Sidebar from './Sidebar';
 import MobileSidebar from './MobileSidebar';
 import Logo from '../ui/Logo';
 import HeaderSystemStatus from './HeaderSystemStatus';
+import { useAuth } from '../../contexts/AuthContext';
 import { CSVHelpModal } from '../features/dashboard/CSVHelpModal';
 
 interface AdminLayoutProps {
@@ -67,6 +68,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
   const { isOpen: isHelpOpen, onOpen: onHelpOpen, onClose: onHelpClose } = useDisclosure();
   const navigate = useNavigate();
   const location = useLocation();
+  const { can } = useAuth();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   const handleLogout = () => {
@@ -84,6 +86,8 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
         return 'Check-ins';
       case '/tickets':
         return 'Tickets';
+      case '/audit':
+        return 'Audit Trail';
       case '/settings':
         return 'Settings';
       default:
@@ -208,9 +212,11 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
                 <MenuItem icon={<FiUser />} onClick={() => navigate('/profile')}>
                   Profile
                 </MenuItem>
-                <MenuItem icon={<FiSettings />} onClick={() => navigate('/settings')}>
-                  Settings
-                </MenuItem>
+                {can('settings.manage') && (
+                  <MenuItem icon={<FiSettings />} onClick={() => navigate('/settings')}>
+                    Settings
+                  </MenuItem>
+                )}
                 <MenuDivider />
                 <MenuItem icon={<FiLogOut />} onClick={handleLogout} color="red.500">
                   Logout
@@ -356,9 +362,11 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
                   <MenuItem icon={<FiUser />} onClick={() => navigate('/profile')}>
                     Profile
                   </MenuItem>
-                  <MenuItem icon={<FiSettings />} onClick={() => navigate('/settings')}>
-                    Settings
-                  </MenuItem>
+                  {can('settings.manage') && (
+                    <MenuItem icon={<FiSettings />} onClick={() => navigate('/settings')}>
+                      Settings
+                    </MenuItem>
+                  )}
                   <MenuDivider />
                   <MenuItem icon={<FiLogOut />} onClick={handleLogout} color="red.500">
                     Logout
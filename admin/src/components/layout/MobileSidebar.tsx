@@ -28,8 +28,11 @@ import {
   FiPrinter, 
   FiSettings,
   FiHelpCircle,
+  FiActivity,
 } from 'react-icons/fi';
 import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { Permission } from '../../common/types/permissions';
 
 interface MobileSidebarProps {
   onClose: () => void;
@@ -38,32 +41,44 @@ interface MobileSidebarProps {
 const MobileSidebar: React.FC<MobileSidebarProps> = ({ onClose }) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { can } = useAuth();
 
-  const menuItems = [
+  const menuItems: { label: string; path: string; icon: React.ElementType; permission?: Permission; isHelp?: boolean }[] = [
     {
       label: 'Dashboard',
       path: '/dashboard',
       icon: FiHome,
+      permission: 'dashboard.view',
     },
     {
       label: 'CSV Upload',
       path: '/csv-upload',
       icon: FiUpload,
+      permission: 'csv.upload',
     },
     {
       label: 'Check-ins',
       path: '/check-ins',
       icon: FiUsers,
+      permission: 'checkins.view',
     },
     {
       label: 'Tickets',
       path: '/tickets',
       icon: FiPrinter,
+      permission: 'tickets.print',
+    },
+    {
+      label: 'Audit Trail',
+      path: '/audit',
+      icon: FiActivity,
+      permission: 'audit.view',
     },
     {
       label: 'Settings',
       path: '/settings',
       icon: FiSettings,
+      permission: 'settings.manage',
     },
     {
       label: 'Help Center',
@@ -73,7 +88,8 @@ const MobileSidebar: React.FC<MobileSidebarProps> = ({ onClose }) => {
     },
   ];
 
-  const filteredMenuItems = menuItems;
+  // Entries the signed-in role can't open are hidden
+  const filteredMenuItems = menuItems.filter((item) => !item.permission || can(item.permission));
 
   const handleNavigation = (path: string, isHelp?: boolean) => {
     if (isHelp) {
@@ -13,7 +13,7 @@
  * @see {@link ../AdminLayout.tsx} Main layout component
  */
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { 
   Box, 
   VStack, 
@@ -31,6 +31,7 @@ import {
   FiHome, 
   FiSettings, 
   FiUpload,
+  FiActivity,
   FiUsers,
   FiLogOut,
   FiHelpCircle,
@@ -39,27 +40,31 @@ import {
   FiClock
 } from 'react-icons/fi';
 import { useAuth } from '../../contexts/AuthContext';
+import { Permission } from '../../common/types/permissions';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { api } from '../../lib/api';
+import { useQuery } from '../../lib/queryCache';
+import { DayStatusResponse } from '../../common/types';
 import Logo from '../ui/Logo';
 
 const Sidebar: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { signOut, user } = useAuth();
+  const { signOut, user, can } = useAuth();
   
-  // CSV Status state
-  const [csvStatus, setCsvStatus] = useState<{
-    loading: boolean;
-    hasData: boolean;
-    count: number;
-    error: string | null;
-  }>({
-    loading: true,
-    hasData: false,
-    count: 0,
-    error: null
-  });
+  // CSV status, shared with the dashboard through the query cache
+  const { data: dayStatus, error: dayStatusError, isLoading: isDayStatusLoading } =
+    useQuery<DayStatusResponse>('/status/day');
+
+  const csvStatus = {
+    loading: isDayStatusLoading,
+    hasData: (dayStatus?.success && dayStatus.data?.data?.present) || false,
+    count: (dayStatus?.success && dayStatus.data?.data?.count) || 0,
+    error: dayStatusError
+      ? 'No CSV data available'
+      : dayStatus && !dayStatus.success
+        ? dayStatus.error || 'Failed to fetch status'
+        : null,
+  };
 
   // Responsive breakpoint values
   const sidebarWidth = useBreakpointValue({ 
@@ -70,102 +75,46 @@ const Sidebar: React.FC = () => {
   // Accessibility and theme preferences
   const prefersReducedMotion = usePrefersReducedMotion();
 
-  const menuItems = [
+  const allMenuItems: { label: string; path: string; icon: React.ElementType; description: string; permission: Permission }[] = [
     {
       label: 'Dashboard',
       path: '/dashboard',
       icon: FiHome,
       description: 'View dashboard overview and statistics',
+      permission: 'dashboard.view',
     },
     {
       label: 'CSV Upload',
       path: '/csv-upload',
       icon: FiUpload,
       description: 'Upload Link2Feed Appointment List CSV',
+      permission: 'csv.upload',
     },
     {
       label: 'Check-ins',
       path: '/check-ins',
       icon: FiUsers,
       description: 'Manage client check-ins',
+      permission: 'checkins.view',
+    },
+    {
+      label: 'Audit Trail',
+      path: '/audit',
+      icon: FiActivity,
+      description: 'Review who changed what and when',
+      permission: 'audit.view',
     },
     {
       label: 'Settings',
       path: '/settings',
       icon: FiSettings,
       description: 'Configure system settings',
+      permission: 'settings.manage',
     },
   ];
 
-  // Fetch CSV status
-  const fetchCsvStatus = async () => {
-    try {
-      const response = await api('/status/day');
-      
-      if (response.status === 429) {
-        // Rate limited - don't show error, just skip this update
-        console.warn('Rate limited - skipping CSV status update');
-        return;
-      }
-      
-      const result = await response.json();
-      
-      if (result.success) {
-        // Check if data version changed (data was purged)
-        const lastVersion = localStorage.getItem('dataVersion');
-        if (result.dataVersion && result.dataVersion.toString() !== lastVersion) {
-          localStorage.setItem('dataVersion', result.dataVersion.toString());
-          // Trigger a page refresh to update all components
-          window.location.reload();
-          return;
-        }
-        
-        setCsvStatus({
-          loading: false,
-          hasData: result.data?.data?.present || false,
-          count: result.data?.data?.count || 0,
-          error: null
-        });
-      } else {
-        setCsvStatus({
-          loading: false,
-          hasData: false,
-          count: 0,
-          error: result.error || 'Failed to fetch status'
-        });
-      }
-    } catch (err) {
-      console.error('CSV status fetch error:', err);
-      setCsvStatus({
-        loading: false,
-        hasData: false,
-        count: 0,
-        error: 'No CSV data available'
-      });
-    }
-  };
-
-  useEffect(() => {
-    fetchCsvStatus();
-    
-    // Listen for CSV import events
-    const handleCSVImport = () => {
-      fetchCsvStatus();
-    };
-    
-    window.addEventListener('csvDataImported', handleCSVImport);
-    
-    return () => {
-      window.removeEventListener('csvDataImported', handleCSVImport);
-    };
-  }, []);
-
-  // Refresh CSV status when navigating to CSV upload page
-  useEffect(() => {
-    if (location.pathname === '/csv-upload') {
-      fetchCsvStatus();
-    }
-  }, [location.pathname]);
+  // Entries the signed-in role can't open are hidden
+  const menuItems = allMenuItems.filter((item) => can(item.permission));
 
   const getCsvStatusInfo = () => {
     if (csvStatus.loading) {
@@ -1,9 +1,9 @@
 /**
  * @fileoverview Protected route component for Foodbank Check-In and Appointment System admin panel
  * 
- * This component provides route protection by checking user authentication and admin
- * privileges before rendering protected content. It handles loading states, unauthorized
- * access, and provides appropriate user feedback for different access scenarios.
+ * This component provides route protection by checking user authentication and the
+ * permission a page needs before rendering protected content. It handles loading states,
+ * unauthorized access, and provides appropriate user feedback for different access scenarios.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -11,41 +11,33 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../contexts/AuthContext.tsx} Authentication context
+ * @see {@link ../../common/types/permissions.ts} Roles and permission matrix
  */
 
-import { Navigate, useLocation } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Spinner, Center, Text, VStack, Button, useToast } from '@chakra-ui/react';
 import { useAuth } from '../../contexts/AuthContext';
+import { Permission, ROLE_LABELS, hasPermission, StaffRole } from '../../common/types/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Permission the page needs; any signed-in staff member when omitted
+  permission?: Permission;
+  // Send staff without the permission to their home page instead of showing Access Denied
+  redirectIfDenied?: boolean;
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { isAuthenticated, user, isLoading, signOut } = useAuth();
+// Where a role lands after signing in: the dashboard, or check-ins for volunteers
+export const getHomePath = (role: StaffRole | null): string => {
+  return hasPermission(role, 'dashboard.view') ? '/dashboard' : '/check-ins';
+};
+
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission, redirectIfDenied = false }) => {
+  const { isAuthenticated, role, can, isLoading, signOut } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
   const toast = useToast();
 
-  /**
-   * Check if user has admin privileges
-   * 
-   * Best practice: Check user metadata for admin role.
-   * This should match the check in AuthContext for consistency.
-   */
-  const isAdmin = (user: any): boolean => {
-    if (!user) return false;
-    
-    // Check user metadata for admin role (recommended approach)
-    const userRole = user.user_metadata?.role || user.app_metadata?.role;
-    if (userRole === 'admin') {
-      return true;
-    }
-    
-    // Fallback: For invite-only systems, any authenticated user is admin
-    // This should be replaced with proper role checking in production
-    return true;
-  };
-
   // Handle unauthorized access
   const handleUnauthorized = async () => {
     await signOut();
@@ -75,12 +67,12 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  if (!isAdmin(user)) {
+  if (!role) {
     return (
       <Center minH="100vh">
         <VStack spacing={4}>
           <Text fontSize="xl" color="red.500">Access Denied</Text>
-          <Text color="gray.600">Admin privileges required.</Text>
+          <Text color="gray.600">A staff role is required.</Text>
           <Text color="gray.500" fontSize="sm">
             Please contact your administrator for access.
           </Text>
@@ -96,6 +88,26 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     );
   }
 
+  if (permission && !can(permission)) {
+    if (redirectIfDenied) {
+      return <Navigate to={getHomePath(role)} replace />;
+    }
+    return (
+      <Center minH="100vh">
+        <VStack spacing={4}>
+          <Text fontSize="xl" color="red.500">Access Denied</Text>
+          <Text color="gray.600">Your role ({ROLE_LABELS[role]}) can't open this page.</Text>
+          <Text color="gray.500" fontSize="sm">
+            Ask a coordinator or administrator if you need access.
+          </Text>
+          <Button colorScheme="blue" onClick={() => navigate(getHomePath(role))} size="md">
+            Go to {getHomePath(role) === '/dashboard' ? 'Dashboard' : 'Check-ins'}
+          </Button>
+        </VStack>
+      </Center>
+    );
+  }
+
   return <>{children}</>;
 };
 
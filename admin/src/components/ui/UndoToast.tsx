@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Undo toast for Foodbank Check-In and Appointment System admin panel
+ *
+ * Destructive actions - cancelling an appointment, changing its status,
+ * clearing the day's data - confirm with a toast that has an Undo button for
+ * a few seconds, so a mis-click can be taken back straight away. The action
+ * itself has already been saved; undoing runs the caller's reverse action.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-27
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../pages/CheckInsPage.tsx} Check-ins page
+ * @see {@link ../../pages/CSVUploadPage.tsx} CSV upload page
+ */
+
+import React, { useCallback, useState } from 'react';
+import { Alert, AlertDescription, AlertIcon, AlertTitle, Box, Button, CloseButton, useToast } from '@chakra-ui/react';
+
+// How long the Undo button stays available
+export const UNDO_WINDOW_MS = 10000;
+
+interface UndoToastOptions {
+  title: string;
+  description?: string;
+  // Reverses the action; a thrown error is shown to the user
+  onUndo: () => Promise<void>;
+  duration?: number;
+}
+
+interface UndoToastProps {
+  title: string;
+  description?: string;
+  onUndo: () => Promise<void>;
+  onClose: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ title, description, onUndo, onClose }) => {
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const handleUndo = async () => {
+    setIsUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      setIsUndoing(false);
+      onClose();
+    }
+  };
+
+  return (
+    <Alert status="success" variant="solid" borderRadius="md" alignItems="center" pr={10}>
+      <AlertIcon />
+      <Box flex={1}>
+        <AlertTitle fontSize="sm">{title}</AlertTitle>
+        {description && <AlertDescription fontSize="sm">{description}</AlertDescription>}
+      </Box>
+      <Button size="sm" variant="outline" colorScheme="whiteAlpha" color="white" ml={3} onClick={handleUndo} isLoading={isUndoing}>
+        Undo
+      </Button>
+      <CloseButton size="sm" position="absolute" right={2} top={2} onClick={onClose} />
+    </Alert>
+  );
+};
+
+/**
+ * React hook returning a function that shows an undo toast
+ *
+ * After a successful undo a short confirmation is shown; a failed undo shows
+ * the error, since the original action then still stands.
+ */
+export const useUndoToast = () => {
+  const toast = useToast();
+
+  return useCallback(
+    ({ title, description, onUndo, duration = UNDO_WINDOW_MS }: UndoToastOptions) => {
+      const undo = async () => {
+        try {
+          await onUndo();
+          toast({ title: 'Undone', status: 'info', duration: 3000, isClosable: true });
+        } catch (error: any) {
+          toast({
+            title: 'Could not undo',
+            description: error?.message || 'Please try again',
+            status: 'error',
+            duration: 6000,
+            isClosable: true,
+          });
+        }
+      };
+
+      toast({
+        duration,
+        render: ({ onClose }) => <UndoToast title={title} description={description} onUndo={undo} onClose={onClose} />,
+      });
+    },
+    [toast]
+  );
+};
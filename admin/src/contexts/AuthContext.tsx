@@ -14,7 +14,7 @@
  * 
  * Features:
  * - Automatic session restoration
- * - Admin-only access control
+ * - Role-based access control (volunteer, front desk, coordinator, administrator)
  * - Secure token management
  * - Session persistence
  * - Password reset functionality
@@ -25,6 +25,7 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../lib/supabase.ts} Supabase client configuration
+ * @see {@link ../common/types/permissions.ts} Roles and permission matrix
  * @see {@link https://supabase.com/docs/guides/auth} Supabase Authentication Documentation
  */
 
@@ -33,12 +34,16 @@ import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { useToast } from '@chakra-ui/react';
 import { logger } from '../utils/logger';
+import { Permission, StaffRole, hasPermission } from '../common/types/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  // Null when signed out or when the account's role isn't recognized
+  role: StaffRole | null;
+  can: (permission: Permission) => boolean;
   signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ success: boolean; error?: string }>;
@@ -54,6 +59,31 @@ export const useAuth = () => {
   return context;
 };
 
+// Role names as they may be set in Supabase metadata
+const ROLE_ALIASES: Record<string, StaffRole> = {
+  volunteer: 'volunteer',
+  frontdesk: 'frontDesk',
+  front_desk: 'frontDesk',
+  'front-desk': 'frontDesk',
+  coordinator: 'coordinator',
+  administrator: 'administrator',
+  admin: 'administrator',
+};
+
+/**
+ * Read a staff member's role from Supabase app_metadata
+ *
+ * Only app_metadata is trusted: it can be set with the service key alone,
+ * while users can change their own user_metadata. Access is denied by
+ * default - an account without a role, or with one that isn't recognized,
+ * gets no role and can't sign in to the admin panel.
+ */
+export const getStaffRole = (user: User | null): StaffRole | null => {
+  const role = user?.app_metadata?.role;
+  if (typeof role !== 'string') return null;
+  return ROLE_ALIASES[role.trim().toLowerCase()] || null;
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -66,38 +96,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [hasShownWelcomeToast, setHasShownWelcomeToast] = useState(false);
   const toast = useToast();
 
-  /**
-   * Check if user has admin privileges
-   * 
-   * Best practice: Use user metadata to determine admin status.
-   * Admin users should have `role: 'admin'` in their user_metadata or app_metadata.
-   * 
-   * For now, any authenticated user is considered an admin (invite-only system).
-   * In production, you should set user metadata when creating admin users:
-   * 
-   * ```sql
-   * -- In Supabase SQL Editor or via Admin API:
-   * UPDATE auth.users 
-   * SET user_metadata = jsonb_set(user_metadata, '{role}', '"admin"')
-   * WHERE email = 'admin@example.com';
-   * ```
-   * 
-   * Then check: user?.user_metadata?.role === 'admin' || user?.app_metadata?.role === 'admin'
-   */
-  const isAdmin = (user: User | null): boolean => {
-    if (!user) return false;
-    
-    // Check user metadata for admin role (recommended approach)
-    const userRole = user.user_metadata?.role || user.app_metadata?.role;
-    if (userRole === 'admin') {
-      return true;
-    }
-    
-    // Fallback: For invite-only systems, any authenticated user is admin
-    // This should be replaced with proper role checking in production
-    return true;
-  };
-
   useEffect(() => {
     /**
      * Initialize authentication state
@@ -159,13 +157,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           setSession(session);
           setUser(session.user);
           
-          // Verify admin privileges
-          if (!isAdmin(session.user)) {
-            // Not an admin, sign them out immediately
+          // Verify the account has a staff role
+          if (!getStaffRole(session.user)) {
+            // No recognized role, sign them out immediately
             await supabase.auth.signOut();
             toast({
               title: 'Access Denied',
-              description: 'Your account does not have administrator privileges. Please contact your system administrator for access.',
+              description: 'Your account does not have a staff role. Please contact your system administrator for access.',
               status: 'error',
               duration: 6000,
               isClosable: true,
@@ -245,10 +243,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
       
       // Success - onAuthStateChange will handle session update
-      // Verify admin status after sign in
-      if (data?.user && !isAdmin(data.user)) {
+      // Verify the account has a staff role after sign in
+      if (data?.user && !getStaffRole(data.user)) {
         await supabase.auth.signOut();
-        return { success: false, error: 'Your account does not have administrator privileges.' };
+        return { success: false, error: 'Your account does not have a staff role.' };
       }
       
       return { success: true };
@@ -320,11 +318,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const role = getStaffRole(user);
+
   const value: AuthContextType = {
     user,
     session,
     isLoading,
     isAuthenticated: !!user,
+    role,
+    can: (permission: Permission) => hasPermission(role, permission),
     signIn,
     signOut,
     resetPassword,
@@ -13,10 +13,9 @@
  * - Proper error logging (dev vs production)
  * - Automatic redirect on 401 (unauthorized)
  * 
- * Note: Components using this API should implement smart polling with:
- * - Page Visibility API to pause when tab is hidden
- * - Exponential backoff on connection errors
- * - Appropriate polling intervals (30-120 seconds based on priority)
+ * Note: Components should not poll this API on their own timers. To stay
+ * current, subscribe to real-time events (./realtime.ts) and reload when
+ * they arrive.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -24,11 +23,19 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../contexts/AuthContext.tsx} Authentication context
- * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
+ * @see {@link ./realtime.ts} Real-time event subscriptions
  */
 
 import { supabase } from './supabase';
 import { logger, logApiError } from '../utils/logger';
+import { AvailabilityDay } from '../common/types/availability';
+import { RequestOption, RequestOptionInput } from '../common/types/specialRequests';
+import { HouseholdUpdateRequest } from '../common/types/householdUpdate';
+import { PrivacyNoticeVersion } from '../common/types/privacy';
+import { ImportProfile, ImportProfileInput } from '../common/types/importProfiles';
+import { AppointmentMergeRequest, AppointmentMergeResult } from '../common/types/appointmentMerge';
+import { OperatingHours, OperatingHoursInput } from '../common/types/operatingHours';
+import { ClearedDataBatch } from '../common/types/clearedData';
 
 const getApiBase = (): string => {
   if (import.meta.env.VITE_API_BASE_URL) {
@@ -53,7 +60,7 @@ const getApiBase = (): string => {
  * Best practice: Always get fresh session to ensure token is valid.
  * Supabase automatically refreshes tokens when needed.
  */
-const getAuthToken = async (): Promise<string | null> => {
+export const getAuthToken = async (): Promise<string | null> => {
   try {
     const { data: { session }, error } = await supabase.auth.getSession();
     
@@ -119,11 +126,15 @@ export const api = async (path: string, init?: RequestInit): Promise<Response> =
   }
 };
 
-// Clear all system data
-export const clearAllData = async (): Promise<{ success: boolean; message?: string; error?: string }> => {
+// Clear all system data; the reason is recorded in the audit trail.
+// The backend keeps the cleared data as a batch that can be restored until it's purged.
+export const clearAllData = async (
+  reason?: string
+): Promise<{ success: boolean; data?: ClearedDataBatch; message?: string; error?: string }> => {
   try {
     const response = await api('/status/clear', {
       method: 'DELETE',
+      body: JSON.stringify({ reason: reason || undefined }),
     });
 
     const result = await response.json();
@@ -141,4 +152,250 @@ export const clearAllData = async (): Promise<{ success: boolean; message?: stri
       error: error.message || 'Failed to clear data'
     };
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get open days and remaining slot capacity for an inclusive YYYY-MM-DD range
+ *
+ * Throws on failure so the slot picker can show its retry state.
+ */
+export const getAvailability = async (from: string, to: string): Promise<AvailabilityDay[]> => {
+  const params = new URLSearchParams({ from, to });
+  const response = await api(`/appointments/availability?${params.toString()}`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load availability');
+  }
+
+  return result.data?.days || [];
+};
+
+/**
+ * Get the special-request catalog, including hidden and scheduled options
+ */
+export const getRequestCatalog = async (): Promise<RequestOption[]> => {
+  const response = await api('/special-requests/options?include_inactive=true');
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load request options');
+  }
+
+  return result.data?.options || [];
+};
+
+/**
+ * Create a request option, or update an existing one (the ID cannot change)
+ */
+export const saveRequestOption = async (option: RequestOptionInput, isNew: boolean): Promise<RequestOption> => {
+  const response = await api(
+    isNew ? '/special-requests/options' : `/special-requests/options/${encodeURIComponent(option.id)}`,
+    {
+      method: isNew ? 'POST' : 'PUT',
+      body: JSON.stringify(option),
+    }
+  );
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to save request option');
+  }
+
+  return result.data;
+};
+
+/**
+ * Get the household changes a client proposed at check-in that still need review
+ */
+export const getPendingHouseholdUpdates = async (clientId: string): Promise<HouseholdUpdateRequest[]> => {
+  const response = await api(`/clients/${encodeURIComponent(clientId)}/household-updates?status=pending`);
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load household updates');
+  }
+
+  return result.data?.updates || [];
+};
+
+/**
+ * Approve a proposed household change (the backend then updates the client
+ * record) or reject it with an optional reason
+ */
+export const reviewHouseholdUpdate = async (
+  updateId: string,
+  decision: 'approve' | 'reject',
+  reason?: string
+): Promise<HouseholdUpdateRequest> => {
+  const response = await api(`/household-updates/${encodeURIComponent(updateId)}/${decision}`, {
+    method: 'POST',
+    body: JSON.stringify(reason ? { reason } : {}),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Failed to ${decision} household update`);
+  }
+
+  return result.data;
+};
+
+/**
+ * Get every published version of the privacy notice, newest first
+ */
+export const getPrivacyNotices = async (): Promise<PrivacyNoticeVersion[]> => {
+  const response = await api('/privacy/notices');
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to load privacy notices');
+  }
+
+  return result.data?.notices || [];
+};
+
+/**
+ * Publish edited privacy notice text as a new version
+ *
+ * Published versions are never changed, so every consent keeps pointing at
+ * the text the client actually saw.
+ */
+export const publishPrivacyNotice = async (text: Record<string, string>): Promise<PrivacyNoticeVersion> => {
+  const response = await api('/privacy/notices', {
+    method: 'POST',
+    body: JSON.stringify({ text }),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to publish privacy notice');
+  }
+
+  return result.data;
+};
+
+/**
+ * Call a checked-in client's ticket
+ *
+ * The client's Confirmation page follows their queue status and tells them
+ * to come to the desk. Returns when the ticket was called.
+ */
+export const callTicket = async (checkInId: string): Promise<string> => {
+  const response = await api(`/checkin/${encodeURIComponent(checkInId)}/call`, { method: 'POST' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to call ticket');
+  }
+
+  return result.data?.calledAt || new Date().toISOString();
+};
+
+/**
+ * Create an import profile, or update an existing one
+ *
+ * Profiles are read through the query cache ('/csv/profiles'); callers
+ * invalidate it after saving.
+ */
+export const saveImportProfile = async (profile: ImportProfileInput, id?: string): Promise<ImportProfile> => {
+  const response = await api(id ? `/csv/profiles/${encodeURIComponent(id)}` : '/csv/profiles', {
+    method: id ? 'PUT' : 'POST',
+    body: JSON.stringify(profile),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to save import profile');
+  }
+
+  return result.data;
+};
+
+/**
+ * Delete an import profile
+ */
+export const deleteImportProfile = async (id: string): Promise<void> => {
+  const response = await api(`/csv/profiles/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to delete import profile');
+  }
+};
+
+/**
+ * Apply selected differences between a new file and the day's appointments
+ *
+ * Unlike /csv/upload this changes only what is sent: new clients are added,
+ * updated appointments get the listed fields, and removed ones are dropped.
+ * Check-in status, request selections and next appointments stay as they are.
+ */
+export const mergeAppointments = async (merge: AppointmentMergeRequest): Promise<AppointmentMergeResult> => {
+  const response = await api('/csv/merge', {
+    method: 'POST',
+    body: JSON.stringify(merge),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to apply changes');
+  }
+
+  return result.data;
+};
+
+/**
+ * Save the operating hours configured in Settings
+ *
+ * The hours are read through the query cache ('/settings/operating-hours');
+ * callers invalidate it after saving. The backend applies the new slot length
+ * and rebooking interval to availability from then on.
+ */
+export const saveOperatingHours = async (hours: OperatingHoursInput): Promise<OperatingHours> => {
+  const response = await api('/settings/operating-hours', {
+    method: 'PUT',
+    body: JSON.stringify(hours),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to save operating hours');
+  }
+
+  return result.data;
+};
+
+/**
+ * Restore a batch of cleared data before it is purged
+ *
+ * Batches are read through the query cache ('/status/cleared'). Restoring
+ * brings back the day's clients, appointments and check-ins as they were
+ * when cleared, so callers invalidate every query afterwards.
+ */
+export const restoreClearedData = async (batchId: string): Promise<void> => {
+  const response = await api(`/status/cleared/${encodeURIComponent(batchId)}/restore`, { method: 'POST' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || 'Failed to restore cleared data');
+  }
+};
+
+/**
+ * Get a ticket for opening the real-time event stream
+ *
+ * EventSource can't send an Authorization header, so the stream is opened
+ * with this ticket instead of the access token. The backend accepts each
+ * ticket once, within a few seconds of issuing it.
+ */
+export const getStreamTicket = async (): Promise<string> => {
+  const response = await api('/events/ticket', { method: 'POST' });
+  const result = await response.json();
+
+  if (!response.ok || !result.success || !result.data?.ticket) {
+    throw new Error(result.error || 'Failed to get a stream ticket');
+  }
+
+  return result.data.ticket;
+};
@@ -0,0 +1,301 @@
+/**
+ * @fileoverview Shared query cache for Foodbank Check-In and Appointment System admin panel
+ *
+ * Admin views that show the same data (today's status, appointments, client
+ * records) read it through this cache instead of requesting it themselves.
+ * Responses are cached by endpoint and parameters, so:
+ *
+ * - Concurrent requests for the same key share one network request
+ * - A view mounting with cached data shows it immediately and revalidates in
+ *   the background when it is more than 30 seconds old
+ * - Every subscribed view receives a new response at the same moment
+ *
+ * Cached data stays valid until it is invalidated: by a real-time event (a
+ * check-in created or changed, the day's data replaced), by a change in the
+ * dataVersion reported by /status/day, or by the admin's own mutations
+ * calling invalidateQueries() after a status change, client save, reschedule,
+ * upload or clear. Invalidated keys with subscribers are refetched right away;
+ * the others on their next use.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-20
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./realtime.ts} Real-time event subscriptions
+ * @see {@link ./api.ts} API service layer
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { api } from './api';
+import { subscribeToRealtime } from './realtime';
+import { logger } from '../utils/logger';
+import type { RealtimeEvent } from '../common/types/realtime';
+
+const STALE_TIME_MS = 30000;
+
+export type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface QueryState<T> {
+  data?: T;
+  error?: Error;
+  // No data yet and the first request is in flight
+  isLoading: boolean;
+  // Any request is in flight, including background revalidation
+  isValidating: boolean;
+  updatedAt?: number;
+}
+
+type QueryListener<T> = (state: QueryState<T>) => void;
+
+interface CacheEntry {
+  key: string;
+  path: string;
+  state: QueryState<unknown>;
+  request: Promise<unknown> | null;
+  isInvalidated: boolean;
+  // Invalidated while a request was in flight; its response may already be outdated
+  refetchAfterRequest: boolean;
+  listeners: Set<QueryListener<unknown>>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+let lastDataVersion: string | undefined;
+let unsubscribeFromRealtime: (() => void) | null = null;
+
+/**
+ * Build the cache key for an endpoint and its parameters
+ *
+ * Parameters are sorted and empty ones dropped, so { a: 1, b: 2 } and
+ * { b: 2, a: 1 } share an entry.
+ */
+export const queryKey = (path: string, params?: QueryParams): string => {
+  const query = Object.entries(params || {})
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `${path}?${query}` : path;
+};
+
+const getEntry = (path: string, params?: QueryParams): CacheEntry => {
+  const key = queryKey(path, params);
+  let entry = cache.get(key);
+  if (!entry) {
+    entry = {
+      key,
+      path,
+      // Not requested yet, but subscribing or fetching requests it right away
+      state: { isLoading: true, isValidating: false },
+      request: null,
+      isInvalidated: false,
+      refetchAfterRequest: false,
+      listeners: new Set(),
+    };
+    cache.set(key, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: CacheEntry, state: Partial<QueryState<unknown>>) => {
+  entry.state = { ...entry.state, ...state };
+  entry.listeners.forEach((listener) => listener(entry.state));
+};
+
+const isFresh = (entry: CacheEntry): boolean => {
+  return (
+    entry.state.updatedAt !== undefined &&
+    !entry.isInvalidated &&
+    Date.now() - entry.state.updatedAt < STALE_TIME_MS
+  );
+};
+
+// A new dataVersion means the day's data was replaced; everything cached from before is outdated
+const checkDataVersion = (data: unknown, fromKey: string) => {
+  const dataVersion = (data as { dataVersion?: string | number } | null)?.dataVersion;
+  if (dataVersion === undefined || dataVersion === null) return;
+
+  const version = String(dataVersion);
+  const previous = lastDataVersion;
+  lastDataVersion = version;
+  if (previous !== undefined && previous !== version) {
+    logger.log('Data version changed, invalidating cached queries');
+    cache.forEach((entry) => {
+      if (entry.key !== fromKey) invalidateEntry(entry);
+    });
+  }
+};
+
+const revalidate = (entry: CacheEntry): Promise<unknown> => {
+  if (entry.request) return entry.request;
+  const { key } = entry;
+
+  entry.isInvalidated = false;
+  setState(entry, { isValidating: true, isLoading: entry.state.updatedAt === undefined });
+
+  const request = (async () => {
+    try {
+      const response = await api(key);
+
+      // Rate limited - keep showing what we have
+      if (response.status === 429 && entry.state.updatedAt !== undefined) {
+        logger.warn(`Rate limited - keeping cached ${key}`);
+        setState(entry, { isValidating: false, isLoading: false });
+        return entry.state.data;
+      }
+      if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      setState(entry, { data, error: undefined, isLoading: false, isValidating: false, updatedAt: Date.now() });
+      checkDataVersion(data, key);
+      return data;
+    } catch (error) {
+      logger.warn(`Failed to load ${key}:`, error);
+      setState(entry, {
+        error: error instanceof Error ? error : new Error(String(error)),
+        isLoading: false,
+        isValidating: false,
+      });
+      throw error;
+    } finally {
+      entry.request = null;
+      if (entry.refetchAfterRequest) {
+        entry.refetchAfterRequest = false;
+        invalidateEntry(entry);
+      }
+    }
+  })();
+
+  entry.request = request;
+  // Background revalidations report errors through the state
+  request.catch(() => undefined);
+  return request;
+};
+
+const invalidateEntry = (entry: CacheEntry) => {
+  if (entry.request) {
+    entry.refetchAfterRequest = true;
+    return;
+  }
+  entry.isInvalidated = true;
+  if (entry.listeners.size > 0) {
+    revalidate(entry);
+  }
+};
+
+const handleRealtimeEvents = (events: RealtimeEvent[]) => {
+  if (events.some((event) => event.type === 'data.version_bumped' || event.type === 'resync')) {
+    invalidateQueries();
+  } else {
+    invalidateQueries(['/checkin/appointments', '/csv/all']);
+  }
+};
+
+const updateRealtimeSubscription = () => {
+  const hasListeners = [...cache.values()].some((entry) => entry.listeners.size > 0);
+  if (hasListeners && !unsubscribeFromRealtime) {
+    unsubscribeFromRealtime = subscribeToRealtime(
+      ['checkin.created', 'checkin.status_changed', 'data.version_bumped'],
+      handleRealtimeEvents
+    );
+  } else if (!hasListeners && unsubscribeFromRealtime) {
+    unsubscribeFromRealtime();
+    unsubscribeFromRealtime = null;
+  }
+};
+
+/**
+ * Get the response for an endpoint, from the cache when it is fresh
+ *
+ * @param path - Endpoint path, e.g. '/checkin/appointments'
+ * @param params - Query parameters, part of the cache key
+ * @param options.force - Skip the cache, e.g. for a manual refresh
+ * @returns The parsed response body
+ * @throws Error when the request fails
+ */
+export const fetchQuery = async <T>(
+  path: string,
+  params?: QueryParams,
+  options: { force?: boolean } = {}
+): Promise<T> => {
+  const entry = getEntry(path, params);
+  if (!options.force && !entry.request && isFresh(entry)) {
+    return entry.state.data as T;
+  }
+  return (await revalidate(entry)) as T;
+};
+
+/**
+ * Read the cached state for an endpoint without requesting it
+ */
+export const getQueryState = <T>(path: string, params?: QueryParams): QueryState<T> => {
+  return (cache.get(queryKey(path, params))?.state as QueryState<T>) || { isLoading: true, isValidating: false };
+};
+
+/**
+ * Subscribe to an endpoint's cached state
+ *
+ * The listener is called right away with the current state, then on every
+ * change. Missing or stale data is requested in the background.
+ *
+ * @returns Function that removes the subscription
+ */
+export const subscribeToQuery = <T>(path: string, listener: QueryListener<T>, params?: QueryParams): (() => void) => {
+  const entry = getEntry(path, params);
+  entry.listeners.add(listener as QueryListener<unknown>);
+  updateRealtimeSubscription();
+
+  listener(entry.state as QueryState<T>);
+  if (!isFresh(entry)) {
+    revalidate(entry);
+  }
+
+  return () => {
+    entry.listeners.delete(listener as QueryListener<unknown>);
+    updateRealtimeSubscription();
+  };
+};
+
+/**
+ * Mark cached responses as outdated
+ *
+ * Call after a mutation with the endpoints it affects. Paths match by prefix
+ * and ignore parameters, so '/csv/all' also invalidates '/csv/all?date=...'.
+ * Without paths, everything is invalidated.
+ *
+ * @param paths - Endpoint paths to invalidate
+ */
+export const invalidateQueries = (paths?: string[]) => {
+  cache.forEach((entry) => {
+    if (!paths || paths.some((path) => entry.path.startsWith(path))) {
+      invalidateEntry(entry);
+    }
+  });
+};
+
+/**
+ * React hook for an endpoint's cached state
+ *
+ * @example
+ * const { data, error, isLoading, refresh } = useQuery<DayStatusResponse>('/status/day');
+ */
+export const useQuery = <T>(path: string, params?: QueryParams) => {
+  const key = queryKey(path, params);
+  const [state, setQueryState] = useState<QueryState<T>>(() => getQueryState<T>(path, params));
+
+  useEffect(() => {
+    return subscribeToQuery<T>(path, setQueryState, params);
+    // The key covers path and params
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const refresh = useCallback(() => {
+    return fetchQuery<T>(path, params, { force: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return { ...state, refresh };
+};
@@ -0,0 +1,398 @@
+/**
+ * @fileoverview Real-time event subscriptions for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module keeps one connection to the backend for the whole admin panel
+ * and hands typed events (check-in created, check-in status changed, help
+ * request created, data version bumped) to their subscribers. The query cache
+ * subscribes to invalidate what changed; components that load data outside
+ * the cache subscribe to reload it themselves.
+ *
+ * The connection is a Server-Sent Events stream at /events, opened for the
+ * first subscriber and closed after the last one leaves. It is authorized with
+ * a single-use ticket from POST /events/ticket, never the access token itself. If the stream can't
+ * be opened three times in a row, a single poller takes over: every 30 seconds
+ * it requests the endpoints the current subscribers need and turns the
+ * differences from the previous response into the same events. The stream is
+ * tried again every 5 minutes while polling.
+ *
+ * Events are delivered in batches (at most one per subscriber every 250 ms)
+ * so an upload that creates hundreds of check-ins causes a single reload.
+ * Nothing is delivered while the tab is hidden; subscribers get a 'resync'
+ * event when it becomes visible again, and after a dropped stream reconnects.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-19
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/realtime.ts} Real-time event types
+ * @see {@link ./queryCache.ts} Shared query cache
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/EventSource} EventSource
+ */
+
+import { api, getStreamTicket } from './api';
+import { getApiUrl } from '../common/apiConfig';
+import { logger } from '../utils/logger';
+import type { CheckInRecord } from '../common/types/checkIn';
+import type { RealtimeEvent, RealtimeEventType, RealtimeMode } from '../common/types/realtime';
+
+const EVENT_TYPES: RealtimeEventType[] = [
+  'checkin.created',
+  'checkin.status_changed',
+  'help_request.created',
+  'data.version_bumped',
+  'resync',
+];
+
+const BATCH_DELAY_MS = 250;
+const MAX_STREAM_FAILURES = 3;
+const STREAM_RETRY_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 30000;
+
+export type RealtimeListener = (events: RealtimeEvent[]) => void;
+
+interface Subscription {
+  types: ReadonlySet<RealtimeEventType>;
+  listener: RealtimeListener;
+}
+
+// Responses from the previous poll, compared with the next one
+interface PollSnapshot {
+  dataVersion?: string;
+  checkInStatuses?: Map<string, CheckInRecord['status']>;
+  helpRequestIds?: Set<string>;
+}
+
+const subscriptions = new Set<Subscription>();
+
+let mode: RealtimeMode = 'idle';
+let eventSource: EventSource | null = null;
+let isOpeningStream = false;
+let streamFailures = 0;
+let reconnectTimer: number | null = null;
+
+let pollTimer: number | null = null;
+let isPolling = false;
+let snapshot: PollSnapshot = {};
+
+let queue: RealtimeEvent[] = [];
+let flushTimer: number | null = null;
+let missedWhileHidden = false;
+
+const now = (): string => new Date().toISOString();
+
+const flush = () => {
+  flushTimer = null;
+  const events = queue;
+  queue = [];
+
+  subscriptions.forEach(({ types, listener }) => {
+    const matching = events.filter((event) => event.type === 'resync' || types.has(event.type));
+    if (matching.length === 0) return;
+    try {
+      listener(matching);
+    } catch (error) {
+      logger.error('Real-time listener failed:', error);
+    }
+  });
+};
+
+const dispatch = (event: RealtimeEvent) => {
+  // Hidden tabs don't reload anything; they catch up with one resync instead
+  if (document.hidden) {
+    missedWhileHidden = true;
+    return;
+  }
+  queue.push(event);
+  if (flushTimer === null) {
+    flushTimer = window.setTimeout(flush, BATCH_DELAY_MS);
+  }
+};
+
+const parseEvent = (data: string): RealtimeEvent | null => {
+  try {
+    const event = JSON.parse(data);
+    if (event && EVENT_TYPES.includes(event.type)) {
+      return { at: now(), ...event };
+    }
+    logger.warn('Ignoring unknown real-time event:', data);
+  } catch {
+    logger.warn('Ignoring malformed real-time event:', data);
+  }
+  return null;
+};
+
+const subscribedTypes = (): Set<RealtimeEventType> => {
+  const types = new Set<RealtimeEventType>();
+  subscriptions.forEach((subscription) => subscription.types.forEach((type) => types.add(type)));
+  return types;
+};
+
+/**
+ * Fallback poller
+ *
+ * The first response for each endpoint is only remembered; events are
+ * produced from the second one on. Endpoints no subscriber needs are skipped
+ * and their snapshot dropped, so a later subscriber starts from a fresh one.
+ */
+const fetchData = async (path: string): Promise<unknown> => {
+  try {
+    const response = await api(path);
+    // Rate limited or not available - try again on the next poll
+    if (!response.ok) return null;
+    const result = await response.json();
+    return result.success === false ? null : result;
+  } catch (error) {
+    logger.warn(`Real-time poll of ${path} failed:`, error);
+    return null;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const pollDataVersion = async () => {
+  const result = await fetchData('/status/day');
+  if (!isPlainObject(result) || result.dataVersion == null) return;
+
+  const dataVersion = String(result.dataVersion);
+  const previous = snapshot.dataVersion;
+  snapshot.dataVersion = dataVersion;
+  if (previous !== undefined && previous !== dataVersion) {
+    dispatch({ type: 'data.version_bumped', dataVersion, at: now() });
+  }
+};
+
+const pollCheckIns = async () => {
+  const result = await fetchData('/checkin/appointments');
+  if (!isPlainObject(result) || !Array.isArray(result.data)) return;
+
+  const statuses = new Map<string, CheckInRecord['status']>(
+    (result.data as CheckInRecord[]).map((record) => [String(record.id), record.status])
+  );
+  const previous = snapshot.checkInStatuses;
+  snapshot.checkInStatuses = statuses;
+  if (!previous) return;
+
+  const at = now();
+  statuses.forEach((status, checkInId) => {
+    if (!previous.has(checkInId)) {
+      dispatch({ type: 'checkin.created', checkInId, at });
+    } else if (previous.get(checkInId) !== status) {
+      dispatch({ type: 'checkin.status_changed', checkInId, status, previousStatus: previous.get(checkInId), at });
+    }
+  });
+};
+
+const pollHelpRequests = async () => {
+  const result = await fetchData('/help-requests');
+  if (!result) return;
+
+  // The endpoint answers with either a plain array or a success wrapper
+  const requests: unknown[] = Array.isArray(result)
+    ? result
+    : isPlainObject(result) && Array.isArray(result.data)
+      ? result.data
+      : [];
+  const ids = new Set<string>(
+    requests.filter(isPlainObject).map((request) => String(request.id))
+  );
+  const previous = snapshot.helpRequestIds;
+  snapshot.helpRequestIds = ids;
+  if (!previous) return;
+
+  const at = now();
+  ids.forEach((helpRequestId) => {
+    if (!previous.has(helpRequestId)) {
+      dispatch({ type: 'help_request.created', helpRequestId, at });
+    }
+  });
+};
+
+const poll = async () => {
+  if (document.hidden || isPolling) return;
+  isPolling = true;
+
+  const types = subscribedTypes();
+  const wantsCheckIns = types.has('checkin.created') || types.has('checkin.status_changed');
+  if (!types.has('data.version_bumped')) delete snapshot.dataVersion;
+  if (!wantsCheckIns) delete snapshot.checkInStatuses;
+  if (!types.has('help_request.created')) delete snapshot.helpRequestIds;
+
+  try {
+    await Promise.all([
+      types.has('data.version_bumped') ? pollDataVersion() : undefined,
+      wantsCheckIns ? pollCheckIns() : undefined,
+      types.has('help_request.created') ? pollHelpRequests() : undefined,
+    ]);
+  } finally {
+    isPolling = false;
+  }
+};
+
+const startPolling = () => {
+  if (pollTimer !== null) return;
+
+  // Whatever happened between the stream dropping and the first poll is unknown
+  if (mode === 'stream') {
+    dispatch({ type: 'resync', at: now() });
+  }
+  mode = 'polling';
+  logger.warn('Real-time stream unavailable, polling every', POLL_INTERVAL_MS / 1000, 'seconds');
+  poll();
+  pollTimer = window.setInterval(poll, POLL_INTERVAL_MS);
+};
+
+const stopPolling = () => {
+  if (pollTimer !== null) {
+    window.clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  snapshot = {};
+};
+
+/**
+ * Event stream
+ *
+ * EventSource can't send headers, and an access token in the URL would end
+ * up in server logs and browser history. Each attempt instead asks for a
+ * ticket over an authenticated POST; the ticket is valid once, for a few
+ * seconds, and only opens the stream. The stream is reopened by hand rather
+ * than by the browser so each attempt gets a new ticket.
+ */
+const clearReconnectTimer = () => {
+  if (reconnectTimer !== null) {
+    window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+};
+
+const handleStreamFailure = () => {
+  streamFailures += 1;
+  if (streamFailures >= MAX_STREAM_FAILURES) {
+    startPolling();
+    reconnectTimer = window.setTimeout(() => {
+      streamFailures = 0;
+      openStream();
+    }, STREAM_RETRY_MS);
+    return;
+  }
+  // 2s, then 4s
+  reconnectTimer = window.setTimeout(openStream, 1000 * 2 ** streamFailures);
+};
+
+const openStream = async () => {
+  clearReconnectTimer();
+  if (eventSource || isOpeningStream) return;
+
+  isOpeningStream = true;
+  let ticket: string;
+  try {
+    ticket = await getStreamTicket();
+  } catch (error) {
+    isOpeningStream = false;
+    logger.error('Failed to get a real-time stream ticket:', error);
+    if (subscriptions.size > 0) handleStreamFailure();
+    return;
+  }
+  isOpeningStream = false;
+  // Everyone unsubscribed while the ticket was loading
+  if (subscriptions.size === 0 || eventSource) return;
+
+  let source: EventSource;
+  try {
+    source = new EventSource(getApiUrl(`/events?ticket=${encodeURIComponent(ticket)}`));
+  } catch (error) {
+    logger.error('Failed to open real-time stream:', error);
+    handleStreamFailure();
+    return;
+  }
+  eventSource = source;
+
+  source.onopen = () => {
+    streamFailures = 0;
+    stopPolling();
+    // Reconnected after a drop, or took over from the poller
+    if (mode !== 'idle') {
+      dispatch({ type: 'resync', at: now() });
+    }
+    mode = 'stream';
+  };
+
+  source.onmessage = (message) => {
+    const event = parseEvent(message.data);
+    if (event) dispatch(event);
+  };
+
+  source.onerror = () => {
+    source.close();
+    if (eventSource !== source) return;
+    eventSource = null;
+    handleStreamFailure();
+  };
+};
+
+const handleVisibilityChange = () => {
+  if (document.hidden) return;
+  if (pollTimer !== null) {
+    poll();
+  }
+  if (missedWhileHidden) {
+    missedWhileHidden = false;
+    dispatch({ type: 'resync', at: now() });
+  }
+};
+
+const start = () => {
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  if (typeof window !== 'undefined' && 'EventSource' in window) {
+    openStream();
+  } else {
+    startPolling();
+  }
+};
+
+const stop = () => {
+  document.removeEventListener('visibilitychange', handleVisibilityChange);
+  clearReconnectTimer();
+  if (eventSource) {
+    eventSource.close();
+    eventSource = null;
+  }
+  stopPolling();
+  if (flushTimer !== null) {
+    window.clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  queue = [];
+  streamFailures = 0;
+  missedWhileHidden = false;
+  mode = 'idle';
+};
+
+/**
+ * Subscribe to real-time events
+ *
+ * The listener receives batches of the given event types, plus 'resync'
+ * whenever events may have been missed. Subscribers load their own initial
+ * data; nothing is delivered on subscribe.
+ *
+ * @param types - Event types the listener wants
+ * @param listener - Called with each batch of matching events
+ * @returns Function that removes the subscription
+ */
+export const subscribeToRealtime = (types: RealtimeEventType[], listener: RealtimeListener): (() => void) => {
+  const subscription: Subscription = { types: new Set(types), listener };
+  subscriptions.add(subscription);
+  if (subscriptions.size === 1) {
+    start();
+  }
+
+  return () => {
+    subscriptions.delete(subscription);
+    if (subscriptions.size === 0) {
+      stop();
+    }
+  };
+};
@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Audit trail page for Foodbank Check-In and Appointment System admin panel
+ *
+ * This page lists the changes staff made - who, when, to what, the values
+ * before and after, and why - so a coordinator can answer questions like
+ * "I was marked no-show but I was here". Entries can be filtered by user,
+ * entity and date and exported as CSV. Filters are kept in the URL so other
+ * pages can link to an appointment's history.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-26
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/audit.ts} Audit types
+ * @see {@link ../utils/audit.ts} Audit helpers
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Collapse,
+  FormControl,
+  FormLabel,
+  Heading,
+  HStack,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { FiChevronDown, FiChevronRight, FiDownload, FiRefreshCw, FiSearch } from 'react-icons/fi';
+import { subDays } from 'date-fns';
+import { useQuery } from '../lib/queryCache';
+import { ApiResponse } from '../common/types';
+import { AuditEntityType, AuditEntry, AuditFilters } from '../common/types/audit';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  DEFAULT_AUDIT_DAYS,
+  auditEntriesToCsv,
+  getAuditChanges,
+} from '../utils/audit';
+import { toDateKey, todayKey } from '../utils/schedule';
+import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS, StaffRole } from '../common/types/permissions';
+
+// Read the filters from the URL, defaulting to the last week
+const filtersFromParams = (params: URLSearchParams): AuditFilters => ({
+  actor: params.get('actor') || undefined,
+  entityType: (params.get('entityType') as AuditEntityType) || undefined,
+  entity: params.get('entity') || undefined,
+  from: params.get('from') || toDateKey(subDays(new Date(), DEFAULT_AUDIT_DAYS - 1)),
+  to: params.get('to') || todayKey(),
+});
+
+const AuditPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = filtersFromParams(searchParams);
+  const toast = useToast();
+  const { can } = useAuth();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Text filters are applied when typing pauses, not on every key
+  const [actorInput, setActorInput] = useState(filters.actor || '');
+  const [entityInput, setEntityInput] = useState(filters.entity || '');
+
+  const setFilter = (changes: Partial<AuditFilters>) => {
+    const next = { ...filters, ...changes };
+    const params = new URLSearchParams();
+    (Object.keys(next) as (keyof AuditFilters)[]).forEach((key) => {
+      if (next[key]) params.set(key, String(next[key]));
+    });
+    setSearchParams(params, { replace: true });
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      if ((actorInput.trim() || undefined) !== filters.actor || (entityInput.trim() || undefined) !== filters.entity) {
+        setFilter({ actor: actorInput.trim() || undefined, entity: entityInput.trim() || undefined });
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [actorInput, entityInput]);
+
+  const { data, error, isLoading, isValidating, refresh } = useQuery<ApiResponse<AuditEntry[]>>('/audit', {
+    actor: filters.actor,
+    entityType: filters.entityType,
+    entity: filters.entity,
+    from: filters.from,
+    to: filters.to,
+  });
+
+  const entries = (data?.success && data.data) || [];
+  const loadError = error?.message || (data && !data.success ? data.error || 'Failed to load the audit trail' : null);
+
+  const handleExport = () => {
+    if (entries.length === 0) {
+      toast({
+        title: 'No Entries to Export',
+        description: 'There are no audit entries matching these filters.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    const blob = new Blob([auditEntriesToCsv(entries)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `audit-trail-${filters.from}-to-${filters.to}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Export Successful',
+      description: `Exported ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'} to CSV.`,
+      status: 'success',
+      duration: 4000,
+      isClosable: true,
+    });
+  };
+
+  const clearFilters = () => {
+    setActorInput('');
+    setEntityInput('');
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
+
+  return (
+    <VStack spacing={8} align="stretch">
+      {/* Header */}
+      <Box textAlign="center">
+        <Heading size="xl" color="admin.primary" mb={2} fontWeight="700" letterSpacing="-0.025em">
+          Audit Trail
+        </Heading>
+        <Text color="gray.600" fontSize="lg" maxW="600px" mx="auto" fontWeight="500">
+          Who changed what, when and why
+        </Text>
+      </Box>
+
+      {/* Filters */}
+      <Card>
+        <CardBody>
+          <VStack spacing={4} align="stretch">
+            <SimpleGrid columns={{ base: 1, md: 2, lg: 5 }} spacing={4}>
+              <FormControl>
+                <FormLabel fontSize="sm">User</FormLabel>
+                <InputGroup size="sm">
+                  <InputLeftElement pointerEvents="none">
+                    <FiSearch color="gray" />
+                  </InputLeftElement>
+                  <Input
+                    value={actorInput}
+                    onChange={(e) => setActorInput(e.target.value)}
+                    placeholder="Staff email"
+                  />
+                </InputGroup>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Entity</FormLabel>
+                <Select
+                  size="sm"
+                  value={filters.entityType || ''}
+                  onChange={(e) => setFilter({ entityType: (e.target.value as AuditEntityType) || undefined })}
+                >
+                  <option value="">All entities</option>
+                  {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {AUDIT_ENTITY_LABELS[type]}
+                    </option>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Name or ID</FormLabel>
+                <Input
+                  size="sm"
+                  value={entityInput}
+                  onChange={(e) => setEntityInput(e.target.value)}
+                  placeholder="Client name, check-in ID..."
+                />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">From</FormLabel>
+                <Input
+                  size="sm"
+                  type="date"
+                  value={filters.from}
+                  max={filters.to}
+                  onChange={(e) => e.target.value && setFilter({ from: e.target.value })}
+                />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">To</FormLabel>
+                <Input
+                  size="sm"
+                  type="date"
+                  value={filters.to}
+                  min={filters.from}
+                  max={todayKey()}
+                  onChange={(e) => e.target.value && setFilter({ to: e.target.value })}
+                />
+              </FormControl>
+            </SimpleGrid>
+
+            <HStack justify="space-between" wrap="wrap" gap={2}>
+              <Text fontSize="sm" color="gray.600">
+                {isLoading ? 'Loading...' : `${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`}
+              </Text>
+              <HStack spacing={2}>
+                <Button size="sm" variant="ghost" onClick={clearFilters}>
+                  Clear filters
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<FiRefreshCw />}
+                  onClick={() => refresh().catch(() => undefined)}
+                  isLoading={isValidating && !isLoading}
+                >
+                  Refresh
+                </Button>
+                {can('data.export') && (
+                  <Button
+                    size="sm"
+                    colorScheme="blue"
+                    leftIcon={<FiDownload />}
+                    onClick={handleExport}
+                    isDisabled={entries.length === 0}
+                  >
+                    Export CSV
+                  </Button>
+                )}
+              </HStack>
+            </HStack>
+          </VStack>
+        </CardBody>
+      </Card>
+
+      {loadError && (
+        <Alert status="error" borderRadius="md">
+          <AlertIcon />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Entries */}
+      <Card>
+        <CardBody p={0} overflowX="auto">
+          {isLoading ? (
+            <HStack justify="center" py={10}>
+              <Spinner size="lg" color="blue.500" />
+            </HStack>
+          ) : entries.length === 0 ? (
+            <Text color="gray.500" textAlign="center" py={10}>
+              No changes match these filters.
+            </Text>
+          ) : (
+            <Table size="sm">
+              <Thead bg="gray.50">
+                <Tr>
+                  <Th w="32px" />
+                  <Th>When</Th>
+                  <Th>User</Th>
+                  <Th>Action</Th>
+                  <Th>Entity</Th>
+                  <Th>Reason</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {entries.map((entry) => {
+                  const isExpanded = expandedId === entry.id;
+                  const changes = getAuditChanges(entry);
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <Tr
+                        cursor="pointer"
+                        _hover={{ bg: 'gray.50' }}
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                      >
+                        <Td>{isExpanded ? <FiChevronDown /> : <FiChevronRight />}</Td>
+                        <Td whiteSpace="nowrap">{new Date(entry.timestamp).toLocaleString('en-US')}</Td>
+                        <Td>
+                          <Text>{entry.actor.email}</Text>
+                          {entry.actor.role && (
+                            <Text fontSize="xs" color="gray.500">
+                              {ROLE_LABELS[entry.actor.role as StaffRole] || entry.actor.role}
+                            </Text>
+                          )}
+                        </Td>
+                        <Td>
+                          <Badge colorScheme={entry.action === 'data_cleared' ? 'red' : 'blue'} variant="subtle">
+                            {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                          </Badge>
+                        </Td>
+                        <Td>
+                          <Text>{entry.entityLabel || entry.entityId}</Text>
+                          <Text fontSize="xs" color="gray.500">
+                            {AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType}
+                          </Text>
+                        </Td>
+                        <Td color={entry.reason ? 'gray.800' : 'gray.400'}>{entry.reason || 'No reason given'}</Td>
+                      </Tr>
+                      <Tr>
+                        <Td colSpan={6} p={0} borderBottomWidth={isExpanded ? undefined : 0}>
+                          <Collapse in={isExpanded} animateOpacity>
+                            <Box px={6} py={3} bg="gray.50">
+                              {changes.length === 0 ? (
+                                <Text fontSize="sm" color="gray.500">
+                                  No field values changed.
+                                </Text>
+                              ) : (
+                                <SimpleGrid columns={3} spacingX={4} spacingY={1} fontSize="sm">
+                                  <Text fontWeight="600" color="gray.600">Field</Text>
+                                  <Text fontWeight="600" color="gray.600">Before</Text>
+                                  <Text fontWeight="600" color="gray.600">After</Text>
+                                  {changes.map((change) => (
+                                    <React.Fragment key={change.field}>
+                                      <Text>{change.field}</Text>
+                                      <Text color="red.600" wordBreak="break-word">{change.before}</Text>
+                                      <Text color="green.700" wordBreak="break-word">{change.after}</Text>
+                                    </React.Fragment>
+                                  ))}
+                                </SimpleGrid>
+                              )}
+                              <Text fontSize="xs" color="gray.500" mt={2}>
+                                {AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType} ID: {entry.entityId}
+                              </Text>
+                            </Box>
+                          </Collapse>
+                        </Td>
+                      </Tr>
+                    </React.Fragment>
+                  );
+                })}
+              </Tbody>
+            </Table>
+          )}
+        </CardBody>
+      </Card>
+    </VStack>
+  );
+};
+
+export default AuditPage;
@@ -3,7 +3,9 @@
  * 
  * This page handles CSV file uploads for bulk appointment data import.
  * It provides file validation, preview functionality, and processing
- * status updates for managing daily appointment schedules.
+ * status updates for managing daily appointment schedules. Saved import
+ * profiles can be chosen here for the next upload, or deleted. Cleared data
+ * can be restored here until it is purged.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -11,10 +13,15 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../components/features/csv/CSVUploader.tsx} Upload component
+ * @see {@link ../components/features/csv/RecentlyClearedData.tsx} Recently cleared data panel
  */
 
-import React, { useState, useEffect } from 'react';
-import { api, clearAllData } from '../lib/api';
+import React, { useState } from 'react';
+import { clearAllData, deleteImportProfile, restoreClearedData } from '../lib/api';
+import { invalidateQueries, useQuery } from '../lib/queryCache';
+import { DayStatus, DayStatusResponse } from '../common/types';
+import { ImportProfilesResponse } from '../common/types/importProfiles';
+import { useAuth } from '../contexts/AuthContext';
 import {
   Box,
   VStack,
@@ -32,6 +39,12 @@ import {
   Wrap,
   WrapItem,
   Divider,
+  FormControl,
+  FormLabel,
+  IconButton,
+  Input,
+  Select,
+  Tooltip,
   useDisclosure,
   useToast,
   AlertDialog,
@@ -53,61 +66,37 @@ import {
   FiTrash2
 } from 'react-icons/fi';
 import CSVUploader from '../components/features/csv/CSVUploader';
-
-interface DayStatus {
-  today: string;
-  data: {
-    present: boolean;
-    count: number;
-    expiresAt?: string;
-  };
-}
+import RecentlyClearedData from '../components/features/csv/RecentlyClearedData';
+import { useUndoToast } from '../components/ui/UndoToast';
 
 const CSVUploadPage: React.FC = () => {
-  const [status, setStatus] = useState<DayStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Shared with the dashboard and sidebar through the query cache; uploading
+  // and clearing data invalidate it so every view updates together
+  const {
+    data: result,
+    error: fetchError,
+    isLoading: loading,
+    isValidating,
+    refresh,
+  } = useQuery<DayStatusResponse>('/status/day');
+  // Backend not running - show the upload prompt instead of an error
+  const status: DayStatus | null = fetchError
+    ? { today: new Date().toLocaleDateString(), csvDate: '', data: { present: false, count: 0 } }
+    : result?.success
+      ? result.data || null
+      : null;
+  const error = !fetchError && result && !result.success ? result.error || 'Failed to fetch status' : null;
+  const { data: profilesResult } = useQuery<ImportProfilesResponse>('/csv/profiles');
+  const profiles = profilesResult?.data?.profiles || [];
+  // Empty: the wizard picks the profile matching the file's headers
+  const [profileId, setProfileId] = useState('');
+  const selectedProfile = profiles.find((profile) => profile.id === profileId);
   const { isOpen: isClearOpen, onOpen: onClearOpen, onClose: onClearClose } = useDisclosure();
   const cancelRef = React.useRef<HTMLButtonElement>(null);
+  const [clearReason, setClearReason] = useState('');
   const toast = useToast();
-
-  useEffect(() => {
-    fetchStatus();
-    // No auto-refresh - only update when manually triggered
-  }, []);
-
-  const fetchStatus = async (retryCount = 0) => {
-    try {
-      const response = await api('/status/day');
-      const result = await response.json();
-      
-      if (result.success) {
-        setStatus(result.data);
-        setError(null);
-      } else {
-        setError(result.error || 'Failed to fetch status');
-      }
-    } catch (err) {
-      // Backend not running - show friendly message instead of error
-      console.log('Backend not available, showing upload prompt');
-      setStatus({
-        today: new Date().toLocaleDateString(),
-        data: {
-          present: false,
-          count: 0
-        }
-      });
-      setError(null);
-      
-      // Retry once after a short delay if this is the first attempt
-      if (retryCount === 0) {
-        setTimeout(() => fetchStatus(1), 2000);
-        return;
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { can } = useAuth();
+  const showUndoToast = useUndoToast();
 
   const getStatusColor = () => {
     if (!status) return 'red';
@@ -134,11 +123,8 @@ const CSVUploadPage: React.FC = () => {
     return `${diffMinutes}m`;
   };
 
-  const handleUploadSuccess = () => {
-    fetchStatus(); // Refresh status after successful upload
-  };
-
   const handleClearAllData = async () => {
+    setClearReason('');
     onClearOpen();
   };
 
@@ -146,7 +132,7 @@ const CSVUploadPage: React.FC = () => {
     onClearClose();
     
     try {
-      const result = await clearAllData();
+      const result = await clearAllData(clearReason.trim());
       
       if (result.success) {
         // Only clear non-auth storage to preserve user session
@@ -174,19 +160,29 @@ const CSVUploadPage: React.FC = () => {
           }
         });
         
-        // Show success toast
-        toast({
-          title: 'Data Cleared Successfully',
-          description: 'All operational data has been cleared. The page will refresh automatically.',
-          status: 'success',
-          duration: 4000,
-          isClosable: true,
-        });
+        // The backend keeps the cleared data as a batch; undo restores it
+        const batch = result.data;
+        if (batch) {
+          showUndoToast({
+            title: 'Data Cleared Successfully',
+            description: 'All operational data has been cleared.',
+            onUndo: async () => {
+              await restoreClearedData(batch.id);
+              invalidateQueries();
+            },
+          });
+        } else {
+          toast({
+            title: 'Data Cleared Successfully',
+            description: 'All operational data has been cleared.',
+            status: 'success',
+            duration: 4000,
+            isClosable: true,
+          });
+        }
         
-        // Refresh the page to clear all data
-        setTimeout(() => {
-          window.location.reload();
-        }, 1500);
+        // Every open view refetches and shows the empty day
+        invalidateQueries();
       } else {
         toast({
           title: 'Clear Failed',
@@ -208,13 +204,39 @@ const CSVUploadPage: React.FC = () => {
     }
   };
 
+  const handleDeleteProfile = async () => {
+    if (!selectedProfile || !window.confirm(`Delete the import profile "${selectedProfile.name}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteImportProfile(selectedProfile.id);
+      setProfileId('');
+      invalidateQueries(['/csv/profiles']);
+      toast({
+        title: `Profile "${selectedProfile.name}" deleted`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      toast({
+        title: 'Delete Failed',
+        description: error instanceof Error ? error.message : 'Unable to delete the profile. Please try again.',
+        status: 'error',
+        duration: 6000,
+        isClosable: true,
+      });
+    }
+  };
+
   const handleDownloadSample = () => {
     // Create a sample CSV content matching the exact system format
     const sampleCSV = `Client #,Name,Pick Up Date,Dietary Considerations,Items Provided,Adults,Seniors,Children,Children's Ages,Email,Phone Number
-2964486,John Doe,${new Date().toISOString().split('T')[0]} @ 9:00 AM,,1.00 x Snack Pack - $30, 1.00 x Multi - $300, 1.00 x Vitality Single - $10,2,0,1,,johndoe@gmail.com,2507637161
+2964486,John Doe,${new Date().toISOString().split('T')[0]} @ 9:00 AM,,"1.00 x Snack Pack - $30, 1.00 x Multi - $300, 1.00 x Vitality Single - $10",2,0,1,,johndoe@gmail.com,2507637161
 1367054,Wendy Sally,${new Date().toISOString().split('T')[0]} @ 9:00 AM,,1.00 x Single - $175,1,0,0,,wendysally@gmail.com,2502125566
-611361,Rosa Parks,${new Date().toISOString().split('T')[0]} @ 9:00 AM,55+, Other (Specify),1.00 x Double - $200, 1.00 x Vitality Double - $15,0,2,0,,rosaparks@gmail.com,2505501155
-785407,Sally Sepor,${new Date().toISOString().split('T')[0]} @ 9:00 AM,Fibromyalgia, Diabetes, 55+,1.00 x Single - $175, 1.00 x Vitality Single - $10,0,1,0,,test@gmail.com,2506606666
+611361,Rosa Parks,${new Date().toISOString().split('T')[0]} @ 9:00 AM,"55+, Other (Specify)","1.00 x Double - $200, 1.00 x Vitality Double - $15",0,2,0,,rosaparks@gmail.com,2505501155
+785407,Sally Sepor,${new Date().toISOString().split('T')[0]} @ 9:00 AM,"Fibromyalgia, Diabetes, 55+","1.00 x Single - $175, 1.00 x Vitality Single - $10",0,1,0,,test@gmail.com,2506606666
 3331009,Norma Ada,${new Date().toISOString().split('T')[0]} @ 9:00 AM,,1.00 x Single - $175,1,0,0,,test@gmail.com,2502122525
 5594238,Wendy Willy,${new Date().toISOString().split('T')[0]} @ 9:00 AM,,1.00 x Double - $200,1,0,0,,test@gmail.com,2503003300`;
 
@@ -413,8 +435,8 @@ const CSVUploadPage: React.FC = () => {
                   size="sm"
                   colorScheme="blue"
                   leftIcon={<FiRefreshCw />}
-                  onClick={() => fetchStatus()}
-                  isLoading={loading}
+                  onClick={() => refresh()}
+                  isLoading={isValidating}
                   w="full"
                   borderRadius="md"
                 >
@@ -433,17 +455,19 @@ const CSVUploadPage: React.FC = () => {
                   Download Template
                 </Button>
 
-                <Button
-                  size="sm"
-                  variant="outline"
-                  colorScheme="red"
-                  leftIcon={<FiTrash2 />}
-                  onClick={handleClearAllData}
-                  w="full"
-                  borderRadius="md"
-                >
-                  Clear All Data
-                </Button>
+                {can('data.clear') && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    colorScheme="red"
+                    leftIcon={<FiTrash2 />}
+                    onClick={handleClearAllData}
+                    w="full"
+                    borderRadius="md"
+                  >
+                    Clear All Data
+                  </Button>
+                )}
               </VStack>
             </VStack>
           </Box>
@@ -473,17 +497,49 @@ const CSVUploadPage: React.FC = () => {
                 Upload Today's Data
               </Heading>
               <Text color="whiteAlpha.900" fontSize="sm" maxW="400px">
-                Drag and drop your CSV file or click to browse. This enables client check-ins for today.
+                Drag and drop your CSV or Excel file or click to browse. This enables client check-ins for today.
               </Text>
             </VStack>
           </VStack>
         </Box>
         
         <Box p={6}>
-          <CSVUploader onUploadSuccess={handleUploadSuccess} />
+          {profiles.length > 0 && (
+            <FormControl mb={4}>
+              <FormLabel fontSize="sm" fontWeight="600" color="gray.700">
+                Import profile
+              </FormLabel>
+              <HStack spacing={2}>
+                <Select size="sm" value={profileId} onChange={(e) => setProfileId(e.target.value)} maxW="360px">
+                  <option value="">Detect from the file's headers</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </Select>
+                {selectedProfile && (
+                  <Tooltip label="Delete profile">
+                    <IconButton
+                      aria-label="Delete profile"
+                      icon={<FiTrash2 />}
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={handleDeleteProfile}
+                    />
+                  </Tooltip>
+                )}
+              </HStack>
+            </FormControl>
+          )}
+          <CSVUploader profileId={profileId} />
         </Box>
       </Box>
 
+      {/* Recently Cleared Data */}
+      {can('data.clear') && <RecentlyClearedData />}
+
       {/* Instructions & Help */}
       <Grid templateColumns={{ base: "1fr", lg: "1fr 1fr" }} gap={6}>
         {/* Instructions */}
@@ -519,6 +575,7 @@ const CSVUploadPage: React.FC = () => {
                 <VStack spacing={2} align="stretch" fontSize="sm" color="gray.600">
                   <Text>• Click "Upload CSV" above and select your file</Text>
                   <Text>• Wait a few seconds — the dashboard will refresh automatically</Text>
+                  <Text>• Already uploaded today? You'll see what the new file changes and choose what to apply — check-ins in progress are kept</Text>
                 </VStack>
               </Box>
 
@@ -646,7 +703,7 @@ const CSVUploadPage: React.FC = () => {
             <AlertDialogBody>
               <VStack align="stretch" spacing={3}>
                 <Text>
-                  <strong>Warning:</strong> This action will permanently delete all operational data from the system.
+                  <strong>Warning:</strong> This action will clear all operational data from the system.
                 </Text>
                 <Text fontSize="sm" color="gray.600">
                   This includes:
@@ -660,9 +717,18 @@ const CSVUploadPage: React.FC = () => {
                 <Alert status="warning" borderRadius="md" mt={2}>
                   <AlertIcon />
                   <Text fontSize="sm">
-                    This action cannot be undone. Your authentication session will be preserved.
+                    Cleared data can be restored from "Recently cleared data" on this page until it is purged. Your authentication session will be preserved.
                   </Text>
                 </Alert>
+                <FormControl>
+                  <FormLabel fontSize="sm">Reason (kept in the audit trail)</FormLabel>
+                  <Input
+                    size="sm"
+                    value={clearReason}
+                    onChange={(e) => setClearReason(e.target.value)}
+                    placeholder="e.g. Wrong file uploaded this morning"
+                  />
+                </FormControl>
                 <Text fontSize="sm" color="gray.600">
                   Are you sure you want to continue?
                 </Text>
@@ -4,6 +4,10 @@
  * This page provides comprehensive check-in management functionality
  * including viewing all check-ins, filtering, searching, and managing
  * client appointments and status updates.
+ *
+ * Appointments are shown a day, a week or a two-week agenda at a time.
+ * Staff can step back through past days the backend still keeps and forward
+ * to upcoming days, including next appointments scheduled automatically.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -11,9 +15,12 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../components/features/dashboard/CheckInDataGrid.tsx} Data grid component
+ * @see {@link ../utils/schedule.ts} Schedule date helpers
+ * @see {@link ../utils/operatingHours.ts} Operating hours from Settings
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   VStack,
@@ -44,6 +51,9 @@ import {
   Center,
   Heading,
   useToast,
+  ButtonGroup,
+  Wrap,
+  WrapItem,
 } from '@chakra-ui/react';
 import { 
   FiSearch, 
@@ -55,14 +65,35 @@ import {
   FiMail,
   FiRefreshCw,
   FiX,
-  FiDownload
+  FiDownload,
+  FiBell,
+  FiChevronLeft,
+  FiChevronRight,
+  FiCheck,
+  FiActivity
 } from 'react-icons/fi';
-import { formatDistanceToNow } from 'date-fns';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
 import { formatToVancouverTime, formatToVancouverTimeOnly } from '../utils/timeFormatter';
 import { formatPhoneNumber } from '../common/utils/phoneFormatter';
-import { api } from '../lib/api';
+import { api, callTicket } from '../lib/api';
+import { invalidateQueries, useQuery } from '../lib/queryCache';
+import { ApiResponse } from '../common/types';
 import { printTicket } from '../utils/printTicket';
 import { getStatusColorHex } from '../common/utils/statusColors';
+import {
+  ScheduleView,
+  formatDateRange,
+  getAppointmentDate,
+  getViewDays,
+  oldestDateKey,
+  shiftDate,
+  toDateKey,
+  todayKey,
+} from '../utils/schedule';
+import { describeDayHours, isWithinOperatingHours, useOperatingHours } from '../utils/operatingHours';
+import { useAuth } from '../contexts/AuthContext';
+import { useUndoToast } from '../components/ui/UndoToast';
+import AppointmentCancelModal from '../components/features/appointments/AppointmentCancelModal';
 
 interface CheckInRecord {
   id: string;
@@ -102,6 +133,12 @@ interface CheckInRecord {
   program?: string; // Link2Feed Program field
   clientType?: string;
   waitTime?: number;
+  // When staff last called the client's ticket; the client's queue status shows it
+  calledAt?: string;
+  
+  // Offline kiosk data - set when the check-in was queued on the kiosk and synced later
+  queuedOnKiosk?: boolean;
+  queuedAt?: string;
   
   // Appointment data
   pickUpDate?: string;
@@ -124,76 +161,86 @@ interface CheckInRecord {
   expiresAt: string;
 }
 
+const VIEW_OPTIONS: Array<{ value: ScheduleView; label: string }> = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'agenda', label: 'Agenda' },
+];
+
+// Local "YYYY-MM-DD" day of an appointment, or '' when it has no usable time
+const dayOf = (checkIn: CheckInRecord): string => {
+  const date = getAppointmentDate(checkIn);
+  return date ? toDateKey(date) : '';
+};
+
 const CheckInsPage: React.FC = () => {
   const [checkIns, setCheckIns] = useState<CheckInRecord[]>([]);
   const [filteredCheckIns, setFilteredCheckIns] = useState<CheckInRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const toast = useToast();
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const showUndoToast = useUndoToast();
   const [selectedCheckIn, setSelectedCheckIn] = useState<CheckInRecord | null>(null);
   const { isOpen: isDetailOpen, onOpen: onDetailOpen, onClose: onDetailClose } = useDisclosure();
+  // Appointment waiting for a cancellation reason
+  const [cancellingCheckIn, setCancellingCheckIn] = useState<CheckInRecord | null>(null);
+  const [view, setView] = useState<ScheduleView>('day');
+  const [selectedDate, setSelectedDate] = useState(todayKey());
+  const [hasLoaded, setHasLoaded] = useState(false);
 
+  const days = useMemo(() => getViewDays(view, selectedDate), [view, selectedDate]);
+  const isTodayView = view === 'day' && selectedDate === todayKey();
+  const oldestDate = oldestDateKey();
+  const { hours } = useOperatingHours();
 
-  // Fetch today's CSV appointments and filter to 8 AM – 8 PM window (local/Vancouver time)
-  const fetchCheckIns = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      // Use appointments endpoint to ensure CSV-sourced records are included
-      // IMPORTANT: Use api() helper to include authentication headers
-      const response = await api('/checkin/appointments');
-      const data = await response.json();
-
-      if (data.success && Array.isArray(data.data)) {
-        const now = new Date();
-        // Build today's date for filtering in local time (fallback if ISO missing)
-        const y = now.getFullYear();
-        const m = String(now.getMonth() + 1).padStart(2, '0');
-        const d = String(now.getDate()).padStart(2, '0');
-        const todayStr = `${y}-${m}-${d}`;
-
-        const inWindow = (rec: any) => {
-          const iso = rec.pickUpISO || rec.appointmentTime;
-          const timeStr = rec.pickUpTime; // e.g., HH:MM
-          let dt: Date | null = null;
-
-          if (iso) {
-            const parsed = new Date(iso);
-            if (!isNaN(parsed.getTime())) dt = parsed;
-          }
-          if (!dt && typeof timeStr === 'string' && timeStr.match(/^\d{2}:\d{2}$/)) {
-            dt = new Date(`${todayStr}T${timeStr}:00`);
-          }
-
-          if (!dt) return false;
+  // Appointments for the visible days, filtered to each location's operating hours (local/Vancouver time).
+  // Today's come from the appointments query shared with the dashboard; other
+  // days ask the same endpoint for a from/to range. All of them are refetched
+  // after real-time events and staff actions, so the views always agree.
+  const {
+    data: appointmentsResult,
+    error: appointmentsError,
+    isLoading,
+    isValidating,
+    refresh,
+  } = useQuery<ApiResponse<CheckInRecord[]>>(
+    '/checkin/appointments',
+    isTodayView ? undefined : { from: days[0], to: days[days.length - 1] }
+  );
 
-          // Ensure it's today
-          const sameDay = dt.getFullYear() === now.getFullYear() && dt.getMonth() === now.getMonth() && dt.getDate() === now.getDate();
-          if (!sameDay) return false;
+  useEffect(() => {
+    if (appointmentsError) {
+      console.error('Failed to fetch check-ins:', appointmentsError);
+      setError('Failed to load check-ins data');
+      return;
+    }
+    if (!appointmentsResult) {
+      setCheckIns([]);
+      return;
+    }
+    setError(null);
+    setHasLoaded(true);
 
-          const hour = dt.getHours();
-          return hour >= 8 && hour < 20; // 08:00 inclusive to 20:00 exclusive
-        };
+    const data = appointmentsResult;
+    if (data.success && Array.isArray(data.data)) {
+      const visibleDays = new Set(days);
+      const filtered = (data.data as CheckInRecord[])
+        .filter((rec) => {
+          const date = getAppointmentDate(rec);
+          return !!date && visibleDays.has(toDateKey(date)) && isWithinOperatingHours(hours, date, rec.location);
+        })
+        .sort((a, b) => getAppointmentDate(a)!.getTime() - getAppointmentDate(b)!.getTime());
 
-        const filtered = (data.data as any[]).filter(inWindow);
-        setCheckIns(filtered);
-        setFilteredCheckIns(filtered);
-      } else {
-        setError('No check-ins data available');
-        setCheckIns([]);
-        setFilteredCheckIns([]);
-      }
-    } catch (err) {
-      console.error('Failed to fetch check-ins:', err);
-      setError('Failed to load check-ins data');
+      setCheckIns(filtered);
+      setFilteredCheckIns(filtered);
+    } else {
+      setError('No check-ins data available');
       setCheckIns([]);
       setFilteredCheckIns([]);
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [appointmentsResult, appointmentsError, days, hours]);
 
   // Filter check-ins based on search
   useEffect(() => {
@@ -214,55 +261,6 @@ const CheckInsPage: React.FC = () => {
     setFilteredCheckIns(filtered);
   }, [checkIns, searchTerm]);
 
-  // Initial fetch and polling for synchronization
-  useEffect(() => {
-    fetchCheckIns();
-    
-    // Polling setup with Page Visibility API for synchronization
-    // IMPORTANT: This ensures CheckInsPage stays synchronized with DashboardPage
-    // and other admin features that update check-in data
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      interval = setInterval(() => {
-        // Only poll if tab is visible
-        if (!document.hidden) {
-          fetchCheckIns();
-        }
-      }, 30000); // Poll every 30 seconds for synchronization
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately and start polling
-        fetchCheckIns();
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
-      }
-    };
-    
-    // Start polling if visible
-    if (isVisible) {
-      startPolling();
-    }
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, []);
-
   // IMPORTANT: Use consistent status colors matching analytics chart
   // Use shared utility for consistency across all admin features
   // Note: getStatusColorHex is used directly for hex colors, getStatusColorScheme for Chakra color schemes
@@ -323,28 +321,103 @@ const CheckInsPage: React.FC = () => {
     onDetailOpen();
   };
 
-  const handleCancelAppointment = async (checkIn: CheckInRecord) => {
+  // The reason is kept with the change in the audit trail; the note is used when none is given
+  const updateAppointmentStatus = async (
+    checkIn: CheckInRecord,
+    status: CheckInRecord['status'],
+    notes: string,
+    reason?: string
+  ) => {
+    // IMPORTANT: Use api() helper to include authentication headers
+    const response = await api(`/checkin/${checkIn.id}/status`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ status, notes, reason: reason || notes })
+    });
+
+    if (response.ok) {
+      // Refresh every view showing this appointment
+      invalidateQueries(['/checkin/appointments', '/csv/all']);
+    }
+    return response.ok;
+  };
+
+  // Set an appointment back to the status it had before a cancel or status change
+  const undoStatusChange = async (checkIn: CheckInRecord) => {
+    if (!(await updateAppointmentStatus(checkIn, checkIn.status, 'Undone by admin'))) {
+      throw new Error('The appointment could not be restored');
+    }
+    setCheckIns(prev => prev.map(c => (c.id === checkIn.id ? { ...c, status: checkIn.status } : c)));
+  };
+
+  const handleCancelAppointment = async (checkIn: CheckInRecord, reason: string) => {
     try {
-      // IMPORTANT: Use api() helper to include authentication headers
-      const response = await api(`/checkin/${checkIn.id}/status`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          status: 'Cancelled',
-          notes: 'Cancelled by admin'
-        })
-      });
-      
-      if (response.ok) {
-        // Refresh the data
-        await fetchCheckIns();
-      } else {
-        console.error('Failed to cancel appointment');
+      if (!(await updateAppointmentStatus(checkIn, 'Cancelled', 'Cancelled by admin', reason))) {
+        throw new Error('The appointment could not be cancelled');
       }
-    } catch (error) {
+      setCheckIns(prev => prev.map(c => (c.id === checkIn.id ? { ...c, status: 'Cancelled' } : c)));
+      showUndoToast({
+        title: `${checkIn.clientName}'s appointment cancelled`,
+        onUndo: () => undoStatusChange(checkIn),
+      });
+    } catch (error: any) {
       console.error('Error cancelling appointment:', error);
+      toast({
+        title: 'Could not cancel appointment',
+        description: error.message || 'Please try again',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // Volunteers at the door hand over the hamper and mark it collected
+  const handleMarkCollected = async (checkIn: CheckInRecord) => {
+    try {
+      if (!(await updateAppointmentStatus(checkIn, 'Collected', 'Marked collected at the door'))) {
+        throw new Error('The appointment could not be updated');
+      }
+      setCheckIns(prev => prev.map(c => (c.id === checkIn.id ? { ...c, status: 'Collected' } : c)));
+      showUndoToast({
+        title: `${checkIn.clientName} marked collected`,
+        onUndo: () => undoStatusChange(checkIn),
+      });
+    } catch (error: any) {
+      console.error('Error marking appointment collected:', error);
+      toast({
+        title: 'Could not mark collected',
+        description: error.message || 'Please try again',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // Call the client's ticket - their Confirmation page tells them to come to the desk
+  const handleCallTicket = async (checkIn: CheckInRecord) => {
+    try {
+      const calledAt = await callTicket(checkIn.id);
+      setCheckIns(prev => prev.map(c => (c.id === checkIn.id ? { ...c, calledAt } : c)));
+      toast({
+        title: `Called ${checkIn.ticketNumber ? `ticket ${checkIn.ticketNumber}` : checkIn.clientName}`,
+        description: 'The client has been notified on their check-in screen',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error: any) {
+      console.error('Error calling ticket:', error);
+      toast({
+        title: 'Could not call ticket',
+        description: error.message || 'Please try again',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
     }
   };
 
@@ -360,30 +433,20 @@ const CheckInsPage: React.FC = () => {
    */
   const handleExportCSV = async () => {
     try {
-      // Check if there's any check-in data before attempting export
-      if (checkIns.length === 0) {
-        toast({
-          title: 'No Data to Export',
-          description: 'There is no check-in data available to export. Please upload a CSV file first or ensure there are check-in records in the system.',
-          status: 'error',
-          duration: 7000,
-          isClosable: true,
-        });
-        return;
-      }
-      
-      // Use the new export-all endpoint that exports everyone with updates
+      // The export covers the whole upload, not the days on screen - so an empty
+      // view doesn't mean there is nothing to export; the server's file decides
       // IMPORTANT: Use api() helper to include authentication headers
       const response = await api('/csv/export-all');
       
       if (response.ok) {
-        const blob = await response.blob();
+        const csv = await response.text();
+        // Only a header line means the upload has no appointments
+        const hasRows = csv.split(/\r?\n/).filter((line) => line.trim()).length > 1;
         
-        // Check if blob is empty
-        if (blob.size === 0) {
+        if (!hasRows) {
           toast({
             title: 'No Data to Export',
-            description: 'There is no check-in data available to export. Please ensure there are check-in records in the system.',
+            description: 'The uploaded appointment list is empty. Please upload a CSV file first.',
             status: 'error',
             duration: 7000,
             isClosable: true,
@@ -391,6 +454,7 @@ const CheckInsPage: React.FC = () => {
           return;
         }
         
+        const blob = new Blob([csv], { type: 'text/csv' });
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -403,7 +467,7 @@ const CheckInsPage: React.FC = () => {
         // Show success message
         toast({
           title: 'Export Successful',
-          description: 'All appointment data has been exported to CSV with updates. The file includes everyone from the original upload with updated statuses and next appointments.',
+          description: `Exported every appointment from the original upload, for all dates - not only ${formatDateRange(days)}. Statuses and next appointments are updated.`,
           status: 'success',
           duration: 5000,
           isClosable: true,
@@ -431,7 +495,311 @@ const CheckInsPage: React.FC = () => {
     }
   };
 
-  if (isLoading) {
+  const renderCheckInCard = (checkIn: CheckInRecord) => (
+    <Box 
+      key={checkIn.id} 
+      bg="white"
+      borderRadius="xl"
+      boxShadow="lg"
+      border="2px solid"
+      borderColor="gray.300"
+      p={5}
+      _hover={{ shadow: 'xl', transform: 'translateY(-2px)' }} 
+      transition="all 0.2s"
+    >
+        <HStack spacing={4} align="start">
+          <Avatar
+            name={checkIn.clientName}
+            size="md"
+            bg="brand.500"
+            color="white"
+          />
+          
+          <VStack align="start" spacing={2} flex={1}>
+            <HStack spacing={3} wrap="wrap">
+              <HStack spacing={2} align="center">
+                <Box
+                  px={2}
+                  py={1}
+                  borderRadius="sm"
+                  fontSize="xs"
+                  fontWeight="600"
+                  color="white"
+                  bg={getStatusColorHex(checkIn.status, checkIn)}
+                >
+                  {getStatusText(checkIn.status, checkIn)}
+                </Box>
+                <Text fontSize="lg" fontWeight="600" color="gray.900">
+                  {checkIn.clientName}
+                </Text>
+              </HStack>
+              <Badge colorScheme="gray" variant="subtle" fontSize="xs">
+                ID: {checkIn.clientId}
+              </Badge>
+              {checkIn.queuedOnKiosk && (
+                <Tooltip 
+                  label={`Recorded offline on the kiosk${checkIn.queuedAt ? ` at ${formatToVancouverTimeOnly(checkIn.queuedAt)}` : ''} and synced when the connection returned`} 
+                  placement="top"
+                >
+                  <Badge colorScheme="orange" variant="subtle" fontSize="xs" cursor="help">
+                    Queued on kiosk
+                  </Badge>
+                </Tooltip>
+              )}
+              {checkIn.status === 'Pending' && checkIn.calledAt && (
+                <Badge colorScheme="green" variant="subtle" fontSize="xs">
+                  Called {formatToVancouverTimeOnly(checkIn.calledAt)}
+                </Badge>
+              )}
+              {checkIn.isAutoGenerated && (
+                <Tooltip label="Next appointment scheduled automatically after the client's last visit" placement="top">
+                  <Badge colorScheme="blue" variant="subtle" fontSize="xs" cursor="help">
+                    Auto-scheduled
+                  </Badge>
+                </Tooltip>
+              )}
+              {checkIn.hasMobilityIssues && (
+                <Tooltip label="Mobility Assistance Required" placement="top">
+                  <Box color="#F4A261" cursor="help" fontSize="16px">
+                    ♿
+                  </Box>
+                </Tooltip>
+              )}
+            </HStack>
+            
+            <HStack spacing={4} wrap="wrap">
+              <HStack spacing={1}>
+                <FiClock size={14} color="#718096" />
+                <Text fontSize="sm" color="gray.600">
+                  {checkIn.checkInTime 
+                    ? `Checked in ${formatDistanceToNow(new Date(checkIn.checkInTime), { addSuffix: true })}`
+                    : checkIn.appointmentTime 
+                      ? `Appointment: ${formatToVancouverTimeOnly(checkIn.appointmentTime)}`
+                      : 'No time available'
+                  }
+                </Text>
+              </HStack>
+              
+              {checkIn.phoneNumber && (
+                <HStack spacing={1}>
+                  <FiPhone size={14} color="#718096" />
+                  <Text fontSize="sm" color="gray.600">
+                    {formatPhoneNumber(checkIn.phoneNumber)}
+        </Text>
+                </HStack>
+              )}
+              
+              {checkIn.email && (
+                <HStack spacing={1}>
+                  <FiMail size={14} color="#718096" />
+                  <Text fontSize="sm" color="gray.600">
+                    {checkIn.email}
+        </Text>
+                </HStack>
+              )}
+            </HStack>
+
+            {/* Additional Info */}
+            <HStack spacing={4} wrap="wrap" fontSize="sm" color="gray.500">
+              {checkIn.householdSize && (
+                <Text>Household: {checkIn.householdSize} people</Text>
+              )}
+              {checkIn.dietaryConsiderations && (
+                <Text>Dietary: {checkIn.dietaryConsiderations}</Text>
+              )}
+              {checkIn.location && (
+                <Text>Location: {checkIn.location}</Text>
+              )}
+              {checkIn.program && (
+                <Text>Program: {checkIn.program}</Text>
+              )}
+            </HStack>
+          </VStack>
+          
+          <VStack spacing={2} align="end">
+            <HStack spacing={1}>
+              <Tooltip label="View Details" placement="top">
+                <IconButton
+                  size="sm"
+                  variant="ghost"
+                  color="gray.500"
+                  _hover={{ color: 'blue.500', bg: 'blue.50' }}
+                  onClick={() => handleViewDetails(checkIn)}
+                  icon={<FiEye size="16px" />}
+                  aria-label="View Details"
+                />
+              </Tooltip>
+              
+              {can('tickets.print') && (
+                <Tooltip 
+                  label="Print Ticket (Opens in new window for landscape printing)" 
+                  placement="top"
+                >
+                  <IconButton
+                    size="sm"
+                    variant="ghost"
+                    color="gray.500"
+                    _hover={{ color: 'blue.500', bg: 'blue.50' }}
+                    onClick={() => handlePrintTicket(checkIn)}
+                    icon={<FiPrinter size="16px" />}
+                    aria-label="Print Ticket"
+                  />
+                </Tooltip>
+              )}
+
+              {checkIn.status === 'Pending' && can('checkins.markCollected') && (
+                <Tooltip label="Mark Collected" placement="top">
+                  <IconButton
+                    size="sm"
+                    variant="ghost"
+                    color="gray.500"
+                    _hover={{ color: 'green.500', bg: 'green.50' }}
+                    onClick={() => handleMarkCollected(checkIn)}
+                    icon={<FiCheck size="16px" />}
+                    aria-label="Mark Collected"
+                  />
+                </Tooltip>
+              )}
+
+              {checkIn.status === 'Pending' && checkIn.checkInTime && can('tickets.call') && (
+                <Tooltip label={checkIn.calledAt ? 'Call Ticket Again' : 'Call Ticket'} placement="top">
+                  <IconButton
+                    size="sm"
+                    variant="ghost"
+                    color="gray.500"
+                    _hover={{ color: 'green.500', bg: 'green.50' }}
+                    onClick={() => handleCallTicket(checkIn)}
+                    icon={<FiBell size="16px" />}
+                    aria-label="Call Ticket"
+                  />
+                </Tooltip>
+              )}
+
+              {checkIn.status === 'Pending' && can('appointments.cancel') && (
+                <Tooltip label="Cancel Appointment" placement="top">
+                  <IconButton
+                    size="sm"
+                    variant="ghost"
+                    color="gray.500"
+                    _hover={{ color: 'red.500', bg: 'red.50' }}
+                    onClick={() => setCancellingCheckIn(checkIn)}
+                    icon={<FiX size="16px" />}
+                    aria-label="Cancel Appointment"
+                  />
+                </Tooltip>
+              )}
+            </HStack>
+          </VStack>
+        </HStack>
+    </Box>
+  );
+
+  // Agenda: the cards grouped under each day that has appointments
+  const renderAgenda = () =>
+    days.map((day) => {
+      const dayCheckIns = filteredCheckIns.filter((checkIn) => dayOf(checkIn) === day);
+      if (dayCheckIns.length === 0) return null;
+      return (
+        <VStack key={day} spacing={3} align="stretch">
+          <HStack justify="space-between" pt={2}>
+            <Text fontSize="lg" fontWeight="600" color="admin.primary">
+              {format(parseISO(day), 'EEEE, MMMM d')}
+              {day === todayKey() && (
+                <Badge ml={2} colorScheme="green">Today</Badge>
+              )}
+            </Text>
+            <Text fontSize="sm" color="gray.500">
+              {dayCheckIns.length} {dayCheckIns.length === 1 ? 'appointment' : 'appointments'}
+            </Text>
+          </HStack>
+          {dayCheckIns.map(renderCheckInCard)}
+        </VStack>
+      );
+    });
+
+  // Week: a column per day with its counts, for planning staffing. Opening an
+  // appointment shows its details and actions.
+  const renderWeek = () => (
+    <Grid templateColumns={{ base: '1fr', md: 'repeat(7, 1fr)' }} gap={3}>
+      {days.map((day) => {
+        const dayCheckIns = filteredCheckIns.filter((checkIn) => dayOf(checkIn) === day);
+        const pending = dayCheckIns.filter((checkIn) => checkIn.status === 'Pending').length;
+        const isPast = day < todayKey();
+        const openHours = describeDayHours(hours, parseISO(day).getDay());
+        return (
+          <Box
+            key={day}
+            bg="white"
+            borderRadius="xl"
+            boxShadow="lg"
+            border="2px solid"
+            borderColor={day === todayKey() ? 'blue.300' : 'gray.300'}
+            p={3}
+            opacity={day < oldestDate ? 0.5 : 1}
+          >
+            <Button
+              variant="ghost"
+              size="sm"
+              w="full"
+              h="auto"
+              py={2}
+              onClick={() => {
+                setSelectedDate(day);
+                setView('day');
+              }}
+              isDisabled={day < oldestDate}
+            >
+              <VStack spacing={0}>
+                <Text fontSize="xs" color="gray.500" textTransform="uppercase">
+                  {format(parseISO(day), 'EEE')}
+                </Text>
+                <Text fontSize="lg" fontWeight="700" color="admin.primary">
+                  {format(parseISO(day), 'MMM d')}
+                </Text>
+              </VStack>
+            </Button>
+            <Text fontSize="xs" color={openHours ? 'gray.500' : 'gray.400'} textAlign="center">
+              {openHours || 'Closed'}
+            </Text>
+            <Text fontSize="xs" color="gray.600" textAlign="center" mb={2}>
+              {isLoading
+                ? 'Loading...'
+                : `${dayCheckIns.length} booked${isPast ? '' : ` · ${pending} pending`}`}
+            </Text>
+            <VStack spacing={1} align="stretch">
+              {dayCheckIns.map((checkIn) => (
+                <Box
+                  key={checkIn.id}
+                  as="button"
+                  textAlign="left"
+                  px={2}
+                  py={1}
+                  borderRadius="md"
+                  borderLeft="4px solid"
+                  borderLeftColor={getStatusColorHex(checkIn.status, checkIn)}
+                  bg="gray.50"
+                  _hover={{ bg: 'blue.50' }}
+                  onClick={() => handleViewDetails(checkIn)}
+                >
+                  <Text fontSize="xs" color="gray.500">
+                    {checkIn.appointmentTime || checkIn.pickUpISO
+                      ? formatToVancouverTimeOnly((checkIn.appointmentTime || checkIn.pickUpISO)!)
+                      : getStatusText(checkIn.status, checkIn)}
+                    {checkIn.isAutoGenerated ? ' · Auto' : ''}
+                  </Text>
+                  <Text fontSize="sm" fontWeight="500" noOfLines={1}>
+                    {checkIn.clientName}
+                  </Text>
+                </Box>
+              ))}
+            </VStack>
+          </Box>
+        );
+      })}
+    </Grid>
+  );
+
+  if (isLoading && !hasLoaded) {
     return (
       <Box p={6}>
         <VStack spacing={6} align="stretch">
@@ -491,7 +859,7 @@ const CheckInsPage: React.FC = () => {
               mx="auto"
               fontWeight="500"
             >
-              Manage and view all client check-ins for today
+              Manage and view client check-ins by day, week or agenda
             </Text>
           </VStack>
           
@@ -502,22 +870,24 @@ const CheckInsPage: React.FC = () => {
             maxW={{ base: "100%", lg: "auto" }}
           >
             <HStack spacing={3}>
-              <Button
-                size={{ base: "sm", sm: "md" }}
-                variant="outline"
-                leftIcon={<FiDownload />}
-                onClick={handleExportCSV}
-                w={{ base: "full", sm: "auto" }}
-                maxW={{ base: "280px", sm: "none" }}
-              >
-                Export All Appointments
-              </Button>
+              {can('data.export') && (
+                <Button
+                  size={{ base: "sm", sm: "md" }}
+                  variant="outline"
+                  leftIcon={<FiDownload />}
+                  onClick={handleExportCSV}
+                  w={{ base: "full", sm: "auto" }}
+                  maxW={{ base: "280px", sm: "none" }}
+                >
+                  Export All Appointments
+                </Button>
+              )}
               <Button
                 size={{ base: "sm", sm: "md" }}
                 variant="outline"
                 leftIcon={<FiRefreshCw />}
-                onClick={fetchCheckIns}
-                isLoading={isLoading}
+                onClick={() => refresh()}
+                isLoading={isValidating}
                 w={{ base: "full", sm: "auto" }}
                 maxW={{ base: "280px", sm: "none" }}
               >
@@ -528,6 +898,74 @@ const CheckInsPage: React.FC = () => {
         </VStack>
       </Box>
 
+      {/* Schedule Navigation */}
+      <Box mb={{ base: 4, md: 6 }}>
+        <Box 
+          bg="white"
+          borderRadius="xl"
+          boxShadow="lg"
+          border="2px solid"
+          borderColor="gray.300"
+          p={5}
+          w="full"
+          maxW="1200px"
+          mx="auto"
+        >
+          <Wrap spacing={4} justify="space-between" align="center">
+            <WrapItem>
+              <ButtonGroup size="sm" isAttached variant="outline">
+                {VIEW_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    onClick={() => setView(option.value)}
+                    colorScheme={view === option.value ? 'blue' : 'gray'}
+                    variant={view === option.value ? 'solid' : 'outline'}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </ButtonGroup>
+            </WrapItem>
+            <WrapItem>
+              <Text fontSize="lg" fontWeight="600" color="admin.primary">
+                {formatDateRange(days)}
+              </Text>
+            </WrapItem>
+            <WrapItem>
+              <HStack spacing={2}>
+                <IconButton
+                  size="sm"
+                  variant="outline"
+                  icon={<FiChevronLeft />}
+                  aria-label="Previous"
+                  onClick={() => setSelectedDate(shiftDate(view, selectedDate, -1))}
+                  isDisabled={days[0] <= oldestDate}
+                />
+                <Button size="sm" variant="outline" onClick={() => setSelectedDate(todayKey())}>
+                  Today
+                </Button>
+                <IconButton
+                  size="sm"
+                  variant="outline"
+                  icon={<FiChevronRight />}
+                  aria-label="Next"
+                  onClick={() => setSelectedDate(shiftDate(view, selectedDate, 1))}
+                />
+                <Input
+                  type="date"
+                  size="sm"
+                  w="auto"
+                  value={selectedDate}
+                  min={oldestDate}
+                  onChange={(e) => e.target.value && setSelectedDate(e.target.value < oldestDate ? oldestDate : e.target.value)}
+                  aria-label="Go to date"
+                />
+              </HStack>
+            </WrapItem>
+          </Wrap>
+        </Box>
+      </Box>
+
       {/* Statistics Section */}
       <Box mb={{ base: 4, md: 6 }}>
         <Heading 
@@ -715,7 +1153,15 @@ const CheckInsPage: React.FC = () => {
           maxW="1200px"
           mx="auto"
         >
-          {filteredCheckIns.length === 0 ? (
+          {view === 'week' ? (
+            renderWeek()
+          ) : isLoading ? (
+            <VStack spacing={4} align="stretch">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} height="96px" borderRadius="xl" />
+              ))}
+            </VStack>
+          ) : filteredCheckIns.length === 0 ? (
           <Box 
             bg="white"
             borderRadius="xl"
@@ -741,7 +1187,9 @@ const CheckInsPage: React.FC = () => {
                   <Text fontSize="sm" color="gray.500">
                     {searchTerm 
                       ? 'Try adjusting your search'
-                      : 'Upload a CSV file to get started'
+                      : isTodayView
+                        ? 'Upload a CSV file to get started'
+                        : 'No appointments are scheduled for these dates'
                     }
                   </Text>
                 </VStack>
@@ -750,152 +1198,7 @@ const CheckInsPage: React.FC = () => {
           </Box>
         ) : (
           <VStack spacing={4} align="stretch">
-            {filteredCheckIns.map((checkIn) => (
-              <Box 
-                key={checkIn.id} 
-                bg="white"
-                borderRadius="xl"
-                boxShadow="lg"
-                border="2px solid"
-                borderColor="gray.300"
-                p={5}
-                _hover={{ shadow: 'xl', transform: 'translateY(-2px)' }} 
-                transition="all 0.2s"
-              >
-                  <HStack spacing={4} align="start">
-                    <Avatar
-                      name={checkIn.clientName}
-                      size="md"
-                      bg="brand.500"
-                      color="white"
-                    />
-                    
-                    <VStack align="start" spacing={2} flex={1}>
-                      <HStack spacing={3} wrap="wrap">
-                        <HStack spacing={2} align="center">
-                          <Box
-                            px={2}
-                            py={1}
-                            borderRadius="sm"
-                            fontSize="xs"
-                            fontWeight="600"
-                            color="white"
-                            bg={getStatusColorHex(checkIn.status, checkIn)}
-                          >
-                            {getStatusText(checkIn.status, checkIn)}
-                          </Box>
-                          <Text fontSize="lg" fontWeight="600" color="gray.900">
-                            {checkIn.clientName}
-                          </Text>
-                        </HStack>
-                        <Badge colorScheme="gray" variant="subtle" fontSize="xs">
-                          ID: {checkIn.clientId}
-                        </Badge>
-                        {checkIn.hasMobilityIssues && (
-                          <Tooltip label="Mobility Assistance Required" placement="top">
-                            <Box color="#F4A261" cursor="help" fontSize="16px">
-                              ♿
-                            </Box>
-                          </Tooltip>
-                        )}
-                      </HStack>
-                      
-                      <HStack spacing={4} wrap="wrap">
-                        <HStack spacing={1}>
-                          <FiClock size={14} color="#718096" />
-                          <Text fontSize="sm" color="gray.600">
-                            {checkIn.checkInTime 
-                              ? `Checked in ${formatDistanceToNow(new Date(checkIn.checkInTime), { addSuffix: true })}`
-                              : checkIn.appointmentTime 
-                                ? `Appointment: ${formatToVancouverTimeOnly(checkIn.appointmentTime)}`
-                                : 'No time available'
-                            }
-                          </Text>
-                        </HStack>
-                        
-                        {checkIn.phoneNumber && (
-                          <HStack spacing={1}>
-                            <FiPhone size={14} color="#718096" />
-                            <Text fontSize="sm" color="gray.600">
-                              {formatPhoneNumber(checkIn.phoneNumber)}
-        </Text>
-                          </HStack>
-                        )}
-                        
-                        {checkIn.email && (
-                          <HStack spacing={1}>
-                            <FiMail size={14} color="#718096" />
-                            <Text fontSize="sm" color="gray.600">
-                              {checkIn.email}
-        </Text>
-                          </HStack>
-                        )}
-                      </HStack>
-
-                      {/* Additional Info */}
-                      <HStack spacing={4} wrap="wrap" fontSize="sm" color="gray.500">
-                        {checkIn.householdSize && (
-                          <Text>Household: {checkIn.householdSize} people</Text>
-                        )}
-                        {checkIn.dietaryConsiderations && (
-                          <Text>Dietary: {checkIn.dietaryConsiderations}</Text>
-                        )}
-                        {checkIn.location && (
-                          <Text>Location: {checkIn.location}</Text>
-                        )}
-                        {checkIn.program && (
-                          <Text>Program: {checkIn.program}</Text>
-                        )}
-                      </HStack>
-                    </VStack>
-                    
-                    <VStack spacing={2} align="end">
-                      <HStack spacing={1}>
-                        <Tooltip label="View Details" placement="top">
-                          <IconButton
-                            size="sm"
-                            variant="ghost"
-                            color="gray.500"
-                            _hover={{ color: 'blue.500', bg: 'blue.50' }}
-                            onClick={() => handleViewDetails(checkIn)}
-                            icon={<FiEye size="16px" />}
-                            aria-label="View Details"
-                          />
-                        </Tooltip>
-                        
-                        <Tooltip 
-                          label="Print Ticket (Opens in new window for landscape printing)" 
-                          placement="top"
-                        >
-                          <IconButton
-                            size="sm"
-                            variant="ghost"
-                            color="gray.500"
-                            _hover={{ color: 'blue.500', bg: 'blue.50' }}
-                            onClick={() => handlePrintTicket(checkIn)}
-                            icon={<FiPrinter size="16px" />}
-                            aria-label="Print Ticket"
-                          />
-                        </Tooltip>
-
-                        {checkIn.status === 'Pending' && (
-                          <Tooltip label="Cancel Appointment" placement="top">
-                            <IconButton
-                              size="sm"
-                              variant="ghost"
-                              color="gray.500"
-                              _hover={{ color: 'red.500', bg: 'red.50' }}
-                              onClick={() => handleCancelAppointment(checkIn)}
-                              icon={<FiX size="16px" />}
-                              aria-label="Cancel Appointment"
-                            />
-                          </Tooltip>
-                        )}
-                      </HStack>
-                    </VStack>
-                  </HStack>
-              </Box>
-            ))}
+            {view === 'agenda' ? renderAgenda() : filteredCheckIns.map(renderCheckInCard)}
           </VStack>
           )}
         </Box>
@@ -935,12 +1238,20 @@ const CheckInsPage: React.FC = () => {
                             <Text><strong>Ticket #:</strong> {selectedCheckIn.ticketNumber}</Text>
                           )}
                           {selectedCheckIn.isAutoGenerated && (
-                            <Text fontSize="sm" color="blue.600"><strong>✓ Auto-scheduled (21 days)</strong></Text>
+                            <Text fontSize="sm" color="blue.600"><strong>✓ Auto-scheduled ({hours.rebookIntervalDays} days)</strong></Text>
+                          )}
+                          {selectedCheckIn.generatedAt && (
+                            <Text fontSize="sm" color="gray.600"><strong>Scheduled on:</strong> {formatToVancouverTime(selectedCheckIn.generatedAt)}</Text>
                           )}
                         </VStack>
                         <VStack align="start" spacing={2}>
                           <Text><strong>Status:</strong> {getStatusText(selectedCheckIn.status, selectedCheckIn)}</Text>
                           <Text><strong>Check-in Time:</strong> {selectedCheckIn.checkInTime ? formatToVancouverTime(selectedCheckIn.checkInTime) : 'Not checked in'}</Text>
+                          {selectedCheckIn.queuedOnKiosk && (
+                            <Text color="orange.600">
+                              <strong>Queued on kiosk:</strong> {selectedCheckIn.queuedAt ? formatToVancouverTime(selectedCheckIn.queuedAt) : 'Yes'}
+                            </Text>
+                          )}
                           <Text><strong>Appointment Time:</strong> {selectedCheckIn.appointmentTime ? formatToVancouverTime(selectedCheckIn.appointmentTime) : 'No appointment'}</Text>
                           <Text><strong>Reminder Preference:</strong> {selectedCheckIn.notificationPreference || 'Email'}</Text>
                           {selectedCheckIn.hasMobilityIssues && (
@@ -1027,21 +1338,74 @@ const CheckInsPage: React.FC = () => {
               <Button variant="outline" mr={3} onClick={onDetailClose}>
                 Close
               </Button>
-              <Tooltip 
-                label="Opens ticket in new window. Set printer to Landscape orientation for best results."
-                placement="left"
-              >
-                <Button colorScheme="blue" onClick={() => {
-                  if (selectedCheckIn) {
-                    handlePrintTicket(selectedCheckIn);
-                  }
-                }}>
-                  Print Ticket
+              {selectedCheckIn && can('audit.view') && (
+                <Button
+                  variant="ghost"
+                  mr={3}
+                  leftIcon={<FiActivity />}
+                  onClick={() => navigate(`/audit?entity=${encodeURIComponent(selectedCheckIn.id)}`)}
+                >
+                  View History
                 </Button>
-              </Tooltip>
+              )}
+              {selectedCheckIn?.status === 'Pending' && can('checkins.markCollected') && (
+                <Button
+                  variant="outline"
+                  colorScheme="green"
+                  mr={3}
+                  leftIcon={<FiCheck />}
+                  onClick={() => {
+                    handleMarkCollected(selectedCheckIn);
+                    onDetailClose();
+                  }}
+                >
+                  Mark Collected
+                </Button>
+              )}
+              {selectedCheckIn?.status === 'Pending' && selectedCheckIn.checkInTime && can('tickets.call') && (
+                <Button variant="outline" colorScheme="green" mr={3} leftIcon={<FiBell />} onClick={() => handleCallTicket(selectedCheckIn)}>
+                  Call Ticket
+                </Button>
+              )}
+              {selectedCheckIn?.status === 'Pending' && can('appointments.cancel') && (
+                <Button
+                  variant="outline"
+                  colorScheme="red"
+                  mr={3}
+                  onClick={() => {
+                    setCancellingCheckIn(selectedCheckIn);
+                    onDetailClose();
+                  }}
+                >
+                  Cancel Appointment
+                </Button>
+              )}
+              {can('tickets.print') && (
+                <Tooltip 
+                  label="Opens ticket in new window. Set printer to Landscape orientation for best results."
+                  placement="left"
+                >
+                  <Button colorScheme="blue" onClick={() => {
+                    if (selectedCheckIn) {
+                      handlePrintTicket(selectedCheckIn);
+                    }
+                  }}>
+                    Print Ticket
+                  </Button>
+                </Tooltip>
+              )}
             </ModalFooter>
           </ModalContent>
         </Modal>
+
+        <AppointmentCancelModal
+          isOpen={!!cancellingCheckIn}
+          onClose={() => setCancellingCheckIn(null)}
+          clientName={cancellingCheckIn?.clientName}
+          onConfirm={async (reason) => {
+            if (cancellingCheckIn) await handleCancelAppointment(cancellingCheckIn, reason);
+          }}
+        />
     </Box>
   );
 };
@@ -11,6 +11,7 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../components/features/clients/ClientEditModal.tsx} Client edit modal
+ * @see {@link ../components/features/clients/HouseholdUpdateReview.tsx} Household change review
  */
 
 import React, { useState, useEffect } from 'react';
@@ -44,8 +45,14 @@ import {
 } from '@chakra-ui/react';
 import { ArrowBackIcon } from '@chakra-ui/icons';
 import { FiPrinter } from 'react-icons/fi';
-import { api } from '../lib/api';
+import { getPrivacyNotices } from '../lib/api';
+import { fetchQuery } from '../lib/queryCache';
 import { printTicket } from '../utils/printTicket';
+import HouseholdUpdateReview from '../components/features/clients/HouseholdUpdateReview';
+import { HouseholdComposition } from '../common/types/householdUpdate';
+import { getPrivacyConsentStatus } from '../common/types/privacy';
+import { ApiResponse } from '../common/types';
+import { useAuth } from '../contexts/AuthContext';
 
 type ClientExtras = {
   nextApptLocation?: string | null;
@@ -114,17 +121,41 @@ type JoinedClient = {
   nextAppointmentTime: string | null;
   completionTime: string | null;
   checkInTime: string | null;
+  // Reminder contact chosen on the client's reminders step
+  reminderPhone: string | null;
+  reminderConsentAt: string | null;
+  reminderLanguage: string | null;
+  // Privacy notice version accepted at the client's last check-in
+  privacyConsentVersion: number | null;
+  privacyConsentAt: string | null;
+  privacyConsentLanguage: string | null;
+};
+
+// Languages offered on the client check-in app
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  zh: 'Chinese',
+  hi: 'Hindi',
+  ar: 'Arabic',
+  pa: 'Punjabi',
 };
 
 const ClientDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const toast = useToast();
+  const { can } = useAuth();
+  // Roles without clients.edit see the extras read-only
+  const canEdit = can('clients.edit');
   
   const [client, setClient] = useState<JoinedClient | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Latest published privacy notice version, to flag consents to older versions
+  const [currentPrivacyVersion, setCurrentPrivacyVersion] = useState<number | null>(null);
   
   const [formData, setFormData] = useState<ClientExtras>({
     nextApptLocation: null,
@@ -163,10 +194,9 @@ const ClientDetailPage: React.FC = () => {
       }
 
       try {
-        // Get all client data
-        const response = await api('/csv/all');
-        if (response.ok) {
-          const result = await response.json();
+        // Get all client data (shared with the client lookup through the query cache)
+        const result = await fetchQuery<ApiResponse<any[]>>('/csv/all');
+        if (result.success) {
           const clients = result.data || [];
           
           // Find client by ID - super simple search
@@ -213,6 +243,12 @@ const ClientDetailPage: React.FC = () => {
               nextAppointmentTime: foundClient.nextAppointmentTime || null,
               completionTime: foundClient.completionTime || null,
               checkInTime: foundClient.checkInTime || null,
+              reminderPhone: foundClient.phone || null,
+              reminderConsentAt: foundClient.reminderConsentAt || null,
+              reminderLanguage: foundClient.reminderLanguage || null,
+              privacyConsentVersion: foundClient.privacyConsentVersion || null,
+              privacyConsentAt: foundClient.privacyConsentAt || null,
+              privacyConsentLanguage: foundClient.privacyConsentLanguage || null,
             };
             
             setClient(mappedClient);
@@ -259,6 +295,12 @@ const ClientDetailPage: React.FC = () => {
     loadClient();
   }, [id]);
 
+  useEffect(() => {
+    getPrivacyNotices()
+      .then((notices) => setCurrentPrivacyVersion(notices[0]?.version ?? null))
+      .catch((err) => console.error('Error loading privacy notices:', err));
+  }, []);
+
   // Handle form input changes
   const handleInputChange = (field: keyof ClientExtras, value: string | number | boolean) => {
     setFormData(prev => ({
@@ -297,6 +339,26 @@ const ClientDetailPage: React.FC = () => {
     }
   };
 
+  // An approved household change has already been written to the record by the backend
+  const handleHouseholdApproved = (household: HouseholdComposition) => {
+    const householdSize = household.adults + household.seniors + household.children;
+    setClient(prev => prev && {
+      ...prev,
+      adults: household.adults,
+      seniors: household.seniors,
+      children: household.children,
+      childrensAges: household.childrensAges || null,
+      householdSize: String(householdSize),
+    });
+    setFormData(prev => ({
+      ...prev,
+      adults: household.adults,
+      seniors: household.seniors,
+      children: household.children,
+      childrensAges: household.childrensAges || null,
+    }));
+  };
+
   /**
    * Handle print ticket action
    * 
@@ -339,6 +401,8 @@ const ClientDetailPage: React.FC = () => {
     );
   }
 
+  const privacyConsentStatus = getPrivacyConsentStatus(client.privacyConsentVersion, currentPrivacyVersion);
+
   return (
     <Container maxW="container.md" py={8}>
       <VStack spacing={6} align="stretch">
@@ -356,20 +420,36 @@ const ClientDetailPage: React.FC = () => {
               {client.lastName}, {client.firstName}
             </Heading>
           </HStack>
-          <Tooltip 
-            label="Opens ticket in new window. Set printer to Landscape orientation for best results."
-            placement="bottom"
-          >
-            <Button
-              leftIcon={<FiPrinter />}
-              colorScheme="blue"
-              onClick={handlePrint}
+          {can('tickets.print') && (
+            <Tooltip 
+              label="Opens ticket in new window. Set printer to Landscape orientation for best results."
+              placement="bottom"
             >
-              Print Ticket
-            </Button>
-          </Tooltip>
+              <Button
+                leftIcon={<FiPrinter />}
+                colorScheme="blue"
+                onClick={handlePrint}
+              >
+                Print Ticket
+              </Button>
+            </Tooltip>
+          )}
         </HStack>
 
+        {/* Household changes proposed at check-in */}
+        {canEdit && (
+          <HouseholdUpdateReview
+            clientId={client.id}
+            record={{
+              adults: client.adults || 0,
+              seniors: client.seniors || 0,
+              children: client.children || 0,
+              childrensAges: client.childrensAges || '',
+            }}
+            onApproved={handleHouseholdApproved}
+          />
+        )}
+
         {/* Client Info */}
         <Box p={4} bg="gray.50" borderRadius="md">
           <VStack spacing={3} align="start">
@@ -385,6 +465,56 @@ const ClientDetailPage: React.FC = () => {
               <Text fontWeight="bold">Email:</Text>
               <Text>{client.email || 'Not provided'}</Text>
             </HStack>
+            <HStack align="start">
+              <Text fontWeight="bold">Reminders:</Text>
+              {!client.notificationPreference || client.notificationPreference === 'None' ? (
+                <Text>{client.notificationPreference ? 'No reminders' : 'Not chosen'}</Text>
+              ) : (
+                <VStack align="start" spacing={0}>
+                  <HStack>
+                    <Badge colorScheme="green">{client.notificationPreference}</Badge>
+                    <Text>
+                      {client.notificationPreference === 'SMS'
+                        ? `${client.reminderPhone || client.phone || 'No phone'}${client.phoneCarrier ? ` (${client.phoneCarrier})` : ''}`
+                        : client.email || 'No email'}
+                    </Text>
+                  </HStack>
+                  {client.reminderConsentAt && (
+                    <Text fontSize="sm" color="gray.600">
+                      Agreed {new Date(client.reminderConsentAt).toLocaleString('en-US')}
+                      {client.reminderLanguage && ` in ${LANGUAGE_NAMES[client.reminderLanguage] || client.reminderLanguage}`}
+                    </Text>
+                  )}
+                </VStack>
+              )}
+            </HStack>
+            <HStack align="start">
+              <Text fontWeight="bold">Privacy Consent:</Text>
+              {privacyConsentStatus === 'missing' ? (
+                <Badge colorScheme="red">Not recorded</Badge>
+              ) : (
+                <VStack align="start" spacing={0}>
+                  <HStack>
+                    <Badge colorScheme={privacyConsentStatus === 'outdated' ? 'orange' : 'green'}>
+                      Version {client.privacyConsentVersion}
+                    </Badge>
+                    {client.privacyConsentAt && (
+                      <Text>
+                        Accepted {new Date(client.privacyConsentAt).toLocaleString('en-US')}
+                        {client.privacyConsentLanguage &&
+                          ` in ${LANGUAGE_NAMES[client.privacyConsentLanguage] || client.privacyConsentLanguage}`}
+                      </Text>
+                    )}
+                  </HStack>
+                  {privacyConsentStatus === 'outdated' && (
+                    <Text fontSize="sm" color="orange.600">
+                      Outdated - the current notice is version {currentPrivacyVersion}. The client will be asked to
+                      accept it at their next check-in.
+                    </Text>
+                  )}
+                </VStack>
+              )}
+            </HStack>
             <HStack>
               <Text fontWeight="bold">Household Size:</Text>
               <Text>{client.householdSize || 'Not provided'}</Text>
@@ -523,10 +653,15 @@ const ClientDetailPage: React.FC = () => {
         {/* Extras Form */}
         <VStack spacing={4} align="stretch">
           <Heading size="md" color="#25385D">Client Extras</Heading>
+          {!canEdit && (
+            <Text fontSize="sm" color="gray.500">
+              Your role can view these details but not change them.
+            </Text>
+          )}
           
           {/* Next Appointment - REMOVED - Using green box above instead */}
           
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Appointment Location</FormLabel>
             <Input
               value={formData.nextApptLocation || ''}
@@ -535,7 +670,7 @@ const ClientDetailPage: React.FC = () => {
             />
           </FormControl>
 
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Program</FormLabel>
             <Input
               value={formData.program || ''}
@@ -545,7 +680,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Dietary */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Dietary Considerations</FormLabel>
             <Textarea
               value={formData.dietary || ''}
@@ -556,7 +691,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Allergies */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Allergies</FormLabel>
             <Textarea
               value={formData.allergies || ''}
@@ -567,7 +702,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Special Requests */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Special Requests</FormLabel>
             <Textarea
               value={formData.requests || ''}
@@ -578,7 +713,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Unwanted Items */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Unwanted Items</FormLabel>
             <Textarea
               value={formData.unwanted || ''}
@@ -589,7 +724,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Email */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Email</FormLabel>
             <Input
               type="email"
@@ -601,7 +736,7 @@ const ClientDetailPage: React.FC = () => {
 
           {/* Household Details */}
           <HStack spacing={4}>
-            <FormControl>
+            <FormControl isReadOnly={!canEdit}>
               <FormLabel>Adults</FormLabel>
               <NumberInput
                 value={formData.adults || ''}
@@ -616,7 +751,7 @@ const ClientDetailPage: React.FC = () => {
               </NumberInput>
             </FormControl>
 
-            <FormControl>
+            <FormControl isReadOnly={!canEdit}>
               <FormLabel>Seniors</FormLabel>
               <NumberInput
                 value={formData.seniors || ''}
@@ -631,7 +766,7 @@ const ClientDetailPage: React.FC = () => {
               </NumberInput>
             </FormControl>
 
-            <FormControl>
+            <FormControl isReadOnly={!canEdit}>
               <FormLabel>Children</FormLabel>
               <NumberInput
                 value={formData.children || ''}
@@ -648,7 +783,7 @@ const ClientDetailPage: React.FC = () => {
           </HStack>
 
           {/* Children's Ages */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Children's Ages</FormLabel>
             <Input
               value={formData.childrensAges || ''}
@@ -658,7 +793,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Additional Info */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Additional Information</FormLabel>
             <Textarea
               value={formData.additionalInfo || ''}
@@ -669,7 +804,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Items Provided */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Items Provided</FormLabel>
             <Textarea
               value={formData.itemsProvided || ''}
@@ -680,7 +815,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Notes */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Notes</FormLabel>
             <Textarea
               value={formData.notes || ''}
@@ -691,7 +826,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Mobility Issues */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <Checkbox
               isChecked={formData.hasMobilityIssues || false}
               onChange={(e) => handleInputChange('hasMobilityIssues', e.target.checked)}
@@ -701,7 +836,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Diaper Size */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Diaper Size</FormLabel>
             <Select
               value={formData.diaperSize || ''}
@@ -720,7 +855,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Notification Preference */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Notification Preference</FormLabel>
             <Select
               value={formData.notificationPreference || ''}
@@ -735,7 +870,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Phone Carrier */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Phone Carrier</FormLabel>
             <Input
               value={formData.phoneCarrier || ''}
@@ -745,7 +880,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Client Type */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Client Type</FormLabel>
             <Select
               value={formData.clientType || ''}
@@ -759,7 +894,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Provisions */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Provisions</FormLabel>
             <Textarea
               value={formData.provisions || ''}
@@ -770,7 +905,7 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Quantity */}
-          <FormControl>
+          <FormControl isReadOnly={!canEdit}>
             <FormLabel>Quantity</FormLabel>
             <NumberInput
               value={formData.quantity || ''}
@@ -786,17 +921,19 @@ const ClientDetailPage: React.FC = () => {
           </FormControl>
 
           {/* Save Button */}
-          <Button
-            colorScheme="green"
-            onClick={handleSave}
-            isLoading={saving}
-            loadingText="Saving..."
-            size="md"
-            w="50%"
-            mx="auto"
-          >
-            Save
-          </Button>
+          {canEdit && (
+            <Button
+              colorScheme="green"
+              onClick={handleSave}
+              isLoading={saving}
+              loadingText="Saving..."
+              size="md"
+              w="50%"
+              mx="auto"
+            >
+              Save
+            </Button>
+          )}
         </VStack>
       </VStack>
     </Container>
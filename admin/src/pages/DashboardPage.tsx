@@ -13,7 +13,7 @@
  * @see {@link ../components/features/dashboard/} Dashboard components
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useMemo } from 'react';
 import { 
   Box, 
   Grid, 
@@ -43,117 +43,42 @@ import RecentCheckInsList from '../components/features/dashboard/RecentCheckInsL
 import CheckInAnalyticsChart from '../components/features/dashboard/CheckInAnalyticsChart';
 import HelpRequestsTable from '../components/features/dashboard/HelpRequestsTable';
 import { CheckInRecord } from '../common/types/checkIn';
-import { getApiUrl } from '../common/apiConfig';
+import { ApiResponse } from '../common/types';
+import { useQuery } from '../lib/queryCache';
 
 const DashboardPage: React.FC = () => {
   const { isOpen: isCSVHelpOpen, onOpen: onCSVHelpOpen, onClose: onCSVHelpClose } = useDisclosure();
-  const [checkIns, setCheckIns] = useState<CheckInRecord[]>([]);
-  const [isLoadingCheckIns, setIsLoadingCheckIns] = useState(true);
-  const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const navigate = useNavigate();
 
   /**
-   * Fetch today's check-ins from backend API
+   * Today's check-ins, from the shared appointments query
    * 
-   * Best Practices:
-   * - Filters to today's appointments only
-   * - Handles connection errors gracefully
-   * - Preserves existing data on transient errors
+   * The query cache keeps this in step with the check-ins page and the
+   * dashboard widgets, refetching it after real-time events and staff
+   * actions. Existing data is kept on transient errors.
    */
-  const fetchCheckIns = async () => {
-    try {
-      const response = await fetch(getApiUrl('/checkin/appointments'));
-      const data = await response.json();
-      
-      if (data.success && data.data) {
-        const appointments = data.data;
-        
-        // Only today's appointments
-        const todayAppointments = appointments.filter((appointment: CheckInRecord) => {
-          if (appointment.appointmentTime) {
-            const appointmentDate = new Date(appointment.appointmentTime);
-            const today = new Date();
-            return appointmentDate.toDateString() === today.toDateString();
-          }
-          return false;
-        });
-        
-        setCheckIns(todayAppointments);
-      } else {
-        setCheckIns([]);
-      }
-    } catch (error) {
-      if (error instanceof TypeError && error.message.includes('Failed to fetch')) {
-        console.warn('Backend server not available for check-ins, will retry later');
-      } else {
-        console.error('Failed to fetch check-ins:', error);
-      }
-      // Keep existing data on connection errors
-      if (!(error instanceof TypeError && error.message.includes('Failed to fetch'))) {
-        setCheckIns([]);
-      }
-    } finally {
-      setIsLoadingCheckIns(false);
-      setLastRefresh(new Date());
-    }
-  };
+  const {
+    data: appointmentsResult,
+    isLoading: isLoadingCheckIns,
+    isValidating: isRefreshingCheckIns,
+    updatedAt,
+    refresh: refreshCheckIns,
+  } = useQuery<ApiResponse<CheckInRecord[]>>('/checkin/appointments');
+  const lastRefresh = updatedAt ? new Date(updatedAt) : new Date();
 
-  /**
-   * Polling setup with Page Visibility API
-   * 
-   * Best Practices Implemented:
-   * - Page Visibility API: Pauses polling when browser tab is hidden
-   * - Optimized Interval: 2 minutes (reduced from 60s to minimize API calls)
-   * - Smart Conditions: Only polls when tab is visible
-   * - Proper Cleanup: Clears intervals and removes event listeners on unmount
-   * 
-   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API} Page Visibility API
-   */
-  useEffect(() => {
-    fetchCheckIns();
-    
-    // Use visibility API to pause polling when tab is hidden
-    let interval: NodeJS.Timeout | null = null;
-    let isVisible = !document.hidden;
-    
-    const startPolling = () => {
-      if (interval) clearInterval(interval);
-      interval = setInterval(() => {
-        // Only poll if tab is visible
-        if (!document.hidden) {
-          fetchCheckIns();
-        }
-      }, 120000); // Poll every 2 minutes (optimized to reduce API calls)
-    };
-    
-    const handleVisibilityChange = () => {
-      isVisible = !document.hidden;
-      if (isVisible) {
-        // Tab became visible - fetch immediately and start polling
-        fetchCheckIns();
-        startPolling();
-      } else {
-        // Tab hidden - stop polling
-        if (interval) {
-          clearInterval(interval);
-          interval = null;
-        }
+  const checkIns = useMemo(() => {
+    if (!appointmentsResult?.success || !appointmentsResult.data) return [];
+
+    // Only today's appointments
+    const today = new Date();
+    return appointmentsResult.data.filter((appointment) => {
+      if (appointment.appointmentTime) {
+        const appointmentDate = new Date(appointment.appointmentTime);
+        return appointmentDate.toDateString() === today.toDateString();
       }
-    };
-    
-    // Start polling if visible
-    if (isVisible) {
-      startPolling();
-    }
-    
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-    
-    return () => {
-      if (interval) clearInterval(interval);
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, []);
+      return false;
+    });
+  }, [appointmentsResult]);
 
   // Format date helper
   const formatDate = (date: Date) => {
@@ -261,8 +186,8 @@ const DashboardPage: React.FC = () => {
               size="sm"
               variant="outline"
               leftIcon={<FiRefreshCw />}
-              onClick={fetchCheckIns}
-              isLoading={isLoadingCheckIns}
+              onClick={() => refreshCheckIns()}
+              isLoading={isRefreshingCheckIns}
               colorScheme="blue"
               flexShrink={0}
             >
@@ -506,7 +431,7 @@ const DashboardPage: React.FC = () => {
                 <RecentCheckInsList 
                   checkIns={checkIns} 
                   isLoading={isLoadingCheckIns}
-                  onRefresh={fetchCheckIns}
+                  onRefresh={() => refreshCheckIns()}
                 />
               </TabPanel>
               <TabPanel px={{ base: 3, md: 4 }} py={{ base: 3, md: 4 }}>
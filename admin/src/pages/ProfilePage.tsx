@@ -27,9 +27,11 @@ import {
 } from '@chakra-ui/react';
 import { FiUser, FiMail, FiShield, FiCalendar } from 'react-icons/fi';
 import { useAuth } from '../contexts/AuthContext';
+import { ROLE_LABELS } from '../common/types/permissions';
 
 const ProfilePage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const roleLabel = role ? ROLE_LABELS[role] : 'No staff role';
 
   return (
     <VStack spacing={8} align="stretch">
@@ -58,7 +60,7 @@ const ProfilePage: React.FC = () => {
                     {user?.email || 'Admin User'}
                   </Heading>
                   <Badge colorScheme="blue" variant="subtle">
-                    Administrator
+                    {roleLabel}
                   </Badge>
                 </VStack>
               </HStack>
@@ -85,7 +87,7 @@ const ProfilePage: React.FC = () => {
                       Role
                     </Text>
                     <Text fontSize="md" color="gray.800">
-                      System Administrator
+                      {roleLabel}
                     </Text>
                   </VStack>
                 </HStack>
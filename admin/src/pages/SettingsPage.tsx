@@ -11,6 +11,9 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../components/features/dashboard/Link2FeedStatus.tsx} Link2Feed status
+ * @see {@link ../components/features/settings/RequestCatalogManager.tsx} Special request options
+ * @see {@link ../components/features/settings/PrivacyNoticeManager.tsx} Privacy notice
+ * @see {@link ../components/features/settings/OperatingHoursManager.tsx} Operating hours
  */
 
 import {
@@ -45,8 +48,13 @@ import {
   FiExternalLink
 } from 'react-icons/fi';
 import Link2FeedStatus from '../components/features/dashboard/Link2FeedStatus';
+import RequestCatalogManager from '../components/features/settings/RequestCatalogManager';
+import PrivacyNoticeManager from '../components/features/settings/PrivacyNoticeManager';
+import OperatingHoursManager from '../components/features/settings/OperatingHoursManager';
+import { useAuth } from '../contexts/AuthContext';
 
 const SettingsPage: React.FC = () => {
+  const { can } = useAuth();
 
   return (
     <VStack spacing={8} align="stretch">
@@ -132,42 +140,53 @@ const SettingsPage: React.FC = () => {
           {/* Primary Settings */}
           <GridItem>
             <VStack spacing={6} align="stretch">
-              {/* Link2Feed Integration */}
-              <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
-                <CardBody p={6}>
-                  <VStack spacing={6} align="stretch">
-                    <HStack justify="space-between" align="center">
-                      <HStack spacing={3}>
-                        <Box
-                          p={2}
-                          bg="blue.100"
-                          borderRadius="full"
-                          display="flex"
-                          alignItems="center"
-                          justifyContent="center"
-                        >
-                          <Icon as={FiLink} color="#25385D" boxSize={5} />
-                        </Box>
-                        <VStack spacing={0} align="start">
-                          <Heading size="md" color="#25385D">
-                            Link2Feed Integration
-                          </Heading>
-                          <Text color="gray.500" fontSize="sm">
-                            Optional real-time integration for enhanced data processing
-                          </Text>
-                        </VStack>
+              {/* Link2Feed Integration - administrators only */}
+              {can('link2feed.configure') && (
+                <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
+                  <CardBody p={6}>
+                    <VStack spacing={6} align="stretch">
+                      <HStack justify="space-between" align="center">
+                        <HStack spacing={3}>
+                          <Box
+                            p={2}
+                            bg="blue.100"
+                            borderRadius="full"
+                            display="flex"
+                            alignItems="center"
+                            justifyContent="center"
+                          >
+                            <Icon as={FiLink} color="#25385D" boxSize={5} />
+                          </Box>
+                          <VStack spacing={0} align="start">
+                            <Heading size="md" color="#25385D">
+                              Link2Feed Integration
+                            </Heading>
+                            <Text color="gray.500" fontSize="sm">
+                              Optional real-time integration for enhanced data processing
+                            </Text>
+                          </VStack>
+                        </HStack>
+                        <Badge colorScheme="gray" variant="subtle" px={3} py={1} borderRadius="full">
+                          Optional
+                        </Badge>
                       </HStack>
-                      <Badge colorScheme="gray" variant="subtle" px={3} py={1} borderRadius="full">
-                        Optional
-                      </Badge>
-                    </HStack>
 
-                    <Divider />
+                      <Divider />
 
-                    <Link2FeedStatus />
-                  </VStack>
-                </CardBody>
-              </Card>
+                      <Link2FeedStatus />
+                    </VStack>
+                  </CardBody>
+                </Card>
+              )}
+
+              {/* Operating Hours */}
+              <OperatingHoursManager />
+
+              {/* Special Request Catalog */}
+              <RequestCatalogManager />
+
+              {/* Privacy Notice */}
+              <PrivacyNoticeManager />
 
               {/* System Configuration */}
               <Card bg="white" border="1px solid" borderColor="gray.200" borderRadius="lg" boxShadow="md">
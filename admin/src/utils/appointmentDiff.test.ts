@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Tests for comparing a merge upload with the loaded appointments
+ *
+ * The loaded appointments mirror the first rows of docs/sample-appointments.csv
+ * as the backend returns them; each test edits the file or the appointments
+ * to produce unchanged, changed, new and removed entries.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-23
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./appointmentDiff.ts} Appointment diff
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { CheckInRecord } from '../common/types/checkIn';
+import { AppointmentDiffEntry } from '../common/types/appointmentMerge';
+import { buildMergeRequest, diffAppointments } from './appointmentDiff';
+import { parseCSV } from './csvImport';
+
+const sample = readFileSync(join(__dirname, '../../../docs/sample-appointments.csv'), 'utf8');
+
+const HEADER = sample.split('\n')[0];
+const [JOHN, JANE, MARIA] = sample.split('\n').slice(1, 4);
+
+const appointment = (overrides: Partial<CheckInRecord>): CheckInRecord => ({
+  id: `appointment-${overrides.clientId}`,
+  clientId: '',
+  clientName: '',
+  phoneNumber: '',
+  checkInTime: '',
+  status: 'Pending',
+  source: 'csv',
+  createdAt: '2025-04-13T12:00:00.000Z',
+  updatedAt: '2025-04-13T12:00:00.000Z',
+  expiresAt: '2025-04-15T12:00:00.000Z',
+  ...overrides,
+});
+
+const john = (overrides: Partial<CheckInRecord> = {}) =>
+  appointment({
+    clientId: '12345',
+    clientName: 'John Smith',
+    pickUpDate: '2025-04-14 @ 9:00 AM',
+    phoneNumber: '2505550101',
+    email: 'john.smith@example.com',
+    dietaryConsiderations: 'None',
+    itemsProvided: 'Standard Hamper',
+    adults: 2,
+    seniors: 0,
+    children: 1,
+    childrensAges: '5 years old',
+    ...overrides,
+  });
+
+const jane = (overrides: Partial<CheckInRecord> = {}) =>
+  appointment({
+    clientId: '12346',
+    clientName: 'Jane Doe',
+    pickUpDate: '2025-04-14 @ 10:15 AM',
+    phoneNumber: '(250) 555-0102',
+    adults: 1,
+    seniors: 1,
+    children: 0,
+    ...overrides,
+  });
+
+const diff = (lines: string[], existing: CheckInRecord[]) => diffAppointments(parseCSV([HEADER, ...lines].join('\n')), existing);
+
+const entryFor = (entries: AppointmentDiffEntry[], clientId: string) => entries.find((entry) => entry.clientId === clientId);
+
+describe('diffAppointments', () => {
+  it('reports rows matching their appointment as unchanged', () => {
+    const entries = diff([JOHN, JANE], [john(), jane()]);
+    expect(entries.map(({ clientId, kind, row }) => ({ clientId, kind, row }))).toEqual([
+      { clientId: '12345', kind: 'unchanged', row: 2 },
+      { clientId: '12346', kind: 'unchanged', row: 3 },
+    ]);
+  });
+
+  it('ignores differences in spacing, case and phone formatting', () => {
+    const entries = diff([JOHN], [john({ clientName: '  john  SMITH ', phoneNumber: '250.555.0101', email: 'John.Smith@Example.com' })]);
+    expect(entryFor(entries, '12345')).toMatchObject({ kind: 'unchanged', changes: [] });
+  });
+
+  it("doesn't compare fields the loaded appointment doesn't carry", () => {
+    // Jane's appointment has no email, dietary considerations or items
+    expect(entryFor(diff([JANE], [jane()]), '12346')?.kind).toBe('unchanged');
+  });
+
+  it('lists each changed field with the loaded and new values', () => {
+    const entries = diff([JOHN], [john({ pickUpDate: '2025-04-14 @ 8:00 AM', adults: 3 })]);
+    expect(entryFor(entries, '12345')).toMatchObject({
+      kind: 'changed',
+      changes: [
+        { field: 'pickUpDate', before: '2025-04-14 @ 8:00 AM', after: '2025-04-14 @ 9:00 AM' },
+        { field: 'adults', before: '3', after: '2' },
+      ],
+    });
+  });
+
+  it('reports clients without a loaded appointment as new', () => {
+    const entries = diff([JOHN, MARIA], [john()]);
+    expect(entryFor(entries, '12347')).toMatchObject({ kind: 'new', row: 3, existing: undefined, isCheckedIn: false });
+    expect(entryFor(entries, '12347')?.values).toMatchObject({ name: 'Maria Garcia', pickUpDate: '2025-04-14 @ 11:30 AM' });
+  });
+
+  it('reports uploaded appointments the file no longer lists as removed', () => {
+    const entries = diff([JOHN], [john(), jane()]);
+    const removed = entryFor(entries, '12346');
+    expect(removed).toMatchObject({ kind: 'removed', isCheckedIn: false, changes: [] });
+    expect(removed?.row).toBeUndefined();
+    expect(removed?.values).toBeUndefined();
+  });
+
+  it('never reports appointments added by hand as removed', () => {
+    const entries = diff([JOHN], [john(), jane({ source: 'manual' })]);
+    expect(entryFor(entries, '12346')).toBeUndefined();
+  });
+
+  it('marks appointments the client already checked in for', () => {
+    const entries = diff(
+      [JOHN],
+      [john({ pickUpDate: '2025-04-14 @ 8:00 AM', status: 'Collected' }), jane({ checkInTime: '2025-04-14T17:20:00.000Z' })]
+    );
+    expect(entryFor(entries, '12345')).toMatchObject({ kind: 'changed', isCheckedIn: true });
+    expect(entryFor(entries, '12346')).toMatchObject({ kind: 'removed', isCheckedIn: true });
+  });
+
+  it('uses the later row when the file lists a client twice', () => {
+    const rescheduled = JOHN.replace('9:00 AM', '2:00 PM');
+    const entries = diff([JOHN, rescheduled], [john()]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ kind: 'changed', row: 3 });
+  });
+});
+
+describe('buildMergeRequest', () => {
+  it('sends new rows as a CSV, only the changed fields and the removals', () => {
+    const parsed = parseCSV([HEADER, JOHN, MARIA].join('\n'));
+    const entries = diffAppointments(parsed, [john({ adults: 3 }), jane()]);
+    const request = buildMergeRequest(parsed, entries);
+
+    expect(request.csv.split('\r\n')).toHaveLength(2);
+    expect(request.csv.split('\r\n')[1].startsWith('12347,Maria Garcia,')).toBe(true);
+    expect(request.updates).toEqual([{ clientId: '12345', changes: { adults: '2' } }]);
+    expect(request.removals).toEqual(['12346']);
+  });
+
+  it('sends nothing for unchanged rows', () => {
+    const parsed = parseCSV([HEADER, JOHN].join('\n'));
+    expect(buildMergeRequest(parsed, diffAppointments(parsed, [john()]))).toEqual({ csv: '', updates: [], removals: [] });
+  });
+
+  it('never removes an appointment the client checked in for', () => {
+    const parsed = parseCSV([HEADER, JOHN].join('\n'));
+    const entries = diffAppointments(parsed, [john(), jane({ status: 'Collected' })]);
+    expect(buildMergeRequest(parsed, entries).removals).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Appointment diff for merge uploads in Foodbank Check-In and Appointment System admin panel
+ *
+ * This module compares a file that passed the import wizard with the day's
+ * loaded appointments, matching them by Client #. Appointments the file no
+ * longer lists are only considered when they came from an earlier upload;
+ * walk-ins added by hand are never reported as removed.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-23
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/appointmentMerge.ts} Merge types
+ * @see {@link ./csvImport.ts} CSV parsing and mapping
+ */
+
+import { ParsedCSV } from '../common/types';
+import { CheckInRecord } from '../common/types/checkIn';
+import { AppointmentDiffEntry, AppointmentFieldChange, AppointmentMergeRequest } from '../common/types/appointmentMerge';
+import { autoMapHeaders, buildMappedCSV, getMappedValue } from './csvImport';
+
+// Import field -> how to read it from a loaded appointment and compare the two
+const COMPARED_FIELDS: Array<{
+  field: string;
+  read: (record: CheckInRecord) => string | number | undefined;
+  normalize: (value: string) => string;
+}> = [
+  { field: 'name', read: (record) => record.clientName, normalize: (value) => value.trim().replace(/\s+/g, ' ').toLowerCase() },
+  { field: 'pickUpDate', read: (record) => record.pickUpDate, normalize: (value) => value.trim().replace(/\s+/g, ' ').toUpperCase() },
+  { field: 'phoneNumber', read: (record) => record.phoneNumber, normalize: (value) => value.replace(/\D/g, '') },
+  { field: 'email', read: (record) => record.email, normalize: (value) => value.trim().toLowerCase() },
+  { field: 'dietaryConsiderations', read: (record) => record.dietaryConsiderations, normalize: (value) => value.trim() },
+  { field: 'itemsProvided', read: (record) => record.itemsProvided, normalize: (value) => value.trim() },
+  { field: 'adults', read: (record) => record.adults, normalize: (value) => String(Number(value || 0)) },
+  { field: 'seniors', read: (record) => record.seniors, normalize: (value) => String(Number(value || 0)) },
+  { field: 'children', read: (record) => record.children, normalize: (value) => String(Number(value || 0)) },
+  { field: 'childrensAges', read: (record) => record.childrensAges, normalize: (value) => value.trim() },
+];
+
+export const isAppointmentCheckedIn = (record: CheckInRecord): boolean => {
+  return record.status !== 'Pending' || !!record.checkInTime;
+};
+
+/**
+ * Compare a file with the standard headers to the loaded appointments
+ *
+ * Fields a loaded appointment doesn't carry at all can't be compared and are
+ * never reported as changed. When the file lists a client twice, the later
+ * row wins.
+ */
+export const diffAppointments = (parsed: ParsedCSV, existing: CheckInRecord[]): AppointmentDiffEntry[] => {
+  const mappings = autoMapHeaders(parsed.headers).filter((mapping) => mapping.sourceField);
+  const byClientId = new Map(existing.map((record) => [String(record.clientId).trim(), record]));
+  const fileEntries = new Map<string, AppointmentDiffEntry>();
+
+  parsed.rows.forEach((row, index) => {
+    const values = Object.fromEntries(
+      mappings.map((mapping) => [mapping.targetField, getMappedValue(parsed, row, mapping)])
+    );
+    const clientId = values.clientId;
+    if (!clientId) return;
+
+    const record = byClientId.get(clientId);
+    const changes: AppointmentFieldChange[] = [];
+    if (record) {
+      COMPARED_FIELDS.forEach(({ field, read, normalize }) => {
+        const before = read(record);
+        if (before === undefined || before === null || values[field] === undefined) return;
+        if (normalize(String(before)) !== normalize(values[field])) {
+          changes.push({ field, before: String(before), after: values[field] });
+        }
+      });
+    }
+
+    fileEntries.set(clientId, {
+      clientId,
+      kind: !record ? 'new' : changes.length > 0 ? 'changed' : 'unchanged',
+      row: index + 2,
+      values,
+      existing: record,
+      changes,
+      isCheckedIn: record ? isAppointmentCheckedIn(record) : false,
+    });
+  });
+
+  const removed = existing
+    .filter((record) => record.source === 'csv' && !fileEntries.has(String(record.clientId).trim()))
+    .map(
+      (record): AppointmentDiffEntry => ({
+        clientId: String(record.clientId),
+        kind: 'removed',
+        existing: record,
+        changes: [],
+        isCheckedIn: isAppointmentCheckedIn(record),
+      })
+    );
+
+  return [...fileEntries.values(), ...removed];
+};
+
+/**
+ * Build the merge request for the entries staff chose to apply
+ *
+ * Removing an appointment the client already checked in for would lose their
+ * progress, so those are never sent even when selected.
+ */
+export const buildMergeRequest = (parsed: ParsedCSV, entries: AppointmentDiffEntry[]): AppointmentMergeRequest => {
+  const newRows = new Set(entries.filter((entry) => entry.kind === 'new').map((entry) => entry.row));
+  const skipRows = new Set(parsed.rows.map((_, index) => index + 2).filter((row) => !newRows.has(row)));
+
+  return {
+    csv: newRows.size > 0 ? buildMappedCSV(parsed, autoMapHeaders(parsed.headers), skipRows) : '',
+    updates: entries
+      .filter((entry) => entry.kind === 'changed')
+      .map((entry) => ({
+        clientId: entry.clientId,
+        changes: Object.fromEntries(entry.changes.map((change) => [change.field, change.after])),
+      })),
+    removals: entries
+      .filter((entry) => entry.kind === 'removed' && !entry.isCheckedIn)
+      .map((entry) => entry.clientId),
+  };
+};
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Audit trail helpers for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module turns audit entries into what the Audit page shows: readable
+ * action and entity names, the individual field changes of an entry, and the
+ * CSV export staff hand on when a client disputes what happened.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-26
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/audit.ts} Audit types
+ * @see {@link ../pages/AuditPage.tsx} Audit page
+ */
+
+import { AuditAction, AuditEntityType, AuditEntry } from '../common/types/audit';
+import { ROLE_LABELS, StaffRole } from '../common/types/permissions';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  appointment: 'Appointment',
+  client: 'Client',
+  helpRequest: 'Help request',
+  householdUpdate: 'Household change',
+  settings: 'Settings',
+  data: 'System data',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  status_changed: 'Status changed',
+  rescheduled: 'Rescheduled',
+  ticket_called: 'Ticket called',
+  client_edited: 'Client edited',
+  household_reviewed: 'Household change reviewed',
+  help_request_updated: 'Help request updated',
+  settings_changed: 'Settings changed',
+  csv_uploaded: 'CSV uploaded',
+  data_cleared: 'Data cleared',
+  data_restored: 'Data restored',
+};
+
+// Days shown when the page opens; the backend keeps the trail longer than the appointments
+export const DEFAULT_AUDIT_DAYS = 7;
+
+export interface AuditChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+// "nextAppointmentDate" -> "Next appointment date"
+export const formatFieldName = (field: string): string => {
+  const words = field
+    .replace(/[_-]+/g, ' ')
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * The fields an entry changed, in the order the backend sent them
+ *
+ * Fields present on only one side show "—" on the other, so created and
+ * removed entities read the same way as edits.
+ */
+export const getAuditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({
+      field: formatFieldName(field),
+      before: formatAuditValue(before[field]),
+      after: formatAuditValue(after[field]),
+    }));
+};
+
+// Quote cells that need it, and stop spreadsheet apps from running a value
+// that starts like a formula (=, +, -, @) - names and reasons are typed by people
+const csvCell = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Build a CSV of audit entries, one row per changed field
+ *
+ * Entries without field changes (e.g. a ticket call) still get one row.
+ */
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+  const headers = ['Timestamp', 'User', 'Role', 'Action', 'Entity', 'Entity ID', 'Name', 'Field', 'Before', 'After', 'Reason'];
+  const rows = entries.flatMap((entry) => {
+    const base = [
+      entry.timestamp,
+      entry.actor.email,
+      ROLE_LABELS[entry.actor.role as StaffRole] || entry.actor.role || '',
+      AUDIT_ACTION_LABELS[entry.action] || entry.action,
+      AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType,
+      entry.entityId,
+      entry.entityLabel || '',
+    ];
+    const changes = getAuditChanges(entry);
+    return (changes.length > 0 ? changes : [null]).map((change) => [
+      ...base,
+      change?.field || '',
+      change?.before || '',
+      change?.after || '',
+      entry.reason || '',
+    ]);
+  });
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview Tests for parsing, mapping and validating appointment CSVs
+ *
+ * The sample file is docs/sample-appointments.csv, the Link2Feed export the
+ * import wizard is built around; other files are variations on it.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-21
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./csvImport.ts} CSV import utilities
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { CSVFieldMapping } from '../common/types';
+import { ImportProfile } from '../common/types/importProfiles';
+import {
+  applyImportProfile,
+  autoMapHeaders,
+  buildMappedCSV,
+  CSV_VALIDATION_RULES,
+  detectImportProfile,
+  getUnmappedRequiredFields,
+  parseCSV,
+  validateRows,
+} from './csvImport';
+
+const sample = readFileSync(join(__dirname, '../../../docs/sample-appointments.csv'), 'utf8');
+
+const sourceOf = (headers: string[], targetField: string): string | undefined => {
+  return autoMapHeaders(headers).find((mapping) => mapping.targetField === targetField)?.sourceField;
+};
+
+const mappingFor = (mappings: CSVFieldMapping[], targetField: string): CSVFieldMapping | undefined => {
+  return mappings.find((mapping) => mapping.targetField === targetField);
+};
+
+// A food bank's own export, with headers header matching doesn't recognise
+const CUSTOM_HEADERS = ['Cust No', 'Customer', 'Visit', 'Tel', 'Household', 'Memo'];
+
+// What the wizard saves: the file's header row and the mappings as edited
+const saveProfile = (name: string, headers: string[], mappings: CSVFieldMapping[]): ImportProfile => ({
+  id: name.toLowerCase().replace(/ /g, '-'),
+  name,
+  headers,
+  mappings,
+  updatedAt: '2025-11-22T00:00:00.000Z',
+});
+
+const customProfile = (): ImportProfile => {
+  const sources: Record<string, string> = {
+    clientId: 'Cust No',
+    name: 'Customer',
+    pickUpDate: 'Visit',
+    phoneNumber: 'Tel',
+    dietaryConsiderations: 'Memo',
+  };
+  const mappings = autoMapHeaders(CUSTOM_HEADERS).map((mapping) => ({
+    ...mapping,
+    sourceField: sources[mapping.targetField] ?? mapping.sourceField,
+    ...(mapping.targetField === 'pickUpDate' ? { dateFormat: 'MM/dd/yyyy HH:mm' } : {}),
+    ...(mapping.targetField === 'dietaryConsiderations' ? { fallbackValue: 'None' } : {}),
+  }));
+  return saveProfile('Custom Export', CUSTOM_HEADERS, mappings);
+};
+
+describe('parseCSV', () => {
+  it('reads the sample export', () => {
+    const parsed = parseCSV(sample);
+    expect(parsed.headers).toEqual([
+      'Client #', 'Name', 'Pick Up Date', 'Dietary Considerations', 'Items Provided', 'Adults', 'Seniors',
+      'Children', "Children's Ages", 'Email', 'Phone Number', 'Location', 'Program', 'Notes',
+    ]);
+    expect(parsed.rows).toHaveLength(10);
+    expect(parsed.rows[0].slice(0, 3)).toEqual(['12345', 'John Smith', '2025-04-14 @ 9:00 AM']);
+  });
+
+  it('keeps commas, quotes and line breaks inside quoted values', () => {
+    const parsed = parseCSV('Name,Notes\r\n"Smith, John","Said ""hi""\nat the door"\r\n');
+    expect(parsed.rows).toEqual([['Smith, John', 'Said "hi"\nat the door']]);
+  });
+
+  it('removes a byte order mark and skips blank lines', () => {
+    const parsed = parseCSV('\uFEFFClient #,Name\n\n12345,John Smith\n\n');
+    expect(parsed.headers).toEqual(['Client #', 'Name']);
+    expect(parsed.rows).toEqual([['12345', 'John Smith']]);
+  });
+
+  it('rejects an unclosed quote and an empty file', () => {
+    expect(() => parseCSV('Name\n"John Smith\n')).toThrow('missing closing quote');
+    expect(() => parseCSV('\n\n')).toThrow('The file is empty.');
+  });
+});
+
+describe('autoMapHeaders', () => {
+  it('maps every field of the sample export to its own column', () => {
+    const { headers } = parseCSV(sample);
+    const mappings = autoMapHeaders(headers);
+    expect(mappings.every((mapping) => mapping.sourceField !== '')).toBe(true);
+    expect(getUnmappedRequiredFields(mappings)).toEqual([]);
+  });
+
+  it('matches aliases and headers written differently', () => {
+    const headers = ['CLIENT ID', 'Full Name', 'PickUp Date', 'Telephone'];
+    expect(sourceOf(headers, 'clientId')).toBe('CLIENT ID');
+    expect(sourceOf(headers, 'name')).toBe('Full Name');
+    expect(sourceOf(headers, 'pickUpDate')).toBe('PickUp Date');
+    expect(sourceOf(headers, 'phoneNumber')).toBe('Telephone');
+  });
+
+  it('reports required fields no column maps to', () => {
+    const mappings = autoMapHeaders(['Client #', 'Name']);
+    expect(getUnmappedRequiredFields(mappings).map((field) => field.targetField)).toEqual(['pickUpDate', 'phoneNumber']);
+  });
+});
+
+describe('validateRows', () => {
+  it('accepts the sample export', () => {
+    const parsed = parseCSV(sample);
+    expect(validateRows(parsed, autoMapHeaders(parsed.headers))).toEqual([]);
+  });
+
+  it('reports each bad value with its row number as shown in a spreadsheet', () => {
+    const parsed = parseCSV(
+      'Client #,Name,Pick Up Date,Phone Number,Email,Adults\n' +
+        '12345,John Smith,2025-04-14 @ 9:00 AM,(250) 555-0101,john@example.com,2\n' +
+        ',Jane Doe,2025-02-30 @ 9:00 AM,(250) 555-0102,n/a,100\n'
+    );
+    const errors = validateRows(parsed, autoMapHeaders(parsed.headers));
+    expect(errors.map(({ row, field }) => [row, field])).toEqual([
+      [3, 'clientId'],
+      [3, 'pickUpDate'],
+      [3, 'adults'],
+      [3, 'email'],
+    ]);
+  });
+
+  it('reports a row with more values than the file has columns', () => {
+    const parsed = parseCSV('Client #,Name\n12345,Smith, John\n');
+    const [error] = validateRows(parsed, autoMapHeaders(parsed.headers));
+    expect(error).toMatchObject({ row: 2, field: '', value: ' John' });
+  });
+
+  it('accepts the phone number lengths its message names and no others', () => {
+    const rule = CSV_VALIDATION_RULES.find((candidate) => candidate.field === 'phoneNumber' && candidate.type === 'format');
+    expect(rule?.message).toBe('Phone Number must have 7 or 10 digits, or 11 starting with 1, e.g. (250) 555-0101');
+    expect(['555-0101', '(250) 555-0101', '1-250-555-0101', '+1 250 555 0101'].map((value) => rule?.validator?.(value))).toEqual([
+      true, true, true, true,
+    ]);
+    expect(['555-010', '250 555 010', '2-250-555-0101', '250 555 01011'].map((value) => rule?.validator?.(value))).toEqual([
+      false, false, false, false,
+    ]);
+  });
+
+  it('converts dates from the mapped format before checking them', () => {
+    const parsed = parseCSV('Client #,Name,Pick Up Date,Phone Number\n12345,John Smith,04/14/2025 9:00 AM,2505550101\n');
+    const mappings = autoMapHeaders(parsed.headers).map((mapping) =>
+      mapping.targetField === 'pickUpDate' ? { ...mapping, dateFormat: 'MM/dd/yyyy h:mm a' } : mapping
+    );
+    expect(validateRows(parsed, mappings)).toEqual([]);
+    expect(buildMappedCSV(parsed, mappings).split('\r\n')[1]).toBe('12345,John Smith,2025-04-14 @ 9:00 AM,2505550101');
+  });
+});
+
+describe('buildMappedCSV', () => {
+  it('writes the standard headers and keeps unmapped columns after them', () => {
+    const parsed = parseCSV('Pickup,Client ID,Client Name,Phone,Location\n2025-04-14 @ 9:00 AM,12345,"Smith, John",2505550101,Main\n');
+    const [header, row] = buildMappedCSV(parsed, autoMapHeaders(parsed.headers)).split('\r\n');
+    expect(header).toBe('Client #,Name,Pick Up Date,Phone Number,Location');
+    expect(row).toBe('12345,"Smith, John",2025-04-14 @ 9:00 AM,2505550101,Main');
+  });
+
+  it('leaves out skipped rows', () => {
+    const parsed = parseCSV(sample);
+    const lines = buildMappedCSV(parsed, autoMapHeaders(parsed.headers), new Set([2, 3])).split('\r\n');
+    expect(lines).toHaveLength(parsed.rows.length - 1);
+    expect(lines[1].startsWith('12347,')).toBe(true);
+  });
+
+  it('round-trips the sample export, filling in values missing from short rows', () => {
+    const parsed = parseCSV(sample);
+    const rebuilt = parseCSV(buildMappedCSV(parsed, autoMapHeaders(parsed.headers)));
+    expect(rebuilt.headers).toEqual(parsed.headers);
+    expect(rebuilt.rows).toEqual(parsed.rows.map((row) => parsed.headers.map((_, index) => row[index] ?? '')));
+  });
+});
+
+describe('import profiles', () => {
+  it('restores saved mappings on the next file with the same columns', () => {
+    const profile = customProfile();
+    // Same columns, in another order and case
+    const headers = ['memo', 'TEL', 'Visit', 'Customer', 'cust no', 'Household'];
+
+    expect(detectImportProfile(headers, [profile])).toBe(profile);
+    const mappings = applyImportProfile(headers, profile);
+    expect(mappingFor(mappings, 'clientId')?.sourceField).toBe('cust no');
+    expect(mappingFor(mappings, 'phoneNumber')?.sourceField).toBe('TEL');
+    expect(mappingFor(mappings, 'pickUpDate')).toMatchObject({ sourceField: 'Visit', dateFormat: 'MM/dd/yyyy HH:mm' });
+    expect(getUnmappedRequiredFields(mappings)).toEqual([]);
+  });
+
+  it('applies the saved date format and fallback values to the rows', () => {
+    const parsed = parseCSV('Cust No,Customer,Visit,Tel,Household,Memo\n12345,John Smith,04/14/2025 09:00,2505550101,3,\n');
+    const mappings = applyImportProfile(parsed.headers, customProfile());
+
+    expect(validateRows(parsed, mappings)).toEqual([]);
+    expect(buildMappedCSV(parsed, mappings).split('\r\n')).toEqual([
+      'Client #,Name,Pick Up Date,Dietary Considerations,Phone Number,Household',
+      '12345,John Smith,2025-04-14 @ 9:00 AM,None,2505550101,3',
+    ]);
+  });
+
+  it('falls back to header matching for fields the profile leaves unmapped', () => {
+    const mappings = applyImportProfile([...CUSTOM_HEADERS, 'Email'], customProfile());
+    expect(mappingFor(mappings, 'email')?.sourceField).toBe('Email');
+  });
+
+  it("doesn't let header matching reuse a column the profile maps", () => {
+    // This file's "Phone" column holds client numbers
+    const headers = ['Phone', 'Name', 'Pick Up Date'];
+    const mappings = autoMapHeaders(headers).map((mapping) =>
+      mapping.targetField === 'clientId' || mapping.targetField === 'phoneNumber'
+        ? { ...mapping, sourceField: mapping.targetField === 'clientId' ? 'Phone' : '' }
+        : mapping
+    );
+
+    const applied = applyImportProfile(headers, saveProfile('Numbers In Phone', headers, mappings));
+    expect(mappingFor(applied, 'clientId')?.sourceField).toBe('Phone');
+    expect(mappingFor(applied, 'phoneNumber')?.sourceField).toBe('');
+  });
+
+  it("isn't picked for a file missing one of its columns", () => {
+    const headers = CUSTOM_HEADERS.filter((header) => header !== 'Tel');
+    expect(detectImportProfile(headers, [customProfile()])).toBeNull();
+  });
+
+  it('maps a missing column by header matching when the profile is chosen anyway', () => {
+    const headers = [...CUSTOM_HEADERS.filter((header) => header !== 'Tel'), 'Phone Number'];
+    const mappings = applyImportProfile(headers, customProfile());
+    expect(mappingFor(mappings, 'clientId')?.sourceField).toBe('Cust No');
+    expect(mappingFor(mappings, 'phoneNumber')?.sourceField).toBe('Phone Number');
+  });
+
+  it('prefers the profile whose saved header row is closest to the file', () => {
+    const parsed = parseCSV(sample);
+    const standard = saveProfile('Link2Feed', parsed.headers, autoMapHeaders(parsed.headers));
+    const older = saveProfile('Old Link2Feed', parsed.headers.slice(0, 11), autoMapHeaders(parsed.headers.slice(0, 11)));
+
+    expect(detectImportProfile(parsed.headers, [older, standard])).toBe(standard);
+    expect(detectImportProfile(parsed.headers.slice(0, 11), [standard, older])).toBe(older);
+  });
+
+  it('ignores profiles that map no columns', () => {
+    const empty = saveProfile('Empty', CUSTOM_HEADERS, autoMapHeaders([]));
+    expect(detectImportProfile(CUSTOM_HEADERS, [empty])).toBeNull();
+  });
+});
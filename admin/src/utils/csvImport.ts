@@ -0,0 +1,428 @@
+/**
+ * @fileoverview CSV import utilities for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module reads an appointment CSV in the browser so the import wizard can
+ * show problems before anything is uploaded. It parses the file, matches its
+ * headers to the fields the backend expects (so an export with "Client ID" or
+ * "Pickup Date" columns still imports), validates every row against the
+ * mapping, and writes the mapped rows back out as a CSV with the standard
+ * Link2Feed headers for upload.
+ *
+ * Saved import profiles replace the header matching for files they were made
+ * for; the profile whose header row is closest to the file's is picked
+ * automatically. Dates written in another format are converted to the
+ * standard "2025-04-14 @ 9:00 AM" on the way.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-21
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../components/features/csv/CSVImportWizard.tsx} CSV import wizard
+ * @see {@link ../common/types/index.ts} CSV field mapping and validation types
+ * @see {@link ../common/types/importProfiles.ts} Import profile types
+ */
+
+import { format, isValid, parse } from 'date-fns';
+import { CSVFieldMapping, CSVRowError, CSVValidationRule, ParsedCSV } from '../common/types';
+import { ImportProfile } from '../common/types/importProfiles';
+
+export interface CSVImportField {
+  targetField: string;
+  // Header the backend expects
+  label: string;
+  dataType: NonNullable<CSVFieldMapping['dataType']>;
+  required: boolean;
+  // Other headers the field is known by, matched case- and punctuation-insensitively
+  aliases: string[];
+}
+
+export const CSV_IMPORT_FIELDS: CSVImportField[] = [
+  { targetField: 'clientId', label: 'Client #', dataType: 'string', required: true, aliases: ['Client ID', 'Client Number', 'Client No', 'ID'] },
+  { targetField: 'name', label: 'Name', dataType: 'string', required: true, aliases: ['Client Name', 'Full Name'] },
+  { targetField: 'pickUpDate', label: 'Pick Up Date', dataType: 'date', required: true, aliases: ['Pickup Date', 'Pickup', 'Appointment', 'Appointment Date', 'Appointment Time'] },
+  { targetField: 'dietaryConsiderations', label: 'Dietary Considerations', dataType: 'string', required: false, aliases: ['Dietary', 'Dietary Restrictions', 'Dietary Needs'] },
+  { targetField: 'itemsProvided', label: 'Items Provided', dataType: 'string', required: false, aliases: ['Items', 'Hamper'] },
+  { targetField: 'adults', label: 'Adults', dataType: 'number', required: false, aliases: ['Number of Adults', 'Adult Count'] },
+  { targetField: 'seniors', label: 'Seniors', dataType: 'number', required: false, aliases: ['Number of Seniors', 'Senior Count'] },
+  { targetField: 'children', label: 'Children', dataType: 'number', required: false, aliases: ['Number of Children', 'Child Count', 'Kids'] },
+  { targetField: 'childrensAges', label: "Children's Ages", dataType: 'string', required: false, aliases: ['Child Ages', 'Ages of Children', 'Kids Ages'] },
+  { targetField: 'email', label: 'Email', dataType: 'string', required: false, aliases: ['Email Address', 'E-mail'] },
+  { targetField: 'phoneNumber', label: 'Phone Number', dataType: 'string', required: true, aliases: ['Phone', 'Phone #', 'Telephone', 'Mobile', 'Cell'] },
+];
+
+// The format the backend reads Pick Up Date in
+export const STANDARD_DATE_FORMAT = "yyyy-MM-dd '@' h:mm a";
+
+// Formats a source file may write its dates in, as date-fns patterns
+export const DATE_FORMATS: string[] = [
+  STANDARD_DATE_FORMAT,
+  'yyyy-MM-dd h:mm a',
+  'yyyy-MM-dd HH:mm',
+  "yyyy-MM-dd'T'HH:mm",
+  'MM/dd/yyyy h:mm a',
+  'MM/dd/yyyy HH:mm',
+  'dd/MM/yyyy h:mm a',
+  'dd/MM/yyyy HH:mm',
+  'MMM d, yyyy h:mm a',
+];
+
+/**
+ * Show a date format as it looks in a file, e.g. "04/14/2025 9:00 AM"
+ */
+export const formatDateExample = (dateFormat: string): string => {
+  return format(new Date(2025, 3, 14, 9, 0), dateFormat);
+};
+
+const PICK_UP_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) @ (\d{1,2}):(\d{2}) (AM|PM)$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isValidPickUpDate = (value: string): boolean => {
+  const match = PICK_UP_DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return (
+    date.getMonth() === month - 1 &&
+    date.getDate() === day &&
+    hour >= 1 && hour <= 12 &&
+    minute <= 59
+  );
+};
+
+const isValidPhoneNumber = (value: string): boolean => {
+  // Same lengths formatPhoneNumber knows how to display
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 7 || digits.length === 10 || (digits.length === 11 && digits.startsWith('1'));
+};
+
+const isHouseholdCount = (value: string): boolean => /^\d{1,2}$/.test(value);
+
+export const CSV_VALIDATION_RULES: CSVValidationRule[] = [
+  ...CSV_IMPORT_FIELDS.filter((field) => field.required).map((field): CSVValidationRule => ({
+    field: field.targetField,
+    type: 'required',
+    message: `${field.label} is required`,
+  })),
+  {
+    field: 'pickUpDate',
+    type: 'format',
+    message: 'Pick Up Date must look like "2025-04-14 @ 9:00 AM"',
+    validator: isValidPickUpDate,
+  },
+  {
+    field: 'phoneNumber',
+    type: 'format',
+    message: 'Phone Number must have 7 or 10 digits, or 11 starting with 1, e.g. (250) 555-0101',
+    validator: isValidPhoneNumber,
+  },
+  {
+    field: 'email',
+    type: 'format',
+    message: 'Email is not a valid email address',
+    validator: (value: string) => EMAIL_PATTERN.test(value),
+  },
+  ...['adults', 'seniors', 'children'].map((targetField): CSVValidationRule => ({
+    field: targetField,
+    type: 'range',
+    message: `${CSV_IMPORT_FIELDS.find((field) => field.targetField === targetField)?.label} must be a whole number from 0 to 99`,
+    validator: isHouseholdCount,
+  })),
+];
+
+/**
+ * Parse CSV text (RFC 4180: quoted values may contain commas, quotes and line breaks)
+ *
+ * Blank lines are skipped and a leading byte order mark is removed.
+ *
+ * @throws Error when the file has no header row or a quote is never closed
+ */
+export const parseCSV = (text: string): ParsedCSV => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRecord = () => {
+    record.push(value);
+    value = '';
+    if (record.length > 1 || record[0].trim() !== '') {
+      records.push(record);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      value += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('The file ends inside a quoted value. Check for a missing closing quote (").');
+  }
+  if (value !== '' || record.length > 0) {
+    endRecord();
+  }
+  if (records.length === 0) {
+    throw new Error('The file is empty.');
+  }
+
+  const [headers, ...rows] = records;
+  return { headers: headers.map((header) => header.trim()), rows };
+};
+
+const normalizeHeader = (header: string): string => {
+  return header
+    .toLowerCase()
+    .replace(/#/g, ' number ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Match a file's headers to the import fields
+ *
+ * Exact header names are matched first, then aliases, then the same names
+ * with spaces ignored ("PickUp Date"). Each header is used at most once.
+ * Fields without a match get an empty sourceField.
+ */
+export const autoMapHeaders = (headers: string[]): CSVFieldMapping[] => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const sources = new Map<string, string>();
+
+  const candidates: Array<(field: CSVImportField) => string[]> = [
+    (field) => [normalizeHeader(field.label)],
+    (field) => field.aliases.map(normalizeHeader),
+    (field) => [field.label, ...field.aliases].map((name) => normalizeHeader(name).replace(/ /g, '')),
+  ];
+
+  candidates.forEach((namesFor, pass) => {
+    CSV_IMPORT_FIELDS.forEach((field) => {
+      if (sources.has(field.targetField)) return;
+      const names = namesFor(field);
+      const index = normalized.findIndex((header, i) => {
+        if (used.has(i)) return false;
+        return names.includes(pass === 2 ? header.replace(/ /g, '') : header);
+      });
+      if (index !== -1) {
+        used.add(index);
+        sources.set(field.targetField, headers[index]);
+      }
+    });
+  });
+
+  return CSV_IMPORT_FIELDS.map((field) => ({
+    sourceField: sources.get(field.targetField) || '',
+    targetField: field.targetField,
+    dataType: field.dataType,
+    required: field.required,
+    transformation: 'trim',
+    ...(field.dataType === 'date' ? { dateFormat: STANDARD_DATE_FORMAT } : {}),
+  }));
+};
+
+const convertDate = (value: string, dateFormat: string): string => {
+  if (!value || dateFormat === STANDARD_DATE_FORMAT) return value;
+  const date = parse(value, dateFormat, new Date());
+  // Left as it is, so validation reports the original value
+  return isValid(date) ? format(date, STANDARD_DATE_FORMAT) : value;
+};
+
+const transform = (value: string, transformation?: CSVFieldMapping['transformation']): string => {
+  switch (transformation) {
+    case 'trim':
+      return value.trim();
+    case 'lowercase':
+      return value.trim().toLowerCase();
+    case 'uppercase':
+      return value.trim().toUpperCase();
+    case 'capitalize':
+      return value.trim().replace(/\b\w/g, (letter) => letter.toUpperCase());
+    default:
+      return value;
+  }
+};
+
+/**
+ * Read one row's value for a mapping, with its transformation, fallback and
+ * date conversion applied
+ */
+export const getMappedValue = (parsed: ParsedCSV, row: string[], mapping: CSVFieldMapping): string => {
+  const index = mapping.sourceField ? parsed.headers.indexOf(mapping.sourceField) : -1;
+  let value = transform(index === -1 ? '' : row[index] ?? '', mapping.transformation);
+  if (value === '' && mapping.fallbackValue) {
+    value = mapping.fallbackValue;
+  }
+  return mapping.dataType === 'date' && mapping.dateFormat ? convertDate(value, mapping.dateFormat) : value;
+};
+
+/**
+ * Required fields no column is mapped to; the file can't be imported until they are
+ */
+export const getUnmappedRequiredFields = (mappings: CSVFieldMapping[]): CSVImportField[] => {
+  return CSV_IMPORT_FIELDS.filter(
+    (field) => field.required && !mappings.find((mapping) => mapping.targetField === field.targetField)?.sourceField
+  );
+};
+
+/**
+ * Check every row against the validation rules for the mapped fields
+ *
+ * Rules other than 'required' only apply to values that are present, so an
+ * empty optional email is fine but "n/a" is not.
+ */
+export const validateRows = (
+  parsed: ParsedCSV,
+  mappings: CSVFieldMapping[],
+  rules: CSVValidationRule[] = CSV_VALIDATION_RULES
+): CSVRowError[] => {
+  const errors: CSVRowError[] = [];
+  const mapped = mappings.filter((mapping) => mapping.sourceField);
+
+  parsed.rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+
+    if (row.length > parsed.headers.length) {
+      errors.push({
+        row: rowNumber,
+        field: '',
+        value: row.slice(parsed.headers.length).join(','),
+        message: `Row has ${row.length} values but the file has ${parsed.headers.length} columns. A value containing a comma may be missing its quotes.`,
+      });
+      return;
+    }
+
+    mapped.forEach((mapping) => {
+      const value = getMappedValue(parsed, row, mapping);
+      const rule = rules.find((candidate) => {
+        if (candidate.field !== mapping.targetField) return false;
+        if (candidate.type === 'required') return value === '';
+        return value !== '' && !!candidate.validator && !candidate.validator(value);
+      });
+      if (!rule) return;
+
+      // The standard example means little when the file writes its dates differently
+      const message =
+        rule.type === 'format' && mapping.dataType === 'date' && mapping.dateFormat && mapping.dateFormat !== STANDARD_DATE_FORMAT
+          ? `${CSV_IMPORT_FIELDS.find((field) => field.targetField === mapping.targetField)?.label} must look like "${formatDateExample(mapping.dateFormat)}"`
+          : rule.message;
+      errors.push({ row: rowNumber, field: mapping.targetField, value, message });
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Pick the saved profile made for files with these headers
+ *
+ * A profile qualifies when every column it maps is in the file. Of those, the
+ * one whose saved header row shares the most headers with the file wins.
+ */
+export const detectImportProfile = (headers: string[], profiles: ImportProfile[]): ImportProfile | null => {
+  const fileHeaders = new Set(headers.map(normalizeHeader));
+  let best: ImportProfile | null = null;
+  let bestScore = -1;
+
+  for (const profile of profiles) {
+    const mapped = profile.mappings.filter((mapping) => mapping.sourceField);
+    if (mapped.length === 0 || !mapped.every((mapping) => fileHeaders.has(normalizeHeader(mapping.sourceField)))) {
+      continue;
+    }
+    const profileHeaders = new Set(profile.headers.map(normalizeHeader));
+    const shared = [...fileHeaders].filter((header) => profileHeaders.has(header)).length;
+    const score = shared / new Set([...fileHeaders, ...profileHeaders]).size;
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Mappings for a file from a saved profile
+ *
+ * Profile columns are matched to the file's headers the same way header
+ * matching is, so "CLIENT #" still finds "Client #". Fields the profile
+ * doesn't cover, or whose column is missing, fall back to header matching.
+ */
+export const applyImportProfile = (headers: string[], profile: ImportProfile): CSVFieldMapping[] => {
+  const automatic = autoMapHeaders(headers);
+
+  const mappings = CSV_IMPORT_FIELDS.map((field, index): CSVFieldMapping => {
+    const saved = profile.mappings.find((mapping) => mapping.targetField === field.targetField);
+    const source = saved?.sourceField
+      ? headers.find((header) => normalizeHeader(header) === normalizeHeader(saved.sourceField))
+      : undefined;
+    if (!saved || !source) return automatic[index];
+    return { ...saved, sourceField: source, dataType: field.dataType, required: field.required };
+  });
+
+  // A column the profile uses can't also feed a field header matching filled in
+  const profileSources = new Set(
+    mappings.filter((mapping, index) => mapping !== automatic[index]).map((mapping) => mapping.sourceField)
+  );
+  return mappings.map((mapping, index) =>
+    mapping === automatic[index] && profileSources.has(mapping.sourceField) ? { ...mapping, sourceField: '' } : mapping
+  );
+};
+
+const escapeCSVValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Write the mapped rows as a CSV with the standard headers
+ *
+ * Columns that aren't mapped to an import field (Location, Program, Notes...)
+ * are kept after the standard ones under their own headers.
+ *
+ * @param skipRows - Row numbers (as in CSVRowError.row) to leave out
+ */
+export const buildMappedCSV = (parsed: ParsedCSV, mappings: CSVFieldMapping[], skipRows: Set<number> = new Set()): string => {
+  const mapped = mappings.filter((mapping) => mapping.sourceField);
+  const mappedSources = new Set(mapped.map((mapping) => mapping.sourceField));
+  const extraColumns = parsed.headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }) => header && !mappedSources.has(header));
+
+  const labelFor = (targetField: string) =>
+    CSV_IMPORT_FIELDS.find((field) => field.targetField === targetField)?.label || targetField;
+
+  const lines = [
+    [...mapped.map((mapping) => labelFor(mapping.targetField)), ...extraColumns.map(({ header }) => header)],
+    ...parsed.rows
+      .filter((_, index) => !skipRows.has(index + 2))
+      .map((row) => [
+        ...mapped.map((mapping) => getMappedValue(parsed, row, mapping)),
+        ...extraColumns.map(({ index }) => row[index] ?? ''),
+      ]),
+  ];
+
+  return lines.map((line) => line.map(escapeCSVValue).join(',')).join('\r\n');
+};
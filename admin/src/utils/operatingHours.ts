@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Operating hours helpers for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module reads the operating hours configured in Settings and answers
+ * the questions the rest of the admin panel asks of them: is a location open
+ * at a given time, what are a day's opening hours, and is an edited set of
+ * hours valid. Until the backend returns hours, the defaults below are used;
+ * they match the 8 AM – 8 PM window and 21-day rebooking interval the system
+ * had before hours were configurable.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/operatingHours.ts} Operating hours types
+ */
+
+import { useMemo } from 'react';
+import { formatTimeOfDay } from '../../../shared/appointmentSlots';
+import { ApiResponse } from '../common/types';
+import { LocationHours, OperatingHours, OperatingPeriod } from '../common/types/operatingHours';
+import { useQuery } from '../lib/queryCache';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const SLOT_MINUTES_RANGE = { min: 5, max: 240 };
+export const REBOOK_INTERVAL_RANGE = { min: 1, max: 90 };
+
+export const DEFAULT_OPERATING_HOURS: OperatingHours = {
+  locations: [
+    {
+      id: 'main',
+      name: 'Main location',
+      periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ day, open: '08:00', close: '20:00' })),
+    },
+  ],
+  slotMinutes: 30,
+  rebookIntervalDays: 21,
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const sortPeriods = (periods: OperatingPeriod[]): OperatingPeriod[] => {
+  return [...periods].sort((a, b) => a.day - b.day || a.open.localeCompare(b.open));
+};
+
+/**
+ * Build complete operating hours from backend data
+ *
+ * Invalid periods are dropped and missing numbers fall back to the defaults,
+ * so one bad field can't hide every appointment from the schedule.
+ */
+export const normalizeOperatingHours = (data: Partial<OperatingHours> | null | undefined): OperatingHours => {
+  if (!data) return DEFAULT_OPERATING_HOURS;
+
+  const locations: LocationHours[] = (Array.isArray(data.locations) ? data.locations : [])
+    .filter((location) => location && typeof location.name === 'string' && location.name.trim())
+    .map((location, index) => ({
+      id: String(location.id || `location-${index + 1}`),
+      name: location.name.trim(),
+      periods: sortPeriods(
+        (Array.isArray(location.periods) ? location.periods : []).filter(
+          (period) =>
+            Number.isInteger(period.day) &&
+            period.day >= 0 &&
+            period.day <= 6 &&
+            TIME_OF_DAY.test(period.open) &&
+            TIME_OF_DAY.test(period.close) &&
+            period.close > period.open
+        )
+      ),
+    }));
+
+  const inRange = (value: unknown, range: { min: number; max: number }, fallback: number) =>
+    Number.isInteger(value) && (value as number) >= range.min && (value as number) <= range.max
+      ? (value as number)
+      : fallback;
+
+  return {
+    locations: locations.length > 0 ? locations : DEFAULT_OPERATING_HOURS.locations,
+    slotMinutes: inRange(data.slotMinutes, SLOT_MINUTES_RANGE, DEFAULT_OPERATING_HOURS.slotMinutes),
+    rebookIntervalDays: inRange(data.rebookIntervalDays, REBOOK_INTERVAL_RANGE, DEFAULT_OPERATING_HOURS.rebookIntervalDays),
+    updatedAt: data.updatedAt,
+    updatedBy: data.updatedBy,
+  };
+};
+
+/**
+ * The locations an appointment can belong to
+ *
+ * An appointment whose location matches a configured one by name follows
+ * that location's hours; any other appointment follows all of them.
+ */
+const locationsFor = (hours: OperatingHours, location?: string): LocationHours[] => {
+  const name = location?.trim().toLowerCase();
+  const match = name ? hours.locations.filter((candidate) => candidate.name.toLowerCase() === name) : [];
+  return match.length > 0 ? match : hours.locations;
+};
+
+/**
+ * Whether a time falls within a location's opening hours (local time)
+ */
+export const isWithinOperatingHours = (hours: OperatingHours, date: Date, location?: string): boolean => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return locationsFor(hours, location).some((candidate) =>
+    candidate.periods.some(
+      (period) =>
+        period.day === date.getDay() &&
+        minutes >= timeToMinutes(period.open) &&
+        minutes < timeToMinutes(period.close)
+    )
+  );
+};
+
+/**
+ * Opening periods on a weekday across all locations, earliest first
+ */
+export const getPeriodsForDay = (hours: OperatingHours, day: number): OperatingPeriod[] => {
+  return sortPeriods(hours.locations.flatMap((location) => location.periods.filter((period) => period.day === day)));
+};
+
+/**
+ * A weekday's opening hours, e.g. "8:00 AM – 8:00 PM", or null when every location is closed
+ */
+export const describeDayHours = (hours: OperatingHours, day: number): string | null => {
+  const periods = getPeriodsForDay(hours, day);
+  if (periods.length === 0) return null;
+  const close = periods.reduce((latest, period) => (period.close > latest ? period.close : latest), periods[0].close);
+  return `${formatTimeOfDay(periods[0].open)} – ${formatTimeOfDay(close)}`;
+};
+
+/**
+ * Check edited operating hours before saving
+ *
+ * @returns The first problem found, or null when the hours can be saved
+ */
+export const validateOperatingHours = (hours: OperatingHours): string | null => {
+  if (hours.locations.length === 0) return 'Add at least one location';
+
+  const names = new Set<string>();
+  for (const location of hours.locations) {
+    const name = location.name.trim();
+    if (!name) return 'Every location needs a name';
+    if (names.has(name.toLowerCase())) return `There are two locations named "${name}"`;
+    names.add(name.toLowerCase());
+
+    const periods = sortPeriods(location.periods);
+    for (let i = 0; i < periods.length; i++) {
+      const period = periods[i];
+      if (!TIME_OF_DAY.test(period.open) || !TIME_OF_DAY.test(period.close)) {
+        return `${name}: enter opening and closing times for ${WEEKDAY_NAMES[period.day]}`;
+      }
+      if (period.close <= period.open) {
+        return `${name}: ${WEEKDAY_NAMES[period.day]} closes before it opens`;
+      }
+      const next = periods[i + 1];
+      if (next && next.day === period.day && next.open < period.close) {
+        return `${name}: the hours on ${WEEKDAY_NAMES[period.day]} overlap`;
+      }
+    }
+  }
+
+  const { slotMinutes, rebookIntervalDays } = hours;
+  if (!Number.isInteger(slotMinutes) || slotMinutes < SLOT_MINUTES_RANGE.min || slotMinutes > SLOT_MINUTES_RANGE.max) {
+    return `Slot length must be between ${SLOT_MINUTES_RANGE.min} and ${SLOT_MINUTES_RANGE.max} minutes`;
+  }
+  if (
+    !Number.isInteger(rebookIntervalDays) ||
+    rebookIntervalDays < REBOOK_INTERVAL_RANGE.min ||
+    rebookIntervalDays > REBOOK_INTERVAL_RANGE.max
+  ) {
+    return `The rebooking interval must be between ${REBOOK_INTERVAL_RANGE.min} and ${REBOOK_INTERVAL_RANGE.max} days`;
+  }
+  return null;
+};
+
+/**
+ * React hook for the configured operating hours
+ *
+ * Returns the defaults while loading or when the request fails, alongside
+ * the query state for views that edit the hours.
+ */
+export const useOperatingHours = () => {
+  const query = useQuery<ApiResponse<OperatingHours>>('/settings/operating-hours');
+  const hours = useMemo(
+    () => normalizeOperatingHours(query.data?.success ? query.data.data : undefined),
+    [query.data]
+  );
+  return { ...query, hours };
+};
@@ -22,9 +22,9 @@
  * 
  * Auto-Generated Appointment Flow:
  * 1. Client checks in via POST /api/checkin
- * 2. Backend auto-generates next appointment (21+ days from today, preserves time)
- *    - Uses calculateNextAppointmentDate() to add 21 days and adjust for weekdays/holidays
- *    - Uses getNextValidTime() to preserve original appointment time (around the same time)
+ * 2. Backend auto-generates next appointment (the rebooking interval from Settings, preserves time)
+ *    - Uses calculateNextAppointmentDate() to add the interval (21 days by default) and adjust for opening days/holidays
+ *    - Uses getNextValidTime() to preserve original appointment time within the operating hours
  * 3. Appointment stored in check-in record (nextAppointmentISO, nextAppointmentDate, nextAppointmentTime)
  * 4. Same appointment data sent to client during check-in process (in response)
  * 5. Ticket generation (GET /api/tickets/:checkInId) displays this auto-generated appointment
@@ -38,7 +38,7 @@
  * 
  * @see {@link ../common/apiConfig.ts} API configuration
  * @see {@link ../../backend/src/routes/tickets.ts} Backend ticket generation
- * @see {@link ../../backend/src/utils/appointmentScheduler.ts} Auto-scheduling logic (21+ days, preserves time)
+ * @see {@link ../../backend/src/utils/appointmentScheduler.ts} Auto-scheduling logic (rebooking interval, preserves time)
  */
 
 import { getTicketUrl } from '../common/apiConfig';
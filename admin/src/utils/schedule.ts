@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Schedule date helpers for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module places appointments on the calendar for the check-ins
+ * schedule: which local day an appointment falls on and which days the day,
+ * week and agenda views cover. Opening hours come from Settings. Dates
+ * are passed around as local "YYYY-MM-DD" strings, the same form the
+ * appointments endpoint takes for its from/to range.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../pages/CheckInsPage.tsx} Check-ins page
+ * @see {@link ./operatingHours.ts} Operating hours helpers
+ */
+
+import { addDays, eachDayOfInterval, endOfWeek, format, isValid, parseISO, startOfWeek, subDays } from 'date-fns';
+
+export type ScheduleView = 'day' | 'week' | 'agenda';
+
+// Days of past appointments the backend keeps
+export const RETENTION_DAYS = 30;
+
+// How many days the agenda lists, starting at the selected date
+export const AGENDA_DAYS = 14;
+
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const todayKey = (): string => toDateKey(new Date());
+
+// The earliest day the date picker offers
+export const oldestDateKey = (): string => toDateKey(subDays(new Date(), RETENTION_DAYS));
+
+/**
+ * When an appointment takes place
+ *
+ * Uses the ISO pick up time, then the appointment time, then the "2025-04-14
+ * @ 9:00 AM" pick up date from the upload.
+ */
+export const getAppointmentDate = (record: {
+  pickUpISO?: string;
+  appointmentTime?: string;
+  pickUpDate?: string;
+}): Date | null => {
+  for (const value of [record.pickUpISO, record.appointmentTime]) {
+    if (value) {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) return date;
+    }
+  }
+
+  const match = record.pickUpDate?.match(/^(\d{4}-\d{2}-\d{2}) @ (\d{1,2}):(\d{2}) (AM|PM)$/i);
+  if (match) {
+    const hour = (Number(match[2]) % 12) + (match[4].toUpperCase() === 'PM' ? 12 : 0);
+    const date = parseISO(`${match[1]}T${String(hour).padStart(2, '0')}:${match[3]}:00`);
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+/**
+ * The days a view covers around the selected date
+ *
+ * Weeks run Monday to Sunday.
+ */
+export const getViewDays = (view: ScheduleView, dateKey: string): string[] => {
+  const date = parseISO(dateKey);
+  if (view === 'day') return [dateKey];
+  if (view === 'week') {
+    return eachDayOfInterval({
+      start: startOfWeek(date, { weekStartsOn: 1 }),
+      end: endOfWeek(date, { weekStartsOn: 1 }),
+    }).map(toDateKey);
+  }
+  return eachDayOfInterval({ start: date, end: addDays(date, AGENDA_DAYS - 1) }).map(toDateKey);
+};
+
+/**
+ * The selected date after moving one step back or forward in a view
+ */
+export const shiftDate = (view: ScheduleView, dateKey: string, direction: 1 | -1): string => {
+  const step = view === 'day' ? 1 : view === 'week' ? 7 : AGENDA_DAYS;
+  return toDateKey(addDays(parseISO(dateKey), step * direction));
+};
+
+/**
+ * Describe a range of date keys, e.g. "Monday, April 14, 2025" or "Apr 14 – Apr 20, 2025"
+ */
+export const formatDateRange = (days: string[]): string => {
+  const first = parseISO(days[0]);
+  if (days.length === 1) return format(first, 'EEEE, MMMM d, yyyy');
+  return `${format(first, 'MMM d')} – ${format(parseISO(days[days.length - 1]), 'MMM d, yyyy')}`;
+};
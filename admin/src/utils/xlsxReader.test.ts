@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Tests for reading appointment lists from Excel workbooks
+ *
+ * The fixture workbook holds the first rows of docs/sample-appointments.csv as
+ * Excel saves them: text in the shared strings table, counts as numbers and
+ * Pick Up Date as date serials, plus an empty second sheet.
+ *
+ * @vitest-environment jsdom
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-22
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./xlsxReader.ts} Excel workbook reader
+ */
+
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { readXLSX } from './xlsxReader';
+
+const fixture = readFileSync(join(__dirname, '__fixtures__/sample-appointments.xlsx'));
+
+const toFile = (bytes: ArrayLike<number>, name = 'appointments.xlsx'): File => new File([new Uint8Array(bytes)], name);
+
+// Offset of the end-of-central-directory record (the fixture has no comment)
+const eocdOffset = (bytes: Uint8Array): number => bytes.length - 22;
+
+// jsdom provides DOMParser, but its Blob and File can't be read as buffers or streams
+beforeAll(() => {
+  vi.stubGlobal('Blob', NodeBlob);
+  vi.stubGlobal('File', NodeFile);
+});
+
+describe('readXLSX', () => {
+  it('reads every sheet in workbook order, including empty ones', async () => {
+    const sheets = await readXLSX(toFile(fixture));
+    expect(sheets.map((sheet) => sheet.name)).toEqual(['Appointments', 'Notes']);
+    expect(sheets[1].data).toEqual({ headers: [], rows: [] });
+  });
+
+  it('reads the header row and cell values', async () => {
+    const [sheet] = await readXLSX(toFile(fixture));
+    expect(sheet.data.headers.slice(0, 3)).toEqual(['Client #', 'Name', 'Pick Up Date']);
+    expect(sheet.data.rows).toHaveLength(3);
+
+    const row = sheet.data.rows[0];
+    const value = (header: string) => row[sheet.data.headers.indexOf(header)];
+    expect(value('Client #')).toBe('12345');
+    expect(value('Name')).toBe('John Smith');
+    expect(value('Adults')).toBe('2');
+    expect(value('Phone Number')).toBe('(250) 555-0101');
+    expect(value("Children's Ages")).toBe('5 years old');
+  });
+
+  it('formats date cells the way the backend reads Pick Up Date', async () => {
+    const [sheet] = await readXLSX(toFile(fixture));
+    const column = sheet.data.headers.indexOf('Pick Up Date');
+    expect(sheet.data.rows.map((row) => row[column])).toEqual([
+      '2025-04-14 @ 9:00 AM',
+      '2025-04-14 @ 10:15 AM',
+      '2025-04-14 @ 11:30 AM',
+    ]);
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    const bytes = new TextEncoder().encode('Client #,Name\n12345,John Smith\n');
+    await expect(readXLSX(toFile(bytes))).rejects.toThrow('could not be read as an Excel workbook');
+  });
+
+  it('rejects ZIP64 workbooks as unsupported', async () => {
+    const bytes = new Uint8Array(fixture);
+    // ZIP64 archives mark the central directory offset as 0xFFFFFFFF
+    new DataView(bytes.buffer).setUint32(eocdOffset(bytes) + 16, 0xffffffff, true);
+    await expect(readXLSX(toFile(bytes))).rejects.toThrow(/^Unsupported workbook: ZIP64/);
+  });
+
+  it('rejects legacy .xls and password-protected workbooks as unsupported', async () => {
+    const bytes = new Uint8Array(512);
+    bytes.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    await expect(readXLSX(toFile(bytes, 'appointments.xls'))).rejects.toThrow(/^Unsupported workbook: legacy \.xls/);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Excel workbook reader for Foodbank Check-In and Appointment System admin panel
+ *
+ * This module reads the sheets of an .xlsx workbook in the browser, so an
+ * appointment list kept in Excel can go through the same import wizard as a
+ * Link2Feed CSV export. An .xlsx file is a zip archive of XML documents; the
+ * archive is unpacked with the browser's DecompressionStream and the XML read
+ * with DOMParser, so no spreadsheet library is needed.
+ *
+ * Only cell values are read. Cells formatted as dates become "2025-04-14 @
+ * 9:00 AM" (or "2025-04-14" without a time); formulas give their last
+ * calculated value. Legacy .xls workbooks, password-protected workbooks and
+ZIP64 archives (used for workbooks over 4 GB or 65,535 parts) are not
+supported, and are rejected with a message saying so.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-22
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./csvImport.ts} CSV parsing, mapping and validation
+ * @see {@link https://learn.microsoft.com/en-us/openspecs/office_standards/ms-xlsx} Excel (.xlsx) file format
+ */
+
+import { format } from 'date-fns';
+import { ImportSheet } from '../common/types';
+import { STANDARD_DATE_FORMAT } from './csvImport';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+// Compound File header shared by .xls workbooks and encrypted .xlsx files
+const COMPOUND_FILE_SIGNATURE = 0xe011cfd0;
+
+// Built-in number formats Excel displays as dates or times
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Day 0 of the 1900 date system, allowing for Excel's nonexistent 1900-02-29
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+type ZipFiles = Map<string, ZipEntry>;
+
+const unreadable = (): Error => {
+  return new Error('The file could not be read as an Excel workbook. Please save it as .xlsx or .csv and try again.');
+};
+
+// A workbook that is readable by Excel, in a format this reader doesn't handle
+const unsupportedWorkbook = (reason: string): Error => {
+  return new Error(`Unsupported workbook: ${reason}. Please save it as .csv and upload that instead.`);
+};
+
+/**
+ * Zip archive
+ */
+const readZipDirectory = (view: DataView): ZipFiles => {
+  if (view.byteLength >= 4 && view.getUint32(0, true) === COMPOUND_FILE_SIGNATURE) {
+    throw unsupportedWorkbook("legacy .xls and password-protected workbooks can't be imported");
+  }
+
+  // The end-of-central-directory record is in the last 22 bytes plus any comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw unreadable();
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let position = view.getUint32(eocd + 16, true);
+  // ZIP64 archives keep the real values in a locator record and mark these as maxed out
+  if (
+    entryCount === 0xffff ||
+    position === 0xffffffff ||
+    (eocd >= 20 && view.getUint32(eocd - 20, true) === ZIP64_LOCATOR_SIGNATURE)
+  ) {
+    throw unsupportedWorkbook("ZIP64 workbooks (used for very large files) can't be imported");
+  }
+  const decoder = new TextDecoder();
+  const files: ZipFiles = new Map();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_SIGNATURE) throw unreadable();
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, position + 46, nameLength));
+    const entry = {
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+    };
+    if (entry.compressedSize === 0xffffffff || entry.offset === 0xffffffff) {
+      throw unsupportedWorkbook("ZIP64 workbooks (used for very large files) can't be imported");
+    }
+    files.set(name, entry);
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+};
+
+const readZipFile = async (view: DataView, files: ZipFiles, path: string): Promise<string | null> => {
+  const entry = files.get(path);
+  if (!entry) return null;
+  if (view.getUint32(entry.offset, true) !== LOCAL_HEADER_SIGNATURE) throw unreadable();
+
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = new Uint8Array(view.buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) throw unreadable();
+
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+/**
+ * Workbook XML
+ */
+const parseXml = (text: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw unreadable();
+  return document;
+};
+
+// Elements by local name, whatever namespace prefix the workbook's writer used
+const elements = (parent: Document | Element, localName: string): Element[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+};
+
+const childElements = (parent: Element, localName: string): Element[] => {
+  return Array.from(parent.children).filter((child) => child.localName === localName);
+};
+
+// Relationship targets are relative to the folder of the part that owns them
+const resolvePath = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach((part) => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const readRelationships = async (view: DataView, files: ZipFiles, partPath: string): Promise<Element[]> => {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const xml = await readZipFile(view, files, relsPath);
+  return xml ? elements(parseXml(xml), 'Relationship') : [];
+};
+
+const readSharedStrings = async (view: DataView, files: ZipFiles, path: string | null): Promise<string[]> => {
+  const xml = path ? await readZipFile(view, files, path) : null;
+  if (!xml) return [];
+  return elements(parseXml(xml), 'si').map((item) =>
+    // Phonetic guides (rPh) hold readings for East Asian text, not the text itself
+    elements(item, 't')
+      .filter((text) => text.parentElement?.localName !== 'rPh')
+      .map((text) => text.textContent || '')
+      .join('')
+  );
+};
+
+const isDateFormatCode = (code: string): boolean => {
+  // Quoted text and [colour]/[condition] sections can contain any letters
+  const stripped = code.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(stripped);
+};
+
+// Style index -> whether cells with that style are dates
+const readDateStyles = async (view: DataView, files: ZipFiles, path: string | null): Promise<boolean[]> => {
+  const xml = path ? await readZipFile(view, files, path) : null;
+  if (!xml) return [];
+  const document = parseXml(xml);
+
+  const customDateFormats = new Set(
+    elements(document, 'numFmt')
+      .filter((numFmt) => isDateFormatCode(numFmt.getAttribute('formatCode') || ''))
+      .map((numFmt) => Number(numFmt.getAttribute('numFmtId')))
+  );
+  const cellXfs = elements(document, 'cellXfs')[0];
+  if (!cellXfs) return [];
+
+  return childElements(cellXfs, 'xf').map((xf) => {
+    const id = Number(xf.getAttribute('numFmtId') || 0);
+    return BUILT_IN_DATE_FORMATS.has(id) || customDateFormats.has(id);
+  });
+};
+
+const formatSerialDate = (serial: number, date1904: boolean): string => {
+  // Rounded to the minute; serials carry floating point noise
+  const utc = new Date(Math.round(((date1904 ? EPOCH_1904 : EPOCH_1900) + serial * MS_PER_DAY) / 60000) * 60000);
+  const date = new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes());
+  return format(date, Number.isInteger(serial) ? 'yyyy-MM-dd' : STANDARD_DATE_FORMAT);
+};
+
+// "BC12" -> 54
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const readSheetRows = (
+  document: Document,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  date1904: boolean
+): string[][] => {
+  const rows: string[][] = [];
+
+  elements(document, 'row').forEach((rowElement) => {
+    const row: string[] = [];
+    childElements(rowElement, 'c').forEach((cell) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute('t');
+      const raw = childElements(cell, 'v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = elements(cell, 't').map((text) => text.textContent || '').join('');
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if ((!type || type === 'n') && raw !== '' && dateStyles[Number(cell.getAttribute('s') || 0)]) {
+        value = formatSerialDate(Number(raw), date1904);
+      } else {
+        value = raw;
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+
+    // Empty rows are skipped, as blank lines are in a CSV
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+  });
+
+  return rows;
+};
+
+/**
+ * Read every sheet of an .xlsx workbook
+ *
+ * The first non-empty row of each sheet is its header row. Sheets come back
+ * in workbook order, including empty ones, so the wizard can list them all.
+ *
+ * @throws Error when the file isn't a readable .xlsx workbook, or is one in a
+ * format this reader doesn't support (the message then starts "Unsupported workbook")
+ */
+export const readXLSX = async (file: File): Promise<ImportSheet[]> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read Excel files. Please save the workbook as .csv and upload that instead.');
+  }
+
+  const view = new DataView(await file.arrayBuffer());
+  const files = readZipDirectory(view);
+
+  const rootRelationship = (await readRelationships(view, files, '')).find((relationship) =>
+    (relationship.getAttribute('Type') || '').endsWith('/officeDocument')
+  );
+  const workbookPath = resolvePath('', rootRelationship?.getAttribute('Target') || 'xl/workbook.xml');
+  const workbookXml = await readZipFile(view, files, workbookPath);
+  if (!workbookXml) throw unreadable();
+  const workbook = parseXml(workbookXml);
+
+  const relationships = await readRelationships(view, files, workbookPath);
+  const targetOf = (type: string) => {
+    const relationship = relationships.find((candidate) => (candidate.getAttribute('Type') || '').endsWith(`/${type}`));
+    return relationship ? resolvePath(workbookPath, relationship.getAttribute('Target') || '') : null;
+  };
+  const targetById = (id: string | null) => {
+    const relationship = relationships.find((candidate) => candidate.getAttribute('Id') === id);
+    return relationship ? resolvePath(workbookPath, relationship.getAttribute('Target') || '') : null;
+  };
+
+  const [sharedStrings, dateStyles] = await Promise.all([
+    readSharedStrings(view, files, targetOf('sharedStrings')),
+    readDateStyles(view, files, targetOf('styles')),
+  ]);
+  const workbookPr = elements(workbook, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(workbookPr?.getAttribute('date1904') || '');
+
+  const sheets: ImportSheet[] = [];
+  for (const sheet of elements(workbook, 'sheet')) {
+    // Chart sheets and missing parts have no cells to read
+    const path = targetById(
+      sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id') ||
+        sheet.getAttribute('r:id')
+    );
+    const xml = path ? await readZipFile(view, files, path) : null;
+    if (!xml) continue;
+
+    const [headers = [], ...rows] = readSheetRows(parseXml(xml), sharedStrings, dateStyles, date1904);
+    sheets.push({
+      name: sheet.getAttribute('name') || `Sheet ${sheets.length + 1}`,
+      data: { headers: headers.map((header) => header.trim()), rows },
+    });
+  }
+
+  if (sheets.length === 0) throw unreadable();
+  return sheets;
+};
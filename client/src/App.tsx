@@ -7,31 +7,51 @@
  * 
  * Route Structure:
  * - /: Landing page with language selection
+ * - /privacy: Privacy notice the client accepts before entering any information
  * - /initial-check-in: Basic client information collection
  * - /special-requests: Special accommodations and requests
+ * - /household: Household counts review, with changes sent to staff for approval
  * - /appointment-details: Appointment scheduling and details
+ * - /reminders: Optional next-appointment reminder preferences
  * - /confirmation: Final confirmation page
  * 
+ * The flow pages after the initial check-in are wrapped in FlowGuard, which
+ * redirects to /initial-check-in when there is no valid check-in in the flow store.
+ * KioskIdleReset returns every route except / to the Landing page after inactivity.
+ * 
+ * The organization profile is loaded at startup; its brand colors build the
+ * theme, and its name, contact details and logo are read by the pages.
+ * 
  * @author Lindsey D. Stead
  * @version 1.0.0
  * @since 2025-10-20
  * @license Proprietary - see LICENSE file for details
  */
 
+import { useEffect, useMemo } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { ChakraProvider, Box } from '@chakra-ui/react';
 import { I18nextProvider } from 'react-i18next';
 import { SpeedInsights } from '@vercel/speed-insights/react';
 import { Analytics } from '@vercel/analytics/react';
 import i18n from './common/i18n';
-import theme from './common/theme';
+import { createTheme } from './common/theme';
 import ErrorBoundary from './components/ErrorBoundary';
+import FlowGuard from './components/layout/FlowGuard';
+import KioskIdleReset from './components/layout/KioskIdleReset';
+import HelpRequestStatusChip from './components/ui/HelpRequestStatusChip';
+import { startQueueReplayer } from './lib/queueReplayer';
+import { loadOrganizationProfile } from './lib/organizationProfile';
+import { useOrganizationProfile } from './hooks/useOrganizationProfile';
 
 // Import page components
 import Landing from './pages/Landing';
+import PrivacyConsent from './pages/PrivacyConsent';
 import InitialCheckIn from './pages/InitialCheckIn';
 import SpecialRequests from './pages/SpecialRequests';
+import HouseholdReview from './pages/HouseholdReview';
 import AppointmentDetails from './pages/AppointmentDetails';
+import ReminderPreferences from './pages/ReminderPreferences';
 import Confirmation from './pages/Confirmation';
 
 /**
@@ -39,6 +59,23 @@ import Confirmation from './pages/Confirmation';
  * @returns {JSX.Element} The rendered application
  */
 function App() {
+  // Send check-ins queued on this kiosk whenever the network is available
+  useEffect(() => startQueueReplayer(), []);
+
+  // Brand the app for the food bank running it; the cached profile is used until this arrives
+  useEffect(() => {
+    loadOrganizationProfile();
+  }, []);
+
+  const organization = useOrganizationProfile();
+  const theme = useMemo(() => createTheme(organization.colors), [organization.colors]);
+
+  useEffect(() => {
+    if (organization.name) {
+      document.title = organization.name;
+    }
+  }, [organization.name]);
+
   return (
     <ErrorBoundary>
       {/* Internationalization provider */}
@@ -52,14 +89,23 @@ function App() {
             <Routes>
                 {/* Main application routes */}
                 <Route path="/" element={<Landing />} />
+                <Route path="/privacy" element={<PrivacyConsent />} />
                 <Route path="/initial-check-in" element={<InitialCheckIn />} />
-                <Route path="/special-requests" element={<SpecialRequests />} />
-                <Route path="/appointment-details" element={<AppointmentDetails />} />
-                <Route path="/confirmation" element={<Confirmation />} />
+                <Route path="/special-requests" element={<FlowGuard><SpecialRequests /></FlowGuard>} />
+                <Route path="/household" element={<FlowGuard><HouseholdReview /></FlowGuard>} />
+                <Route path="/appointment-details" element={<FlowGuard><AppointmentDetails /></FlowGuard>} />
+                <Route path="/reminders" element={<FlowGuard><ReminderPreferences /></FlowGuard>} />
+                <Route path="/confirmation" element={<FlowGuard><Confirmation /></FlowGuard>} />
                 
                 {/* Fallback route for unknown paths */}
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
+
+              {/* Reset the flow when a client walks away from the kiosk */}
+              <KioskIdleReset />
+
+              {/* Status of a help request sent from this device */}
+              <HelpRequestStatusChip />
             </Router>
 
             {/* Performance and analytics monitoring */}
@@ -107,7 +107,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'Initial Check-in',
           specialRequests: 'Special Requests',
+          household: 'Household',
           appointmentDetails: 'Appointment Details',
+          reminders: 'Reminders',
           confirmation: 'Confirmation'
         }
       },
@@ -210,7 +212,16 @@ const resources = {
         other: 'Other Requests',
         submit: 'Submit',
         submitting: 'Submitting...',
-        selectedCount: '{{count}} Selected'
+        selectedCount: '{{count}} Selected',
+        categories: {
+          dietary: 'Dietary needs',
+          allergy: 'Allergies',
+          baby_needs: 'Baby needs',
+          hygiene: 'Hygiene',
+          pet_food: 'Pet food',
+        },
+        outOfStock: 'Out of stock today',
+        details: 'Details'
       },
       confirmation: {
         title: 'Check-In Complete',
@@ -257,6 +268,166 @@ const resources = {
           hours: 'Hours',
           address: 'Address'
         }
+      },
+      offline: {
+        queuedTitle: 'Your check-in is saved on this kiosk',
+        queuedDescription: 'Our connection is down right now. Your check-in will be sent to staff automatically as soon as it is back. Please let a staff member know you are here.',
+        nextAppointmentPending: 'Staff will confirm your next appointment',
+        pendingCount: '{{count}} queued on kiosk',
+        pendingTooltip: 'These check-ins will be sent automatically when the connection is back',
+        failedCount: '{{count}} need staff attention',
+        failedTooltip: 'These queued check-ins could not be matched to an appointment - please check with staff'
+      },
+      completion: {
+        saving: 'Saving your check-in…',
+        saved: 'Check-in saved',
+        errorTitle: "We couldn't save your check-in",
+        errorDescription: 'Please see a staff member so they can record your visit.',
+        retry: 'Try again'
+      },
+      idle: {
+        title: 'Are you still there?',
+        description: 'For your privacy, this check-in will be cleared in {{count}} seconds.',
+        stillHere: "I'm still here"
+      },
+      appointmentMatch: {
+        title: 'Which appointment is yours?',
+        description: 'More than one appointment matches your details. Please choose yours.',
+        appointmentAt: 'Appointment at {{time}}',
+        notMe: 'None of these are me'
+      },
+      upcomingAppointment: {
+        title: 'No appointment today',
+        description: 'Your next appointment is on {{date}}.',
+        descriptionWithTime: 'Your next appointment is on {{date}} at {{time}}.',
+        help: 'Please come back on that day. If you need food today, a staff member can help.',
+        done: 'Done'
+      },
+      nameMatch: {
+        title: 'Is this your appointment?',
+        description: 'We found an appointment for this phone number under a last name spelled a little differently.',
+        confirm: "Yes, that's me",
+        reject: 'No, go back'
+      },
+      slotPicker: {
+        previousMonth: 'Previous month',
+        nextMonth: 'Next month',
+        loadError: 'Unable to load available appointments. Please try again.',
+        retry: 'Retry',
+        closed: 'Closed',
+        fullyBooked: 'Fully booked',
+        full: 'Full',
+        placesLeft: '{{remaining}} of {{capacity}} left',
+        noTimes: 'No times available on this day.'
+      },
+      appointmentSave: {
+        title: 'Save your appointment',
+        addToCalendar: 'Add to calendar',
+        downloadCard: 'Download appointment card',
+        calendarTitle: 'Food bank appointment',
+        cardHeading: 'Your next appointment',
+        cardNote: 'Keep this card as a reminder of your appointment.',
+        defaultOrganization: 'Food Bank',
+        cardError: 'Unable to create the appointment card. Please try again.'
+      },
+      reminders: {
+        title: 'Appointment Reminders',
+        subtitle: 'Would you like a reminder before your next appointment? This step is optional.',
+        sms: 'Text message',
+        smsDescription: 'We will text your phone',
+        email: 'Email',
+        emailDescription: 'We will send you an email',
+        none: 'No reminders',
+        noneDescription: 'I will remember on my own',
+        emailLabel: 'Email address',
+        carrierLabel: 'Phone company',
+        carrierPlaceholder: 'Select your phone company',
+        carrierOther: 'Other',
+        consent: 'By choosing a reminder, you agree that the food bank may contact you about your appointments. We only use your contact details for reminders. You can stop them at any time by asking a staff member. Message and data rates may apply.',
+        skip: 'Skip',
+        errors: {
+          emailRequired: 'Email address is required',
+          emailInvalid: 'Please enter a valid email address',
+          carrierRequired: 'Please select your phone company'
+        }
+      },
+      helpStatus: {
+        title: 'Your help request',
+        reference: 'Reference',
+        statusLabel: 'Status',
+        status: {
+          pending: 'Help requested',
+          in_progress: 'Staff on the way',
+          resolved: 'Resolved',
+          cancelled: 'Cancelled'
+        },
+        description: {
+          pending: 'We received your request. A staff member will be with you soon.',
+          in_progress: 'A staff member is coming to help you.',
+          resolved: 'Staff marked your request as resolved.',
+          cancelled: 'You cancelled this request.'
+        },
+        followUpPlaceholder: 'Add more details for staff...',
+        sendFollowUp: 'Send',
+        cancel: 'Cancel request',
+        dismiss: 'Dismiss',
+        followUpSent: 'Your message was sent to staff',
+        updateFailed: 'Unable to update your request. Please try again.',
+        sentWithReference: 'Your request was received. Your reference is {{reference}}.'
+      },
+      organization: {
+        address: 'Address',
+        hours: 'Opening hours',
+      },
+      household: {
+        title: 'Your Household',
+        subtitle: 'Please check that the people in your household are up to date',
+        currentTitle: 'On your record',
+        adults: 'Adults',
+        adultsHint: 'Ages 18 to 64',
+        seniors: 'Seniors',
+        seniorsHint: 'Ages 65 and older',
+        children: 'Children',
+        childrenHint: 'Under 18',
+        childrensAges: 'Children\'s ages',
+        notOnFile: 'Not on file',
+        confirmCorrect: 'Yes, this is correct',
+        somethingChanged: 'Something has changed',
+        editTitle: 'Who lives in your household now?',
+        decrease: 'Fewer {{label}}',
+        increase: 'More {{label}}',
+        childAge: 'Child {{number}} age',
+        noteLabel: 'Anything staff should know? (optional)',
+        notePlaceholder: 'For example: a new baby, someone moved in or out',
+        reviewNotice: 'Staff will review your changes before they update your record. Your check-in will continue as normal.',
+        errors: {
+          atLeastOne: 'Please include at least one person in your household',
+          ageRequired: 'Please enter each child\'s age',
+          ageInvalid: 'Each child\'s age must be a number from 0 to {{max}}'
+        }
+      },
+      privacy: {
+        title: 'Your Privacy',
+        subtitle: 'Please read how we use your information before you check in',
+        notice: 'We collect your name, phone number, household details and the requests you make so we can check you in, prepare your food and book your next appointment.\n\nOnly food bank staff and volunteers who help you can see this information. We do not sell it or share it with anyone else unless the law requires us to.\n\nCheck-in details are deleted automatically after 24 hours. You can ask a staff member at any time to see the information we hold about you, to correct it, or to withdraw your consent.',
+        version: 'Privacy notice version {{version}}',
+        accept: 'I agree',
+        decline: 'I do not agree',
+        declinedTitle: 'Please see a staff member',
+        declinedMessage: 'You can still get food today. A staff member will check you in at the front desk without using the kiosk.',
+        startOver: 'Back to start'
+      },
+      queue: {
+        ticket: 'Your ticket',
+        position: 'Your place in line',
+        waitingCount: '{{count}} waiting',
+        estimatedWait: 'Estimated wait',
+        minutes: '{{count}} min',
+        liveNotice: 'This updates automatically. Please stay nearby.',
+        refreshFailed: 'Could not update right now. We will keep trying.',
+        enableNotifications: 'Notify me when I am called',
+        calledTitle: 'It is your turn!',
+        calledMessage: 'Ticket {{ticket}} has been called. Please come to the pickup desk.'
       }
     }
   },
@@ -341,7 +512,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'Registro Inicial',
           specialRequests: 'Solicitudes Especiales',
+          household: 'Hogar',
           appointmentDetails: 'Detalles de la Cita',
+          reminders: 'Recordatorios',
           confirmation: 'Confirmación'
         }
       },
@@ -444,7 +617,16 @@ const resources = {
         other: 'Otras Solicitudes',
         submit: 'Enviar',
         submitting: 'Enviando...',
-        selectedCount: '{{count}} Seleccionado'
+        selectedCount: '{{count}} Seleccionado',
+        categories: {
+          dietary: 'Necesidades alimentarias',
+          allergy: 'Alergias',
+          baby_needs: 'Necesidades del bebé',
+          hygiene: 'Higiene',
+          pet_food: 'Comida para mascotas',
+        },
+        outOfStock: 'Agotado hoy',
+        details: 'Detalles'
       },
       confirmation: {
         title: 'Registro Completo',
@@ -491,6 +673,166 @@ const resources = {
           hours: 'Horario de Atención',
           address: 'Dirección'
         }
+      },
+      offline: {
+        queuedTitle: 'Su registro está guardado en este quiosco',
+        queuedDescription: 'La conexión no está disponible en este momento. Su registro se enviará al personal automáticamente en cuanto vuelva. Por favor, avise a un miembro del personal de que está aquí.',
+        nextAppointmentPending: 'El personal confirmará su próxima cita',
+        pendingCount: '{{count}} en cola en el quiosco',
+        pendingTooltip: 'Estos registros se enviarán automáticamente cuando vuelva la conexión',
+        failedCount: '{{count}} requieren atención del personal',
+        failedTooltip: 'Estos registros en cola no se pudieron vincular a una cita; por favor, consulte con el personal'
+      },
+      completion: {
+        saving: 'Guardando su registro…',
+        saved: 'Registro guardado',
+        errorTitle: 'No pudimos guardar su registro',
+        errorDescription: 'Por favor, hable con un miembro del personal para que registre su visita.',
+        retry: 'Intentar de nuevo'
+      },
+      idle: {
+        title: '¿Sigue ahí?',
+        description: 'Por su privacidad, este registro se borrará en {{count}} segundos.',
+        stillHere: 'Sigo aquí'
+      },
+      appointmentMatch: {
+        title: '¿Cuál es su cita?',
+        description: 'Más de una cita coincide con sus datos. Por favor, elija la suya.',
+        appointmentAt: 'Cita a las {{time}}',
+        notMe: 'Ninguna de estas soy yo'
+      },
+      upcomingAppointment: {
+        title: 'No tiene cita hoy',
+        description: 'Su próxima cita es el {{date}}.',
+        descriptionWithTime: 'Su próxima cita es el {{date}} a las {{time}}.',
+        help: 'Por favor, regrese ese día. Si necesita alimentos hoy, un miembro del personal puede ayudarle.',
+        done: 'Listo'
+      },
+      nameMatch: {
+        title: '¿Es esta su cita?',
+        description: 'Encontramos una cita para este número de teléfono con un apellido escrito de forma un poco diferente.',
+        confirm: 'Sí, soy yo',
+        reject: 'No, volver'
+      },
+      slotPicker: {
+        previousMonth: 'Mes anterior',
+        nextMonth: 'Mes siguiente',
+        loadError: 'No se pudieron cargar las citas disponibles. Inténtelo de nuevo.',
+        retry: 'Reintentar',
+        closed: 'Cerrado',
+        fullyBooked: 'Completo',
+        full: 'Lleno',
+        placesLeft: 'Quedan {{remaining}} de {{capacity}}',
+        noTimes: 'No hay horarios disponibles este día.'
+      },
+      appointmentSave: {
+        title: 'Guarde su cita',
+        addToCalendar: 'Agregar al calendario',
+        downloadCard: 'Descargar tarjeta de cita',
+        calendarTitle: 'Cita en el banco de alimentos',
+        cardHeading: 'Su próxima cita',
+        cardNote: 'Guarde esta tarjeta como recordatorio de su cita.',
+        defaultOrganization: 'Banco de Alimentos',
+        cardError: 'No se pudo crear la tarjeta de cita. Por favor, inténtelo de nuevo.'
+      },
+      reminders: {
+        title: 'Recordatorios de Citas',
+        subtitle: '¿Desea un recordatorio antes de su próxima cita? Este paso es opcional.',
+        sms: 'Mensaje de texto',
+        smsDescription: 'Le enviaremos un mensaje a su teléfono',
+        email: 'Correo electrónico',
+        emailDescription: 'Le enviaremos un correo electrónico',
+        none: 'Sin recordatorios',
+        noneDescription: 'Lo recordaré por mi cuenta',
+        emailLabel: 'Correo electrónico',
+        carrierLabel: 'Compañía telefónica',
+        carrierPlaceholder: 'Seleccione su compañía telefónica',
+        carrierOther: 'Otra',
+        consent: 'Al elegir un recordatorio, acepta que el banco de alimentos se comunique con usted sobre sus citas. Solo usamos sus datos de contacto para los recordatorios. Puede cancelarlos en cualquier momento hablando con un miembro del personal. Pueden aplicarse cargos por mensajes y datos.',
+        skip: 'Omitir',
+        errors: {
+          emailRequired: 'El correo electrónico es requerido',
+          emailInvalid: 'Por favor ingrese un correo electrónico válido',
+          carrierRequired: 'Por favor seleccione su compañía telefónica'
+        }
+      },
+      helpStatus: {
+        title: 'Su solicitud de ayuda',
+        reference: 'Referencia',
+        statusLabel: 'Estado',
+        status: {
+          pending: 'Ayuda solicitada',
+          in_progress: 'Personal en camino',
+          resolved: 'Resuelta',
+          cancelled: 'Cancelada'
+        },
+        description: {
+          pending: 'Recibimos su solicitud. Un miembro del personal le atenderá pronto.',
+          in_progress: 'Un miembro del personal viene a ayudarle.',
+          resolved: 'El personal marcó su solicitud como resuelta.',
+          cancelled: 'Usted canceló esta solicitud.'
+        },
+        followUpPlaceholder: 'Agregue más detalles para el personal...',
+        sendFollowUp: 'Enviar',
+        cancel: 'Cancelar solicitud',
+        dismiss: 'Cerrar',
+        followUpSent: 'Su mensaje fue enviado al personal',
+        updateFailed: 'No se pudo actualizar su solicitud. Por favor, inténtelo de nuevo.',
+        sentWithReference: 'Recibimos su solicitud. Su referencia es {{reference}}.'
+      },
+      organization: {
+        address: 'Dirección',
+        hours: 'Horario de atención',
+      },
+      household: {
+        title: 'Su Hogar',
+        subtitle: 'Verifique que las personas de su hogar estén actualizadas',
+        currentTitle: 'En su registro',
+        adults: 'Adultos',
+        adultsHint: 'De 18 a 64 años',
+        seniors: 'Personas mayores',
+        seniorsHint: '65 años o más',
+        children: 'Niños',
+        childrenHint: 'Menores de 18',
+        childrensAges: 'Edades de los niños',
+        notOnFile: 'Sin registro',
+        confirmCorrect: 'Sí, es correcto',
+        somethingChanged: 'Algo ha cambiado',
+        editTitle: '¿Quiénes viven ahora en su hogar?',
+        decrease: 'Menos {{label}}',
+        increase: 'Más {{label}}',
+        childAge: 'Edad del niño {{number}}',
+        noteLabel: '¿Algo que el personal deba saber? (opcional)',
+        notePlaceholder: 'Por ejemplo: un bebé nuevo, alguien se mudó',
+        reviewNotice: 'El personal revisará sus cambios antes de actualizar su registro. Su registro de llegada continuará normalmente.',
+        errors: {
+          atLeastOne: 'Incluya al menos una persona en su hogar',
+          ageRequired: 'Ingrese la edad de cada niño',
+          ageInvalid: 'La edad de cada niño debe ser un número de 0 a {{max}}'
+        }
+      },
+      privacy: {
+        title: 'Su Privacidad',
+        subtitle: 'Lea cómo usamos su información antes de registrarse',
+        notice: 'Recopilamos su nombre, número de teléfono, datos de su hogar y las solicitudes que haga para poder registrar su llegada, preparar sus alimentos y programar su próxima cita.\n\nSolo el personal y los voluntarios del banco de alimentos que le atienden pueden ver esta información. No la vendemos ni la compartimos con nadie más, salvo que la ley lo exija.\n\nLos datos del registro se eliminan automáticamente después de 24 horas. Puede pedir a un miembro del personal en cualquier momento ver la información que tenemos sobre usted, corregirla o retirar su consentimiento.',
+        version: 'Versión del aviso de privacidad {{version}}',
+        accept: 'Acepto',
+        decline: 'No acepto',
+        declinedTitle: 'Hable con un miembro del personal',
+        declinedMessage: 'Aún puede recibir alimentos hoy. Un miembro del personal registrará su llegada en la recepción sin usar el quiosco.',
+        startOver: 'Volver al inicio'
+      },
+      queue: {
+        ticket: 'Su número',
+        position: 'Su lugar en la fila',
+        waitingCount: '{{count}} esperando',
+        estimatedWait: 'Espera estimada',
+        minutes: '{{count}} min',
+        liveNotice: 'Esto se actualiza automáticamente. Por favor, quédese cerca.',
+        refreshFailed: 'No se pudo actualizar ahora. Seguiremos intentando.',
+        enableNotifications: 'Avisarme cuando me llamen',
+        calledTitle: '¡Es su turno!',
+        calledMessage: 'Se ha llamado el número {{ticket}}. Por favor, acérquese al mostrador de entrega.'
       }
     }
   },
@@ -575,7 +917,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'Enregistrement Initial',
           specialRequests: 'Demandes Spéciales',
+          household: 'Foyer',
           appointmentDetails: 'Détails du Rendez-vous',
+          reminders: 'Rappels',
           confirmation: 'Confirmation'
         }
       },
@@ -678,7 +1022,16 @@ const resources = {
         other: 'Autres Demandes',
         submit: 'Soumettre',
         submitting: 'Soumission...',
-        selectedCount: '{{count}} Sélectionné'
+        selectedCount: '{{count}} Sélectionné',
+        categories: {
+          dietary: 'Besoins alimentaires',
+          allergy: 'Allergies',
+          baby_needs: 'Besoins pour bébé',
+          hygiene: 'Hygiène',
+          pet_food: 'Nourriture pour animaux',
+        },
+        outOfStock: 'Épuisé aujourd\'hui',
+        details: 'Détails'
       },
       confirmation: {
         title: 'Enregistrement Terminé',
@@ -725,6 +1078,166 @@ const resources = {
           hours: 'Heures d\'Ouverture',
           address: 'Adresse'
         }
+      },
+      offline: {
+        queuedTitle: 'Votre enregistrement est sauvegardé sur cette borne',
+        queuedDescription: 'La connexion est interrompue pour le moment. Votre enregistrement sera envoyé automatiquement au personnel dès son retour. Veuillez signaler votre présence à un membre du personnel.',
+        nextAppointmentPending: 'Le personnel confirmera votre prochain rendez-vous',
+        pendingCount: '{{count}} en attente sur la borne',
+        pendingTooltip: 'Ces enregistrements seront envoyés automatiquement au retour de la connexion',
+        failedCount: '{{count}} nécessitent l’intervention du personnel',
+        failedTooltip: 'Ces enregistrements en attente n’ont pas pu être associés à un rendez-vous ; veuillez vous adresser au personnel'
+      },
+      completion: {
+        saving: 'Enregistrement de votre arrivée…',
+        saved: 'Arrivée enregistrée',
+        errorTitle: "Nous n'avons pas pu enregistrer votre arrivée",
+        errorDescription: "Veuillez vous adresser à un membre du personnel pour qu'il enregistre votre visite.",
+        retry: 'Réessayer'
+      },
+      idle: {
+        title: 'Êtes-vous toujours là ?',
+        description: 'Pour protéger votre vie privée, cette inscription sera effacée dans {{count}} secondes.',
+        stillHere: 'Je suis toujours là'
+      },
+      appointmentMatch: {
+        title: 'Quel rendez-vous est le vôtre ?',
+        description: 'Plusieurs rendez-vous correspondent à vos informations. Veuillez choisir le vôtre.',
+        appointmentAt: 'Rendez-vous à {{time}}',
+        notMe: "Aucun de ceux-ci n'est le mien"
+      },
+      upcomingAppointment: {
+        title: "Aucun rendez-vous aujourd'hui",
+        description: 'Votre prochain rendez-vous est le {{date}}.',
+        descriptionWithTime: 'Votre prochain rendez-vous est le {{date}} à {{time}}.',
+        help: "Veuillez revenir ce jour-là. Si vous avez besoin de nourriture aujourd'hui, un membre du personnel peut vous aider.",
+        done: 'Terminé'
+      },
+      nameMatch: {
+        title: 'Est-ce votre rendez-vous ?',
+        description: 'Nous avons trouvé un rendez-vous pour ce numéro de téléphone sous un nom de famille écrit un peu différemment.',
+        confirm: "Oui, c'est moi",
+        reject: 'Non, revenir'
+      },
+      slotPicker: {
+        previousMonth: 'Mois précédent',
+        nextMonth: 'Mois suivant',
+        loadError: 'Impossible de charger les rendez-vous disponibles. Veuillez réessayer.',
+        retry: 'Réessayer',
+        closed: 'Fermé',
+        fullyBooked: 'Complet',
+        full: 'Complet',
+        placesLeft: '{{remaining}} sur {{capacity}} restantes',
+        noTimes: 'Aucun horaire disponible ce jour-là.'
+      },
+      appointmentSave: {
+        title: 'Enregistrez votre rendez-vous',
+        addToCalendar: 'Ajouter au calendrier',
+        downloadCard: 'Télécharger la carte de rendez-vous',
+        calendarTitle: 'Rendez-vous à la banque alimentaire',
+        cardHeading: 'Votre prochain rendez-vous',
+        cardNote: 'Conservez cette carte pour vous rappeler votre rendez-vous.',
+        defaultOrganization: 'Banque Alimentaire',
+        cardError: 'Impossible de créer la carte de rendez-vous. Veuillez réessayer.'
+      },
+      reminders: {
+        title: 'Rappels de Rendez-vous',
+        subtitle: 'Souhaitez-vous un rappel avant votre prochain rendez-vous? Cette étape est facultative.',
+        sms: 'Message texte',
+        smsDescription: 'Nous vous enverrons un texto',
+        email: 'Courriel',
+        emailDescription: 'Nous vous enverrons un courriel',
+        none: 'Aucun rappel',
+        noneDescription: "Je m'en souviendrai moi-même",
+        emailLabel: 'Adresse courriel',
+        carrierLabel: 'Fournisseur de téléphonie',
+        carrierPlaceholder: 'Sélectionnez votre fournisseur',
+        carrierOther: 'Autre',
+        consent: "En choisissant un rappel, vous acceptez que la banque alimentaire vous contacte au sujet de vos rendez-vous. Nous utilisons vos coordonnées uniquement pour les rappels. Vous pouvez les arrêter à tout moment en le demandant à un membre du personnel. Des frais de messagerie et de données peuvent s'appliquer.",
+        skip: 'Passer',
+        errors: {
+          emailRequired: "L'adresse courriel est requise",
+          emailInvalid: 'Veuillez entrer une adresse courriel valide',
+          carrierRequired: 'Veuillez sélectionner votre fournisseur'
+        }
+      },
+      helpStatus: {
+        title: "Votre demande d'aide",
+        reference: 'Référence',
+        statusLabel: 'Statut',
+        status: {
+          pending: 'Aide demandée',
+          in_progress: 'Personnel en route',
+          resolved: 'Résolue',
+          cancelled: 'Annulée'
+        },
+        description: {
+          pending: 'Nous avons reçu votre demande. Un membre du personnel sera bientôt avec vous.',
+          in_progress: 'Un membre du personnel vient vous aider.',
+          resolved: 'Le personnel a marqué votre demande comme résolue.',
+          cancelled: 'Vous avez annulé cette demande.'
+        },
+        followUpPlaceholder: 'Ajoutez des détails pour le personnel...',
+        sendFollowUp: 'Envoyer',
+        cancel: 'Annuler la demande',
+        dismiss: 'Fermer',
+        followUpSent: 'Votre message a été envoyé au personnel',
+        updateFailed: 'Impossible de mettre à jour votre demande. Veuillez réessayer.',
+        sentWithReference: 'Votre demande a été reçue. Votre référence est {{reference}}.'
+      },
+      organization: {
+        address: 'Adresse',
+        hours: 'Heures d\'ouverture',
+      },
+      household: {
+        title: 'Votre Foyer',
+        subtitle: 'Veuillez vérifier que les membres de votre foyer sont à jour',
+        currentTitle: 'Dans votre dossier',
+        adults: 'Adultes',
+        adultsHint: 'De 18 à 64 ans',
+        seniors: 'Aînés',
+        seniorsHint: '65 ans et plus',
+        children: 'Enfants',
+        childrenHint: 'Moins de 18 ans',
+        childrensAges: 'Âges des enfants',
+        notOnFile: 'Non inscrit',
+        confirmCorrect: 'Oui, c\'est correct',
+        somethingChanged: 'Quelque chose a changé',
+        editTitle: 'Qui vit dans votre foyer maintenant ?',
+        decrease: 'Moins de {{label}}',
+        increase: 'Plus de {{label}}',
+        childAge: 'Âge de l\'enfant {{number}}',
+        noteLabel: 'Quelque chose que le personnel devrait savoir ? (facultatif)',
+        notePlaceholder: 'Par exemple : un nouveau bébé, quelqu\'un a emménagé ou déménagé',
+        reviewNotice: 'Le personnel examinera vos changements avant de mettre à jour votre dossier. Votre enregistrement continuera normalement.',
+        errors: {
+          atLeastOne: 'Veuillez inclure au moins une personne dans votre foyer',
+          ageRequired: 'Veuillez indiquer l\'âge de chaque enfant',
+          ageInvalid: 'L\'âge de chaque enfant doit être un nombre de 0 à {{max}}'
+        }
+      },
+      privacy: {
+        title: 'Votre Vie Privée',
+        subtitle: 'Veuillez lire comment nous utilisons vos renseignements avant de vous enregistrer',
+        notice: 'Nous recueillons votre nom, votre numéro de téléphone, les renseignements sur votre foyer et vos demandes afin de vous enregistrer, de préparer vos denrées et de fixer votre prochain rendez-vous.\n\nSeuls le personnel et les bénévoles de la banque alimentaire qui vous aident peuvent voir ces renseignements. Nous ne les vendons pas et ne les communiquons à personne d\'autre, sauf si la loi l\'exige.\n\nLes données d\'enregistrement sont supprimées automatiquement après 24 heures. Vous pouvez demander à tout moment à un membre du personnel de consulter les renseignements que nous détenons sur vous, de les corriger ou de retirer votre consentement.',
+        version: 'Version de l\'avis de confidentialité {{version}}',
+        accept: 'J\'accepte',
+        decline: 'Je n\'accepte pas',
+        declinedTitle: 'Veuillez voir un membre du personnel',
+        declinedMessage: 'Vous pouvez quand même recevoir de la nourriture aujourd\'hui. Un membre du personnel vous enregistrera à l\'accueil sans utiliser la borne.',
+        startOver: 'Retour au début'
+      },
+      queue: {
+        ticket: 'Votre numéro',
+        position: 'Votre place dans la file',
+        waitingCount: '{{count}} en attente',
+        estimatedWait: 'Attente estimée',
+        minutes: '{{count}} min',
+        liveNotice: 'Ces informations se mettent à jour automatiquement. Veuillez rester à proximité.',
+        refreshFailed: 'Mise à jour impossible pour le moment. Nous réessayons.',
+        enableNotifications: 'M\'avertir quand on m\'appelle',
+        calledTitle: 'C\'est votre tour !',
+        calledMessage: 'Le numéro {{ticket}} a été appelé. Veuillez vous présenter au comptoir de distribution.'
       }
     }
   },
@@ -808,7 +1321,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: '初始登记',
           specialRequests: '特殊要求',
+          household: '家庭',
           appointmentDetails: '预约详情',
+          reminders: '提醒',
           confirmation: '确认'
         }
       },
@@ -909,7 +1424,16 @@ const resources = {
         other: '其他要求',
         submit: '提交',
         submitting: '正在提交...',
-        selectedCount: '已选择 {{count}} 项'
+        selectedCount: '已选择 {{count}} 项',
+        categories: {
+          dietary: '饮食需求',
+          allergy: '过敏',
+          baby_needs: '婴儿用品',
+          hygiene: '卫生用品',
+          pet_food: '宠物食品',
+        },
+        outOfStock: '今日已无库存',
+        details: '详情'
       },
       confirmation: {
         title: '登记完成',
@@ -956,6 +1480,166 @@ const resources = {
           hours: '营业时间',
           address: '地址'
         }
+      },
+      offline: {
+        queuedTitle: '您的签到已保存在此自助终端',
+        queuedDescription: '目前网络连接中断。连接恢复后，您的签到将自动发送给工作人员。请告知工作人员您已到达。',
+        nextAppointmentPending: '工作人员将确认您的下一次预约',
+        pendingCount: '{{count}} 条在终端排队',
+        pendingTooltip: '连接恢复后，这些签到将自动发送',
+        failedCount: '{{count}} 条需要工作人员处理',
+        failedTooltip: '这些排队的签到无法与预约匹配，请咨询工作人员'
+      },
+      completion: {
+        saving: '正在保存您的签到…',
+        saved: '签到已保存',
+        errorTitle: '我们无法保存您的签到',
+        errorDescription: '请联系工作人员为您登记此次到访。',
+        retry: '重试'
+      },
+      idle: {
+        title: '您还在吗？',
+        description: '为保护您的隐私，本次签到将在 {{count}} 秒后清除。',
+        stillHere: '我还在'
+      },
+      appointmentMatch: {
+        title: '哪个预约是您的？',
+        description: '有多个预约与您的信息匹配。请选择您的预约。',
+        appointmentAt: '预约时间 {{time}}',
+        notMe: '这些都不是我'
+      },
+      upcomingAppointment: {
+        title: '今天没有预约',
+        description: '您的下一次预约是 {{date}}。',
+        descriptionWithTime: '您的下一次预约是 {{date}} {{time}}。',
+        help: '请在那天再来。如果您今天需要食物，工作人员可以帮助您。',
+        done: '完成'
+      },
+      nameMatch: {
+        title: '这是您的预约吗？',
+        description: '我们为此电话号码找到了一个预约，但登记的姓氏拼写略有不同。',
+        confirm: '是的，是我',
+        reject: '不是，返回'
+      },
+      slotPicker: {
+        previousMonth: '上个月',
+        nextMonth: '下个月',
+        loadError: '无法加载可预约时间，请重试。',
+        retry: '重试',
+        closed: '不开放',
+        fullyBooked: '已约满',
+        full: '已满',
+        placesLeft: '剩余 {{remaining}}/{{capacity}}',
+        noTimes: '当天没有可预约的时间。'
+      },
+      appointmentSave: {
+        title: '保存您的预约',
+        addToCalendar: '添加到日历',
+        downloadCard: '下载预约卡',
+        calendarTitle: '食品银行预约',
+        cardHeading: '您的下次预约',
+        cardNote: '请保留此卡以提醒您的预约。',
+        defaultOrganization: '食品银行',
+        cardError: '无法生成预约卡。请重试。'
+      },
+      reminders: {
+        title: '预约提醒',
+        subtitle: '您希望在下次预约前收到提醒吗？此步骤为可选。',
+        sms: '短信',
+        smsDescription: '我们会发短信到您的手机',
+        email: '电子邮件',
+        emailDescription: '我们会给您发送电子邮件',
+        none: '不需要提醒',
+        noneDescription: '我自己会记住',
+        emailLabel: '电子邮件地址',
+        carrierLabel: '电话运营商',
+        carrierPlaceholder: '请选择您的电话运营商',
+        carrierOther: '其他',
+        consent: '选择提醒即表示您同意食品银行就您的预约与您联系。我们仅将您的联系方式用于提醒。您可以随时告知工作人员停止提醒。可能会产生短信和数据费用。',
+        skip: '跳过',
+        errors: {
+          emailRequired: '请输入电子邮件地址',
+          emailInvalid: '请输入有效的电子邮件地址',
+          carrierRequired: '请选择您的电话运营商'
+        }
+      },
+      helpStatus: {
+        title: '您的求助请求',
+        reference: '参考编号',
+        statusLabel: '状态',
+        status: {
+          pending: '已请求帮助',
+          in_progress: '工作人员正在赶来',
+          resolved: '已解决',
+          cancelled: '已取消'
+        },
+        description: {
+          pending: '我们已收到您的请求。工作人员很快会来帮助您。',
+          in_progress: '工作人员正在过来帮助您。',
+          resolved: '工作人员已将您的请求标记为已解决。',
+          cancelled: '您已取消此请求。'
+        },
+        followUpPlaceholder: '为工作人员补充更多信息...',
+        sendFollowUp: '发送',
+        cancel: '取消请求',
+        dismiss: '关闭',
+        followUpSent: '您的消息已发送给工作人员',
+        updateFailed: '无法更新您的请求。请重试。',
+        sentWithReference: '我们已收到您的请求。您的参考编号是 {{reference}}。'
+      },
+      organization: {
+        address: '地址',
+        hours: '营业时间',
+      },
+      household: {
+        title: '您的家庭',
+        subtitle: '请确认您的家庭成员信息是最新的',
+        currentTitle: '记录中的信息',
+        adults: '成人',
+        adultsHint: '18至64岁',
+        seniors: '老年人',
+        seniorsHint: '65岁及以上',
+        children: '儿童',
+        childrenHint: '18岁以下',
+        childrensAges: '儿童年龄',
+        notOnFile: '无记录',
+        confirmCorrect: '是的，信息正确',
+        somethingChanged: '有变化',
+        editTitle: '现在您的家庭中有哪些人？',
+        decrease: '减少{{label}}',
+        increase: '增加{{label}}',
+        childAge: '第{{number}}个孩子的年龄',
+        noteLabel: '有什么需要工作人员了解的吗？（可选）',
+        notePlaceholder: '例如：新生婴儿、有人搬入或搬出',
+        reviewNotice: '工作人员会在更新您的记录之前审核您的更改。您的签到将照常进行。',
+        errors: {
+          atLeastOne: '请至少填写一位家庭成员',
+          ageRequired: '请输入每个孩子的年龄',
+          ageInvalid: '每个孩子的年龄必须是0到{{max}}之间的数字'
+        }
+      },
+      privacy: {
+        title: '您的隐私',
+        subtitle: '签到前请阅读我们如何使用您的信息',
+        notice: '我们收集您的姓名、电话号码、家庭信息以及您提出的要求，以便为您签到、准备食品并预约您的下一次领取。\n\n只有为您提供帮助的食品银行工作人员和志愿者才能查看这些信息。除法律要求外，我们不会出售或与任何其他人分享这些信息。\n\n签到信息会在24小时后自动删除。您可以随时请工作人员查看我们保存的关于您的信息、更正信息或撤回您的同意。',
+        version: '隐私声明版本 {{version}}',
+        accept: '我同意',
+        decline: '我不同意',
+        declinedTitle: '请联系工作人员',
+        declinedMessage: '您今天仍然可以领取食品。工作人员会在前台为您签到，无需使用自助终端。',
+        startOver: '返回开始'
+      },
+      queue: {
+        ticket: '您的号码',
+        position: '您的排队位置',
+        waitingCount: '{{count}} 人等候中',
+        estimatedWait: '预计等候时间',
+        minutes: '{{count}} 分钟',
+        liveNotice: '此信息会自动更新。请留在附近。',
+        refreshFailed: '暂时无法更新。我们会继续尝试。',
+        enableNotifications: '叫到我时通知我',
+        calledTitle: '轮到您了！',
+        calledMessage: '{{ticket}} 号已被叫到。请到领取台。'
       }
     }
   },
@@ -1039,7 +1723,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'प्रारंभिक चेक-इन',
           specialRequests: 'विशेष अनुरोध',
+          household: 'परिवार',
           appointmentDetails: 'नियुक्ति विवरण',
+          reminders: 'रिमाइंडर',
           confirmation: 'पुष्टि'
         }
       },
@@ -1140,7 +1826,16 @@ const resources = {
         other: 'अन्य अनुरोध',
         submit: 'जमा करें',
         submitting: 'जमा हो रहा है...',
-        selectedCount: '{{count}} चयनित'
+        selectedCount: '{{count}} चयनित',
+        categories: {
+          dietary: 'आहार संबंधी आवश्यकताएँ',
+          allergy: 'एलर्जी',
+          baby_needs: 'शिशु की ज़रूरतें',
+          hygiene: 'स्वच्छता',
+          pet_food: 'पालतू जानवरों का भोजन',
+        },
+        outOfStock: 'आज स्टॉक में नहीं',
+        details: 'विवरण'
       },
       confirmation: {
         title: 'चेक-इन पूर्ण',
@@ -1187,6 +1882,166 @@ const resources = {
           hours: 'घंटे',
           address: 'पता'
         }
+      },
+      offline: {
+        queuedTitle: 'आपका चेक-इन इस कियोस्क पर सहेजा गया है',
+        queuedDescription: 'अभी कनेक्शन उपलब्ध नहीं है। कनेक्शन वापस आते ही आपका चेक-इन अपने आप स्टाफ को भेज दिया जाएगा। कृपया किसी स्टाफ सदस्य को बताएं कि आप यहां हैं।',
+        nextAppointmentPending: 'स्टाफ आपकी अगली अपॉइंटमेंट की पुष्टि करेगा',
+        pendingCount: '{{count}} कियोस्क पर कतार में',
+        pendingTooltip: 'कनेक्शन वापस आने पर ये चेक-इन अपने आप भेज दिए जाएंगे',
+        failedCount: '{{count}} पर स्टाफ का ध्यान आवश्यक',
+        failedTooltip: 'कतार में रखे ये चेक-इन किसी अपॉइंटमेंट से मेल नहीं खा सके - कृपया स्टाफ से संपर्क करें'
+      },
+      completion: {
+        saving: 'आपका चेक-इन सहेजा जा रहा है…',
+        saved: 'चेक-इन सहेजा गया',
+        errorTitle: 'हम आपका चेक-इन सहेज नहीं सके',
+        errorDescription: 'कृपया किसी स्टाफ सदस्य से मिलें ताकि वे आपकी विज़िट दर्ज कर सकें।',
+        retry: 'फिर से प्रयास करें'
+      },
+      idle: {
+        title: 'क्या आप अभी भी यहाँ हैं?',
+        description: 'आपकी गोपनीयता के लिए, यह चेक-इन {{count}} सेकंड में मिटा दिया जाएगा।',
+        stillHere: 'मैं अभी भी यहाँ हूँ'
+      },
+      appointmentMatch: {
+        title: 'आपकी अपॉइंटमेंट कौन सी है?',
+        description: 'आपकी जानकारी से एक से अधिक अपॉइंटमेंट मेल खाती हैं। कृपया अपनी अपॉइंटमेंट चुनें।',
+        appointmentAt: '{{time}} बजे अपॉइंटमेंट',
+        notMe: 'इनमें से कोई भी मैं नहीं हूँ'
+      },
+      upcomingAppointment: {
+        title: 'आज कोई अपॉइंटमेंट नहीं है',
+        description: 'आपकी अगली अपॉइंटमेंट {{date}} को है।',
+        descriptionWithTime: 'आपकी अगली अपॉइंटमेंट {{date}} को {{time}} बजे है।',
+        help: 'कृपया उस दिन वापस आएं। यदि आपको आज भोजन की आवश्यकता है, तो कोई स्टाफ सदस्य आपकी मदद कर सकता है।',
+        done: 'हो गया'
+      },
+      nameMatch: {
+        title: 'क्या यह आपकी अपॉइंटमेंट है?',
+        description: 'हमें इस फ़ोन नंबर के लिए एक अपॉइंटमेंट मिली है, जिसमें उपनाम की वर्तनी थोड़ी अलग है।',
+        confirm: 'हाँ, यह मैं हूँ',
+        reject: 'नहीं, वापस जाएँ'
+      },
+      slotPicker: {
+        previousMonth: 'पिछला महीना',
+        nextMonth: 'अगला महीना',
+        loadError: 'उपलब्ध अपॉइंटमेंट लोड नहीं हो सकीं। कृपया फिर से प्रयास करें।',
+        retry: 'फिर से प्रयास करें',
+        closed: 'बंद',
+        fullyBooked: 'पूरी तरह बुक',
+        full: 'भरा हुआ',
+        placesLeft: '{{capacity}} में से {{remaining}} बाकी',
+        noTimes: 'इस दिन कोई समय उपलब्ध नहीं है।'
+      },
+      appointmentSave: {
+        title: 'अपनी अपॉइंटमेंट सहेजें',
+        addToCalendar: 'कैलेंडर में जोड़ें',
+        downloadCard: 'अपॉइंटमेंट कार्ड डाउनलोड करें',
+        calendarTitle: 'फूड बैंक अपॉइंटमेंट',
+        cardHeading: 'आपकी अगली अपॉइंटमेंट',
+        cardNote: 'अपनी अपॉइंटमेंट की याद के लिए यह कार्ड रखें।',
+        defaultOrganization: 'फूड बैंक',
+        cardError: 'अपॉइंटमेंट कार्ड नहीं बन सका। कृपया पुनः प्रयास करें।'
+      },
+      reminders: {
+        title: 'अपॉइंटमेंट रिमाइंडर',
+        subtitle: 'क्या आप अपनी अगली अपॉइंटमेंट से पहले रिमाइंडर चाहते हैं? यह चरण वैकल्पिक है।',
+        sms: 'टेक्स्ट संदेश',
+        smsDescription: 'हम आपके फ़ोन पर संदेश भेजेंगे',
+        email: 'ईमेल',
+        emailDescription: 'हम आपको ईमेल भेजेंगे',
+        none: 'कोई रिमाइंडर नहीं',
+        noneDescription: 'मैं खुद याद रखूँगा/रखूँगी',
+        emailLabel: 'ईमेल पता',
+        carrierLabel: 'फ़ोन कंपनी',
+        carrierPlaceholder: 'अपनी फ़ोन कंपनी चुनें',
+        carrierOther: 'अन्य',
+        consent: 'रिमाइंडर चुनकर, आप सहमति देते हैं कि फूड बैंक आपकी अपॉइंटमेंट के बारे में आपसे संपर्क कर सकता है। हम आपकी संपर्क जानकारी का उपयोग केवल रिमाइंडर के लिए करते हैं। आप किसी भी समय स्टाफ सदस्य से कहकर इन्हें बंद कर सकते हैं। संदेश और डेटा शुल्क लागू हो सकते हैं।',
+        skip: 'छोड़ें',
+        errors: {
+          emailRequired: 'ईमेल पता आवश्यक है',
+          emailInvalid: 'कृपया एक मान्य ईमेल पता दर्ज करें',
+          carrierRequired: 'कृपया अपनी फ़ोन कंपनी चुनें'
+        }
+      },
+      helpStatus: {
+        title: 'आपका सहायता अनुरोध',
+        reference: 'संदर्भ',
+        statusLabel: 'स्थिति',
+        status: {
+          pending: 'सहायता का अनुरोध किया गया',
+          in_progress: 'स्टाफ आ रहा है',
+          resolved: 'हल हो गया',
+          cancelled: 'रद्द किया गया'
+        },
+        description: {
+          pending: 'हमें आपका अनुरोध मिल गया है। एक स्टाफ सदस्य जल्द ही आपके पास आएगा।',
+          in_progress: 'एक स्टाफ सदस्य आपकी सहायता के लिए आ रहा है।',
+          resolved: 'स्टाफ ने आपके अनुरोध को हल के रूप में चिह्नित किया है।',
+          cancelled: 'आपने यह अनुरोध रद्द कर दिया है।'
+        },
+        followUpPlaceholder: 'स्टाफ के लिए और जानकारी जोड़ें...',
+        sendFollowUp: 'भेजें',
+        cancel: 'अनुरोध रद्द करें',
+        dismiss: 'बंद करें',
+        followUpSent: 'आपका संदेश स्टाफ को भेज दिया गया',
+        updateFailed: 'आपका अनुरोध अपडेट नहीं हो सका। कृपया पुनः प्रयास करें।',
+        sentWithReference: 'हमें आपका अनुरोध मिल गया है। आपका संदर्भ {{reference}} है।'
+      },
+      organization: {
+        address: 'पता',
+        hours: 'खुलने का समय',
+      },
+      household: {
+        title: 'आपका परिवार',
+        subtitle: 'कृपया जाँचें कि आपके परिवार के सदस्यों की जानकारी अद्यतित है',
+        currentTitle: 'आपके रिकॉर्ड में',
+        adults: 'वयस्क',
+        adultsHint: '18 से 64 वर्ष',
+        seniors: 'वरिष्ठ नागरिक',
+        seniorsHint: '65 वर्ष और अधिक',
+        children: 'बच्चे',
+        childrenHint: '18 वर्ष से कम',
+        childrensAges: 'बच्चों की उम्र',
+        notOnFile: 'रिकॉर्ड में नहीं',
+        confirmCorrect: 'हाँ, यह सही है',
+        somethingChanged: 'कुछ बदल गया है',
+        editTitle: 'अब आपके परिवार में कौन रहता है?',
+        decrease: '{{label}} कम करें',
+        increase: '{{label}} बढ़ाएँ',
+        childAge: 'बच्चे {{number}} की उम्र',
+        noteLabel: 'क्या स्टाफ को कुछ जानना चाहिए? (वैकल्पिक)',
+        notePlaceholder: 'उदाहरण: नया बच्चा, कोई आया या गया',
+        reviewNotice: 'आपका रिकॉर्ड अपडेट करने से पहले स्टाफ आपके बदलावों की समीक्षा करेगा। आपका चेक-इन सामान्य रूप से जारी रहेगा।',
+        errors: {
+          atLeastOne: 'कृपया अपने परिवार में कम से कम एक व्यक्ति शामिल करें',
+          ageRequired: 'कृपया हर बच्चे की उम्र दर्ज करें',
+          ageInvalid: 'हर बच्चे की उम्र 0 से {{max}} के बीच की संख्या होनी चाहिए'
+        }
+      },
+      privacy: {
+        title: 'आपकी गोपनीयता',
+        subtitle: 'चेक-इन करने से पहले कृपया पढ़ें कि हम आपकी जानकारी का उपयोग कैसे करते हैं',
+        notice: 'हम आपका नाम, फ़ोन नंबर, परिवार की जानकारी और आपके अनुरोध इसलिए एकत्र करते हैं ताकि हम आपका चेक-इन कर सकें, आपका भोजन तैयार कर सकें और आपकी अगली अपॉइंटमेंट बुक कर सकें।\n\nयह जानकारी केवल फ़ूड बैंक के वे स्टाफ और स्वयंसेवक देख सकते हैं जो आपकी मदद करते हैं। हम इसे न बेचते हैं और न ही किसी और के साथ साझा करते हैं, जब तक कि कानून इसकी माँग न करे।\n\nचेक-इन की जानकारी 24 घंटे बाद अपने आप हटा दी जाती है। आप किसी भी समय स्टाफ सदस्य से अपनी जानकारी देखने, उसे सुधारने या अपनी सहमति वापस लेने के लिए कह सकते हैं।',
+        version: 'गोपनीयता सूचना संस्करण {{version}}',
+        accept: 'मैं सहमत हूँ',
+        decline: 'मैं सहमत नहीं हूँ',
+        declinedTitle: 'कृपया स्टाफ सदस्य से मिलें',
+        declinedMessage: 'आप आज भी भोजन प्राप्त कर सकते हैं। स्टाफ सदस्य कियोस्क का उपयोग किए बिना फ्रंट डेस्क पर आपका चेक-इन करेगा।',
+        startOver: 'शुरुआत पर वापस जाएँ'
+      },
+      queue: {
+        ticket: 'आपका टिकट',
+        position: 'लाइन में आपका स्थान',
+        waitingCount: '{{count}} प्रतीक्षा में',
+        estimatedWait: 'अनुमानित प्रतीक्षा',
+        minutes: '{{count}} मिनट',
+        liveNotice: 'यह अपने आप अपडेट होता है। कृपया पास में रहें।',
+        refreshFailed: 'अभी अपडेट नहीं हो सका। हम कोशिश करते रहेंगे।',
+        enableNotifications: 'मुझे बुलाए जाने पर सूचित करें',
+        calledTitle: 'आपकी बारी है!',
+        calledMessage: 'टिकट {{ticket}} को बुलाया गया है। कृपया पिकअप डेस्क पर आएँ।'
       }
     }
   },
@@ -1270,7 +2125,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'تسجيل الحضور الأولي',
           specialRequests: 'الطلبات الخاصة',
+          household: 'الأسرة',
           appointmentDetails: 'تفاصيل الموعد',
+          reminders: 'التذكيرات',
           confirmation: 'التأكيد'
         }
       },
@@ -1371,7 +2228,16 @@ const resources = {
         other: 'طلبات أخرى',
         submit: 'إرسال',
         submitting: 'جاري الإرسال...',
-        selectedCount: 'تم اختيار {{count}}'
+        selectedCount: 'تم اختيار {{count}}',
+        categories: {
+          dietary: 'الاحتياجات الغذائية',
+          allergy: 'الحساسية',
+          baby_needs: 'احتياجات الأطفال',
+          hygiene: 'النظافة الشخصية',
+          pet_food: 'طعام الحيوانات الأليفة',
+        },
+        outOfStock: 'نفد المخزون اليوم',
+        details: 'التفاصيل'
       },
       confirmation: {
         title: 'تم تسجيل الحضور',
@@ -1418,6 +2284,166 @@ const resources = {
           hours: 'ساعات العمل',
           address: 'العنوان'
         }
+      },
+      offline: {
+        queuedTitle: 'تم حفظ تسجيل وصولك على هذا الجهاز',
+        queuedDescription: 'الاتصال غير متوفر حالياً. سيتم إرسال تسجيل وصولك إلى الموظفين تلقائياً فور عودة الاتصال. يرجى إبلاغ أحد الموظفين بوجودك.',
+        nextAppointmentPending: 'سيؤكد الموظفون موعدك القادم',
+        pendingCount: '{{count}} في قائمة الانتظار على الجهاز',
+        pendingTooltip: 'سيتم إرسال تسجيلات الوصول هذه تلقائياً عند عودة الاتصال',
+        failedCount: '{{count}} بحاجة إلى متابعة الموظفين',
+        failedTooltip: 'تعذّر ربط تسجيلات الوصول هذه بموعد - يرجى مراجعة الموظفين'
+      },
+      completion: {
+        saving: 'جارٍ حفظ تسجيل وصولك…',
+        saved: 'تم حفظ تسجيل الوصول',
+        errorTitle: 'لم نتمكن من حفظ تسجيل وصولك',
+        errorDescription: 'يرجى مراجعة أحد الموظفين لتسجيل زيارتك.',
+        retry: 'حاول مرة أخرى'
+      },
+      idle: {
+        title: 'هل ما زلت هنا؟',
+        description: 'حفاظًا على خصوصيتك، سيتم مسح تسجيل الوصول هذا خلال {{count}} ثانية.',
+        stillHere: 'ما زلت هنا'
+      },
+      appointmentMatch: {
+        title: 'أي موعد هو موعدك؟',
+        description: 'يطابق أكثر من موعد بياناتك. يرجى اختيار موعدك.',
+        appointmentAt: 'موعد في {{time}}',
+        notMe: 'لا أحد من هؤلاء هو أنا'
+      },
+      upcomingAppointment: {
+        title: 'لا يوجد موعد اليوم',
+        description: 'موعدك القادم في {{date}}.',
+        descriptionWithTime: 'موعدك القادم في {{date}} الساعة {{time}}.',
+        help: 'يرجى العودة في ذلك اليوم. إذا كنت بحاجة إلى طعام اليوم، يمكن لأحد الموظفين مساعدتك.',
+        done: 'تم'
+      },
+      nameMatch: {
+        title: 'هل هذا موعدك؟',
+        description: 'وجدنا موعدًا لرقم الهاتف هذا باسم عائلة مكتوب بشكل مختلف قليلًا.',
+        confirm: 'نعم، هذا أنا',
+        reject: 'لا، العودة'
+      },
+      slotPicker: {
+        previousMonth: 'الشهر السابق',
+        nextMonth: 'الشهر التالي',
+        loadError: 'تعذّر تحميل المواعيد المتاحة. يرجى المحاولة مرة أخرى.',
+        retry: 'إعادة المحاولة',
+        closed: 'مغلق',
+        fullyBooked: 'محجوز بالكامل',
+        full: 'ممتلئ',
+        placesLeft: 'متبقٍ {{remaining}} من {{capacity}}',
+        noTimes: 'لا توجد أوقات متاحة في هذا اليوم.'
+      },
+      appointmentSave: {
+        title: 'احفظ موعدك',
+        addToCalendar: 'أضف إلى التقويم',
+        downloadCard: 'تنزيل بطاقة الموعد',
+        calendarTitle: 'موعد بنك الطعام',
+        cardHeading: 'موعدك القادم',
+        cardNote: 'احتفظ بهذه البطاقة لتذكيرك بموعدك.',
+        defaultOrganization: 'بنك الطعام',
+        cardError: 'تعذر إنشاء بطاقة الموعد. يرجى المحاولة مرة أخرى.'
+      },
+      reminders: {
+        title: 'تذكيرات المواعيد',
+        subtitle: 'هل ترغب في تلقي تذكير قبل موعدك القادم؟ هذه الخطوة اختيارية.',
+        sms: 'رسالة نصية',
+        smsDescription: 'سنرسل رسالة إلى هاتفك',
+        email: 'البريد الإلكتروني',
+        emailDescription: 'سنرسل لك بريدًا إلكترونيًا',
+        none: 'بدون تذكيرات',
+        noneDescription: 'سأتذكر بنفسي',
+        emailLabel: 'عنوان البريد الإلكتروني',
+        carrierLabel: 'شركة الهاتف',
+        carrierPlaceholder: 'اختر شركة الهاتف',
+        carrierOther: 'أخرى',
+        consent: 'باختيارك للتذكير، فإنك توافق على أن يتواصل معك بنك الطعام بشأن مواعيدك. نستخدم بيانات الاتصال الخاصة بك للتذكيرات فقط. يمكنك إيقافها في أي وقت بطلب ذلك من أحد الموظفين. قد يتم تطبيق رسوم الرسائل والبيانات.',
+        skip: 'تخطي',
+        errors: {
+          emailRequired: 'عنوان البريد الإلكتروني مطلوب',
+          emailInvalid: 'يرجى إدخال عنوان بريد إلكتروني صالح',
+          carrierRequired: 'يرجى اختيار شركة الهاتف'
+        }
+      },
+      helpStatus: {
+        title: 'طلب المساعدة الخاص بك',
+        reference: 'الرقم المرجعي',
+        statusLabel: 'الحالة',
+        status: {
+          pending: 'تم طلب المساعدة',
+          in_progress: 'الموظف في الطريق',
+          resolved: 'تم الحل',
+          cancelled: 'ملغى'
+        },
+        description: {
+          pending: 'لقد استلمنا طلبك. سيكون أحد الموظفين معك قريبًا.',
+          in_progress: 'أحد الموظفين قادم لمساعدتك.',
+          resolved: 'قام الموظفون بتحديد طلبك على أنه تم حله.',
+          cancelled: 'لقد ألغيت هذا الطلب.'
+        },
+        followUpPlaceholder: 'أضف المزيد من التفاصيل للموظفين...',
+        sendFollowUp: 'إرسال',
+        cancel: 'إلغاء الطلب',
+        dismiss: 'إغلاق',
+        followUpSent: 'تم إرسال رسالتك إلى الموظفين',
+        updateFailed: 'تعذر تحديث طلبك. يرجى المحاولة مرة أخرى.',
+        sentWithReference: 'لقد استلمنا طلبك. رقمك المرجعي هو {{reference}}.'
+      },
+      organization: {
+        address: 'العنوان',
+        hours: 'ساعات العمل',
+      },
+      household: {
+        title: 'أسرتك',
+        subtitle: 'يرجى التحقق من أن معلومات أفراد أسرتك محدثة',
+        currentTitle: 'في سجلك',
+        adults: 'البالغون',
+        adultsHint: 'من 18 إلى 64 سنة',
+        seniors: 'كبار السن',
+        seniorsHint: '65 سنة فأكثر',
+        children: 'الأطفال',
+        childrenHint: 'أقل من 18 سنة',
+        childrensAges: 'أعمار الأطفال',
+        notOnFile: 'غير مسجل',
+        confirmCorrect: 'نعم، هذا صحيح',
+        somethingChanged: 'تغير شيء ما',
+        editTitle: 'من يعيش في أسرتك الآن؟',
+        decrease: 'تقليل {{label}}',
+        increase: 'زيادة {{label}}',
+        childAge: 'عمر الطفل {{number}}',
+        noteLabel: 'هل هناك ما يجب أن يعرفه الموظفون؟ (اختياري)',
+        notePlaceholder: 'على سبيل المثال: مولود جديد، أو انتقال شخص إلى المنزل أو منه',
+        reviewNotice: 'سيراجع الموظفون تغييراتك قبل تحديث سجلك. سيستمر تسجيل وصولك كالمعتاد.',
+        errors: {
+          atLeastOne: 'يرجى إضافة شخص واحد على الأقل في أسرتك',
+          ageRequired: 'يرجى إدخال عمر كل طفل',
+          ageInvalid: 'يجب أن يكون عمر كل طفل رقمًا من 0 إلى {{max}}'
+        }
+      },
+      privacy: {
+        title: 'خصوصيتك',
+        subtitle: 'يرجى قراءة كيفية استخدامنا لمعلوماتك قبل تسجيل الوصول',
+        notice: 'نجمع اسمك ورقم هاتفك ومعلومات أسرتك والطلبات التي تقدمها حتى نتمكن من تسجيل وصولك وتجهيز طعامك وحجز موعدك القادم.\n\nلا يمكن الاطلاع على هذه المعلومات إلا لموظفي ومتطوعي بنك الطعام الذين يساعدونك. نحن لا نبيعها ولا نشاركها مع أي جهة أخرى إلا إذا طلب القانون ذلك.\n\nتُحذف بيانات تسجيل الوصول تلقائيًا بعد 24 ساعة. يمكنك في أي وقت أن تطلب من أحد الموظفين الاطلاع على المعلومات التي نحتفظ بها عنك أو تصحيحها أو سحب موافقتك.',
+        version: 'إصدار إشعار الخصوصية {{version}}',
+        accept: 'أوافق',
+        decline: 'لا أوافق',
+        declinedTitle: 'يرجى مراجعة أحد الموظفين',
+        declinedMessage: 'لا يزال بإمكانك الحصول على الطعام اليوم. سيقوم أحد الموظفين بتسجيل وصولك في مكتب الاستقبال دون استخدام الجهاز.',
+        startOver: 'العودة إلى البداية'
+      },
+      queue: {
+        ticket: 'رقم تذكرتك',
+        position: 'مكانك في الطابور',
+        waitingCount: '{{count}} في الانتظار',
+        estimatedWait: 'الانتظار المتوقع',
+        minutes: '{{count}} دقيقة',
+        liveNotice: 'يتم تحديث هذه المعلومات تلقائيًا. يرجى البقاء بالقرب.',
+        refreshFailed: 'تعذر التحديث الآن. سنواصل المحاولة.',
+        enableNotifications: 'أعلمني عند المناداة علي',
+        calledTitle: 'حان دورك!',
+        calledMessage: 'تمت المناداة على التذكرة {{ticket}}. يرجى التوجه إلى مكتب الاستلام.'
       }
     }
   },
@@ -1501,7 +2527,9 @@ const resources = {
         progressSteps: {
           initialCheckIn: 'ਸ਼ੁਰੂਆਤੀ ਚੈਕ-ਇਨ',
           specialRequests: 'ਵਿਸ਼ੇਸ਼ ਬੇਨਤੀਆਂ',
+          household: 'ਪਰਿਵਾਰ',
           appointmentDetails: 'ਮੁਲਾਕਾਤ ਦੇ ਵੇਰਵੇ',
+          reminders: 'ਰੀਮਾਈਂਡਰ',
           confirmation: 'ਪੁਸ਼ਟੀ'
         }
       },
@@ -1536,7 +2564,7 @@ const resources = {
         tryAgain: 'ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
         checkingIn: 'ਚੈਕ-ਇਨ ਹੋ ਰਿਹਾ ਹੈ...',
         appointmentNotFoundTitle: 'ਮੁਲਾਕਾਤ ਨਹੀਂ ਮਿਲੀ',
-        appointmentNotFoundDescription: 'ਤੁਹਾਡੀ ਮੁਲਾਕਾਤ ਲੱਭਣ ਵਿੱਚ ਗਲਤੀ ਆਈ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ (250) 763-7161 \'ਤੇ ਕਾਲ ਕਰੋ ਜਾਂ ਇੱਕ ਵਾਲੰਟੀਅਰ ਦੀ ਮਦਦ ਲਈ ਆਪਣੀ ਕਾਰ ਵਿੱਚ ਇੰਤਜ਼ਾਰ ਕਰੋ।'
+        appointmentNotFoundDescription: 'ਤੁਹਾਡੀ ਮੁਲਾਕਾਤ ਲੱਭਣ ਵਿੱਚ ਗਲਤੀ ਆਈ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ {{phone}} \'ਤੇ ਕਾਲ ਕਰੋ ਜਾਂ ਇੱਕ ਵਾਲੰਟੀਅਰ ਦੀ ਮਦਦ ਲਈ ਆਪਣੀ ਕਾਰ ਵਿੱਚ ਇੰਤਜ਼ਾਰ ਕਰੋ।'
       },
       validation: {
         error: 'ਫਾਰਮ ਗਲਤੀ',
@@ -1558,7 +2586,7 @@ const resources = {
         continue: 'ਜਾਰੀ ਰੱਖੋ',
         importantNotice: 'ਮਹੱਤਵਪੂਰਨ ਨੋਟਿਸ',
         highVolumeNotice: 'ਉੱਚ ਮੰਗ ਦੇ ਕਾਰਨ, ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੇ ਨਿਰਧਾਰਿਤ ਸਮੇਂ \'ਤੇ ਪਹੁੰਚੋ। ਜਲਦੀ ਪਹੁੰਚਣ ਵਾਲੇ ਲੋਕਾਂ ਨੂੰ ਵਾਪਸ ਆਉਣ ਲਈ ਕਿਹਾ ਜਾ ਸਕਦਾ ਹੈ।',
-        rescheduleInstructions: 'ਜੇ ਤੁਹਾਨੂੰ ਦੁਬਾਰਾ ਸ਼ੈਡਿਊਲ ਕਰਨਾ ਹੈ, ਤਾਂ ਕਿਰਪਾ ਕਰਕੇ 250-763-7161 \'ਤੇ ਕਾਲ ਕਰੋ।',
+        rescheduleInstructions: 'ਜੇ ਤੁਹਾਨੂੰ ਦੁਬਾਰਾ ਸ਼ੈਡਿਊਲ ਕਰਨਾ ਹੈ, ਤਾਂ ਕਿਰਪਾ ਕਰਕੇ {{phone}} \'ਤੇ ਕਾਲ ਕਰੋ।',
         rescheduleButton: 'ਦੁਬਾਰਾ ਸ਼ੈਡਿਊਲ',
         rescheduleModalTitle: 'ਮੁਲਾਕਾਤ ਦੁਬਾਰਾ ਸ਼ੈਡਿਊਲ ਕਰੋ',
         rescheduleModalCurrent: 'ਮੌਜੂਦਾ ਮੁਲਾਕਾਤ',
@@ -1602,7 +2630,16 @@ const resources = {
         other: 'ਹੋਰ ਬੇਨਤੀਆਂ',
         submit: 'ਜਮ੍ਹਾ ਕਰੋ',
         submitting: 'ਜਮ੍ਹਾ ਹੋ ਰਿਹਾ ਹੈ...',
-        selectedCount: '{{count}} ਚੁਣੇ ਗਏ'
+        selectedCount: '{{count}} ਚੁਣੇ ਗਏ',
+        categories: {
+          dietary: 'ਖੁਰਾਕ ਸੰਬੰਧੀ ਲੋੜਾਂ',
+          allergy: 'ਐਲਰਜੀ',
+          baby_needs: 'ਬੱਚੇ ਦੀਆਂ ਲੋੜਾਂ',
+          hygiene: 'ਸਫਾਈ',
+          pet_food: 'ਪਾਲਤੂ ਜਾਨਵਰਾਂ ਦਾ ਭੋਜਨ',
+        },
+        outOfStock: 'ਅੱਜ ਸਟਾਕ ਖਤਮ',
+        details: 'ਵੇਰਵੇ'
       },
       confirmation: {
         title: 'ਚੈਕ-ਇਨ ਪੂਰਾ ਹੋਇਆ',
@@ -1612,7 +2649,7 @@ const resources = {
         finish: 'ਹੋ ਗਿਆ',
         importantInfo: 'ਮਹੱਤਵਪੂਰਨ ਜਾਣਕਾਰੀ',
         arrivalInstructions: 'ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੇ ਨਿਰਧਾਰਿਤ ਸਮੇਂ \'ਤੇ ਪਹੁੰਚੋ। ਉੱਚ ਮੰਗ ਦੇ ਕਾਰਨ, ਜਲਦੀ ਪਹੁੰਚਣ ਵਾਲੇ ਲੋਕਾਂ ਨੂੰ ਵਾਪਸ ਆਉਣ ਲਈ ਕਿਹਾ ਜਾ ਸਕਦਾ ਹੈ।',
-        lateInstructions: 'ਦੇਰ ਹੋ ਰਹੀ ਹੈ? ਮਦਦ ਲਈ 250-763-7161 \'ਤੇ ਕਾਲ ਕਰੋ।',
+        lateInstructions: 'ਦੇਰ ਹੋ ਰਹੀ ਹੈ? ਮਦਦ ਲਈ {{phone}} \'ਤੇ ਕਾਲ ਕਰੋ।',
         yourPreferences: 'ਤੁਹਾਡੀਆਂ ਪਸੰਦਾਂ',
         dietaryPreferencesLabel: 'ਖੁਰਾਕ ਪਸੰਦਾਂ',
         householdInformationLabel: 'ਪਰਿਵਾਰਕ ਜਾਣਕਾਰੀ',
@@ -1625,7 +2662,7 @@ const resources = {
         noAllergiesNoted: 'ਕੋਈ ਐਲਰਜੀ ਨੋਟ ਨਹੀਂ ਕੀਤੀ ਗਈ',
         noUnwantedFoodsNoted: 'ਕੋਈ ਨਾਪਸੰਦ ਭੋਜਨ ਨੋਟ ਨਹੀਂ ਕੀਤਾ ਗਿਆ',
         noSpecialRequests: 'ਕੋਈ ਵਿਸ਼ੇਸ਼ ਬੇਨਤੀ ਨਹੀਂ',
-        contactInstructions: 'ਜੇ ਤੁਹਾਡੇ ਕੋਈ ਸਵਾਲ ਹਨ ਜਾਂ ਤਬਦੀਲੀਆਂ ਕਰਨੀਆਂ ਹਨ, ਤਾਂ ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ 250-763-7161 \'ਤੇ ਕਾਲ ਕਰੋ।'
+        contactInstructions: 'ਜੇ ਤੁਹਾਡੇ ਕੋਈ ਸਵਾਲ ਹਨ ਜਾਂ ਤਬਦੀਲੀਆਂ ਕਰਨੀਆਂ ਹਨ, ਤਾਂ ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ {{phone}} \'ਤੇ ਕਾਲ ਕਰੋ।'
       },
       assistance: {
         title: 'ਮਦਦ ਚਾਹੀਦੀ ਹੈ?',
@@ -1640,7 +2677,7 @@ const resources = {
         emailSubject: 'ਫੂਡ ਬੈਂਕ ਮਦਦ ਬੇਨਤੀ',
         emailBody: 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ, ਮੈਨੂੰ ਆਪਣੇ ਫੂਡ ਬੈਂਕ ਚੈਕ-ਇਨ ਵਿੱਚ ਮਦਦ ਚਾਹੀਦੀ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਮੇਰੀ ਮਦਦ ਕਰੋ:',
         phoneCopied: 'ਫੋਨ ਨੰਬਰ ਕਲਿਪਬੋਰਡ ਵਿੱਚ ਕਾਪੀ ਹੋ ਗਿਆ! ਤੁਸੀਂ ਹੁਣ ਇਸਨੂੰ ਆਪਣੇ ਫੋਨ ਐਪ ਵਿੱਚ ਪੇਸਟ ਕਰ ਸਕਦੇ ਹੋ ਜਾਂ ਸਿੱਧੇ ਡਾਇਲ ਕਰ ਸਕਦੇ ਹੋ।',
-        phoneFallback: 'ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ 250-763-7161 \'ਤੇ ਕਾਲ ਕਰੋ। ਜਾਂ ਇਸ ਨੰਬਰ ਨੂੰ ਆਪਣੇ ਫੋਨ ਵਿੱਚ ਕਾਪੀ ਕਰੋ।',
+        phoneFallback: 'ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ {{phone}} \'ਤੇ ਕਾਲ ਕਰੋ। ਜਾਂ ਇਸ ਨੰਬਰ ਨੂੰ ਆਪਣੇ ਫੋਨ ਵਿੱਚ ਕਾਪੀ ਕਰੋ।',
         emailCopied: 'ਈਮੇਲ ਵੇਰਵੇ ਕਲਿਪਬੋਰਡ ਵਿੱਚ ਕਾਪੀ ਹੋ ਗਏ! ਤੁਸੀਂ ਹੁਣ ਇਸਨੂੰ ਆਪਣੇ ਈਮੇਲ ਐਪ ਵਿੱਚ ਪੇਸਟ ਕਰ ਸਕਦੇ ਹੋ।',
         emailFallback: 'ਕਿਰਪਾ ਕਰਕੇ ਸਾਨੂੰ info@cofoodbank.com \'ਤੇ ਈਮੇਲ ਕਰੋ। ਇਸ ਜਾਣਕਾਰੀ ਨੂੰ ਆਪਣੇ ਈਮੇਲ ਐਪ ਵਿੱਚ ਕਾਪੀ ਕਰੋ।',
         contactInfo: {
@@ -1649,6 +2686,166 @@ const resources = {
           hours: 'ਸਮਾਂ',
           address: 'ਪਤਾ'
         }
+      },
+      offline: {
+        queuedTitle: 'ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਇਸ ਕਿਓਸਕ \'ਤੇ ਸੁਰੱਖਿਅਤ ਹੈ',
+        queuedDescription: 'ਇਸ ਸਮੇਂ ਕਨੈਕਸ਼ਨ ਉਪਲਬਧ ਨਹੀਂ ਹੈ। ਕਨੈਕਸ਼ਨ ਵਾਪਸ ਆਉਂਦੇ ਹੀ ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਆਪਣੇ ਆਪ ਸਟਾਫ ਨੂੰ ਭੇਜ ਦਿੱਤਾ ਜਾਵੇਗਾ। ਕਿਰਪਾ ਕਰਕੇ ਕਿਸੇ ਸਟਾਫ ਮੈਂਬਰ ਨੂੰ ਦੱਸੋ ਕਿ ਤੁਸੀਂ ਇੱਥੇ ਹੋ।',
+        nextAppointmentPending: 'ਸਟਾਫ ਤੁਹਾਡੀ ਅਗਲੀ ਮੁਲਾਕਾਤ ਦੀ ਪੁਸ਼ਟੀ ਕਰੇਗਾ',
+        pendingCount: '{{count}} ਕਿਓਸਕ \'ਤੇ ਕਤਾਰ ਵਿੱਚ',
+        pendingTooltip: 'ਕਨੈਕਸ਼ਨ ਵਾਪਸ ਆਉਣ \'ਤੇ ਇਹ ਚੈੱਕ-ਇਨ ਆਪਣੇ ਆਪ ਭੇਜ ਦਿੱਤੇ ਜਾਣਗੇ',
+        failedCount: '{{count}} ਲਈ ਸਟਾਫ ਦਾ ਧਿਆਨ ਲੋੜੀਂਦਾ ਹੈ',
+        failedTooltip: 'ਕਤਾਰ ਵਿੱਚ ਇਹ ਚੈੱਕ-ਇਨ ਕਿਸੇ ਮੁਲਾਕਾਤ ਨਾਲ ਮੇਲ ਨਹੀਂ ਖਾ ਸਕੇ - ਕਿਰਪਾ ਕਰਕੇ ਸਟਾਫ ਨਾਲ ਗੱਲ ਕਰੋ'
+      },
+      completion: {
+        saving: 'ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਸੁਰੱਖਿਅਤ ਕੀਤਾ ਜਾ ਰਿਹਾ ਹੈ…',
+        saved: 'ਚੈੱਕ-ਇਨ ਸੁਰੱਖਿਅਤ ਹੋ ਗਿਆ',
+        errorTitle: 'ਅਸੀਂ ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਸੁਰੱਖਿਅਤ ਨਹੀਂ ਕਰ ਸਕੇ',
+        errorDescription: 'ਕਿਰਪਾ ਕਰਕੇ ਕਿਸੇ ਸਟਾਫ ਮੈਂਬਰ ਨੂੰ ਮਿਲੋ ਤਾਂ ਜੋ ਉਹ ਤੁਹਾਡੀ ਫੇਰੀ ਦਰਜ ਕਰ ਸਕਣ।',
+        retry: 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ'
+      },
+      idle: {
+        title: 'ਕੀ ਤੁਸੀਂ ਅਜੇ ਵੀ ਇੱਥੇ ਹੋ?',
+        description: 'ਤੁਹਾਡੀ ਨਿੱਜਤਾ ਲਈ, ਇਹ ਚੈੱਕ-ਇਨ {{count}} ਸਕਿੰਟਾਂ ਵਿੱਚ ਮਿਟਾ ਦਿੱਤਾ ਜਾਵੇਗਾ।',
+        stillHere: 'ਮੈਂ ਅਜੇ ਵੀ ਇੱਥੇ ਹਾਂ'
+      },
+      appointmentMatch: {
+        title: 'ਤੁਹਾਡੀ ਮੁਲਾਕਾਤ ਕਿਹੜੀ ਹੈ?',
+        description: 'ਤੁਹਾਡੇ ਵੇਰਵਿਆਂ ਨਾਲ ਇੱਕ ਤੋਂ ਵੱਧ ਮੁਲਾਕਾਤਾਂ ਮੇਲ ਖਾਂਦੀਆਂ ਹਨ। ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੀ ਚੁਣੋ।',
+        appointmentAt: '{{time}} ਵਜੇ ਮੁਲਾਕਾਤ',
+        notMe: 'ਇਹਨਾਂ ਵਿੱਚੋਂ ਕੋਈ ਵੀ ਮੈਂ ਨਹੀਂ ਹਾਂ'
+      },
+      upcomingAppointment: {
+        title: 'ਅੱਜ ਕੋਈ ਮੁਲਾਕਾਤ ਨਹੀਂ',
+        description: 'ਤੁਹਾਡੀ ਅਗਲੀ ਮੁਲਾਕਾਤ {{date}} ਨੂੰ ਹੈ।',
+        descriptionWithTime: 'ਤੁਹਾਡੀ ਅਗਲੀ ਮੁਲਾਕਾਤ {{date}} ਨੂੰ {{time}} ਵਜੇ ਹੈ।',
+        help: 'ਕਿਰਪਾ ਕਰਕੇ ਉਸ ਦਿਨ ਵਾਪਸ ਆਓ। ਜੇ ਤੁਹਾਨੂੰ ਅੱਜ ਭੋਜਨ ਦੀ ਲੋੜ ਹੈ, ਤਾਂ ਕੋਈ ਸਟਾਫ ਮੈਂਬਰ ਮਦਦ ਕਰ ਸਕਦਾ ਹੈ।',
+        done: 'ਹੋ ਗਿਆ'
+      },
+      nameMatch: {
+        title: 'ਕੀ ਇਹ ਤੁਹਾਡੀ ਮੁਲਾਕਾਤ ਹੈ?',
+        description: 'ਸਾਨੂੰ ਇਸ ਫ਼ੋਨ ਨੰਬਰ ਲਈ ਇੱਕ ਮੁਲਾਕਾਤ ਮਿਲੀ ਹੈ, ਜਿਸ ਵਿੱਚ ਉਪਨਾਮ ਦੇ ਸ਼ਬਦ-ਜੋੜ ਥੋੜ੍ਹੇ ਵੱਖਰੇ ਹਨ।',
+        confirm: 'ਹਾਂ, ਇਹ ਮੈਂ ਹਾਂ',
+        reject: 'ਨਹੀਂ, ਵਾਪਸ ਜਾਓ'
+      },
+      slotPicker: {
+        previousMonth: 'ਪਿਛਲਾ ਮਹੀਨਾ',
+        nextMonth: 'ਅਗਲਾ ਮਹੀਨਾ',
+        loadError: 'ਉਪਲਬਧ ਮੁਲਾਕਾਤਾਂ ਲੋਡ ਨਹੀਂ ਹੋ ਸਕੀਆਂ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+        retry: 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
+        closed: 'ਬੰਦ',
+        fullyBooked: 'ਪੂਰੀ ਤਰ੍ਹਾਂ ਬੁੱਕ',
+        full: 'ਭਰਿਆ ਹੋਇਆ',
+        placesLeft: '{{capacity}} ਵਿੱਚੋਂ {{remaining}} ਬਾਕੀ',
+        noTimes: 'ਇਸ ਦਿਨ ਕੋਈ ਸਮਾਂ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।'
+      },
+      appointmentSave: {
+        title: 'ਆਪਣੀ ਅਪਾਇੰਟਮੈਂਟ ਸੰਭਾਲੋ',
+        addToCalendar: 'ਕੈਲੰਡਰ ਵਿੱਚ ਸ਼ਾਮਲ ਕਰੋ',
+        downloadCard: 'ਅਪਾਇੰਟਮੈਂਟ ਕਾਰਡ ਡਾਊਨਲੋਡ ਕਰੋ',
+        calendarTitle: 'ਫੂਡ ਬੈਂਕ ਅਪਾਇੰਟਮੈਂਟ',
+        cardHeading: 'ਤੁਹਾਡੀ ਅਗਲੀ ਅਪਾਇੰਟਮੈਂਟ',
+        cardNote: 'ਆਪਣੀ ਅਪਾਇੰਟਮੈਂਟ ਦੀ ਯਾਦ ਲਈ ਇਹ ਕਾਰਡ ਰੱਖੋ।',
+        defaultOrganization: 'ਫੂਡ ਬੈਂਕ',
+        cardError: 'ਅਪਾਇੰਟਮੈਂਟ ਕਾਰਡ ਨਹੀਂ ਬਣ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।'
+      },
+      reminders: {
+        title: 'ਅਪਾਇੰਟਮੈਂਟ ਰੀਮਾਈਂਡਰ',
+        subtitle: 'ਕੀ ਤੁਸੀਂ ਆਪਣੀ ਅਗਲੀ ਅਪਾਇੰਟਮੈਂਟ ਤੋਂ ਪਹਿਲਾਂ ਰੀਮਾਈਂਡਰ ਚਾਹੁੰਦੇ ਹੋ? ਇਹ ਕਦਮ ਵਿਕਲਪਿਕ ਹੈ।',
+        sms: 'ਟੈਕਸਟ ਸੁਨੇਹਾ',
+        smsDescription: 'ਅਸੀਂ ਤੁਹਾਡੇ ਫ਼ੋਨ ਤੇ ਸੁਨੇਹਾ ਭੇਜਾਂਗੇ',
+        email: 'ਈਮੇਲ',
+        emailDescription: 'ਅਸੀਂ ਤੁਹਾਨੂੰ ਈਮੇਲ ਭੇਜਾਂਗੇ',
+        none: 'ਕੋਈ ਰੀਮਾਈਂਡਰ ਨਹੀਂ',
+        noneDescription: 'ਮੈਂ ਆਪ ਯਾਦ ਰੱਖਾਂਗਾ/ਰੱਖਾਂਗੀ',
+        emailLabel: 'ਈਮੇਲ ਪਤਾ',
+        carrierLabel: 'ਫ਼ੋਨ ਕੰਪਨੀ',
+        carrierPlaceholder: 'ਆਪਣੀ ਫ਼ੋਨ ਕੰਪਨੀ ਚੁਣੋ',
+        carrierOther: 'ਹੋਰ',
+        consent: 'ਰੀਮਾਈਂਡਰ ਚੁਣ ਕੇ, ਤੁਸੀਂ ਸਹਿਮਤ ਹੁੰਦੇ ਹੋ ਕਿ ਫੂਡ ਬੈਂਕ ਤੁਹਾਡੀਆਂ ਅਪਾਇੰਟਮੈਂਟਾਂ ਬਾਰੇ ਤੁਹਾਡੇ ਨਾਲ ਸੰਪਰਕ ਕਰ ਸਕਦਾ ਹੈ। ਅਸੀਂ ਤੁਹਾਡੀ ਸੰਪਰਕ ਜਾਣਕਾਰੀ ਸਿਰਫ਼ ਰੀਮਾਈਂਡਰਾਂ ਲਈ ਵਰਤਦੇ ਹਾਂ। ਤੁਸੀਂ ਕਿਸੇ ਵੀ ਸਮੇਂ ਸਟਾਫ਼ ਮੈਂਬਰ ਨੂੰ ਕਹਿ ਕੇ ਇਹਨਾਂ ਨੂੰ ਬੰਦ ਕਰ ਸਕਦੇ ਹੋ। ਸੁਨੇਹੇ ਅਤੇ ਡਾਟਾ ਖਰਚੇ ਲਾਗੂ ਹੋ ਸਕਦੇ ਹਨ।',
+        skip: 'ਛੱਡੋ',
+        errors: {
+          emailRequired: 'ਈਮੇਲ ਪਤਾ ਲੋੜੀਂਦਾ ਹੈ',
+          emailInvalid: 'ਕਿਰਪਾ ਕਰਕੇ ਇੱਕ ਵੈਧ ਈਮੇਲ ਪਤਾ ਦਰਜ ਕਰੋ',
+          carrierRequired: 'ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੀ ਫ਼ੋਨ ਕੰਪਨੀ ਚੁਣੋ'
+        }
+      },
+      helpStatus: {
+        title: 'ਤੁਹਾਡੀ ਮਦਦ ਦੀ ਬੇਨਤੀ',
+        reference: 'ਹਵਾਲਾ',
+        statusLabel: 'ਸਥਿਤੀ',
+        status: {
+          pending: 'ਮਦਦ ਦੀ ਬੇਨਤੀ ਕੀਤੀ',
+          in_progress: 'ਸਟਾਫ਼ ਆ ਰਿਹਾ ਹੈ',
+          resolved: 'ਹੱਲ ਹੋ ਗਿਆ',
+          cancelled: 'ਰੱਦ ਕੀਤਾ'
+        },
+        description: {
+          pending: 'ਸਾਨੂੰ ਤੁਹਾਡੀ ਬੇਨਤੀ ਮਿਲ ਗਈ ਹੈ। ਇੱਕ ਸਟਾਫ਼ ਮੈਂਬਰ ਜਲਦੀ ਤੁਹਾਡੇ ਕੋਲ ਆਵੇਗਾ।',
+          in_progress: 'ਇੱਕ ਸਟਾਫ਼ ਮੈਂਬਰ ਤੁਹਾਡੀ ਮਦਦ ਲਈ ਆ ਰਿਹਾ ਹੈ।',
+          resolved: 'ਸਟਾਫ਼ ਨੇ ਤੁਹਾਡੀ ਬੇਨਤੀ ਨੂੰ ਹੱਲ ਹੋਈ ਵਜੋਂ ਚਿੰਨ੍ਹਿਤ ਕੀਤਾ ਹੈ।',
+          cancelled: 'ਤੁਸੀਂ ਇਹ ਬੇਨਤੀ ਰੱਦ ਕਰ ਦਿੱਤੀ ਹੈ।'
+        },
+        followUpPlaceholder: 'ਸਟਾਫ਼ ਲਈ ਹੋਰ ਵੇਰਵੇ ਸ਼ਾਮਲ ਕਰੋ...',
+        sendFollowUp: 'ਭੇਜੋ',
+        cancel: 'ਬੇਨਤੀ ਰੱਦ ਕਰੋ',
+        dismiss: 'ਬੰਦ ਕਰੋ',
+        followUpSent: 'ਤੁਹਾਡਾ ਸੁਨੇਹਾ ਸਟਾਫ਼ ਨੂੰ ਭੇਜ ਦਿੱਤਾ ਗਿਆ',
+        updateFailed: 'ਤੁਹਾਡੀ ਬੇਨਤੀ ਅੱਪਡੇਟ ਨਹੀਂ ਹੋ ਸਕੀ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+        sentWithReference: 'ਸਾਨੂੰ ਤੁਹਾਡੀ ਬੇਨਤੀ ਮਿਲ ਗਈ ਹੈ। ਤੁਹਾਡਾ ਹਵਾਲਾ {{reference}} ਹੈ।'
+      },
+      organization: {
+        address: 'ਪਤਾ',
+        hours: 'ਖੁੱਲ੍ਹਣ ਦਾ ਸਮਾਂ',
+      },
+      household: {
+        title: 'ਤੁਹਾਡਾ ਪਰਿਵਾਰ',
+        subtitle: 'ਕਿਰਪਾ ਕਰਕੇ ਜਾਂਚ ਕਰੋ ਕਿ ਤੁਹਾਡੇ ਪਰਿਵਾਰ ਦੇ ਮੈਂਬਰਾਂ ਦੀ ਜਾਣਕਾਰੀ ਅੱਪ ਟੂ ਡੇਟ ਹੈ',
+        currentTitle: 'ਤੁਹਾਡੇ ਰਿਕਾਰਡ ਵਿੱਚ',
+        adults: 'ਬਾਲਗ',
+        adultsHint: '18 ਤੋਂ 64 ਸਾਲ',
+        seniors: 'ਬਜ਼ੁਰਗ',
+        seniorsHint: '65 ਸਾਲ ਅਤੇ ਵੱਧ',
+        children: 'ਬੱਚੇ',
+        childrenHint: '18 ਸਾਲ ਤੋਂ ਘੱਟ',
+        childrensAges: 'ਬੱਚਿਆਂ ਦੀ ਉਮਰ',
+        notOnFile: 'ਰਿਕਾਰਡ ਵਿੱਚ ਨਹੀਂ',
+        confirmCorrect: 'ਹਾਂ, ਇਹ ਸਹੀ ਹੈ',
+        somethingChanged: 'ਕੁਝ ਬਦਲ ਗਿਆ ਹੈ',
+        editTitle: 'ਹੁਣ ਤੁਹਾਡੇ ਪਰਿਵਾਰ ਵਿੱਚ ਕੌਣ ਰਹਿੰਦਾ ਹੈ?',
+        decrease: '{{label}} ਘਟਾਓ',
+        increase: '{{label}} ਵਧਾਓ',
+        childAge: 'ਬੱਚੇ {{number}} ਦੀ ਉਮਰ',
+        noteLabel: 'ਕੀ ਸਟਾਫ ਨੂੰ ਕੁਝ ਪਤਾ ਹੋਣਾ ਚਾਹੀਦਾ ਹੈ? (ਵਿਕਲਪਿਕ)',
+        notePlaceholder: 'ਉਦਾਹਰਨ ਲਈ: ਨਵਾਂ ਬੱਚਾ, ਕੋਈ ਆਇਆ ਜਾਂ ਗਿਆ',
+        reviewNotice: 'ਤੁਹਾਡਾ ਰਿਕਾਰਡ ਅੱਪਡੇਟ ਕਰਨ ਤੋਂ ਪਹਿਲਾਂ ਸਟਾਫ ਤੁਹਾਡੀਆਂ ਤਬਦੀਲੀਆਂ ਦੀ ਸਮੀਖਿਆ ਕਰੇਗਾ। ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਆਮ ਵਾਂਗ ਜਾਰੀ ਰਹੇਗਾ।',
+        errors: {
+          atLeastOne: 'ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੇ ਪਰਿਵਾਰ ਵਿੱਚ ਘੱਟੋ-ਘੱਟ ਇੱਕ ਵਿਅਕਤੀ ਸ਼ਾਮਲ ਕਰੋ',
+          ageRequired: 'ਕਿਰਪਾ ਕਰਕੇ ਹਰ ਬੱਚੇ ਦੀ ਉਮਰ ਦਰਜ ਕਰੋ',
+          ageInvalid: 'ਹਰ ਬੱਚੇ ਦੀ ਉਮਰ 0 ਤੋਂ {{max}} ਤੱਕ ਦਾ ਨੰਬਰ ਹੋਣੀ ਚਾਹੀਦੀ ਹੈ'
+        }
+      },
+      privacy: {
+        title: 'ਤੁਹਾਡੀ ਗੋਪਨੀਯਤਾ',
+        subtitle: 'ਚੈੱਕ-ਇਨ ਕਰਨ ਤੋਂ ਪਹਿਲਾਂ ਕਿਰਪਾ ਕਰਕੇ ਪੜ੍ਹੋ ਕਿ ਅਸੀਂ ਤੁਹਾਡੀ ਜਾਣਕਾਰੀ ਦੀ ਵਰਤੋਂ ਕਿਵੇਂ ਕਰਦੇ ਹਾਂ',
+        notice: 'ਅਸੀਂ ਤੁਹਾਡਾ ਨਾਮ, ਫ਼ੋਨ ਨੰਬਰ, ਪਰਿਵਾਰ ਦੀ ਜਾਣਕਾਰੀ ਅਤੇ ਤੁਹਾਡੀਆਂ ਬੇਨਤੀਆਂ ਇਸ ਲਈ ਇਕੱਠੀਆਂ ਕਰਦੇ ਹਾਂ ਤਾਂ ਜੋ ਅਸੀਂ ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਕਰ ਸਕੀਏ, ਤੁਹਾਡਾ ਭੋਜਨ ਤਿਆਰ ਕਰ ਸਕੀਏ ਅਤੇ ਤੁਹਾਡੀ ਅਗਲੀ ਅਪਾਇੰਟਮੈਂਟ ਬੁੱਕ ਕਰ ਸਕੀਏ।\n\nਇਹ ਜਾਣਕਾਰੀ ਸਿਰਫ਼ ਫੂਡ ਬੈਂਕ ਦੇ ਉਹ ਸਟਾਫ਼ ਅਤੇ ਵਲੰਟੀਅਰ ਵੇਖ ਸਕਦੇ ਹਨ ਜੋ ਤੁਹਾਡੀ ਮਦਦ ਕਰਦੇ ਹਨ। ਅਸੀਂ ਇਸਨੂੰ ਨਾ ਵੇਚਦੇ ਹਾਂ ਅਤੇ ਨਾ ਹੀ ਕਿਸੇ ਹੋਰ ਨਾਲ ਸਾਂਝਾ ਕਰਦੇ ਹਾਂ, ਜਦੋਂ ਤੱਕ ਕਾਨੂੰਨ ਇਸਦੀ ਮੰਗ ਨਾ ਕਰੇ।\n\nਚੈੱਕ-ਇਨ ਦੀ ਜਾਣਕਾਰੀ 24 ਘੰਟਿਆਂ ਬਾਅਦ ਆਪਣੇ ਆਪ ਮਿਟਾ ਦਿੱਤੀ ਜਾਂਦੀ ਹੈ। ਤੁਸੀਂ ਕਿਸੇ ਵੀ ਸਮੇਂ ਸਟਾਫ਼ ਮੈਂਬਰ ਨੂੰ ਆਪਣੀ ਜਾਣਕਾਰੀ ਵੇਖਣ, ਉਸਨੂੰ ਠੀਕ ਕਰਨ ਜਾਂ ਆਪਣੀ ਸਹਿਮਤੀ ਵਾਪਸ ਲੈਣ ਲਈ ਕਹਿ ਸਕਦੇ ਹੋ।',
+        version: 'ਗੋਪਨੀਯਤਾ ਨੋਟਿਸ ਸੰਸਕਰਣ {{version}}',
+        accept: 'ਮੈਂ ਸਹਿਮਤ ਹਾਂ',
+        decline: 'ਮੈਂ ਸਹਿਮਤ ਨਹੀਂ ਹਾਂ',
+        declinedTitle: 'ਕਿਰਪਾ ਕਰਕੇ ਸਟਾਫ਼ ਮੈਂਬਰ ਨੂੰ ਮਿਲੋ',
+        declinedMessage: 'ਤੁਸੀਂ ਅੱਜ ਵੀ ਭੋਜਨ ਲੈ ਸਕਦੇ ਹੋ। ਸਟਾਫ਼ ਮੈਂਬਰ ਕਿਓਸਕ ਦੀ ਵਰਤੋਂ ਕੀਤੇ ਬਿਨਾਂ ਫਰੰਟ ਡੈਸਕ ਤੇ ਤੁਹਾਡਾ ਚੈੱਕ-ਇਨ ਕਰੇਗਾ।',
+        startOver: 'ਸ਼ੁਰੂਆਤ ਤੇ ਵਾਪਸ ਜਾਓ'
+      },
+      queue: {
+        ticket: 'ਤੁਹਾਡੀ ਟਿਕਟ',
+        position: 'ਲਾਈਨ ਵਿੱਚ ਤੁਹਾਡੀ ਥਾਂ',
+        waitingCount: '{{count}} ਉਡੀਕ ਵਿੱਚ',
+        estimatedWait: 'ਅੰਦਾਜ਼ਨ ਉਡੀਕ',
+        minutes: '{{count}} ਮਿੰਟ',
+        liveNotice: 'ਇਹ ਆਪਣੇ ਆਪ ਅੱਪਡੇਟ ਹੁੰਦਾ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਨੇੜੇ ਰਹੋ।',
+        refreshFailed: 'ਹੁਣੇ ਅੱਪਡੇਟ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਅਸੀਂ ਕੋਸ਼ਿਸ਼ ਕਰਦੇ ਰਹਾਂਗੇ।',
+        enableNotifications: 'ਜਦੋਂ ਮੈਨੂੰ ਬੁਲਾਇਆ ਜਾਵੇ ਤਾਂ ਸੂਚਿਤ ਕਰੋ',
+        calledTitle: 'ਤੁਹਾਡੀ ਵਾਰੀ ਹੈ!',
+        calledMessage: 'ਟਿਕਟ {{ticket}} ਨੂੰ ਬੁਲਾਇਆ ਗਿਆ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਪਿਕਅੱਪ ਡੈਸਕ ਤੇ ਆਓ।'
       }
     }
   }
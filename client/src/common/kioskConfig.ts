@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Kiosk mode configuration for Foodbank Check-In and Appointment System client
+ *
+ * This module reads the kiosk settings from the environment. In kiosk mode the
+ * check-in flow is reset after a period of inactivity, so a client who walks
+ * away does not leave their details on the shared screen.
+ *
+ * Environment variables:
+ * - VITE_KIOSK_MODE: set to 'false' to disable the inactivity reset (default on)
+ * - VITE_KIOSK_IDLE_TIMEOUT_SECONDS: inactivity before the flow is reset (default 90)
+ * - VITE_KIOSK_IDLE_WARNING_SECONDS: length of the "Are you still there?" countdown (default 20)
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-06
+ * @license Proprietary - see LICENSE file for details
+ */
+
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 90;
+const DEFAULT_IDLE_WARNING_SECONDS = 20;
+
+const readSeconds = (value: string | undefined, fallback: number): number => {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : fallback;
+};
+
+export const isKioskMode = (): boolean => {
+  return import.meta.env.VITE_KIOSK_MODE !== 'false';
+};
+
+// Total inactivity (in ms) before the flow is reset, countdown included
+export const getIdleTimeoutMs = (): number => {
+  return readSeconds(import.meta.env.VITE_KIOSK_IDLE_TIMEOUT_SECONDS, DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000;
+};
+
+// Length of the countdown (in ms) shown before the reset - never longer than the timeout
+export const getIdleWarningMs = (): number => {
+  const warningMs = readSeconds(import.meta.env.VITE_KIOSK_IDLE_WARNING_SECONDS, DEFAULT_IDLE_WARNING_SECONDS) * 1000;
+  return Math.min(warningMs, getIdleTimeoutMs());
+};
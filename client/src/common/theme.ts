@@ -5,6 +5,10 @@
  * check-in application. The theme ensures consistency with the admin panel
  * while maintaining accessibility and professional appearance.
  * 
+ * The primary and accent colors come from the organization profile, so each
+ * food bank running the app sees its own branding; the default export uses
+ * the built-in colors.
+ * 
  * @author Lindsey D. Stead
  * @version 1.0.0
  * @since 2025-10-20
@@ -15,13 +19,67 @@
  */
 
 import { extendTheme, type ThemeConfig } from '@chakra-ui/react'
+import type { OrganizationColors } from './types/Organization'
 
 const config: ThemeConfig = {
   initialColorMode: 'light',
   useSystemColorMode: false,
 }
 
-const theme = extendTheme({
+// Hand-tuned shades of the default accent color
+const DEFAULT_BRAND_SCALE = {
+  50: '#E6F3F5',
+  100: '#C2E1E6',
+  200: '#9DCFD7',
+  300: '#79BDC8',
+  400: '#55ABB9',
+  500: '#2B7B8C', // Primary brand color (blue)
+  600: '#236270',
+  700: '#1B4A54',
+  800: '#123138',
+  900: '#09191C',
+}
+
+const DEFAULT_COLORS: OrganizationColors = {
+  primary: '#25385D',
+  accent: DEFAULT_BRAND_SCALE[500],
+}
+
+// Mix a #RRGGBB color with white (amount > 0) or black (amount < 0)
+const mix = (hex: string, amount: number): string => {
+  const target = amount > 0 ? 255 : 0
+  const weight = Math.abs(amount)
+  const channels = [1, 3, 5].map((i) => {
+    const value = parseInt(hex.slice(i, i + 2), 16)
+    return Math.round(value + (target - value) * weight).toString(16).padStart(2, '0')
+  })
+  return `#${channels.join('')}`.toUpperCase()
+}
+
+// Shades 50-900 around an organization's accent color (500)
+const brandScale = (accent: string) => {
+  if (accent.toUpperCase() === DEFAULT_BRAND_SCALE[500]) {
+    return DEFAULT_BRAND_SCALE
+  }
+  return {
+    50: mix(accent, 0.9),
+    100: mix(accent, 0.75),
+    200: mix(accent, 0.6),
+    300: mix(accent, 0.45),
+    400: mix(accent, 0.25),
+    500: accent,
+    600: mix(accent, -0.2),
+    700: mix(accent, -0.4),
+    800: mix(accent, -0.6),
+    900: mix(accent, -0.8),
+  }
+}
+
+/**
+ * Build the theme with an organization's brand colors
+ * @see {@link ../lib/organizationProfile.ts} Organization profile
+ */
+export const createTheme = (colors: OrganizationColors = DEFAULT_COLORS) => extendTheme({
   config,
   colors: {
     cofb: {
@@ -31,18 +89,7 @@ const theme = extendTheme({
       orange: '#F4A261',
       coral: '#E76F51',
     },
-    brand: {
-      50: '#E6F3F5',
-      100: '#C2E1E6',
-      200: '#9DCFD7',
-      300: '#79BDC8',
-      400: '#55ABB9',
-      500: '#2B7B8C', // Primary brand color (blue)
-      600: '#236270',
-      700: '#1B4A54',
-      800: '#123138',
-      900: '#09191C',
-    },
+    brand: brandScale(colors.accent),
     accent: {
       green: {
         50: '#F2F6EF',
@@ -79,7 +126,7 @@ const theme = extendTheme({
     },
     // Client-specific colors matching admin panel
     client: {
-      primary: '#25385D', // Primary button color
+      primary: colors.primary, // Primary button color
       success: '#48BB78',
       warning: '#ED8936',
       error: '#F56565',
@@ -159,7 +206,7 @@ const theme = extendTheme({
         // Primary button styles matching admin panel
         primary: {
           size: { base: "md", md: "lg" },
-          bg: "#25385D",
+          bg: 'client.primary',
           color: "white",
           height: { base: "48px", md: "56px" },
           fontSize: { base: "md", md: "lg" },
@@ -169,22 +216,22 @@ const theme = extendTheme({
           minW: { base: "100%", md: "280px" },
           px: { base: 4, md: 6 },
           _hover: {
-            bg: "#25385D",
+            bg: 'client.primary',
             opacity: 0.9,
             transform: 'translateY(-2px)',
             boxShadow: 'md',
           },
           _active: {
-            bg: "#25385D",
+            bg: 'client.primary',
             opacity: 0.8,
             transform: 'translateY(0)'
           },
           _disabled: {
-            bg: "#25385D",
+            bg: 'client.primary',
             opacity: 0.6,
             cursor: "not-allowed",
             _hover: {
-              bg: "#25385D",
+              bg: 'client.primary',
               opacity: 0.6,
               transform: 'none',
               boxShadow: 'none'
@@ -223,7 +270,7 @@ const theme = extendTheme({
           height: { base: "48px", md: "56px" },
           borderRadius: "md",
           borderColor: "#E2E8F0",
-          color: "#25385D",
+          color: 'client.primary',
           fontSize: { base: "md", md: "lg" },
           fontWeight: "500",
           width: { base: "100%", md: "auto" },
@@ -474,4 +521,6 @@ const theme = extendTheme({
   },
 })
 
+const theme = createTheme()
+
 export default theme 
\ No newline at end of file
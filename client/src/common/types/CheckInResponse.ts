@@ -18,6 +18,32 @@ export interface CheckInResponse {
   message: string;
   data?: any;
   error?: string | { message: string; code?: string };
+  // Several of today's appointments match the phone number and last name
+  matches?: AppointmentMatch[];
+  // No appointment today, but the client has one coming up
+  upcomingAppointment?: UpcomingAppointment;
+  // The entered last name is only a close variant of the one on record; the
+  // backend never sends the recorded name, so the client confirms without seeing it
+  nameMatch?: 'close';
+}
+
+/**
+ * One of several appointments matching the same phone number and last name.
+ * The backend masks the client's identity - only the first initial is sent.
+ */
+export interface AppointmentMatch {
+  appointmentId: string;
+  initial: string;
+  // HH:MM (24-hour)
+  appointmentTime: string;
+  program?: string;
+}
+
+export interface UpcomingAppointment {
+  // YYYY-MM-DD
+  date: string;
+  // HH:MM (24-hour)
+  time?: string;
 }
 
 export interface CheckInFormData {
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Type definitions for the CSV records sent with a check-in in Foodbank Check-In and Appointment System client application
+ *
+ * When the backend matches a check-in it also sends the uploaded CSV data for
+ * the appointment and the client. Only the columns the check-in flow reads
+ * are typed here; CSV values may arrive as strings or numbers depending on
+ * the upload, and any column can be missing.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-05
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/flowStore.ts} Check-in flow store
+ */
+
+export interface AppointmentRecord {
+  householdSize?: number | string;
+  provisions?: string;
+}
+
+export interface ClientRecord {
+  firstName?: string;
+  lastName?: string;
+  fullName?: string;
+  dietary?: string;
+  // Household counts on the record
+  adults?: number | string;
+  seniors?: number | string;
+  children?: number | string;
+  // Older uploads use childrenAges
+  childrensAges?: string;
+  childrenAges?: string;
+}
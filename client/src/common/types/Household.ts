@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Type definitions for household composition in Foodbank Check-In and Appointment System client application
+ *
+ * This module defines the household counts kept on a client's record and the
+ * update a client can propose on the household step of the check-in. A
+ * proposal does not change the record: staff approve or reject it in the
+ * admin panel first.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-16
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../pages/HouseholdReview.tsx} Household step
+ */
+
+export interface HouseholdComposition {
+  // 18 to 64
+  adults: number;
+  // 65 and over
+  seniors: number;
+  // Under 18
+  children: number;
+  // Ages of the children, e.g. "5, 7, 12"
+  childrensAges: string;
+}
+
+export interface HouseholdUpdate {
+  // What the record said when the client reviewed it
+  current: HouseholdComposition;
+  // Undefined when the client confirmed the record is still correct
+  proposed?: HouseholdComposition;
+  note?: string;
+  reviewedAt: string;
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Type definitions for the organization profile in Foodbank Check-In and Appointment System client application
+ *
+ * This module defines the organization profile that the client app renders
+ * its contact details and branding from: the food bank's name, phone number,
+ * address, opening hours, logo and brand colors. Each food bank running the
+ * kiosk serves its own profile from the backend. The hours, slot length and
+ * rebooking interval are the operating hours staff set in the admin panel.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-14
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/organizationProfile.ts} Profile loading and caching
+ */
+
+export interface OrganizationPhone {
+  // Shown to clients, e.g. "(250) 763-7161"
+  display: string;
+  // Digits used for tel: links, e.g. "2507637161"
+  dial: string;
+}
+
+export interface OrganizationHours {
+  // 0 = Sunday ... 6 = Saturday
+  day: number;
+  // HH:MM (24-hour)
+  open: string;
+  close: string;
+}
+
+export interface OrganizationColors {
+  // Buttons, selected options and page titles
+  primary: string;
+  // Headings, links and outlines; lighter and darker shades are derived from it
+  accent: string;
+}
+
+export interface OrganizationProfile {
+  // Undefined when not configured - callers fall back to a translated default
+  name?: string;
+  phone?: OrganizationPhone;
+  address?: string;
+  // Days not listed are closed; a day can have several periods
+  hours: OrganizationHours[];
+  // Length of one appointment slot in minutes
+  slotMinutes: number;
+  // Days after a visit before the next appointment can be booked
+  rebookIntervalDays: number;
+  // Undefined uses the logo bundled with the app
+  logoUrl?: string;
+  colors: OrganizationColors;
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Type definitions for privacy consent in Foodbank Check-In and Appointment System client application
+ *
+ * This module defines the privacy notice clients accept before checking in
+ * and the consent recorded with the check-in. Every edit an admin publishes
+ * gets a new version number, so a consent always points at the exact text
+ * the client saw.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/privacyNotice.ts} Notice loading and caching
+ * @see {@link ../../pages/PrivacyConsent.tsx} Consent page
+ */
+
+import type { LocalizedText } from './SpecialRequests';
+
+export interface PrivacyNotice {
+  // Increases with every published edit
+  version: number;
+  publishedAt?: string;
+  // Notice text by language code ('en' is always present)
+  text: LocalizedText;
+}
+
+export interface PrivacyConsent {
+  version: number;
+  acceptedAt: string;
+  // Language the notice was shown in
+  language: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview Type definitions for the pickup queue in Foodbank Check-In and Appointment System client application
+ *
+ * This module defines the queue status a checked-in client sees on the
+ * Confirmation page: their ticket, their place among the clients waiting
+ * today, and whether staff have called them.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-18
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/queueStatus.ts} Queue status loading
+ * @see {@link ../../components/ui/QueueStatusCard.tsx} Queue status card
+ */
+
+// waiting: checked in and Pending; called: staff called the ticket; done: served, or no longer in the queue
+export type QueueState = 'waiting' | 'called' | 'done';
+
+export interface QueueStatus {
+  state: QueueState;
+  ticketNumber?: string;
+  // 1 is next; null when not waiting
+  position: number | null;
+  // Checked-in Pending clients, including this one
+  waitingCount: number;
+  // Wait times (minutes) of clients served recently, newest first
+  recentWaitTimes: number[];
+  calledAt?: string | null;
+  updatedAt: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Type definitions for the special-request catalog in Foodbank Check-In and Appointment System client application
+ *
+ * This module defines the request options staff manage from the admin
+ * Settings page (dietary needs, allergies, baby needs, hygiene items and pet
+ * food) and the selections a client submits. Option IDs are stable so
+ * reports can count requests across label changes and languages.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-15
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/requestCatalog.ts} Catalog loading and caching
+ * @see {@link ../../pages/SpecialRequests.tsx} Special requests page
+ */
+
+export type RequestOptionCategory = 'dietary' | 'allergy' | 'baby_needs' | 'hygiene' | 'pet_food';
+
+// Icons staff can choose from; mapped to icon components by the page
+export type RequestOptionIcon =
+  | 'carrot'
+  | 'leaf'
+  | 'bread'
+  | 'noFood'
+  | 'mosque'
+  | 'synagogue'
+  | 'allergy'
+  | 'peanut'
+  | 'egg'
+  | 'fish'
+  | 'cheese'
+  | 'baby'
+  | 'soap'
+  | 'tooth'
+  | 'paw'
+  | 'apple';
+
+// Text in several languages, keyed by language code ('en' is always present)
+export type LocalizedText = Record<string, string>;
+
+export interface RequestOption {
+  // Stable identifier used in submissions and reports, e.g. "vegetarian"
+  id: string;
+  category: RequestOptionCategory;
+  labels: LocalizedText;
+  icon: RequestOptionIcon;
+  // Ask the client for a detail when selected, e.g. diaper size
+  detailPrompt?: LocalizedText;
+  // YYYY-MM-DD, inclusive; open-ended when not set
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  // Selections allowed per day; null means unlimited
+  stockLimit?: number | null;
+  // Selections left today, set by the backend when there is a stock limit
+  remaining?: number | null;
+  sortOrder: number;
+}
+
+export interface RequestSelection {
+  optionId: string;
+  category: RequestOptionCategory;
+  detail?: string;
+}
@@ -3,7 +3,8 @@
  * 
  * This component provides an assistance request button for clients
  * who need help during the check-in process. It handles
- * assistance requests and contact functionality.
+ * assistance requests and contact functionality. Sent requests are
+ * followed by the help request status chip.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -11,6 +12,7 @@
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../PrimaryButton.tsx} Primary button component
+ * @see {@link ../ui/HelpRequestStatusChip.tsx} Help request status chip
  */
 
 import React, { useState, useEffect } from 'react';
@@ -40,7 +42,9 @@ import {
 } from '@chakra-ui/react';
 import { FiHelpCircle, FiPhone, FiUser, FiPhone as FiPhoneIcon, FiInfo } from 'react-icons/fi';
 import { useTranslation } from 'react-i18next';
-import { getHelpRequestUrl } from '../../common/apiConfig';
+import { submitHelpRequest } from '../../lib/helpRequests';
+import { useOrganizationProfile } from '../../hooks/useOrganizationProfile';
+import OrganizationContactDetails from '../ui/OrganizationContactDetails';
 
 interface AssistanceButtonProps extends ButtonProps {
   onClick?: () => void;
@@ -58,6 +62,7 @@ const AssistanceButton: React.FC<AssistanceButtonProps> = ({
   const { t } = useTranslation();
   const toast = useToast();
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const organization = useOrganizationProfile();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     phoneNumber: '',
@@ -82,8 +87,9 @@ const AssistanceButton: React.FC<AssistanceButtonProps> = ({
   }, [hasExistingData, clientData]);
 
   const handleCall = () => {
-    const phoneNumber = '2507637161';
-    const formattedPhone = '(250) 763-7161';
+    if (!organization.phone) return;
+    const phoneNumber = organization.phone.dial;
+    const formattedPhone = organization.phone.display;
     
     // Check if it's a mobile device
     const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
@@ -164,26 +170,20 @@ const AssistanceButton: React.FC<AssistanceButtonProps> = ({
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(getHelpRequestUrl(), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          client_phone: formData.phoneNumber.trim(),
-          client_last_name: formData.lastName.trim(),
-          client_email: formData.email || null,
-          message: formData.message.trim(),
-          current_page: window.location.pathname,
-          has_existing_appointment: hasExistingData
-        })
+      const tracked = await submitHelpRequest({
+        client_phone: formData.phoneNumber.trim(),
+        client_last_name: formData.lastName.trim(),
+        client_email: formData.email || null,
+        message: formData.message.trim(),
+        current_page: window.location.pathname,
+        has_existing_appointment: !!hasExistingData
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to send help request');
-      }
-
       toast({
         title: 'Help Request Sent',
-        description: 'Your request for assistance has been submitted. A staff member will contact you shortly.',
+        description: tracked
+          ? t('helpStatus.sentWithReference', { reference: tracked.reference })
+          : 'Your request for assistance has been submitted. A staff member will contact you shortly.',
         status: "success",
         duration: 5000,
         isClosable: true,
@@ -584,31 +584,35 @@ const AssistanceButton: React.FC<AssistanceButtonProps> = ({
                     {t('assistance.send', 'Send Help Request')}
                   </Button>
                   
-                  <Divider borderColor="gray.200" />
-                  
-                  <Button
-                    variant="outline"
-                    onClick={handleCall}
-                    size="lg"
-                    height="48px"
-                    fontSize="md"
-                    fontWeight="600"
-                    borderRadius="lg"
-                    borderColor="gray.300"
-                    color="gray.700"
-                    bg="white"
-                    leftIcon={<FiPhone size={18} />}
-                    _hover={{
-                      bg: 'gray.50',
-                      borderColor: 'gray.400',
-                      transform: 'translateY(-1px)'
-                    }}
-                    _active={{
-                      transform: 'translateY(0)'
-                    }}
-                  >
-                    {t('assistance.call', 'Call Us Now')}
-                  </Button>
+                  {organization.phone && (
+                    <>
+                      <Divider borderColor="gray.200" />
+
+                      <Button
+                        variant="outline"
+                        onClick={handleCall}
+                        size="lg"
+                        height="48px"
+                        fontSize="md"
+                        fontWeight="600"
+                        borderRadius="lg"
+                        borderColor="gray.300"
+                        color="gray.700"
+                        bg="white"
+                        leftIcon={<FiPhone size={18} />}
+                        _hover={{
+                          bg: 'gray.50',
+                          borderColor: 'gray.400',
+                          transform: 'translateY(-1px)'
+                        }}
+                        _active={{
+                          transform: 'translateY(0)'
+                        }}
+                      >
+                        {t('assistance.call', 'Call Us Now')}: {organization.phone.display}
+                      </Button>
+                    </>
+                  )}
                 </VStack>
               </Box>
 
@@ -645,6 +649,8 @@ const AssistanceButton: React.FC<AssistanceButtonProps> = ({
                   </Text>
                 </VStack>
               </Box>
+
+              <OrganizationContactDetails />
             </VStack>
           </ModalBody>
         </ModalContent>
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Route guard for check-in flow pages in Foodbank Check-In and Appointment System client application
+ *
+ * This component only renders a flow page when the flow store holds a check-in
+ * the page can work with. Anyone landing on a later step directly (bookmark,
+ * refresh after the flow expired, browser history from a previous client) is
+ * sent back to the initial check-in step. A check-in queued on the kiosk while
+ * offline goes through the same steps as a confirmed one.
+ *
+ * Once the completion is saved or queued, every step redirects to the
+ * Confirmation page - going back must not change a visit already recorded.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-05
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/flowStore.ts} Check-in flow store
+ */
+
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { canContinueCheckIn, getCheckInInfo, isCheckInCompleted } from '../../lib/flowStore';
+
+interface FlowGuardProps {
+  children: React.ReactNode;
+}
+
+const FlowGuard: React.FC<FlowGuardProps> = ({ children }) => {
+  const location = useLocation();
+  const checkInInfo = getCheckInInfo();
+
+  if (!canContinueCheckIn(checkInInfo)) {
+    return <Navigate to="/initial-check-in" replace />;
+  }
+
+  if (isCheckInCompleted(checkInInfo) && location.pathname !== '/confirmation') {
+    return <Navigate to="/confirmation" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default FlowGuard;
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Kiosk inactivity reset for Foodbank Check-In and Appointment System client application
+ *
+ * This component watches for inactivity on every client route except the
+ * Landing page. After a period without activity it asks "Are you still there?"
+ * with a countdown; when the countdown runs out the check-in flow and any
+ * tracked help request are wiped and the kiosk returns to the Landing page
+ * for the next client.
+ *
+ * Must be rendered inside the Router.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-06
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../hooks/useIdleTimer.ts} Inactivity timer hook
+ * @see {@link ../../common/kioskConfig.ts} Kiosk mode configuration
+ */
+
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Circle,
+  Icon,
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FiClock } from 'react-icons/fi';
+import PrimaryButton from '../buttons/PrimaryButton';
+import { useIdleTimer } from '../../hooks/useIdleTimer';
+import { getIdleTimeoutMs, getIdleWarningMs, isKioskMode } from '../../common/kioskConfig';
+import { clearFlow } from '../../lib/flowStore';
+import { clearTrackedHelpRequest } from '../../lib/helpRequests';
+
+const KioskIdleReset: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { t } = useTranslation();
+
+  const { secondsLeft, isWarning, reset } = useIdleTimer({
+    timeoutMs: getIdleTimeoutMs(),
+    warningMs: getIdleWarningMs(),
+    enabled: isKioskMode() && location.pathname !== '/',
+    onTimeout: () => {
+      clearFlow();
+      clearTrackedHelpRequest();
+      navigate('/', { replace: true });
+    },
+  });
+
+  return (
+    <Modal isOpen={isWarning} onClose={reset} isCentered closeOnEsc closeOnOverlayClick>
+      <ModalOverlay />
+      <ModalContent borderRadius="2xl" boxShadow="2xl" p={6} mx={4}>
+        <ModalHeader textAlign="center" fontWeight="bold" fontSize="2xl" color="client.primary" pb={2}>
+          {t('idle.title')}
+        </ModalHeader>
+        <ModalBody>
+          <VStack spacing={4} align="center">
+            <Circle size="72px" bg="brand.100" color="client.primary" boxShadow="md">
+              <VStack spacing={0}>
+                <Icon as={FiClock} boxSize={5} />
+                <Text fontSize="xl" fontWeight="bold" aria-live="polite">
+                  {secondsLeft}
+                </Text>
+              </VStack>
+            </Circle>
+            <Box fontSize="md" color="gray.700" textAlign="center">
+              {t('idle.description', { count: secondsLeft ?? 0 })}
+            </Box>
+          </VStack>
+        </ModalBody>
+        <ModalFooter justifyContent="center">
+          <PrimaryButton onClick={reset} size="md">
+            {t('idle.stillHere')}
+          </PrimaryButton>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default KioskIdleReset;
@@ -25,7 +25,7 @@ const PageTitle: React.FC<PageTitleProps> = ({ children, ...props }) => {
     <Heading
       as="h1"
       fontSize={{ base: "2xl", sm: "2xl", md: "3xl", lg: "3xl" }}
-      color="#25385D"
+      color="client.primary"
       fontWeight="bold"
       letterSpacing="tight"
       lineHeight="shorter"
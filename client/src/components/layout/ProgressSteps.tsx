@@ -11,6 +11,7 @@
  * - Responsive design for mobile and desktop
  * - Active, completed, and pending states
  * - Internationalized step labels
+ * - Completed steps link back to their page (answers are kept in the flow store)
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -24,15 +25,20 @@ import React from 'react';
 import { Box, HStack, Text, Circle, VStack, useColorModeValue } from '@chakra-ui/react';
 import { FiCheck } from 'react-icons/fi';
 import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+
+// Route for each step, in order
+const STEP_ROUTES = ['/initial-check-in', '/special-requests', '/household', '/appointment-details', '/reminders', '/confirmation'];
 
 interface StepProps {
   label: string;
   isActive: boolean;
   isCompleted: boolean;
   stepNumber: number;
+  onSelect?: () => void;
 }
 
-const Step: React.FC<StepProps> = ({ label, isActive, isCompleted, stepNumber }) => {
+const Step: React.FC<StepProps> = ({ label, isActive, isCompleted, stepNumber, onSelect }) => {
   const activeColor = useColorModeValue('brand.500', 'brand.300');
   const completedColor = useColorModeValue('accent.green.300', 'accent.green.300');
   const inactiveColor = useColorModeValue('gray.300', 'gray.600');
@@ -43,7 +49,20 @@ const Step: React.FC<StepProps> = ({ label, isActive, isCompleted, stepNumber })
   const circleColor = isActive || isCompleted ? 'white' : textColor;
 
   return (
-    <Box position="relative" flex="1" minW={{ base: "50px", md: "80px" }} maxW={{ base: "80px", md: "none" }}>
+    <Box
+      position="relative"
+      flex="1"
+      minW={{ base: "50px", md: "80px" }}
+      maxW={{ base: "80px", md: "none" }}
+      {...(onSelect && {
+        as: 'button',
+        type: 'button',
+        onClick: onSelect,
+        cursor: 'pointer',
+        'aria-label': label,
+        _hover: { opacity: 0.8 },
+      })}
+    >
       <Box
         w={{ base: "80%", md: "full" }}
         h="2px"
@@ -94,14 +113,20 @@ const ProgressSteps: React.FC<ProgressStepsProps> = ({
   totalSteps
 }) => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   
   const translatedLabels = [
     t('navigation.progressSteps.initialCheckIn'),
     t('navigation.progressSteps.specialRequests'),
     t('navigation.progressSteps.appointmentDetails'),
+    t('navigation.progressSteps.reminders'),
     t('navigation.progressSteps.confirmation')
   ];
 
+  // Completed steps after the initial check-in can be revisited, until the visit is confirmed
+  const canRevisit = (index: number) =>
+    index > 0 && index < currentStep - 1 && currentStep < STEP_ROUTES.length;
+
   return (
     <Box w="full" py={{ base: 2, md: 4 }} px={{ base: 1, md: 4 }} bg="white" borderBottomWidth="1px" borderBottomColor="gray.100" position="relative" zIndex={10}>
       <HStack
@@ -132,6 +157,7 @@ const ProgressSteps: React.FC<ProgressStepsProps> = ({
             isActive={index === currentStep - 1}
             isCompleted={index < currentStep - 1}
             stepNumber={index + 1}
+            onSelect={canRevisit(index) ? () => navigate(STEP_ROUTES[index]) : undefined}
           />
         ))}
       </HStack>
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Appointment match list for Foodbank Check-In and Appointment System client application
+ *
+ * This component lets a client pick their own appointment when several of
+ * today's appointments match the same phone number and last name (households
+ * often share both). Each option only shows the first initial, the appointment
+ * time and the program, so other household members' details stay private.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-07
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../pages/InitialCheckIn.tsx} Initial check-in page
+ */
+
+import React from 'react';
+import { Box, Button, Circle, HStack, Text, VStack } from '@chakra-ui/react';
+import { FiClock } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { AppointmentMatch } from '../../common/types/CheckInResponse';
+import { formatTimeOfDay } from '../../../../shared/appointmentSlots';
+
+interface AppointmentMatchListProps {
+  matches: AppointmentMatch[];
+  onSelect: (match: AppointmentMatch) => void;
+  onCancel: () => void;
+  selectedId?: string | null;
+}
+
+const AppointmentMatchList: React.FC<AppointmentMatchListProps> = ({
+  matches,
+  onSelect,
+  onCancel,
+  selectedId,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <VStack spacing={4} align="stretch" w="full">
+      <Box textAlign="center">
+        <Text fontSize="lg" fontWeight="bold" color="client.primary">
+          {t('appointmentMatch.title')}
+        </Text>
+        <Text fontSize="sm" color="gray.600" mt={1}>
+          {t('appointmentMatch.description')}
+        </Text>
+      </Box>
+
+      <VStack spacing={3} align="stretch" role="list">
+        {matches.map((match) => (
+          <Button
+            key={match.appointmentId}
+            role="listitem"
+            onClick={() => onSelect(match)}
+            isLoading={selectedId === match.appointmentId}
+            isDisabled={!!selectedId && selectedId !== match.appointmentId}
+            variant="outline"
+            height="auto"
+            py={3}
+            px={4}
+            borderRadius="lg"
+            borderColor="gray.300"
+            justifyContent="flex-start"
+            _hover={{ bg: 'brand.50', borderColor: 'client.primary' }}
+          >
+            <HStack spacing={4} w="full">
+              <Circle size="40px" bg="client.primary" color="white" fontWeight="bold" fontSize="lg">
+                {/* Never show more than the initial, even if the backend sends more */}
+                {match.initial.trim().charAt(0).toUpperCase()}.
+              </Circle>
+              <VStack spacing={0} align="flex-start">
+                <HStack spacing={1} color="gray.800" fontWeight="600">
+                  <FiClock />
+                  <Text>{t('appointmentMatch.appointmentAt', { time: formatTimeOfDay(match.appointmentTime) })}</Text>
+                </HStack>
+                {match.program && (
+                  <Text fontSize="sm" color="gray.600" fontWeight="normal">
+                    {match.program}
+                  </Text>
+                )}
+              </VStack>
+            </HStack>
+          </Button>
+        ))}
+      </VStack>
+
+      <Button variant="ghost" onClick={onCancel} isDisabled={!!selectedId} color="gray.600">
+        {t('appointmentMatch.notMe')}
+      </Button>
+    </VStack>
+  );
+};
+
+export default AppointmentMatchList;
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Save-your-appointment options for Foodbank Check-In and Appointment System client application
+ *
+ * This component lets clients keep their next appointment after checking in:
+ * as a calendar entry (.ics) with a reminder the day before, or as a
+ * printable appointment card in their own language.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-11
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../utils/appointmentCalendar.ts} Calendar export
+ * @see {@link ../../utils/appointmentCard.ts} Appointment card image
+ */
+
+import React, { useState } from 'react';
+import { Button, Stack, Text, VStack, useToast } from '@chakra-ui/react';
+import { FiCalendar, FiDownload } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { downloadAppointmentIcs, downloadFile } from '../../utils/appointmentCalendar';
+import { renderAppointmentCard } from '../../utils/appointmentCard';
+import { useOrganizationProfile } from '../../hooks/useOrganizationProfile';
+
+interface AppointmentSaveOptionsProps {
+  start: Date;
+  // Stable identifier so saving the same appointment twice updates one calendar entry
+  uid: string;
+}
+
+const AppointmentSaveOptions: React.FC<AppointmentSaveOptionsProps> = ({ start, uid }) => {
+  const { t, i18n } = useTranslation();
+  const toast = useToast();
+  const [isCreatingCard, setIsCreatingCard] = useState(false);
+
+  const organization = useOrganizationProfile();
+  const organizationName = organization.name || t('appointmentSave.defaultOrganization');
+  const dateLabel = start.toLocaleDateString(i18n.language, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const timeLabel = start.toLocaleTimeString(i18n.language, { hour: 'numeric', minute: '2-digit' });
+
+  const handleAddToCalendar = () => {
+    downloadAppointmentIcs({
+      uid,
+      start,
+      durationMinutes: organization.slotMinutes,
+      title: `${t('appointmentSave.calendarTitle')} - ${organizationName}`,
+      description: t('confirmation.arrivalInstructions'),
+      location: organization.address,
+    });
+  };
+
+  const handleDownloadCard = async () => {
+    setIsCreatingCard(true);
+    try {
+      const card = await renderAppointmentCard({
+        organizationName,
+        heading: t('appointmentSave.cardHeading'),
+        date: dateLabel,
+        time: timeLabel,
+        address: organization.address,
+        phone: organization.phone?.display,
+        colors: organization.colors,
+        note: t('appointmentSave.cardNote'),
+        direction: i18n.dir(i18n.language),
+      });
+      downloadFile(card, 'food-bank-appointment.png');
+    } catch (error) {
+      console.error('Failed to create appointment card:', error);
+      toast({
+        title: t('appointmentSave.cardError'),
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setIsCreatingCard(false);
+    }
+  };
+
+  return (
+    <VStack spacing={2} w="full">
+      <Text fontSize="sm" fontWeight="600" color="gray.600" textAlign="center">
+        {t('appointmentSave.title')}
+      </Text>
+      <Stack direction={{ base: 'column', md: 'row' }} spacing={3} w="full" justify="center">
+        <Button
+          leftIcon={<FiCalendar />}
+          variant="outline"
+          size="sm"
+          borderColor="client.primary"
+          color="client.primary"
+          onClick={handleAddToCalendar}
+        >
+          {t('appointmentSave.addToCalendar')}
+        </Button>
+        <Button
+          leftIcon={<FiDownload />}
+          variant="outline"
+          size="sm"
+          borderColor="client.primary"
+          color="client.primary"
+          onClick={handleDownloadCard}
+          isLoading={isCreatingCard}
+        >
+          {t('appointmentSave.downloadCard')}
+        </Button>
+      </Stack>
+    </VStack>
+  );
+};
+
+export default AppointmentSaveOptions;
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Help request status chip for Foodbank Check-In and Appointment System client application
+ *
+ * This component shows the status of the help request sent from this device
+ * ("Received", "Staff on the way", "Resolved") and follows the status staff
+ * set in the admin panel. Tapping it shows the request reference and lets the
+ * client add a follow-up message or cancel the request.
+ *
+ * The status is checked every 10 seconds while the page is visible, until the
+ * request is resolved or cancelled.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-13
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/helpRequests.ts} Help request tracking
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverCloseButton,
+  PopoverContent,
+  PopoverHeader,
+  PopoverTrigger,
+  Text,
+  Textarea,
+  VStack,
+  useToast,
+} from '@chakra-ui/react';
+import { FiCheckCircle, FiClock, FiHelpCircle, FiUserCheck, FiXCircle } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import {
+  HelpRequestStatus,
+  TrackedHelpRequest,
+  cancelHelpRequest,
+  clearTrackedHelpRequest,
+  isFinalStatus,
+  refreshHelpRequestStatus,
+  sendHelpRequestFollowUp,
+  subscribeToHelpRequest,
+} from '../../lib/helpRequests';
+
+const POLL_INTERVAL_MS = 10000;
+
+const STATUS_STYLES: Record<HelpRequestStatus, { colorScheme: string; icon: React.ElementType }> = {
+  pending: { colorScheme: 'orange', icon: FiClock },
+  in_progress: { colorScheme: 'blue', icon: FiUserCheck },
+  resolved: { colorScheme: 'green', icon: FiCheckCircle },
+  cancelled: { colorScheme: 'gray', icon: FiXCircle },
+};
+
+const HelpRequestStatusChip: React.FC = () => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [request, setRequest] = useState<TrackedHelpRequest | null>(null);
+  const [followUp, setFollowUp] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  useEffect(() => subscribeToHelpRequest(setRequest), []);
+
+  const requestId = request?.id;
+  const isFinal = request ? isFinalStatus(request.status) : true;
+
+  // Follow the status staff set until the request is closed
+  useEffect(() => {
+    if (requestId === undefined || isFinal) return;
+
+    const poll = () => {
+      if (document.hidden) return;
+      refreshHelpRequestStatus(requestId).catch((error) => {
+        console.error('Failed to refresh help request status:', error);
+      });
+    };
+
+    poll();
+    const interval = window.setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, [requestId, isFinal]);
+
+  if (!request) {
+    return null;
+  }
+
+  const style = STATUS_STYLES[request.status] || STATUS_STYLES.pending;
+  const StatusIcon = style.icon;
+
+  const handleSendFollowUp = async () => {
+    if (!followUp.trim()) return;
+    setIsSending(true);
+    try {
+      await sendHelpRequestFollowUp(request.id, followUp.trim());
+      setFollowUp('');
+      toast({ title: t('helpStatus.followUpSent'), status: 'success', duration: 3000, isClosable: true, position: 'bottom' });
+    } catch (error) {
+      console.error('Failed to send help request follow-up:', error);
+      toast({ title: t('helpStatus.updateFailed'), status: 'error', duration: 5000, isClosable: true, position: 'bottom' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await cancelHelpRequest(request.id);
+    } catch (error) {
+      console.error('Failed to cancel help request:', error);
+      toast({ title: t('helpStatus.updateFailed'), status: 'error', duration: 5000, isClosable: true, position: 'bottom' });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Box position="fixed" bottom={{ base: 3, md: 5 }} left={{ base: 3, md: 5 }} zIndex="popover">
+      <Popover placement="top-start">
+        <PopoverTrigger>
+          <Button
+            size="sm"
+            borderRadius="full"
+            boxShadow="md"
+            colorScheme={style.colorScheme}
+            leftIcon={<StatusIcon />}
+            aria-live="polite"
+          >
+            {t(`helpStatus.status.${request.status}`)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent w={{ base: '90vw', sm: '340px' }}>
+          <PopoverArrow />
+          <PopoverCloseButton />
+          <PopoverHeader fontWeight="semibold">
+            <HStack spacing={2}>
+              <FiHelpCircle />
+              <Text>{t('helpStatus.title')}</Text>
+            </HStack>
+          </PopoverHeader>
+          <PopoverBody>
+            <VStack spacing={3} align="stretch">
+              <HStack justify="space-between">
+                <Text fontSize="sm" color="gray.600">
+                  {t('helpStatus.reference')}
+                </Text>
+                <Text fontWeight="bold" fontFamily="mono" letterSpacing="wider">
+                  {request.reference}
+                </Text>
+              </HStack>
+              <HStack justify="space-between">
+                <Text fontSize="sm" color="gray.600">
+                  {t('helpStatus.statusLabel')}
+                </Text>
+                <Badge colorScheme={style.colorScheme}>{t(`helpStatus.status.${request.status}`)}</Badge>
+              </HStack>
+              <Text fontSize="sm" color="gray.700">
+                {t(`helpStatus.description.${request.status}`)}
+              </Text>
+
+              {isFinal ? (
+                <Button size="sm" variant="outline" onClick={clearTrackedHelpRequest}>
+                  {t('helpStatus.dismiss')}
+                </Button>
+              ) : (
+                <>
+                  <Textarea
+                    value={followUp}
+                    onChange={(e) => setFollowUp(e.target.value)}
+                    placeholder={t('helpStatus.followUpPlaceholder')}
+                    size="sm"
+                    rows={2}
+                    borderRadius="md"
+                  />
+                  <HStack justify="space-between">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={handleCancel}
+                      isLoading={isCancelling}
+                    >
+                      {t('helpStatus.cancel')}
+                    </Button>
+                    <Button
+                      size="sm"
+                      colorScheme="blue"
+                      onClick={handleSendFollowUp}
+                      isLoading={isSending}
+                      isDisabled={!followUp.trim()}
+                    >
+                      {t('helpStatus.sendFollowUp')}
+                    </Button>
+                  </HStack>
+                </>
+              )}
+            </VStack>
+          </PopoverBody>
+        </PopoverContent>
+      </Popover>
+    </Box>
+  );
+};
+
+export default HelpRequestStatusChip;
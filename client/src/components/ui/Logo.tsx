@@ -4,6 +4,7 @@
  * This component displays the Foodbank Check-In and Appointment System logo with
  * consistent styling and responsive behavior. It provides the
  * main branding element for the client application interface.
+ * The logo from the organization profile is shown when one is set.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -13,10 +14,11 @@
  * @see {@link ../layout/PageLayout.tsx} Page layout component
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Image, Box } from '@chakra-ui/react';
 import { useTranslation } from 'react-i18next';
 import logo1 from '../../assets/logo1.png';
+import { useOrganizationProfile } from '../../hooks/useOrganizationProfile';
 
 interface LogoProps {
   size?: 'sm' | 'md' | 'lg';
@@ -24,6 +26,10 @@ interface LogoProps {
 
 const Logo: React.FC<LogoProps> = ({ size = 'md' }) => {
   const { t } = useTranslation();
+  const organization = useOrganizationProfile();
+  // The bundled logo stands in when the organization's logo cannot be loaded (e.g. offline)
+  const [failedLogoUrl, setFailedLogoUrl] = useState<string | null>(null);
+  const logoUrl = organization.logoUrl && organization.logoUrl !== failedLogoUrl ? organization.logoUrl : logo1;
 
   const sizes = {
     sm: { base: '100px', sm: '120px', md: '140px' },
@@ -40,8 +46,9 @@ const Logo: React.FC<LogoProps> = ({ size = 'md' }) => {
       px={{ base: 2, sm: 4 }}
     >
         <Image
-          src={logo1}
-        alt={t('branding.logoAlt')}
+          src={logoUrl}
+        alt={organization.name || t('branding.logoAlt')}
+        onError={() => setFailedLogoUrl(organization.logoUrl || null)}
         w={sizes[size]}
         h="auto"
         objectFit="contain"
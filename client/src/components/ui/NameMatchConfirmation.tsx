@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Last-name confirmation step for Foodbank Check-In and Appointment System client application
+ *
+ * This component asks the client to confirm an appointment booked under a
+ * last name that is close to, but not the same as, what they typed (a
+ * different romanization, a missing part of a compound name, a small typo).
+ * The name on record is never shown - the kiosk is public and the backend
+ * doesn't send it. Nothing is checked in until the client confirms.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-08
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../utils/nameMatching.ts} Name matching module
+ */
+
+import React from 'react';
+import { Button, Stack, Text, VStack } from '@chakra-ui/react';
+import { useTranslation } from 'react-i18next';
+import PrimaryButton from '../buttons/PrimaryButton';
+
+interface NameMatchConfirmationProps {
+  onConfirm: () => void;
+  onReject: () => void;
+  isSubmitting?: boolean;
+}
+
+const NameMatchConfirmation: React.FC<NameMatchConfirmationProps> = ({
+  onConfirm,
+  onReject,
+  isSubmitting = false,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <VStack spacing={4} align="center" w="full" textAlign="center">
+      <Text fontSize="lg" fontWeight="bold" color="client.primary">
+        {t('nameMatch.title')}
+      </Text>
+      <Text fontSize="sm" color="gray.600">
+        {t('nameMatch.description')}
+      </Text>
+      <Stack direction={{ base: 'column', md: 'row' }} spacing={4} w="full" justify="center" pt={2}>
+        <Button
+          variant="outline"
+          onClick={onReject}
+          isDisabled={isSubmitting}
+          width={{ base: '100%', md: '240px' }}
+          height="48px"
+          borderRadius="lg"
+        >
+          {t('nameMatch.reject')}
+        </Button>
+        <PrimaryButton
+          onClick={onConfirm}
+          isLoading={isSubmitting}
+          width={{ base: '100%', md: '240px' }}
+          height="48px"
+          fontSize="md"
+        >
+          {t('nameMatch.confirm')}
+        </PrimaryButton>
+      </Stack>
+    </VStack>
+  );
+};
+
+export default NameMatchConfirmation;
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Offline queue status indicator for Foodbank Check-In and Appointment System client application
+ *
+ * This component shows staff how many check-ins are saved on this kiosk and
+ * still waiting to be sent, and how many were rejected by the backend and
+ * need follow-up. It renders nothing when the queue is empty.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-03
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/offlineQueue.ts} Offline request queue
+ */
+
+import React, { useEffect, useState } from 'react';
+import { HStack, Badge, Tooltip } from '@chakra-ui/react';
+import { FiWifiOff } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { QueuedRequest, subscribeToQueue, isQueueSupported } from '../../lib/offlineQueue';
+
+const OfflineQueueStatus: React.FC = () => {
+  const { t } = useTranslation();
+  const [requests, setRequests] = useState<QueuedRequest[]>([]);
+
+  useEffect(() => {
+    if (!isQueueSupported()) return;
+    return subscribeToQueue(setRequests);
+  }, []);
+
+  // Count visits, not requests - a completion that depends on a queued check-in is the same visit
+  const pending = requests.filter((r) => r.status === 'pending' && r.kind === 'checkin').length
+    + requests.filter((r) => r.status === 'pending' && r.kind === 'complete' && !r.dependsOn).length;
+  const failed = requests.filter((r) => r.status === 'failed' && r.kind === 'checkin').length;
+
+  if (pending === 0 && failed === 0) {
+    return null;
+  }
+
+  return (
+    <HStack spacing={2} justify="center" w="full">
+      {pending > 0 && (
+        <Tooltip label={t('offline.pendingTooltip')}>
+          <Badge colorScheme="orange" variant="subtle" px={2} py={1} borderRadius="md" display="flex" alignItems="center" gap={1}>
+            <FiWifiOff />
+            {t('offline.pendingCount', { count: pending })}
+          </Badge>
+        </Tooltip>
+      )}
+      {failed > 0 && (
+        <Tooltip label={t('offline.failedTooltip')}>
+          <Badge colorScheme="red" variant="subtle" px={2} py={1} borderRadius="md">
+            {t('offline.failedCount', { count: failed })}
+          </Badge>
+        </Tooltip>
+      )}
+    </HStack>
+  );
+};
+
+export default OfflineQueueStatus;
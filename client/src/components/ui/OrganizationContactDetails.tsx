@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Organization contact details for Foodbank Check-In and Appointment System client application
+ *
+ * This component shows the food bank's address and opening hours from the
+ * organization profile. Day names and times are formatted in the client's
+ * language. Nothing is rendered when the profile has neither.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-14
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/organizationProfile.ts} Organization profile
+ */
+
+import React from 'react';
+import { Box, HStack, Text, VStack } from '@chakra-ui/react';
+import { FiClock, FiMapPin } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { useOrganizationProfile } from '../../hooks/useOrganizationProfile';
+
+// Any week works - only the day names are used; 2025-11-16 is a Sunday
+const dayName = (day: number, locale: string): string => {
+  return new Date(2025, 10, 16 + day).toLocaleDateString(locale, { weekday: 'long' });
+};
+
+const timeLabel = (time: string, locale: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+};
+
+const OrganizationContactDetails: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const organization = useOrganizationProfile();
+
+  if (!organization.address && organization.hours.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box bg="gray.50" borderRadius="lg" p={4} border="1px solid" borderColor="gray.200">
+      <VStack spacing={3} align="start">
+        {organization.address && (
+          <HStack spacing={2} align="start">
+            <Box as={FiMapPin} boxSize={4} color="brand.500" mt={1} flexShrink={0} />
+            <Box>
+              <Text fontSize="xs" color="gray.600" fontWeight="500">
+                {t('organization.address')}
+              </Text>
+              <Text fontSize="sm" color="gray.700">
+                {organization.address}
+              </Text>
+            </Box>
+          </HStack>
+        )}
+        {organization.hours.length > 0 && (
+          <HStack spacing={2} align="start">
+            <Box as={FiClock} boxSize={4} color="brand.500" mt={1} flexShrink={0} />
+            <Box>
+              <Text fontSize="xs" color="gray.600" fontWeight="500">
+                {t('organization.hours')}
+              </Text>
+              {organization.hours.map((entry) => (
+                <Text key={`${entry.day}-${entry.open}`} fontSize="sm" color="gray.700">
+                  {dayName(entry.day, i18n.language)}: {timeLabel(entry.open, i18n.language)} – {timeLabel(entry.close, i18n.language)}
+                </Text>
+              ))}
+            </Box>
+          </HStack>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default OrganizationContactDetails;
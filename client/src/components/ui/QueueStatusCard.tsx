@@ -0,0 +1,205 @@
+/**
+ * @fileoverview Queue status card for Foodbank Check-In and Appointment System client application
+ *
+ * This component shows a checked-in client their ticket number, their place
+ * among the clients waiting and an estimated wait, so they don't need to ask
+ * at the desk. When staff call the ticket the card says so, the phone
+ * vibrates, and a system notification is shown if the client allowed them.
+ *
+ * The status is checked every 15 seconds while the page is visible, until the
+ * ticket is called.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-18
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../lib/queueStatus.ts} Queue status loading
+ * @see {@link ../../pages/Confirmation.tsx} Confirmation page
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, HStack, Icon, SimpleGrid, Spinner, Text, VStack, useToast } from '@chakra-ui/react';
+import { FiBell, FiCheckCircle, FiClock, FiUsers } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { estimateWaitMinutes, fetchQueueStatus } from '../../lib/queueStatus';
+import { isKioskMode } from '../../common/kioskConfig';
+import type { QueueStatus } from '../../common/types/Queue';
+
+const POLL_INTERVAL_MS = 15000;
+
+interface QueueStatusCardProps {
+  checkInId: string;
+  // Shown until the first status arrives
+  ticketNumber?: string | number;
+}
+
+const canAskForNotifications = (): boolean => {
+  return !isKioskMode() && typeof window !== 'undefined' && 'Notification' in window;
+};
+
+const QueueStatusCard: React.FC<QueueStatusCardProps> = ({ checkInId, ticketNumber }) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+  const [hasError, setHasError] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | null>(() =>
+    canAskForNotifications() ? Notification.permission : null
+  );
+  const previousState = useRef<QueueStatus['state'] | null>(null);
+
+  const state = status?.state;
+  const ticket = status?.ticketNumber || (ticketNumber != null ? String(ticketNumber) : '');
+
+  // Follow the queue until the ticket is called
+  useEffect(() => {
+    if (state && state !== 'waiting') return;
+
+    const poll = () => {
+      if (document.hidden) return;
+      fetchQueueStatus(checkInId)
+        .then((next) => {
+          setStatus(next);
+          setHasError(false);
+        })
+        .catch((error) => {
+          console.error('Failed to refresh queue status:', error);
+          setHasError(true);
+        });
+    };
+
+    poll();
+    const interval = window.setInterval(poll, POLL_INTERVAL_MS);
+    document.addEventListener('visibilitychange', poll);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', poll);
+    };
+  }, [checkInId, state]);
+
+  // Let the client know as soon as their ticket is called
+  useEffect(() => {
+    if (state === 'called' && previousState.current === 'waiting') {
+      const title = t('queue.calledTitle');
+      const body = t('queue.calledMessage', { ticket });
+
+      navigator.vibrate?.([300, 150, 300, 150, 300]);
+      toast({ title, description: body, status: 'success', duration: null, isClosable: true, position: 'top' });
+      if (canAskForNotifications() && Notification.permission === 'granted') {
+        try {
+          new Notification(title, { body, tag: `queue-${checkInId}` });
+        } catch (error) {
+          // Some mobile browsers only allow notifications from a service worker
+          console.error('Failed to show queue notification:', error);
+        }
+      }
+    }
+    if (state) {
+      previousState.current = state;
+    }
+  }, [state, ticket, checkInId, t, toast]);
+
+  const handleEnableNotifications = async () => {
+    try {
+      setNotificationPermission(await Notification.requestPermission());
+    } catch (error) {
+      console.error('Failed to request notification permission:', error);
+    }
+  };
+
+  const estimate = status ? estimateWaitMinutes(status) : null;
+
+  if (state === 'done') {
+    return null;
+  }
+
+  if (state === 'called') {
+    return (
+      <Box
+        w="full"
+        bg="accent.green.50"
+        border="2px solid"
+        borderColor="accent.green.300"
+        borderRadius="xl"
+        p={{ base: 4, md: 5 }}
+        mb={6}
+        role="alert"
+      >
+        <HStack spacing={3} justify="center">
+          <Icon as={FiCheckCircle} boxSize={6} color="accent.green.500" />
+          <VStack spacing={0} align="start">
+            <Text fontSize="xl" fontWeight="700" color="gray.800">
+              {t('queue.calledTitle')}
+            </Text>
+            <Text color="gray.700">{t('queue.calledMessage', { ticket })}</Text>
+          </VStack>
+        </HStack>
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      w="full"
+      bg="brand.50"
+      border="1px solid"
+      borderColor="brand.200"
+      borderRadius="xl"
+      p={{ base: 4, md: 5 }}
+      mb={6}
+      aria-live="polite"
+    >
+      <SimpleGrid columns={{ base: 1, sm: 3 }} spacing={4} textAlign="center">
+        <VStack spacing={0}>
+          <Text fontSize="sm" color="gray.600">
+            {t('queue.ticket')}
+          </Text>
+          <Text fontSize="3xl" fontWeight="700" color="client.primary">
+            {ticket || '—'}
+          </Text>
+        </VStack>
+        <VStack spacing={0}>
+          <HStack spacing={1} color="gray.600">
+            <Icon as={FiUsers} boxSize={3} />
+            <Text fontSize="sm">{t('queue.position')}</Text>
+          </HStack>
+          {status ? (
+            <Text fontSize="3xl" fontWeight="700" color="client.primary">
+              {status.position ?? '—'}
+            </Text>
+          ) : (
+            <Spinner size="sm" mt={3} color="client.primary" />
+          )}
+          {status && status.waitingCount > 0 && (
+            <Text fontSize="xs" color="gray.500">
+              {t('queue.waitingCount', { count: status.waitingCount })}
+            </Text>
+          )}
+        </VStack>
+        <VStack spacing={0}>
+          <HStack spacing={1} color="gray.600">
+            <Icon as={FiClock} boxSize={3} />
+            <Text fontSize="sm">{t('queue.estimatedWait')}</Text>
+          </HStack>
+          <Text fontSize="3xl" fontWeight="700" color="client.primary">
+            {estimate !== null ? t('queue.minutes', { count: estimate }) : '—'}
+          </Text>
+        </VStack>
+      </SimpleGrid>
+
+      <Text fontSize="xs" color="gray.500" textAlign="center" mt={3}>
+        {hasError ? t('queue.refreshFailed') : t('queue.liveNotice')}
+      </Text>
+
+      {notificationPermission === 'default' && (
+        <HStack justify="center" mt={3}>
+          <Button size="sm" variant="outline" leftIcon={<FiBell />} onClick={handleEnableNotifications}>
+            {t('queue.enableNotifications')}
+          </Button>
+        </HStack>
+      )}
+    </Box>
+  );
+};
+
+export default QueueStatusCard;
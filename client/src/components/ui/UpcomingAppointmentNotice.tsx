@@ -0,0 +1,68 @@
+/**
+ * @fileoverview Upcoming appointment notice for Foodbank Check-In and Appointment System client application
+ *
+ * This component is shown instead of an error when a client has no appointment
+ * today but does have one coming up, so they leave knowing when to come back.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-07
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../../pages/InitialCheckIn.tsx} Initial check-in page
+ */
+
+import React from 'react';
+import { Box, Circle, Icon, Stack, Text, VStack } from '@chakra-ui/react';
+import { FiCalendar } from 'react-icons/fi';
+import { useTranslation } from 'react-i18next';
+import { UpcomingAppointment } from '../../common/types/CheckInResponse';
+import { formatTimeOfDay } from '../../../../shared/appointmentSlots';
+import PrimaryButton from '../buttons/PrimaryButton';
+import AssistanceButton from '../buttons/AssistanceButton';
+
+interface UpcomingAppointmentNoticeProps {
+  appointment: UpcomingAppointment;
+  onDone: () => void;
+}
+
+const UpcomingAppointmentNotice: React.FC<UpcomingAppointmentNoticeProps> = ({ appointment, onDone }) => {
+  const { t, i18n } = useTranslation();
+
+  // Parse YYYY-MM-DD as a local date to avoid timezone shifts
+  const [year, month, day] = appointment.date.split('-').map(Number);
+  const formattedDate = new Date(year, month - 1, day).toLocaleDateString(i18n.language, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return (
+    <VStack spacing={4} align="center" w="full" textAlign="center">
+      <Circle size="60px" bg="brand.50" color="client.primary" border="2px solid" borderColor="brand.200">
+        <Icon as={FiCalendar} boxSize={7} />
+      </Circle>
+      <Text fontSize="lg" fontWeight="bold" color="client.primary">
+        {t('upcomingAppointment.title')}
+      </Text>
+      <Box bg="brand.50" borderRadius="lg" px={4} py={3} w="full">
+        <Text fontSize="md" color="gray.700">
+          {appointment.time
+            ? t('upcomingAppointment.descriptionWithTime', { date: formattedDate, time: formatTimeOfDay(appointment.time) })
+            : t('upcomingAppointment.description', { date: formattedDate })}
+        </Text>
+      </Box>
+      <Text fontSize="sm" color="gray.600">
+        {t('upcomingAppointment.help')}
+      </Text>
+      <Stack direction={{ base: 'column', md: 'row' }} spacing={4} w="full" justify="center" pt={2}>
+        <AssistanceButton width={{ base: '100%', md: '240px' }} height="48px" fontSize="md" />
+        <PrimaryButton onClick={onDone} width={{ base: '100%', md: '240px' }} height="48px" fontSize="md">
+          {t('upcomingAppointment.done')}
+        </PrimaryButton>
+      </Stack>
+    </VStack>
+  );
+};
+
+export default UpcomingAppointmentNotice;
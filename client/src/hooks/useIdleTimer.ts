@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Inactivity timer hook for Foodbank Check-In and Appointment System client application
+ *
+ * This custom hook tracks touch, pointer and keyboard activity and reports
+ * when the user has been idle long enough to show a countdown, then calls
+ * `onTimeout` once the full timeout has passed without activity.
+ *
+ * Mouse movement is deliberately not treated as activity - a kiosk mouse
+ * nudged by a passer-by should not keep someone else's check-in on screen.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-06
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/kioskConfig.ts} Kiosk mode configuration
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'touchstart', 'keydown', 'wheel'] as const;
+const TICK_MS = 1000;
+
+interface UseIdleTimerOptions {
+  timeoutMs: number;
+  warningMs: number;
+  enabled: boolean;
+  onTimeout: () => void;
+}
+
+export const useIdleTimer = ({ timeoutMs, warningMs, enabled, onTimeout }: UseIdleTimerOptions) => {
+  const lastActivityRef = useRef(Date.now());
+  const onTimeoutRef = useRef(onTimeout);
+  // Seconds left in the countdown, or null while the user is active
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  onTimeoutRef.current = onTimeout;
+
+  const reset = useCallback(() => {
+    lastActivityRef.current = Date.now();
+    setSecondsLeft(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    reset();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+
+    const interval = window.setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivityRef.current);
+
+      if (remaining <= 0) {
+        reset();
+        onTimeoutRef.current();
+      } else if (remaining <= warningMs) {
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      }
+    }, TICK_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, reset]);
+
+  return {
+    secondsLeft,
+    isWarning: secondsLeft !== null,
+    reset,
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * @fileoverview Organization profile hook for Foodbank Check-In and Appointment System client application
+ *
+ * This custom hook returns the current organization profile and re-renders
+ * the component when a newer profile is loaded from the backend.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-14
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../lib/organizationProfile.ts} Profile loading and caching
+ */
+
+import { useEffect, useState } from 'react';
+import type { OrganizationProfile } from '../common/types/Organization';
+import { getOrganizationProfile, subscribeToOrganizationProfile } from '../lib/organizationProfile';
+
+export const useOrganizationProfile = (): OrganizationProfile => {
+  const [profile, setProfile] = useState<OrganizationProfile>(getOrganizationProfile);
+
+  useEffect(() => subscribeToOrganizationProfile(setProfile), []);
+
+  return profile;
+};
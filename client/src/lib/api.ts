@@ -12,8 +12,9 @@
  * - Proper error handling in calling components
  * - Rate limiting handled at server level (200 req/15min per IP)
  * 
- * Note: Client app uses one-time API calls (no polling needed).
- * The check-in flow is a single-use process, not a real-time dashboard.
+ * Note: The check-in flow itself uses one-time API calls. Only the help
+ * request chip and the queue status on the Confirmation page poll, and only
+ * while the page is visible.
  * 
  * @author Lindsey D. Stead
  * @version 1.0.0
@@ -40,8 +41,20 @@ const getApiBase = (): string => {
   );
 };
 
+// Thrown when fetch() itself rejects - the request never reached the backend
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : 'Network request failed');
+    this.name = 'NetworkError';
+  }
+}
+
 export const api = (path: string, init?: RequestInit) => {
   const API_BASE = getApiBase();
   const url = `${API_BASE}${path.startsWith('/') ? path : `/${path}`}`;
-  return fetch(url, init);
+  return fetch(url, init).catch((error) => {
+    // A cancelled request is not a connection problem
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new NetworkError(error);
+  });
 };
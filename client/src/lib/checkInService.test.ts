@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Tests for queuing check-ins on the kiosk while offline
+ *
+ * The queue runs against fake-indexeddb and fetch is stubbed. The last test
+ * walks a check-in queued offline through the flow steps, queues its
+ * completion and replays both once the network is back.
+ *
+ * @vitest-environment jsdom
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./checkInService.ts} Check-in service
+ * @see {@link ./flowStore.ts} Check-in flow store
+ */
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CheckInData, CheckInService } from './checkInService';
+import {
+  canContinueCheckIn,
+  clearFlow,
+  getCheckInInfo,
+  isCheckInCompleted,
+  saveAppointmentData,
+  saveHouseholdUpdate,
+  saveSpecialRequests,
+  startFlow,
+  updateCheckInInfo,
+} from './flowStore';
+import { getQueuedRequests, removeQueuedRequest } from './offlineQueue';
+import { replayQueue } from './queueReplayer';
+
+const fetchMock = vi.fn<[string, RequestInit?], Promise<Response>>();
+
+const smith = (overrides: Partial<CheckInData> = {}): CheckInData => ({
+  phoneNumber: '(250) 555-0101',
+  lastName: 'Smith',
+  normalizedLastName: 'smith',
+  ...overrides,
+});
+
+beforeEach(async () => {
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+  clearFlow();
+  for (const request of await getQueuedRequests()) {
+    await removeQueuedRequest(request.id);
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('CheckInService.queueCheckIn', () => {
+  it('queues a check-in once per client and appointment', async () => {
+    const first = await CheckInService.queueCheckIn(smith());
+    const again = await CheckInService.queueCheckIn(smith({ phoneNumber: '250-555-0101', lastName: 'SMITH' }));
+
+    expect(again.id).toBe(first.id);
+    expect(await getQueuedRequests()).toHaveLength(1);
+  });
+
+  it('queues household members sharing a phone number and last name separately', async () => {
+    const first = await CheckInService.queueCheckIn(smith({ appointmentId: 'appointment-1' }));
+    const second = await CheckInService.queueCheckIn(smith({ appointmentId: 'appointment-2' }));
+
+    expect(second.id).not.toBe(first.id);
+    expect((await getQueuedRequests()).map((request) => request.payload.appointmentId)).toEqual([
+      'appointment-1',
+      'appointment-2',
+    ]);
+  });
+
+  it('sends the latest details when the client checks in again', async () => {
+    await CheckInService.queueCheckIn(smith({ confirmCloseNameMatch: false }));
+    await CheckInService.queueCheckIn(smith({ confirmCloseNameMatch: true }));
+
+    const queue = await getQueuedRequests();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload).toMatchObject({ confirmCloseNameMatch: true, queuedOnKiosk: true });
+  });
+});
+
+describe('CheckInService.queueCompletion', () => {
+  it('queues one completion per idempotency key', async () => {
+    const first = await CheckInService.queueCompletion({ idempotencyKey: 'key-1', allergies: '' });
+    const updated = await CheckInService.queueCompletion({ idempotencyKey: 'key-1', allergies: 'Peanuts' });
+    await CheckInService.queueCompletion({ idempotencyKey: 'key-2' });
+
+    expect(updated.id).toBe(first.id);
+    const queue = await getQueuedRequests();
+    expect(queue).toHaveLength(2);
+    expect(queue.find((request) => request.id === first.id)?.payload.allergies).toBe('Peanuts');
+  });
+});
+
+describe('provisional check-in', () => {
+  it('carries on through the flow steps and completes once replayed', async () => {
+    const queued = await CheckInService.queueCheckIn(smith());
+    startFlow({
+      phone: '(250) 555-0101',
+      lastName: 'Smith',
+      checkInTime: '2025-04-14T16:00:00.000Z',
+      provisional: true,
+      queuedRequestId: queued.id,
+    });
+    expect(canContinueCheckIn(getCheckInInfo())).toBe(true);
+
+    saveSpecialRequests({
+      dietaryRestrictions: ['Vegetarian'],
+      allergies: 'Peanuts',
+      unwantedFoods: '',
+      additionalInfo: '',
+      hasMobilityIssues: false,
+      diaperSize: '',
+      submittedAt: '2025-04-14T16:01:00.000Z',
+    });
+    saveHouseholdUpdate({ current: { adults: 2, seniors: 0, children: 1, childrensAges: '5' }, reviewedAt: '2025-04-14T16:02:00.000Z' });
+    saveAppointmentData({ date: '2025-04-28', formattedDate: 'Monday, April 28', time: '09:00' });
+    expect(canContinueCheckIn(getCheckInInfo())).toBe(true);
+
+    updateCheckInInfo({ completionKey: 'key-1' });
+    const completion = await CheckInService.queueCompletion(
+      { phoneNumber: '(250) 555-0101', status: 'Collected', idempotencyKey: 'key-1', allergies: 'Peanuts' },
+      queued.id
+    );
+    expect(completion.dependsOn).toBe(queued.id);
+
+    // Confirmation locks the flow once the completion is queued
+    expect(isCheckInCompleted(getCheckInInfo())).toBe(false);
+    updateCheckInInfo({ queuedCompletionId: completion.id });
+    expect(isCheckInCompleted(getCheckInInfo())).toBe(true);
+
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ success: true, data: { checkInId: 'check-in-1', clientId: '12345', clientName: 'John Smith' } }))
+      )
+      .mockResolvedValueOnce(new Response(JSON.stringify({ success: true })));
+    await replayQueue();
+
+    const [checkInUrl] = fetchMock.mock.calls[0];
+    const [completionUrl, completionInit] = fetchMock.mock.calls[1];
+    expect(checkInUrl).toMatch(/\/checkin$/);
+    expect(completionUrl).toMatch(/\/checkin\/complete$/);
+    expect(JSON.parse(String(completionInit?.body))).toMatchObject({
+      checkInId: 'check-in-1',
+      clientId: '12345',
+      clientName: 'John Smith',
+      idempotencyKey: 'key-1',
+      allergies: 'Peanuts',
+    });
+    expect(await getQueuedRequests()).toEqual([]);
+  });
+});
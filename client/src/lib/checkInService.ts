@@ -15,11 +15,30 @@
  */
 
 import { api } from './api';
+import { QueuedRequest, enqueueRequest, isNetworkError } from './offlineQueue';
+import { RetryableResponseError, withRetry } from '../utils/retry';
+import { AvailabilityDay } from '../common/types/Availability';
+import { RequestSelection } from '../common/types/SpecialRequests';
+import { HouseholdComposition } from '../common/types/Household';
+import { PrivacyConsent } from '../common/types/Privacy';
+import { AppointmentRecord, ClientRecord } from '../common/types/CsvRecords';
 
 // Check-in data
 export interface CheckInData {
   phoneNumber: string;
   lastName: string;
+  // Folded form (case, accents, hyphens, apostrophes, spacing) for the lookup
+  normalizedLastName?: string;
+  // Chosen by the client when several appointments match
+  appointmentId?: string;
+  // Set once the client confirmed an appointment booked under a close variant of their name
+  confirmCloseNameMatch?: boolean;
+  // Privacy notice version the client accepted before checking in
+  privacyConsent?: PrivacyConsent | null;
+  
+  // Set when the request was queued on the kiosk while offline
+  queuedOnKiosk?: boolean;
+  queuedAt?: string;
 }
 
 // Check-in response data
@@ -37,10 +56,10 @@ export interface CheckInResponse {
     nextAppointmentISO?: string;
     ticketNumber?: string;
     isAutoGenerated?: boolean;
-    appointment?: any;
-    client?: any;
+    appointment?: AppointmentRecord;
+    client?: ClientRecord;
   };
-  error?: string;
+  error?: string | { message: string; code?: string };
   message?: string;
 }
 
@@ -51,16 +70,26 @@ export interface CompleteCheckInData {
   clientName: string;
   phoneNumber: string;
   checkInTime: string;
-  appointmentTime?: string;
+  appointmentTime?: string | null;
   completionTime: string;
   status: 'Collected';
   
+  // Client-generated key that makes repeated submissions of this completion safe
+  idempotencyKey?: string;
+  
   // Special requests data
+  requestSelections?: RequestSelection[];
   dietaryRestrictions?: string[];
   allergies?: string;
   unwantedFoods?: string;
   additionalInfo?: string;
   householdInfoChanged?: boolean;
+  // Household counts the client proposed; staff approve them before the record changes
+  householdUpdate?: {
+    current: HouseholdComposition;
+    proposed: HouseholdComposition;
+    note?: string;
+  };
   hasMobilityIssues?: boolean;
   diaperSize?: string;
   
@@ -69,13 +98,31 @@ export interface CompleteCheckInData {
   email?: string;
   phone?: string;
   phoneCarrier?: string;
+  reminderConsentAt?: string;
+  reminderLanguage?: string;
   location?: string;
   clientType?: string;
   
+  // Set when the request was queued on the kiosk while offline
+  queuedOnKiosk?: boolean;
+  queuedAt?: string;
+  
   // Next appointment data (auto-generated by admjin system)
   // Note: These fields are no longer used as appointments are auto-generated
 }
 
+// Completion requests currently in flight, keyed by idempotency key
+const inflightCompletions = new Map<string, Promise<CheckInResponse>>();
+
+// One queued check-in per client (phone number and last name) and appointment per day -
+// household members can share a phone number and last name but have their own appointments
+const getCheckInDedupeKey = (data: CheckInData): string => {
+  const now = new Date();
+  const date = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  const lastName = data.normalizedLastName || data.lastName.trim().toLowerCase();
+  return `checkin:${data.phoneNumber.replace(/\D/g, '')}:${lastName}:${data.appointmentId || ''}:${date}`;
+};
+
 // Start a check-in
 export class CheckInService {
   static async startCheckIn(data: CheckInData): Promise<CheckInResponse> {
@@ -92,29 +139,82 @@ export class CheckInService {
       return result;
     } catch (error) {
       console.error('Check-in error:', error);
-      throw new Error('Failed to start check-in process');
+      // Keep network errors intact so callers can queue the request
+      throw isNetworkError(error) ? error : new Error('Failed to start check-in process');
     }
   }
 
-  // Complete a check-in
+  /**
+   * Complete a check-in
+   * 
+   * Every completion carries the client-generated idempotency key kept with the
+   * flow state, so a refresh, double render or retry never records a second
+   * "Collected" transition. Concurrent calls with the same key share one request,
+   * and temporary failures (connection drop, 5xx, 429) are retried with backoff.
+   */
   static async completeCheckIn(data: CompleteCheckInData): Promise<CheckInResponse> {
-    try {
+    const key = data.idempotencyKey;
+    const inflight = key ? inflightCompletions.get(key) : undefined;
+    if (inflight) return inflight;
+
+    const request = withRetry(async () => {
       const response = await api('/checkin/complete', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(key ? { 'Idempotency-Key': key } : {}),
         },
         body: JSON.stringify(data),
       });
 
+      if (response.status >= 500 || response.status === 429) {
+        throw new RetryableResponseError(response.status);
+      }
+
       const result: CheckInResponse = await response.json();
       return result;
-    } catch (error) {
+    }, {
+      shouldRetry: (error) => error instanceof RetryableResponseError || isNetworkError(error),
+    }).catch((error) => {
       console.error('Complete check-in error:', error);
-      throw new Error('Failed to complete check-in process');
-    }
+      // Keep network errors intact so callers can queue the request
+      throw isNetworkError(error) ? error : new Error('Failed to complete check-in process');
+    }).finally(() => {
+      if (key) inflightCompletions.delete(key);
+    });
+
+    if (key) inflightCompletions.set(key, request);
+    return request;
+  }
+
+  // Queue a check-in on the kiosk to be sent once the network is back
+  // A check-in already queued for the same client and appointment today is updated instead
+  static async queueCheckIn(data: CheckInData): Promise<QueuedRequest> {
+    return enqueueRequest({
+      kind: 'checkin',
+      path: '/checkin',
+      payload: { ...data, queuedOnKiosk: true, queuedAt: new Date().toISOString() },
+      dedupeKey: getCheckInDedupeKey(data),
+    });
   }
-// Get a specific check-in
+
+  // Queue a completion on the kiosk
+  // Pass dependsOn when the check-in itself is still queued (checkInId not known yet)
+  static async queueCompletion(
+    data: Partial<CompleteCheckInData>,
+    dependsOn?: string
+  ): Promise<QueuedRequest> {
+    return enqueueRequest({
+      kind: 'complete',
+      path: '/checkin/complete',
+      payload: { ...data, queuedOnKiosk: true, queuedAt: new Date().toISOString() },
+      dependsOn,
+      // One completion per flow - the idempotency key is kept with the flow state
+      dedupeKey: data.idempotencyKey ? `complete:${data.idempotencyKey}` : dependsOn && `complete:${dependsOn}`,
+    });
+  }
+
+  // Get a specific check-in
   static async getCheckIn(checkInId: string): Promise<CheckInResponse> {
     try {
       const response = await api(`/checkin/${checkInId}`);
@@ -137,4 +237,17 @@ export class CheckInService {
       throw new Error('Failed to get check-ins');
     }
   }
+
+  // Get open days and remaining slot capacity for an inclusive YYYY-MM-DD range
+  static async getAvailability(from: string, to: string): Promise<AvailabilityDay[]> {
+    const params = new URLSearchParams({ from, to });
+    const response = await api(`/appointments/availability?${params.toString()}`);
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to load availability');
+    }
+
+    return result.data?.days || [];
+  }
 }
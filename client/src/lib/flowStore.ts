@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Check-in flow store for Foodbank Check-In and Appointment System client application
+ *
+ * This module keeps everything a client enters during one check-in (privacy
+ * consent, the matched check-in, special requests, household review and
+ * appointment details) in a single typed record in sessionStorage. The record carries a schema version
+ * and an expiry, so a half-finished check-in left on the kiosk, or one written
+ * by an older build, is discarded instead of being picked up by the next client.
+ *
+ * Every write refreshes the expiry, so the flow only expires when it sits idle.
+ * Once the completion is saved (or queued) the flow is locked to the
+ * Confirmation page, so a client going back can't change what was recorded.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-05
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../components/layout/FlowGuard.tsx} Route guard for flow pages
+ */
+
+import { logger } from '../utils/logger';
+import type { RequestSelection } from '../common/types/SpecialRequests';
+import type { HouseholdUpdate } from '../common/types/Household';
+import type { PrivacyConsent } from '../common/types/Privacy';
+import type { AppointmentRecord, ClientRecord } from '../common/types/CsvRecords';
+
+export const FLOW_SCHEMA_VERSION = 1;
+
+const STORAGE_KEY = 'checkInFlow';
+const FLOW_TTL_MS = 30 * 60 * 1000;
+
+// Keys used before the flow store existed - removed whenever the flow is reset
+const LEGACY_KEYS = ['checkInInfo', 'specialRequestsData', 'appointmentData'];
+
+// The check-in matched (or queued) on the initial check-in step
+export interface CheckInInfo {
+  phone: string;
+  lastName: string;
+  checkInTime: string;
+  checkInId?: string;
+  clientId?: string;
+  clientName?: string;
+  appointmentTime?: string | null;
+  // HH:MM and YYYY-MM-DD - more reliable for display than the ISO appointmentTime
+  pickUpTime?: string;
+  pickUpDate?: string;
+  nextAppointmentDate?: string;
+  nextAppointmentTime?: string;
+  nextAppointmentISO?: string;
+  ticketNumber?: string | number;
+  isAutoGenerated?: boolean;
+  // CSV data for the appointment and client, if available
+  appointment?: AppointmentRecord;
+  client?: ClientRecord;
+
+  // Set when the check-in was queued on the kiosk while offline
+  provisional?: boolean;
+  queuedRequestId?: string;
+  queuedCompletionId?: string;
+
+  // Idempotency key for the completion request and whether it was saved
+  completionKey?: string;
+  completionStatus?: 'saved';
+}
+
+export interface SpecialRequestsData {
+  // Catalog options the client selected, by stable option ID
+  requestSelections?: RequestSelection[];
+  dietaryRestrictions: string[];
+  allergies: string;
+  unwantedFoods: string;
+  additionalInfo: string;
+  hasMobilityIssues: boolean;
+  diaperSize: string;
+  householdInfoChanged?: boolean;
+  submittedAt: string;
+}
+
+// Matches the notification preference options staff see in the admin panel
+export type NotificationPreference = 'SMS' | 'Email' | 'None';
+
+export interface AppointmentData {
+  date: string;
+  formattedDate: string;
+  time: string;
+  // Chosen on the reminders step
+  notificationPreference?: NotificationPreference;
+  email?: string;
+  phone?: string;
+  phoneCarrier?: string;
+  // When the client agreed to reminders, and the language they used
+  reminderConsentAt?: string;
+  reminderLanguage?: string;
+}
+
+export interface CheckInFlow {
+  version: number;
+  expiresAt: string;
+  // Accepted before the check-in starts, so it can be sent with it
+  consent?: PrivacyConsent;
+  checkInInfo?: CheckInInfo;
+  specialRequests?: SpecialRequestsData;
+  household?: HouseholdUpdate;
+  appointment?: AppointmentData;
+}
+
+// sessionStorage may not exist on server or in certain embedded browsers
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Check the parts of a stored check-in the flow pages rely on - sessionStorage can be edited
+const isValidCheckInInfo = (info: unknown): info is CheckInInfo => {
+  if (!isPlainObject(info)) return false;
+  return (
+    typeof info.phone === 'string' &&
+    typeof info.lastName === 'string' &&
+    (info.appointment === undefined || isPlainObject(info.appointment)) &&
+    (info.client === undefined || isPlainObject(info.client))
+  );
+};
+
+const readFlow = (): CheckInFlow | null => {
+  const storage = getStorage();
+  const raw = storage?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const flow: CheckInFlow = JSON.parse(raw);
+
+    if (flow.version !== FLOW_SCHEMA_VERSION) {
+      logger.warn(`Discarding check-in flow with schema version ${flow.version}`);
+      clearFlow();
+      return null;
+    }
+
+    if (Date.parse(flow.expiresAt) < Date.now()) {
+      logger.log('Check-in flow expired');
+      clearFlow();
+      return null;
+    }
+
+    if (flow.checkInInfo !== undefined && !isValidCheckInInfo(flow.checkInInfo)) {
+      logger.warn('Discarding check-in flow with an invalid check-in');
+      clearFlow();
+      return null;
+    }
+
+    return flow;
+  } catch (error) {
+    logger.error('Invalid check-in flow in sessionStorage:', error);
+    clearFlow();
+    return null;
+  }
+};
+
+const writeFlow = (flow: Omit<CheckInFlow, 'version' | 'expiresAt'>): void => {
+  const storage = getStorage();
+  if (!storage) return;
+
+  const record: CheckInFlow = {
+    ...flow,
+    version: FLOW_SCHEMA_VERSION,
+    expiresAt: new Date(Date.now() + FLOW_TTL_MS).toISOString(),
+  };
+  storage.setItem(STORAGE_KEY, JSON.stringify(record));
+};
+
+export const getPrivacyConsent = (): PrivacyConsent | null => {
+  return readFlow()?.consent ?? null;
+};
+
+export const getCheckInInfo = (): CheckInInfo | null => {
+  return readFlow()?.checkInInfo ?? null;
+};
+
+export const getSpecialRequests = (): SpecialRequestsData | null => {
+  return readFlow()?.specialRequests ?? null;
+};
+
+export const getHouseholdUpdate = (): HouseholdUpdate | null => {
+  return readFlow()?.household ?? null;
+};
+
+export const getAppointmentData = (): AppointmentData | null => {
+  return readFlow()?.appointment ?? null;
+};
+
+// Starts the flow - the privacy step comes before anything else is entered
+export const savePrivacyConsent = (consent: PrivacyConsent): void => {
+  writeFlow({ consent });
+};
+
+// Start a new flow for a freshly matched (or queued) check-in, keeping the consent
+export const startFlow = (checkInInfo: CheckInInfo): void => {
+  writeFlow({ consent: readFlow()?.consent, checkInInfo });
+};
+
+export const updateCheckInInfo = (changes: Partial<CheckInInfo>): CheckInInfo | null => {
+  const flow = readFlow();
+  if (!flow?.checkInInfo) return null;
+
+  const checkInInfo = { ...flow.checkInInfo, ...changes };
+  writeFlow({ ...flow, checkInInfo });
+  return checkInInfo;
+};
+
+export const saveSpecialRequests = (specialRequests: SpecialRequestsData): void => {
+  const flow = readFlow();
+  if (!flow) return;
+  writeFlow({ ...flow, specialRequests });
+};
+
+export const saveHouseholdUpdate = (household: HouseholdUpdate): void => {
+  const flow = readFlow();
+  if (!flow) return;
+  writeFlow({ ...flow, household });
+};
+
+export const saveAppointmentData = (appointment: AppointmentData): void => {
+  const flow = readFlow();
+  if (!flow) return;
+  writeFlow({ ...flow, appointment });
+};
+
+export const clearFlow = (): void => {
+  const storage = getStorage();
+  if (!storage) return;
+  storage.removeItem(STORAGE_KEY);
+  LEGACY_KEYS.forEach((key) => storage.removeItem(key));
+};
+
+// A check-in the backend has matched to an appointment (not one queued offline)
+export const isConfirmedCheckIn = (info: CheckInInfo | null): info is CheckInInfo & { checkInId: string; clientId: string } => {
+  return !!info && !info.provisional && !!info.checkInId && !!info.clientId;
+};
+
+// A check-in queued on the kiosk while offline; the backend matches it once it is replayed
+export const isQueuedCheckIn = (info: CheckInInfo | null): info is CheckInInfo & { provisional: true; queuedRequestId: string } => {
+  return !!info && !!info.provisional && !!info.queuedRequestId;
+};
+
+// Whether the flow steps can carry on with this check-in
+export const canContinueCheckIn = (info: CheckInInfo | null): boolean => {
+  return isConfirmedCheckIn(info) || isQueuedCheckIn(info);
+};
+
+// The completion was saved or queued - the steps before Confirmation can't be changed any more
+export const isCheckInCompleted = (info: CheckInInfo | null): boolean => {
+  return info?.completionStatus === 'saved' || !!info?.queuedCompletionId;
+};
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Help request tracking for Foodbank Check-In and Appointment System client application
+ *
+ * This module submits help requests and keeps track of the one a client sent
+ * from this device, so the kiosk or phone can show whether staff have seen it.
+ * The backend returns a reference for the client and an access token that
+ * authorizes status checks, follow-up messages and cancellation of that one
+ * request - other clients' requests stay private.
+ *
+ * The tracked request is kept in sessionStorage, so it disappears with the
+ * browser session and when the kiosk resets for the next client.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-13
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../components/ui/HelpRequestStatusChip.tsx} Status chip
+ * @see {@link ../components/buttons/AssistanceButton.tsx} Help request form
+ */
+
+import { getHelpRequestUrl } from '../common/apiConfig';
+import { logger } from '../utils/logger';
+
+const STORAGE_KEY = 'helpRequest';
+
+// Statuses set by staff in the admin panel, plus 'cancelled' by the client
+export type HelpRequestStatus = 'pending' | 'in_progress' | 'resolved' | 'cancelled';
+
+export interface HelpRequestPayload {
+  client_phone: string;
+  client_last_name: string;
+  client_email: string | null;
+  message: string;
+  current_page: string;
+  has_existing_appointment: boolean;
+}
+
+// A help request sent from this device
+export interface TrackedHelpRequest {
+  id: number | string;
+  reference: string;
+  accessToken: string;
+  status: HelpRequestStatus;
+  updatedAt: string;
+}
+
+type HelpRequestListener = (request: TrackedHelpRequest | null) => void;
+
+const listeners = new Set<HelpRequestListener>();
+
+// Staff are done with the request - nothing left to follow
+export const isFinalStatus = (status: HelpRequestStatus): boolean => {
+  return status === 'resolved' || status === 'cancelled';
+};
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const getTrackedHelpRequest = (): TrackedHelpRequest | null => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as TrackedHelpRequest;
+  } catch (error) {
+    logger.error('Invalid tracked help request in sessionStorage:', error);
+    getStorage()?.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+const setTrackedHelpRequest = (request: TrackedHelpRequest | null): void => {
+  const storage = getStorage();
+  if (request) {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(request));
+  } else {
+    storage?.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener(request));
+};
+
+// Stop showing the tracked request (dismissed, or the kiosk was reset)
+export const clearTrackedHelpRequest = (): void => {
+  setTrackedHelpRequest(null);
+};
+
+/**
+ * Subscribe to the tracked help request. The listener is called immediately
+ * with the current request and again on every change. Returns an unsubscribe function.
+ */
+export const subscribeToHelpRequest = (listener: HelpRequestListener): (() => void) => {
+  listeners.add(listener);
+  listener(getTrackedHelpRequest());
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const trackedRequest = (id: number | string): TrackedHelpRequest => {
+  const tracked = getTrackedHelpRequest();
+  if (!tracked || String(tracked.id) !== String(id)) {
+    throw new Error('Help request is not tracked on this device');
+  }
+  return tracked;
+};
+
+const requestWithToken = async (id: number | string, path: string, init?: RequestInit) => {
+  const tracked = trackedRequest(id);
+  const response = await fetch(`${getHelpRequestUrl()}/${encodeURIComponent(String(id))}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Help-Request-Token': tracked.accessToken,
+      ...init?.headers,
+    },
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.success === false) {
+    throw new Error(result.error || `Help request update failed (${response.status})`);
+  }
+  return result;
+};
+
+const applyStatus = (id: number | string, status: HelpRequestStatus, updatedAt?: string): TrackedHelpRequest => {
+  const updated = { ...trackedRequest(id), status, updatedAt: updatedAt || new Date().toISOString() };
+  setTrackedHelpRequest(updated);
+  return updated;
+};
+
+/**
+ * Send a help request
+ *
+ * Returns the tracked request, or null when the backend did not return a
+ * reference to follow (the request was still received).
+ */
+export const submitHelpRequest = async (payload: HelpRequestPayload): Promise<TrackedHelpRequest | null> => {
+  const response = await fetch(getHelpRequestUrl(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to send help request');
+  }
+
+  const result = await response.json().catch(() => ({}));
+  const data = result.data;
+  if (!data?.id || !data.reference || !data.access_token) {
+    return null;
+  }
+
+  const tracked: TrackedHelpRequest = {
+    id: data.id,
+    reference: data.reference,
+    accessToken: data.access_token,
+    status: data.status || 'pending',
+    updatedAt: data.updated_at || data.created_at || new Date().toISOString(),
+  };
+  setTrackedHelpRequest(tracked);
+  return tracked;
+};
+
+// Fetch the latest status set by staff
+export const refreshHelpRequestStatus = async (id: number | string): Promise<TrackedHelpRequest> => {
+  const result = await requestWithToken(id, '/track');
+  if (!result.data?.status) return trackedRequest(id);
+  return applyStatus(id, result.data.status, result.data.updated_at);
+};
+
+export const sendHelpRequestFollowUp = async (id: number | string, message: string): Promise<void> => {
+  await requestWithToken(id, '/follow-ups', {
+    method: 'POST',
+    body: JSON.stringify({ message }),
+  });
+};
+
+export const cancelHelpRequest = async (id: number | string): Promise<TrackedHelpRequest> => {
+  const result = await requestWithToken(id, '/cancel', { method: 'POST' });
+  return applyStatus(id, result.data?.status || 'cancelled', result.data?.updated_at);
+};
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Tests for the durable offline request queue
+ *
+ * The queue runs against fake-indexeddb; the clock is fixed and advanced
+ * between entries so their queued order is deterministic.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./offlineQueue.ts} IndexedDB queue
+ */
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  enqueueRequest,
+  getQueuedRequests,
+  removeQueuedRequest,
+  subscribeToQueue,
+  updateQueuedRequest,
+} from './offlineQueue';
+
+const checkIn = (payload: Record<string, unknown> = {}) => ({
+  kind: 'checkin' as const,
+  path: '/checkin',
+  payload: { phoneNumber: '2505550101', lastName: 'Smith', ...payload },
+  dedupeKey: 'checkin:2505550101:smith::2025-04-14',
+});
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-04-14T16:00:00.000Z'));
+  for (const request of await getQueuedRequests()) {
+    await removeQueuedRequest(request.id);
+  }
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('enqueueRequest', () => {
+  it('keeps entries in the order they were queued', async () => {
+    const first = await enqueueRequest({ kind: 'checkin', path: '/checkin', payload: { lastName: 'Smith' } });
+    vi.setSystemTime(new Date('2025-04-14T16:01:00.000Z'));
+    const second = await enqueueRequest({ kind: 'complete', path: '/checkin/complete', payload: {}, dependsOn: first.id });
+
+    const queue = await getQueuedRequests();
+    expect(queue.map((request) => request.id)).toEqual([first.id, second.id]);
+    expect(queue[0]).toMatchObject({ status: 'pending', attempts: 0, queuedAt: '2025-04-14T16:00:00.000Z' });
+    expect(queue[1].dependsOn).toBe(first.id);
+  });
+
+  it('returns the queued entry when the same visit is queued again', async () => {
+    const first = await enqueueRequest(checkIn({ queuedAt: '2025-04-14T16:00:00.000Z' }));
+    vi.setSystemTime(new Date('2025-04-14T16:01:00.000Z'));
+    const again = await enqueueRequest(checkIn({ queuedAt: '2025-04-14T16:01:00.000Z' }));
+
+    expect(again).toEqual(first);
+    expect(await getQueuedRequests()).toHaveLength(1);
+  });
+
+  it('replaces the queued payload when the same visit is queued with new details', async () => {
+    const first = await enqueueRequest(checkIn({ confirmCloseNameMatch: false }));
+    vi.setSystemTime(new Date('2025-04-14T16:01:00.000Z'));
+    const updated = await enqueueRequest(checkIn({ confirmCloseNameMatch: true }));
+
+    expect(updated.id).toBe(first.id);
+    const queue = await getQueuedRequests();
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload.confirmCloseNameMatch).toBe(true);
+    // Keeps its place in the queue
+    expect(queue[0].queuedAt).toBe('2025-04-14T16:00:00.000Z');
+  });
+
+  it('queues entries with different dedupe keys separately', async () => {
+    await enqueueRequest(checkIn());
+    await enqueueRequest({ ...checkIn(), dedupeKey: 'checkin:2505550101:smith:appointment-2:2025-04-14' });
+    expect(await getQueuedRequests()).toHaveLength(2);
+  });
+
+  it('queues the visit again once the earlier entry failed', async () => {
+    const first = await enqueueRequest(checkIn());
+    await updateQueuedRequest({ ...first, status: 'failed' });
+
+    const again = await enqueueRequest(checkIn());
+    expect(again.id).not.toBe(first.id);
+    expect(await getQueuedRequests()).toHaveLength(2);
+  });
+});
+
+describe('subscribeToQueue', () => {
+  it('calls the listener with the current queue and after every change', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToQueue(listener);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith([]));
+
+    const request = await enqueueRequest(checkIn());
+    expect(listener).toHaveBeenLastCalledWith([request]);
+
+    unsubscribe();
+    await removeQueuedRequest(request.id);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
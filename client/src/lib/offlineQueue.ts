@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Durable offline request queue for Foodbank Check-In and Appointment System client application
+ *
+ * This module persists check-in and completion requests in IndexedDB when the
+ * kiosk loses its network connection, so a visit is never lost on a flaky
+ * connection. Entries are kept in the order they were queued and are replayed
+ * by the queue replayer once connectivity returns.
+ *
+ * Queued check-ins can carry dependent entries (e.g. a completion that needs the
+ * checkInId the backend assigns when the queued check-in is finally sent).
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-03
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./queueReplayer.ts} Background replayer
+ */
+
+import { NetworkError } from './api';
+import { logger } from '../utils/logger';
+
+const DB_NAME = 'foodbank-kiosk';
+const DB_VERSION = 1;
+const STORE_NAME = 'pendingRequests';
+
+export type QueuedRequestKind = 'checkin' | 'complete';
+
+// A request waiting on the kiosk to be sent to the backend
+export interface QueuedRequest {
+  id: string;
+  kind: QueuedRequestKind;
+  path: string;
+  payload: Record<string, unknown>;
+  // Local id of a queued check-in whose checkInId/clientId this entry needs
+  dependsOn?: string;
+  // Entries with the same key are the same visit - only one of them is kept
+  dedupeKey?: string;
+  // 'failed' entries were rejected by the backend and need staff attention
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError?: string;
+  queuedAt: string;
+}
+
+type QueueListener = (requests: QueuedRequest[]) => void;
+
+const listeners = new Set<QueueListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Generate a local id (crypto.randomUUID is missing on older kiosk browsers)
+export const createLocalId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Offline only when fetch() itself rejected or the browser reports no connection -
+// a TypeError thrown while handling a response is a bug, not a dropped network
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  return error instanceof NetworkError;
+};
+
+export const isQueueSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Run a single request against the store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyListeners = async (): Promise<void> => {
+  if (listeners.size === 0) return;
+  const requests = await getQueuedRequests();
+  listeners.forEach((listener) => listener(requests));
+};
+
+// Get all queued requests, oldest first
+export const getQueuedRequests = async (): Promise<QueuedRequest[]> => {
+  if (!isQueueSupported()) return [];
+
+  try {
+    const requests = await withStore<QueuedRequest[]>('readonly', (store) => store.getAll());
+    return requests.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  } catch (error) {
+    logger.error('Failed to read offline queue:', error);
+    return [];
+  }
+};
+
+// Same payload apart from the time it was queued
+const isSamePayload = (a: Record<string, unknown>, b: Record<string, unknown>): boolean => {
+  return JSON.stringify({ ...a, queuedAt: undefined }) === JSON.stringify({ ...b, queuedAt: undefined });
+};
+
+/**
+ * Add a request to the end of the queue
+ *
+ * When a pending entry with the same dedupe key is already queued (e.g. the
+ * client tapped "Check in" again while the kiosk was still offline), that
+ * entry is kept instead of queuing the visit twice. If the new request carries
+ * different details, they replace the queued payload so the latest ones are sent.
+ */
+export const enqueueRequest = async (
+  entry: Pick<QueuedRequest, 'kind' | 'path' | 'payload' | 'dependsOn' | 'dedupeKey'> & { id?: string }
+): Promise<QueuedRequest> => {
+  if (entry.dedupeKey) {
+    const queue = await getQueuedRequests();
+    const existing = queue.find((queued) => queued.status === 'pending' && queued.dedupeKey === entry.dedupeKey);
+    if (existing) {
+      if (isSamePayload(existing.payload, entry.payload)) {
+        logger.log(`${existing.kind} request already queued on kiosk:`, existing.id);
+        return existing;
+      }
+
+      const updated: QueuedRequest = { ...existing, payload: entry.payload, dependsOn: entry.dependsOn };
+      await updateQueuedRequest(updated);
+      logger.log(`Updated ${updated.kind} request queued on kiosk:`, updated.id);
+      return updated;
+    }
+  }
+
+  const request: QueuedRequest = {
+    id: entry.id || createLocalId(),
+    kind: entry.kind,
+    path: entry.path,
+    payload: entry.payload,
+    dependsOn: entry.dependsOn,
+    dedupeKey: entry.dedupeKey,
+    status: 'pending',
+    attempts: 0,
+    queuedAt: new Date().toISOString(),
+  };
+
+  await withStore('readwrite', (store) => store.put(request));
+  logger.log(`Queued ${request.kind} request on kiosk:`, request.id);
+  await notifyListeners();
+  return request;
+};
+
+export const updateQueuedRequest = async (request: QueuedRequest): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(request));
+  await notifyListeners();
+};
+
+export const removeQueuedRequest = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+  await notifyListeners();
+};
+
+/**
+ * Subscribe to queue changes
+ *
+ * The listener is called immediately with the current queue and again after
+ * every change. Returns an unsubscribe function.
+ */
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  getQueuedRequests().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Organization profile for Foodbank Check-In and Appointment System client application
+ *
+ * This module loads the profile of the food bank running the kiosk - name,
+ * phone number, address, opening hours, logo and brand colors - so the same
+ * build can serve several food banks. The profile is fetched from the backend
+ * at startup and cached in localStorage; until it arrives, or when the
+ * backend cannot be reached, the cached copy is used, and without one the
+ * built-in defaults below.
+ *
+ * Environment variables (defaults only; the backend profile takes precedence):
+ * - VITE_FOOD_BANK_NAME: organization name
+ * - VITE_FOOD_BANK_ADDRESS: street address
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-14
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/Organization.ts} Profile types
+ * @see {@link ../hooks/useOrganizationProfile.ts} Profile hook
+ */
+
+import { getApiUrl } from '../common/apiConfig';
+import { logger } from '../utils/logger';
+import type {
+  OrganizationColors,
+  OrganizationHours,
+  OrganizationPhone,
+  OrganizationProfile,
+} from '../common/types/Organization';
+
+const STORAGE_KEY = 'organizationProfile';
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const DEFAULT_ORGANIZATION_COLORS: OrganizationColors = {
+  primary: '#25385D',
+  accent: '#2B7B8C',
+};
+
+export const DEFAULT_ORGANIZATION_PROFILE: OrganizationProfile = {
+  name: import.meta.env.VITE_FOOD_BANK_NAME?.trim() || undefined,
+  phone: { display: '(250) 763-7161', dial: '2507637161' },
+  address: import.meta.env.VITE_FOOD_BANK_ADDRESS?.trim() || undefined,
+  hours: [],
+  slotMinutes: 30,
+  rebookIntervalDays: 21,
+  colors: DEFAULT_ORGANIZATION_COLORS,
+};
+
+// Appointment time assumed when neither the appointment nor the opening hours give one
+const FALLBACK_APPOINTMENT_TIME = '10:00';
+
+type OrganizationProfileListener = (profile: OrganizationProfile) => void;
+
+const listeners = new Set<OrganizationProfileListener>();
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const optionalText = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const normalizePhone = (value: unknown): OrganizationPhone | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const phone = value as Record<string, unknown>;
+  const display = optionalText(phone.display);
+  const dial = optionalText(phone.dial)?.replace(/[^\d+]/g, '') || display?.replace(/[^\d+]/g, '');
+  if (!display || !dial) return undefined;
+  return { display, dial };
+};
+
+const normalizeHours = (value: unknown): OrganizationHours[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .map((entry) => ({ day: Number(entry.day), open: String(entry.open), close: String(entry.close) }))
+    .filter((entry) =>
+      Number.isInteger(entry.day) &&
+      entry.day >= 0 &&
+      entry.day <= 6 &&
+      TIME_OF_DAY.test(entry.open) &&
+      TIME_OF_DAY.test(entry.close)
+    )
+    .sort((a, b) => a.day - b.day || a.open.localeCompare(b.open));
+};
+
+const positiveInteger = (value: unknown, fallback: number): number => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+const normalizeColors = (value: unknown): OrganizationColors => {
+  const colors = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const color = (candidate: unknown, fallback: string) =>
+    typeof candidate === 'string' && HEX_COLOR.test(candidate) ? candidate : fallback;
+  return {
+    primary: color(colors.primary, DEFAULT_ORGANIZATION_COLORS.primary),
+    accent: color(colors.accent, DEFAULT_ORGANIZATION_COLORS.accent),
+  };
+};
+
+/**
+ * Build a complete profile from backend data, filling a missing name, address
+ * or invalid colors from the defaults so one bad field cannot break the kiosk.
+ * The default phone number belongs to the original food bank and is never
+ * filled in for another organization.
+ * Accepts both the backend's snake_case and the cached camelCase fields.
+ */
+const normalizeProfile = (data: Record<string, unknown>): OrganizationProfile => {
+  return {
+    name: optionalText(data.name) ?? DEFAULT_ORGANIZATION_PROFILE.name,
+    phone: normalizePhone(data.phone),
+    address: optionalText(data.address) ?? DEFAULT_ORGANIZATION_PROFILE.address,
+    hours: normalizeHours(data.hours),
+    slotMinutes: positiveInteger(data.slot_minutes ?? data.slotMinutes, DEFAULT_ORGANIZATION_PROFILE.slotMinutes),
+    rebookIntervalDays: positiveInteger(
+      data.rebook_interval_days ?? data.rebookIntervalDays,
+      DEFAULT_ORGANIZATION_PROFILE.rebookIntervalDays
+    ),
+    logoUrl: optionalText(data.logo_url ?? data.logoUrl),
+    colors: normalizeColors(data.colors),
+  };
+};
+
+const readCachedProfile = (): OrganizationProfile | null => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return normalizeProfile(JSON.parse(raw));
+  } catch (error) {
+    logger.error('Invalid organization profile in localStorage:', error);
+    getStorage()?.removeItem(STORAGE_KEY);
+    return null;
+  }
+};
+
+let currentProfile: OrganizationProfile = readCachedProfile() ?? DEFAULT_ORGANIZATION_PROFILE;
+
+export const getOrganizationProfile = (): OrganizationProfile => currentProfile;
+
+/**
+ * Time to assume for an appointment saved without one: when the food bank
+ * opens on that day, or its earliest opening time when the day is unknown or
+ * closed. Returns HH:MM (24-hour).
+ *
+ * @param date - Appointment date as YYYY-MM-DD or an ISO timestamp
+ */
+export const getDefaultAppointmentTime = (date?: string): string => {
+  const { hours } = currentProfile;
+  if (hours.length === 0) return FALLBACK_APPOINTMENT_TIME;
+
+  const match = date?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const day = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getDay() : -1;
+  const sameDay = hours.find((entry) => entry.day === day);
+  if (sameDay) return sameDay.open;
+
+  return hours.reduce((earliest, entry) => (entry.open < earliest ? entry.open : earliest), hours[0].open);
+};
+
+/**
+ * Earliest date the next appointment can be booked: the rebooking interval
+ * set in Settings after `from`. Used while the backend hasn't scheduled the
+ * next appointment itself, e.g. for a check-in queued offline. Returns YYYY-MM-DD.
+ */
+export const getEarliestRebookDate = (from: Date = new Date()): string => {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + currentProfile.rebookIntervalDays);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Subscribe to the organization profile. The listener is called immediately
+ * with the current profile and again when a newer one is loaded. Returns an unsubscribe function.
+ */
+export const subscribeToOrganizationProfile = (listener: OrganizationProfileListener): (() => void) => {
+  listeners.add(listener);
+  listener(currentProfile);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Fetch the organization profile from the backend and cache it.
+ * Keeps the cached or default profile when the request fails.
+ */
+export const loadOrganizationProfile = async (): Promise<OrganizationProfile> => {
+  try {
+    const response = await fetch(getApiUrl('/organization/profile'));
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !result.data) {
+      throw new Error(result.error || `Failed to load organization profile (${response.status})`);
+    }
+
+    currentProfile = normalizeProfile(result.data);
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(currentProfile));
+    listeners.forEach((listener) => listener(currentProfile));
+  } catch (error) {
+    logger.warn('Using cached organization profile:', error);
+  }
+  return currentProfile;
+};
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Privacy notice for Foodbank Check-In and Appointment System client application
+ *
+ * This module loads the current version of the privacy notice that admins
+ * edit on the Settings page. The last notice is cached in localStorage so the
+ * kiosk can still ask for consent when the backend cannot be reached; without
+ * a cached copy the notice shipped with the app (version 1) is shown.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/Privacy.ts} Privacy types
+ * @see {@link ../pages/PrivacyConsent.tsx} Consent page
+ */
+
+import i18n from '../common/i18n';
+import { getApiUrl } from '../common/apiConfig';
+import { logger } from '../utils/logger';
+import type { LocalizedText } from '../common/types/SpecialRequests';
+import type { PrivacyNotice } from '../common/types/Privacy';
+
+const STORAGE_KEY = 'privacyNotice';
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// The notice shipped with the app, in every language it ships with
+const getDefaultPrivacyNotice = (): PrivacyNotice => {
+  const text: LocalizedText = {};
+  Object.keys(i18n.options.resources || {}).forEach((language) => {
+    const notice = i18n.getResource(language, 'translation', 'privacy.notice');
+    if (typeof notice === 'string') {
+      text[language] = notice;
+    }
+  });
+  return { version: 1, text };
+};
+
+// Check a notice read from localStorage or the API before using it
+const isValidNotice = (notice: unknown): notice is PrivacyNotice => {
+  if (typeof notice !== 'object' || notice === null) return false;
+  const { version, text } = notice as Record<string, unknown>;
+  return (
+    typeof version === 'number' &&
+    Number.isInteger(version) &&
+    version > 0 &&
+    typeof text === 'object' &&
+    text !== null &&
+    typeof (text as Record<string, unknown>).en === 'string'
+  );
+};
+
+/**
+ * The notice last loaded on this device, or the built-in notice
+ */
+export const getCachedPrivacyNotice = (): PrivacyNotice => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (raw) {
+    try {
+      const notice = JSON.parse(raw);
+      if (isValidNotice(notice)) return notice;
+    } catch (error) {
+      logger.error('Invalid privacy notice in localStorage:', error);
+    }
+    getStorage()?.removeItem(STORAGE_KEY);
+  }
+  return getDefaultPrivacyNotice();
+};
+
+/**
+ * Fetch the current privacy notice and cache it.
+ * Falls back to the cached or built-in notice when the request fails.
+ */
+export const loadPrivacyNotice = async (): Promise<PrivacyNotice> => {
+  try {
+    const response = await fetch(getApiUrl('/privacy/notice'));
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !isValidNotice(result.data)) {
+      throw new Error(result.error || `Failed to load privacy notice (${response.status})`);
+    }
+
+    const notice: PrivacyNotice = {
+      version: result.data.version,
+      publishedAt: result.data.publishedAt,
+      text: result.data.text,
+    };
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(notice));
+    return notice;
+  } catch (error) {
+    logger.warn('Using cached privacy notice:', error);
+    return getCachedPrivacyNotice();
+  }
+};
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Tests for replaying the offline request queue
+ *
+ * The queue runs against fake-indexeddb and fetch is stubbed, answering each
+ * request from a list of responses in the order they are sent.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-24
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./queueReplayer.ts} Background replayer
+ */
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueuedRequest, enqueueRequest, getQueuedRequests, removeQueuedRequest } from './offlineQueue';
+import { replayQueue } from './queueReplayer';
+
+const fetchMock = vi.fn<[string, RequestInit?], Promise<Response>>();
+
+const respond = (status: number, body: Record<string, unknown>) =>
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+
+const checkedIn = (checkInId: string) =>
+  respond(200, { success: true, data: { checkInId, clientId: `client-${checkInId}`, clientName: 'John Smith' } });
+
+// Queue an entry one minute after the previous one
+let minute = 0;
+const enqueue = (entry: Partial<QueuedRequest> & Pick<QueuedRequest, 'kind'>) => {
+  vi.setSystemTime(new Date(Date.UTC(2025, 3, 14, 16, minute++)));
+  return enqueueRequest({
+    path: entry.kind === 'checkin' ? '/checkin' : '/checkin/complete',
+    payload: {},
+    ...entry,
+  });
+};
+
+const sentBodies = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init?.body)));
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+  minute = 0;
+  for (const request of await getQueuedRequests()) {
+    await removeQueuedRequest(request.id);
+  }
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('replayQueue', () => {
+  it('sends entries in the order they were queued and removes them', async () => {
+    await enqueue({ kind: 'checkin', payload: { lastName: 'Smith' } });
+    await enqueue({ kind: 'checkin', payload: { lastName: 'Doe' } });
+    checkedIn('check-in-1');
+    checkedIn('check-in-2');
+
+    await replayQueue();
+
+    expect(sentBodies().map((body) => body.lastName)).toEqual(['Smith', 'Doe']);
+    expect(await getQueuedRequests()).toEqual([]);
+  });
+
+  it('fills in the ids of a replayed check-in before sending its completion', async () => {
+    const checkIn = await enqueue({ kind: 'checkin', payload: { lastName: 'Smith' } });
+    await enqueue({ kind: 'complete', payload: { status: 'Collected', idempotencyKey: 'key-1' }, dependsOn: checkIn.id });
+    checkedIn('check-in-1');
+    respond(200, { success: true });
+
+    await replayQueue();
+
+    expect(fetchMock.mock.calls[1][1]?.headers).toMatchObject({ 'Idempotency-Key': 'key-1' });
+    expect(sentBodies()[1]).toMatchObject({ checkInId: 'check-in-1', clientId: 'client-check-in-1', clientName: 'John Smith' });
+    expect(await getQueuedRequests()).toEqual([]);
+  });
+
+  it('stops at a server error and keeps the rest of the queue in order', async () => {
+    const first = await enqueue({ kind: 'checkin', payload: { lastName: 'Smith' } });
+    const second = await enqueue({ kind: 'checkin', payload: { lastName: 'Doe' } });
+    respond(503, {});
+
+    await replayQueue();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const queue = await getQueuedRequests();
+    expect(queue.map((request) => request.id)).toEqual([first.id, second.id]);
+    expect(queue[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Server responded with 503' });
+    expect(queue[1].attempts).toBe(0);
+  });
+
+  it('stops when the network is still down', async () => {
+    await enqueue({ kind: 'checkin' });
+    await enqueue({ kind: 'checkin' });
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await replayQueue();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const queue = await getQueuedRequests();
+    expect(queue[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network unavailable' });
+  });
+
+  it('marks a rejected check-in and its completion as failed and carries on', async () => {
+    const rejected = await enqueue({ kind: 'checkin', payload: { lastName: 'Smith' } });
+    const completion = await enqueue({ kind: 'complete', dependsOn: rejected.id });
+    await enqueue({ kind: 'checkin', payload: { lastName: 'Doe' } });
+    respond(404, { success: false, error: { message: 'No appointment found' } });
+    checkedIn('check-in-2');
+
+    await replayQueue();
+
+    expect(sentBodies().map((body) => body.lastName)).toEqual(['Smith', 'Doe']);
+    const queue = await getQueuedRequests();
+    expect(queue).toHaveLength(2);
+    expect(queue[0]).toMatchObject({ id: rejected.id, status: 'failed', lastError: 'No appointment found' });
+    expect(queue[1]).toMatchObject({
+      id: completion.id,
+      status: 'failed',
+      lastError: 'The queued check-in this depends on was rejected',
+    });
+  });
+
+  it('skips entries that already failed', async () => {
+    const rejected = await enqueue({ kind: 'checkin' });
+    respond(400, { success: false, error: 'Invalid phone number' });
+    await replayQueue();
+
+    fetchMock.mockClear();
+    await replayQueue();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect((await getQueuedRequests())[0]).toMatchObject({ id: rejected.id, status: 'failed', attempts: 1 });
+  });
+});
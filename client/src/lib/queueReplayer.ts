@@ -0,0 +1,184 @@
+/**
+ * @fileoverview Background replayer for the offline request queue
+ *
+ * This module sends requests queued on the kiosk to the backend once the
+ * network comes back. Requests are replayed strictly in the order they were
+ * queued; the replay stops at the first connection error and resumes on the
+ * next `online` event or retry tick.
+ *
+ * Entries the backend rejects (e.g. appointment not found) are kept and marked
+ * as failed so staff can follow up, rather than being retried forever.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-03
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./offlineQueue.ts} IndexedDB queue
+ */
+
+import { api } from './api';
+import type { CheckInResponse } from './checkInService';
+import {
+  QueuedRequest,
+  getQueuedRequests,
+  isNetworkError,
+  isQueueSupported,
+  removeQueuedRequest,
+  updateQueuedRequest,
+} from './offlineQueue';
+import { logger, logApiError } from '../utils/logger';
+
+const RETRY_INTERVAL_MS = 30000;
+
+type ReplayOutcome = 'sent' | 'rejected' | 'retry';
+
+let activeReplay: Promise<void> | null = null;
+
+// Ids the backend assigns to a replayed check-in
+type ReplayedCheckIn = CheckInResponse['data'];
+
+const sendRequest = async (
+  request: QueuedRequest
+): Promise<{ outcome: ReplayOutcome; data?: ReplayedCheckIn; error?: string }> => {
+  try {
+    const idempotencyKey = typeof request.payload.idempotencyKey === 'string'
+      ? request.payload.idempotencyKey
+      : undefined;
+
+    const response = await api(request.path, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+      },
+      body: JSON.stringify(request.payload),
+    });
+
+    const result: Partial<CheckInResponse> = await response.json().catch(() => ({}));
+
+    if (response.ok && result.success) {
+      return { outcome: 'sent', data: result.data };
+    }
+
+    // Server errors and rate limiting are temporary - keep the entry and retry later
+    if (response.status >= 500 || response.status === 429) {
+      return { outcome: 'retry', error: `Server responded with ${response.status}` };
+    }
+
+    const error = typeof result.error === 'string' ? result.error : result.error?.message;
+    return { outcome: 'rejected', error: error || result.message || `Server responded with ${response.status}` };
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return { outcome: 'retry', error: 'Network unavailable' };
+    }
+    logApiError('Queued request replay failed', error);
+    return { outcome: 'retry', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
+// Copy the ids the backend assigned to a replayed check-in into its dependents
+const resolveDependents = async (checkIn: QueuedRequest, queue: QueuedRequest[], data: ReplayedCheckIn): Promise<void> => {
+  const dependents = queue.filter((entry) => entry.dependsOn === checkIn.id);
+
+  for (const dependent of dependents) {
+    await updateQueuedRequest({
+      ...dependent,
+      dependsOn: undefined,
+      payload: {
+        ...dependent.payload,
+        checkInId: data?.checkInId,
+        clientId: data?.clientId,
+        clientName: dependent.payload.clientName || data?.clientName,
+      },
+    });
+  }
+};
+
+const failDependents = async (checkIn: QueuedRequest, queue: QueuedRequest[]): Promise<void> => {
+  const dependents = queue.filter((entry) => entry.dependsOn === checkIn.id);
+
+  for (const dependent of dependents) {
+    await updateQueuedRequest({
+      ...dependent,
+      status: 'failed',
+      lastError: 'The queued check-in this depends on was rejected',
+    });
+  }
+};
+
+const runReplay = async (): Promise<void> => {
+  const initialQueue = await getQueuedRequests();
+  if (initialQueue.length === 0) return;
+
+  logger.log(`Replaying ${initialQueue.length} queued request(s)`);
+
+  for (const { id } of initialQueue) {
+    // Re-read each time - earlier replays may have resolved this entry's dependency
+    const queue = await getQueuedRequests();
+    const request = queue.find((entry) => entry.id === id);
+    if (!request || request.status === 'failed') continue;
+    if (request.dependsOn) continue;
+
+    const { outcome, data, error } = await sendRequest(request);
+
+    if (outcome === 'retry') {
+      await updateQueuedRequest({ ...request, attempts: request.attempts + 1, lastError: error });
+      // Keep ordering intact - stop here and try again later
+      return;
+    }
+
+    if (outcome === 'rejected') {
+      logger.warn(`Queued ${request.kind} request rejected:`, error);
+      await updateQueuedRequest({ ...request, status: 'failed', attempts: request.attempts + 1, lastError: error });
+      if (request.kind === 'checkin') {
+        await failDependents(request, queue);
+      }
+      continue;
+    }
+
+    if (request.kind === 'checkin') {
+      await resolveDependents(request, queue, data);
+    }
+    await removeQueuedRequest(request.id);
+  }
+};
+
+// Replay the queue once (concurrent calls share the same run)
+export const replayQueue = (): Promise<void> => {
+  if (!isQueueSupported()) return Promise.resolve();
+  if (activeReplay) return activeReplay;
+
+  activeReplay = runReplay()
+    .catch((error) => logger.error('Offline queue replay error:', error))
+    .finally(() => {
+      activeReplay = null;
+    });
+
+  return activeReplay;
+};
+
+/**
+ * Start replaying queued requests in the background
+ *
+ * Replays immediately, whenever the browser reports it is back online, and on
+ * a fixed retry interval. Returns a cleanup function.
+ */
+export const startQueueReplayer = (): (() => void) => {
+  const handleOnline = () => {
+    replayQueue();
+  };
+
+  replayQueue();
+  window.addEventListener('online', handleOnline);
+  const interval = window.setInterval(() => {
+    if (navigator.onLine) {
+      replayQueue();
+    }
+  }, RETRY_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.clearInterval(interval);
+  };
+};
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Pickup queue status for Foodbank Check-In and Appointment System client application
+ *
+ * This module fetches a checked-in client's place in today's queue and
+ * estimates their wait from the wait times of clients served recently.
+ * The backend counts checked-in clients whose status is still Pending, in
+ * check-in order, and reports when staff call the client's ticket.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-18
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/Queue.ts} Queue types
+ * @see {@link ../components/ui/QueueStatusCard.tsx} Queue status card
+ */
+
+import { api } from './api';
+import type { QueueState, QueueStatus } from '../common/types/Queue';
+
+// Only the most recent clients reflect how fast the line is moving now
+const RECENT_SAMPLE_SIZE = 10;
+
+const QUEUE_STATES: QueueState[] = ['waiting', 'called', 'done'];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Estimated minutes until the client is called, or null without recent data
+ *
+ * A recent client waited about the median wait time from the back of the
+ * line, so the client's share of it is their position over the line length.
+ * Rounded up to 5 minutes so the number doesn't jump on every refresh.
+ */
+export const estimateWaitMinutes = (status: QueueStatus): number | null => {
+  if (status.state !== 'waiting' || !status.position) return null;
+
+  const recent = status.recentWaitTimes
+    .filter((minutes) => Number.isFinite(minutes) && minutes > 0)
+    .slice(0, RECENT_SAMPLE_SIZE);
+  if (recent.length === 0) return null;
+
+  const minutes = (median(recent) * status.position) / Math.max(status.waitingCount, status.position);
+  return Math.max(5, Math.ceil(minutes / 5) * 5);
+};
+
+/**
+ * Fetch the queue status for a check-in
+ */
+export const fetchQueueStatus = async (checkInId: string): Promise<QueueStatus> => {
+  const response = await api(`/checkin/${encodeURIComponent(checkInId)}/queue`);
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success || !result.data) {
+    throw new Error(result.error || `Failed to load queue status (${response.status})`);
+  }
+
+  const data = result.data;
+  return {
+    state: QUEUE_STATES.includes(data.state) ? data.state : 'done',
+    ticketNumber: data.ticketNumber != null ? String(data.ticketNumber) : undefined,
+    position: Number.isInteger(data.position) && data.position > 0 ? data.position : null,
+    waitingCount: Number(data.waitingCount) || 0,
+    recentWaitTimes: Array.isArray(data.recentWaitTimes) ? data.recentWaitTimes.map(Number) : [],
+    calledAt: data.calledAt || null,
+    updatedAt: data.updatedAt || new Date().toISOString(),
+  };
+};
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Special-request catalog for Foodbank Check-In and Appointment System client application
+ *
+ * This module loads the request options staff manage from the admin
+ * Settings page. The backend returns the options active today, with the
+ * stock left for options that have a limit. The last catalog is cached in
+ * localStorage so the kiosk can still show it when the backend cannot be
+ * reached; without a cached copy the built-in dietary options and the diaper
+ * request are used.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-15
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../common/types/SpecialRequests.ts} Catalog types
+ * @see {@link ../pages/SpecialRequests.tsx} Special requests page
+ */
+
+import i18n from '../common/i18n';
+import { getApiUrl } from '../common/apiConfig';
+import { logger } from '../utils/logger';
+import type { LocalizedText, RequestOption, RequestOptionCategory } from '../common/types/SpecialRequests';
+
+const STORAGE_KEY = 'requestCatalog';
+
+// Order the categories are shown in on the special requests page
+export const REQUEST_CATEGORIES: RequestOptionCategory[] = ['dietary', 'allergy', 'baby_needs', 'hygiene', 'pet_food'];
+
+// Option whose detail is also submitted as the legacy diaperSize field
+export const DIAPER_OPTION_ID = 'diapers';
+
+const getStorage = (): Storage | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// Labels for the built-in options in every language the app ships with
+const translatedLabels = (key: string): LocalizedText => {
+  const labels: LocalizedText = {};
+  Object.keys(i18n.options.resources || {}).forEach((language) => {
+    const label = i18n.getResource(language, 'translation', key);
+    if (typeof label === 'string') {
+      labels[language] = label;
+    }
+  });
+  return labels;
+};
+
+const getDefaultRequestCatalog = (): RequestOption[] => [
+  { id: 'vegetarian', category: 'dietary', labels: translatedLabels('specialRequests.vegetarian'), icon: 'carrot', sortOrder: 1 },
+  { id: 'vegan', category: 'dietary', labels: translatedLabels('specialRequests.vegan'), icon: 'leaf', sortOrder: 2 },
+  { id: 'glutenFree', category: 'dietary', labels: translatedLabels('specialRequests.glutenFree'), icon: 'bread', sortOrder: 3 },
+  { id: 'dairyFree', category: 'dietary', labels: translatedLabels('specialRequests.dairyFree'), icon: 'noFood', sortOrder: 4 },
+  { id: 'halal', category: 'dietary', labels: translatedLabels('specialRequests.halal'), icon: 'mosque', sortOrder: 5 },
+  { id: 'kosher', category: 'dietary', labels: translatedLabels('specialRequests.kosher'), icon: 'synagogue', sortOrder: 6 },
+  {
+    id: DIAPER_OPTION_ID,
+    category: 'baby_needs',
+    labels: { en: 'Diapers (Tiny Bundles)' },
+    icon: 'baby',
+    detailPrompt: { en: 'What size do you need? (like Size 3, Size 4, etc.)' },
+    sortOrder: 7,
+  },
+];
+
+/**
+ * Pick the text for a language, falling back to the base language, then English
+ */
+export const localizedText = (text: LocalizedText | undefined, language: string): string => {
+  if (!text) return '';
+  return text[language] || text[language.split('-')[0]] || text.en || Object.values(text)[0] || '';
+};
+
+// YYYY-MM-DD in the kiosk's local time zone
+const todayKey = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// A cached catalog may be from an earlier day, so check the active window here too
+const isActiveToday = (option: RequestOption): boolean => {
+  const today = todayKey();
+  return (!option.activeFrom || option.activeFrom <= today) && (!option.activeUntil || option.activeUntil >= today);
+};
+
+export const isOutOfStock = (option: RequestOption): boolean => {
+  return option.remaining !== undefined && option.remaining !== null && option.remaining <= 0;
+};
+
+const prepareCatalog = (options: RequestOption[]): RequestOption[] => {
+  return options
+    .filter((option) => option?.id && REQUEST_CATEGORIES.includes(option.category) && option.labels)
+    .filter(isActiveToday)
+    .sort((a, b) => a.sortOrder - b.sortOrder);
+};
+
+/**
+ * The catalog last loaded on this device, or the built-in options
+ */
+export const getCachedRequestCatalog = (): RequestOption[] => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (raw) {
+    try {
+      return prepareCatalog(JSON.parse(raw));
+    } catch (error) {
+      logger.error('Invalid request catalog in localStorage:', error);
+      getStorage()?.removeItem(STORAGE_KEY);
+    }
+  }
+  return prepareCatalog(getDefaultRequestCatalog());
+};
+
+/**
+ * Fetch today's request options and cache them.
+ * Falls back to the cached or built-in catalog when the request fails.
+ */
+export const loadRequestCatalog = async (): Promise<RequestOption[]> => {
+  try {
+    const response = await fetch(getApiUrl('/special-requests/catalog'));
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || !Array.isArray(result.data?.options)) {
+      throw new Error(result.error || `Failed to load request catalog (${response.status})`);
+    }
+
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(result.data.options));
+    return prepareCatalog(result.data.options);
+  } catch (error) {
+    logger.warn('Using cached request catalog:', error);
+    return getCachedRequestCatalog();
+  }
+};
+
+/**
+ * Label of a submitted option in the given language; the ID when the option
+ * is no longer in the catalog
+ */
+export const getRequestOptionLabel = (optionId: string, language: string): string => {
+  const option = getCachedRequestCatalog().find((candidate) => candidate.id === optionId);
+  return option ? localizedText(option.labels, language) : optionId;
+};
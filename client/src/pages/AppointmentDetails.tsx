@@ -6,7 +6,7 @@
  * a streamlined confirmation process.
  * 
  * Features:
- * - Auto-schedules the next appointment 21 days from today
+ * - Shows the next appointment, auto-scheduled after the rebooking interval set in Settings
  * - Displays the appointment date clearly
  * - Shows system features and benefits
  * - Includes important notices about arrival and policies
@@ -34,10 +34,6 @@ import {
   Badge,
   SimpleGrid,
   Button,
-  Input,
-  Select,
-  FormControl,
-  FormLabel,
   useToast,
   useDisclosure,
   Modal,
@@ -66,6 +62,12 @@ import ProgressSteps from '../components/layout/ProgressSteps';
 import PageHeader from '../components/ui/PageHeader';
 import { useTranslation } from 'react-i18next';
 import { api } from '../lib/api';
+import { getDefaultAppointmentTime, getEarliestRebookDate } from '../lib/organizationProfile';
+import { formatTimeOfDay, fromDateKey } from '../../../shared/appointmentSlots';
+import { CheckInService } from '../lib/checkInService';
+import AppointmentSlotPicker from '../components/ui/AppointmentSlotPicker';
+import { SlotSelection } from '../common/types/Availability';
+import { getAppointmentData, getCheckInInfo, saveAppointmentData, updateCheckInInfo } from '../lib/flowStore';
 
 
 const AppointmentDetails: React.FC = () => {
@@ -73,7 +75,7 @@ const AppointmentDetails: React.FC = () => {
   const toast = useToast();
   const { isOpen: isRescheduleOpen, onOpen: onRescheduleOpen, onClose: onRescheduleClose } = useDisclosure();
 
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
  
   const [nextAppointment, setNextAppointment] = useState<{
     date: string;
@@ -82,21 +84,10 @@ const AppointmentDetails: React.FC = () => {
   } | null>(null);
   
   // Reschedule state
-  const [rescheduleDate, setRescheduleDate] = useState<string>('');
-  const [rescheduleTime, setRescheduleTime] = useState<string>('10:00');
+  const [rescheduleSlot, setRescheduleSlot] = useState<SlotSelection | null>(null);
   const [isRescheduling, setIsRescheduling] = useState(false);
   const [checkInId, setCheckInId] = useState<string | null>(null);
   
-  // Valid time slots
-  const validTimes = [
-    '09:00', '09:15', '09:30', '09:45',
-    '10:00', '10:15', '10:30', '10:45',
-    '11:00', '11:15',
-    '12:00', '12:15', '12:30', '12:45',
-    '13:00', '13:15', '13:30', '13:45',
-    '14:00', '14:15', '14:30', '14:45'
-  ];
-
   /**
    * Get next appointment for client
    * 
@@ -122,21 +113,9 @@ const AppointmentDetails: React.FC = () => {
         if (appointmentDate) {
           const nextDate = new Date(appointmentDate);
           
-          // Convert to 12-hour format
-          const formatTime = (timeStr: string): string => {
-            if (!timeStr) return '10:00 AM';
-            
-            const [hours, minutes] = timeStr.split(':');
-            const hour24 = parseInt(hours);
-            const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-            const ampm = hour24 >= 12 ? 'PM' : 'AM';
-            
-            return `${hour12}:${minutes} ${ampm}`;
-          };
-          
           setNextAppointment({
             date: checkInRecord.nextAppointmentDate || appointmentDate,
-            time: formatTime(checkInRecord.nextAppointmentTime || '10:00'),
+            time: formatTimeOfDay(checkInRecord.nextAppointmentTime || getDefaultAppointmentTime(checkInRecord.nextAppointmentDate)),
             formattedDate: nextDate.toLocaleDateString('en-US', {
               weekday: 'long',
               year: 'numeric',
@@ -149,69 +128,37 @@ const AppointmentDetails: React.FC = () => {
       }
       
       // Fallback: Try session storage if API doesn't have appointment yet
-      const checkInData = window.sessionStorage.getItem('checkInInfo');
-      if (checkInData) {
-        try {
-          const parsed = JSON.parse(checkInData);
-          if (parsed.nextAppointmentDate) {
-            const nextDate = new Date(parsed.nextAppointmentDate);
-            const formatTime = (timeStr: string): string => {
-              if (!timeStr) return '10:00 AM';
-              const [hours, minutes] = timeStr.split(':');
-              const hour24 = parseInt(hours);
-              const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-              const ampm = hour24 >= 12 ? 'PM' : 'AM';
-              return `${hour12}:${minutes} ${ampm}`;
-            };
-            
-            setNextAppointment({
-              date: parsed.nextAppointmentDate,
-              time: formatTime(parsed.nextAppointmentTime || '10:00'),
-              formattedDate: nextDate.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
+      const parsed = getCheckInInfo();
+      if (parsed?.nextAppointmentDate) {
+        const nextDate = new Date(parsed.nextAppointmentDate);
+        setNextAppointment({
+          date: parsed.nextAppointmentDate,
+          time: formatTimeOfDay(parsed.nextAppointmentTime || getDefaultAppointmentTime(parsed.nextAppointmentDate)),
+          formattedDate: nextDate.toLocaleDateString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          })
+        });
       }
     } catch (error) {
       console.error('Failed to fetch next appointment:', error);
       
       // Fallback: Try session storage
-      const checkInData = window.sessionStorage.getItem('checkInInfo');
-      if (checkInData) {
-        try {
-          const parsed = JSON.parse(checkInData);
-          if (parsed.nextAppointmentDate) {
-            const nextDate = new Date(parsed.nextAppointmentDate);
-            const formatTime = (timeStr: string): string => {
-              if (!timeStr) return '10:00 AM';
-              const [hours, minutes] = timeStr.split(':');
-              const hour24 = parseInt(hours);
-              const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-              const ampm = hour24 >= 12 ? 'PM' : 'AM';
-              return `${hour12}:${minutes} ${ampm}`;
-            };
-            
-            setNextAppointment({
-              date: parsed.nextAppointmentDate,
-              time: formatTime(parsed.nextAppointmentTime || '10:00'),
-              formattedDate: nextDate.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
+      const parsed = getCheckInInfo();
+      if (parsed?.nextAppointmentDate) {
+        const nextDate = new Date(parsed.nextAppointmentDate);
+        setNextAppointment({
+          date: parsed.nextAppointmentDate,
+          time: formatTimeOfDay(parsed.nextAppointmentTime || getDefaultAppointmentTime(parsed.nextAppointmentDate)),
+          formattedDate: nextDate.toLocaleDateString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          })
+        });
       }
     }
   };
@@ -225,11 +172,9 @@ const AppointmentDetails: React.FC = () => {
     
     const fetchData = async () => {
       if (typeof window !== 'undefined') {
-        const checkInData = window.sessionStorage.getItem('checkInInfo');
-        if (checkInData) {
+        const parsed = getCheckInInfo();
+        if (parsed) {
           try {
-            const parsed = JSON.parse(checkInData);
-            
             // Store checkInId for rescheduling and polling
             if (parsed.checkInId) {
               setCheckInId(parsed.checkInId);
@@ -244,18 +189,9 @@ const AppointmentDetails: React.FC = () => {
               // Fallback: Try to get from session storage first
               if (parsed.nextAppointmentDate) {
                 const nextDate = new Date(parsed.nextAppointmentDate);
-                const formatTime = (timeStr: string): string => {
-                  if (!timeStr) return '10:00 AM';
-                  const [hours, minutes] = timeStr.split(':');
-                  const hour24 = parseInt(hours);
-                  const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-                  const ampm = hour24 >= 12 ? 'PM' : 'AM';
-                  return `${hour12}:${minutes} ${ampm}`;
-                };
-                
                 setNextAppointment({
                   date: parsed.nextAppointmentDate,
-                  time: formatTime(parsed.nextAppointmentTime || '10:00'),
+                  time: formatTimeOfDay(parsed.nextAppointmentTime || getDefaultAppointmentTime(parsed.nextAppointmentDate)),
                   formattedDate: nextDate.toLocaleDateString('en-US', {
                     weekday: 'long',
                     year: 'numeric',
@@ -264,9 +200,23 @@ const AppointmentDetails: React.FC = () => {
                   })
                 });
               }
+            } else if (parsed.provisional) {
+              // Queued offline - the backend schedules the next visit once the check-in
+              // is sent, so show the earliest date the rebooking interval allows
+              const date = getEarliestRebookDate();
+              setNextAppointment({
+                date,
+                time: formatTimeOfDay(getDefaultAppointmentTime(date)),
+                formattedDate: fromDateKey(date).toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  year: 'numeric',
+                  month: 'long',
+                  day: 'numeric'
+                })
+              });
             }
           } catch (error) {
-            console.error('Error parsing checkInData:', error);
+            console.error('Error loading check-in data:', error);
           }
         }
       }
@@ -327,7 +277,7 @@ const AppointmentDetails: React.FC = () => {
   
   // Handle reschedule appointment
   const handleReschedule = async () => {
-    if (!checkInId || !rescheduleDate) {
+    if (!checkInId || !rescheduleSlot?.date || !rescheduleSlot.time) {
       toast({
         title: 'Error',
         description: 'Please select a date and time for your appointment.',
@@ -344,7 +294,7 @@ const AppointmentDetails: React.FC = () => {
       const response = await api(`/checkin/${checkInId}/reschedule`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ newDate: rescheduleDate, newTime: rescheduleTime }),
+        body: JSON.stringify({ newDate: rescheduleSlot.date, newTime: rescheduleSlot.time }),
       });
       
       const data = await response.json();
@@ -352,18 +302,9 @@ const AppointmentDetails: React.FC = () => {
       if (data.success && data.data) {
         // Update local state
         const newDate = new Date(data.data.nextAppointmentISO);
-        const formatTime = (timeStr: string): string => {
-          if (!timeStr) return '10:00 AM';
-          const [hours, minutes] = timeStr.split(':');
-          const hour24 = parseInt(hours);
-          const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-          const ampm = hour24 >= 12 ? 'PM' : 'AM';
-          return `${hour12}:${minutes} ${ampm}`;
-        };
-        
         setNextAppointment({
           date: data.data.nextAppointmentDate,
-          time: formatTime(data.data.nextAppointmentTime || '10:00'),
+          time: formatTimeOfDay(data.data.nextAppointmentTime || getDefaultAppointmentTime(data.data.nextAppointmentDate)),
           formattedDate: newDate.toLocaleDateString('en-US', {
             weekday: 'long',
             year: 'numeric',
@@ -372,19 +313,12 @@ const AppointmentDetails: React.FC = () => {
           })
         });
         
-        // Update sessionStorage
-        const checkInData = window.sessionStorage.getItem('checkInInfo');
-        if (checkInData) {
-          try {
-            const parsed = JSON.parse(checkInData);
-            parsed.nextAppointmentDate = data.data.nextAppointmentDate;
-            parsed.nextAppointmentTime = data.data.nextAppointmentTime;
-            parsed.nextAppointmentISO = data.data.nextAppointmentISO;
-            window.sessionStorage.setItem('checkInInfo', JSON.stringify(parsed));
-          } catch (e) {
-            console.error('Error updating sessionStorage:', e);
-          }
-        }
+        // Update the check-in flow
+        updateCheckInInfo({
+          nextAppointmentDate: data.data.nextAppointmentDate,
+          nextAppointmentTime: data.data.nextAppointmentTime,
+          nextAppointmentISO: data.data.nextAppointmentISO,
+        });
         
         toast({
           title: 'Appointment Rescheduled',
@@ -395,8 +329,7 @@ const AppointmentDetails: React.FC = () => {
         });
         
         onRescheduleClose();
-        setRescheduleDate('');
-        setRescheduleTime('10:00');
+        setRescheduleSlot(null);
       } else {
         throw new Error(data.error || 'Failed to reschedule appointment');
       }
@@ -414,27 +347,19 @@ const AppointmentDetails: React.FC = () => {
     }
   };
   
-  // Calculate minimum date (21 days from today)
-  const getMinDate = () => {
-    const today = new Date();
-    const minDate = new Date(today);
-    minDate.setDate(today.getDate() + 21);
-    return minDate.toISOString().split('T')[0];
-  };
-
   const handleSubmit = () => {
     if (!nextAppointment) {
       console.error('No next appointment available');
       return;
     }
     
-    const appointmentData = {
+    saveAppointmentData({
+      ...getAppointmentData(),
       date: nextAppointment.date,
       formattedDate: nextAppointment.formattedDate,
       time: nextAppointment.time,
-    };
-    sessionStorage.setItem("appointmentData", JSON.stringify(appointmentData));
-    navigate("/confirmation");
+    });
+    navigate("/reminders");
   };
 
   return (
@@ -452,12 +377,14 @@ const AppointmentDetails: React.FC = () => {
         boxShadow="sm"
       >
         <ProgressSteps
-          currentStep={3}
-          totalSteps={4}
+          currentStep={4}
+          totalSteps={6}
           labels={[
             t('navigation.progressSteps.initialCheckIn'),
             t('navigation.progressSteps.specialRequests'),
+            t('navigation.progressSteps.household'),
             t('navigation.progressSteps.appointmentDetails'),
+            t('navigation.progressSteps.reminders'),
             t('navigation.progressSteps.confirmation')
           ]}
         />
@@ -967,7 +894,7 @@ const AppointmentDetails: React.FC = () => {
       </VStack>
       
       {/* Reschedule Modal */}
-      <Modal isOpen={isRescheduleOpen} onClose={onRescheduleClose} size="md">
+      <Modal isOpen={isRescheduleOpen} onClose={onRescheduleClose} size="lg">
         <ModalOverlay />
         <ModalContent>
           <ModalHeader>Reschedule Appointment</ModalHeader>
@@ -975,43 +902,17 @@ const AppointmentDetails: React.FC = () => {
           <ModalBody>
             <VStack spacing={4} align="stretch">
               <Text fontSize="sm" color="gray.600">
-                Please select a new date and time for your appointment. Appointments must be at least 21 days from today and available Monday through Friday.
+                Please select a new date and time for your appointment. Greyed-out days are closed or fully booked.
               </Text>
               
-              <FormControl isRequired>
-                <FormLabel>New Appointment Date</FormLabel>
-                <Input
-                  type="date"
-                  value={rescheduleDate}
-                  onChange={(e) => setRescheduleDate(e.target.value)}
-                  min={getMinDate()}
-                  size="lg"
-                />
-              </FormControl>
-              
-              <FormControl isRequired>
-                <FormLabel>New Appointment Time</FormLabel>
-                <Select
-                  value={rescheduleTime}
-                  onChange={(e) => setRescheduleTime(e.target.value)}
-                  size="lg"
-                >
-                  {validTimes.map((time) => {
-                    const [hours, minutes] = time.split(':');
-                    const hour24 = parseInt(hours);
-                    const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-                    const ampm = hour24 >= 12 ? 'PM' : 'AM';
-                    const displayTime = `${hour12}:${minutes} ${ampm}`;
-                    return (
-                      <option key={time} value={time}>
-                        {displayTime}
-                      </option>
-                    );
-                  })}
-                </Select>
-              </FormControl>
+              <AppointmentSlotPicker
+                value={rescheduleSlot}
+                onChange={setRescheduleSlot}
+                loadAvailability={CheckInService.getAvailability}
+                locale={i18n.language}
+              />
               
-              {rescheduleDate && (
+              {rescheduleSlot?.time && (
                 <Box
                   bg="blue.50"
                   border="1px solid"
@@ -1020,13 +921,16 @@ const AppointmentDetails: React.FC = () => {
                   p={3}
                 >
                   <Text fontSize="sm" color="blue.700">
-                    <strong>New Appointment:</strong> {new Date(rescheduleDate).toLocaleDateString('en-US', {
-                      weekday: 'long',
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })} at {(() => {
-                      const [hours, minutes] = rescheduleTime.split(':');
+                    <strong>New Appointment:</strong> {(() => {
+                      const [year, month, day] = rescheduleSlot.date.split('-').map(Number);
+                      return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+                        weekday: 'long',
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric'
+                      });
+                    })()} at {(() => {
+                      const [hours, minutes] = rescheduleSlot.time.split(':');
                       const hour24 = parseInt(hours);
                       const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
                       const ampm = hour24 >= 12 ? 'PM' : 'AM';
@@ -1045,6 +949,7 @@ const AppointmentDetails: React.FC = () => {
             <Button
               colorScheme="green"
               onClick={handleReschedule}
+              isDisabled={!rescheduleSlot?.time}
               isLoading={isRescheduling}
               loadingText="Rescheduling..."
             >
@@ -34,7 +34,13 @@ import {
   ModalFooter,
   ModalCloseButton,
   useDisclosure,
-  Stack
+  Stack,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Spinner,
+  Button
 } from '@chakra-ui/react';
 import { FiCheck, FiCalendar, FiCheckCircle, FiThumbsUp } from 'react-icons/fi';
 import PageLayout from '../components/layout/PageLayout';
@@ -43,19 +49,103 @@ import PageHeader from '../components/ui/PageHeader';
 import AssistanceButton from '../components/buttons/AssistanceButton';
 import FinishButton from '../components/buttons/FinishButton';
 import { useTranslation } from 'react-i18next';
-import { CheckInService, CompleteCheckInData } from '../lib/checkInService';
+import { CheckInService, CompleteCheckInData, CheckInResponse } from '../lib/checkInService';
+import { createLocalId, isNetworkError, isQueueSupported } from '../lib/offlineQueue';
 import { api } from '../lib/api';
+import {
+  AppointmentData,
+  CheckInInfo,
+  getAppointmentData,
+  getCheckInInfo,
+  getHouseholdUpdate,
+  getSpecialRequests,
+  isConfirmedCheckIn,
+  isQueuedCheckIn,
+  updateCheckInInfo,
+  SpecialRequestsData,
+} from '../lib/flowStore';
 import PrimaryButton from '../components/buttons/PrimaryButton';
+import AppointmentSaveOptions from '../components/ui/AppointmentSaveOptions';
+import OrganizationContactDetails from '../components/ui/OrganizationContactDetails';
+import QueueStatusCard from '../components/ui/QueueStatusCard';
+import { getRequestOptionLabel } from '../lib/requestCatalog';
+import { getDefaultAppointmentTime } from '../lib/organizationProfile';
+import { formatTimeOfDay } from '../../../shared/appointmentSlots';
+
+type SaveStatus = 'saving' | 'saved' | 'queued' | 'error';
+
+// Start of the appointment: the backend's ISO timestamp, or the date and time read as local time
+const getAppointmentStart = (iso?: string, date?: string, time?: string): Date | null => {
+  if (iso) {
+    const start = new Date(iso);
+    if (!isNaN(start.getTime())) return start;
+  }
+  if (date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = (time || getDefaultAppointmentTime(date)).split(':').map(Number);
+    return new Date(year, month - 1, day, hours || 0, minutes || 0);
+  }
+  return null;
+};
+
+// Everything the client entered during the flow, ready to send with the completion
+const getCompletionDetails = (
+  checkInInfo: CheckInInfo,
+  idempotencyKey: string
+): Omit<CompleteCheckInData, 'checkInId' | 'clientId' | 'clientName'> => {
+  const specialRequestsData: Partial<SpecialRequestsData> = getSpecialRequests() || {};
+  const appointmentData: Partial<AppointmentData> = getAppointmentData() || {};
+  const household = getHouseholdUpdate();
+
+  return {
+    phoneNumber: checkInInfo.phone || '',
+    checkInTime: new Date().toISOString(),
+    appointmentTime: checkInInfo.appointmentTime || null,
+    completionTime: new Date().toISOString(),
+    status: 'Collected',
+    idempotencyKey,
+    
+    // Special requests data
+    requestSelections: specialRequestsData.requestSelections || [],
+    dietaryRestrictions: specialRequestsData.dietaryRestrictions || [],
+    allergies: specialRequestsData.allergies || '',
+    unwantedFoods: specialRequestsData.unwantedFoods || '',
+    additionalInfo: specialRequestsData.additionalInfo || '',
+    householdInfoChanged: !!household?.proposed || specialRequestsData.householdInfoChanged || false,
+    householdUpdate: household?.proposed
+      ? { current: household.current, proposed: household.proposed, note: household.note }
+      : undefined,
+    hasMobilityIssues: specialRequestsData.hasMobilityIssues || false,
+    diaperSize: specialRequestsData.diaperSize || '',
+    
+    // Appointment details
+    notificationPreference: appointmentData.notificationPreference || 'None',
+    email: appointmentData.email || '',
+    phone: appointmentData.phone || '',
+    phoneCarrier: appointmentData.phoneCarrier || '',
+    reminderConsentAt: appointmentData.reminderConsentAt,
+    reminderLanguage: appointmentData.reminderLanguage,
+    
+    // Next appointment data is auto-generated by the backend
+    
+    // Location and type
+    location: 'Foodbank Check-In and Appointment System',
+    clientType: 'returning'
+  };
+};
 
 const Confirmation: React.FC = () => {
   const navigate = useNavigate();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { isOpen, onOpen, onClose } = useDisclosure();
   const [nextAppointment, setNextAppointment] = useState<{
     date: string;
     time: string;
     formattedDate: string;
+    start: Date | null;
   } | null>(null);
+  // 'queued' means the visit is saved on the kiosk and waiting for the network
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saving');
 
   /**
    * Get next appointment for client
@@ -82,201 +172,170 @@ const Confirmation: React.FC = () => {
         if (appointmentDate) {
           const nextDate = new Date(appointmentDate);
           
-          // Convert to 12-hour format
-          const formatTime = (timeStr: string): string => {
-            if (!timeStr) return '10:00 AM';
-            
-            const [hours, minutes] = timeStr.split(':');
-            const hour24 = parseInt(hours);
-            const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-            const ampm = hour24 >= 12 ? 'PM' : 'AM';
-            
-            return `${hour12}:${minutes} ${ampm}`;
-          };
-          
           setNextAppointment({
             date: checkInRecord.nextAppointmentDate || appointmentDate,
-            time: formatTime(checkInRecord.nextAppointmentTime || '10:00'),
+            time: formatTimeOfDay(checkInRecord.nextAppointmentTime || getDefaultAppointmentTime(checkInRecord.nextAppointmentDate)),
             formattedDate: nextDate.toLocaleDateString('en-US', {
               weekday: 'long',
               year: 'numeric',
               month: 'long',
               day: 'numeric'
-            })
+            }),
+            start: getAppointmentStart(
+              checkInRecord.nextAppointmentISO,
+              checkInRecord.nextAppointmentDate,
+              checkInRecord.nextAppointmentTime
+            )
           });
           return;
         }
       }
       
       // Fallback: Try session storage if API doesn't have appointment yet
-      const checkInData = window.sessionStorage.getItem('checkInInfo');
-      if (checkInData) {
-        try {
-          const parsed = JSON.parse(checkInData);
-          if (parsed.nextAppointmentDate) {
-            const nextDate = new Date(parsed.nextAppointmentDate);
-            const formatTime = (timeStr: string): string => {
-              if (!timeStr) return '10:00 AM';
-              const [hours, minutes] = timeStr.split(':');
-              const hour24 = parseInt(hours);
-              const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-              const ampm = hour24 >= 12 ? 'PM' : 'AM';
-              return `${hour12}:${minutes} ${ampm}`;
-            };
-            
-            setNextAppointment({
-              date: parsed.nextAppointmentDate,
-              time: formatTime(parsed.nextAppointmentTime || '10:00'),
-              formattedDate: nextDate.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
+      const parsed = getCheckInInfo();
+      if (parsed?.nextAppointmentDate) {
+        const nextDate = new Date(parsed.nextAppointmentDate);
+        setNextAppointment({
+          date: parsed.nextAppointmentDate,
+          time: formatTimeOfDay(parsed.nextAppointmentTime || getDefaultAppointmentTime(parsed.nextAppointmentDate)),
+          formattedDate: nextDate.toLocaleDateString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          }),
+          start: getAppointmentStart(parsed.nextAppointmentISO, parsed.nextAppointmentDate, parsed.nextAppointmentTime)
+        });
       }
     } catch (error) {
       console.error('Failed to fetch next appointment:', error);
       
       // Fallback: Try session storage
-      const checkInData = window.sessionStorage.getItem('checkInInfo');
-      if (checkInData) {
-        try {
-          const parsed = JSON.parse(checkInData);
-          if (parsed.nextAppointmentDate) {
-            const nextDate = new Date(parsed.nextAppointmentDate);
-            const formatTime = (timeStr: string): string => {
-              if (!timeStr) return '10:00 AM';
-              const [hours, minutes] = timeStr.split(':');
-              const hour24 = parseInt(hours);
-              const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-              const ampm = hour24 >= 12 ? 'PM' : 'AM';
-              return `${hour12}:${minutes} ${ampm}`;
-            };
-            
-            setNextAppointment({
-              date: parsed.nextAppointmentDate,
-              time: formatTime(parsed.nextAppointmentTime || '10:00'),
-              formattedDate: nextDate.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })
-            });
-          }
-        } catch (e) {
-          // Ignore parse errors
-        }
+      const parsed = getCheckInInfo();
+      if (parsed?.nextAppointmentDate) {
+        const nextDate = new Date(parsed.nextAppointmentDate);
+        setNextAppointment({
+          date: parsed.nextAppointmentDate,
+          time: formatTimeOfDay(parsed.nextAppointmentTime || getDefaultAppointmentTime(parsed.nextAppointmentDate)),
+          formattedDate: nextDate.toLocaleDateString('en-US', {
+            weekday: 'long',
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric'
+          }),
+          start: getAppointmentStart(parsed.nextAppointmentISO, parsed.nextAppointmentDate, parsed.nextAppointmentTime)
+        });
       }
     }
   };
 
-  // Complete the check-in process when component mounts
-  React.useEffect(() => {
-    const completeCheckIn = async () => {
-      try {
-        // Get all data from session storage
-        const checkInInfo = JSON.parse(sessionStorage.getItem('checkInInfo') || '{}');
-        const specialRequestsData = JSON.parse(sessionStorage.getItem('specialRequestsData') || '{}');
-        const appointmentData = JSON.parse(sessionStorage.getItem('appointmentData') || '{}');
-
-        // Validate required data
-        if (!checkInInfo.checkInId || !checkInInfo.clientId) {
-          console.error('Missing required check-in data:', checkInInfo);
-          return;
-        }
+  /**
+   * Complete the check-in process
+   * 
+   * The completion key is stored with the flow state before the first request,
+   * so a refresh, a double render or the "Try again" button re-sends the same
+   * key and the backend records the "Collected" transition only once.
+   */
+  const completeCheckIn = async () => {
+    try {
+      // Get all data from the check-in flow
+      const checkInInfo = getCheckInInfo();
 
-        // Prepare complete check-in data
-        const completeData: CompleteCheckInData = {
-          checkInId: checkInInfo.checkInId,
-          clientId: checkInInfo.clientId,
-          clientName: checkInInfo.clientName || 'Unknown Client',
-          phoneNumber: checkInInfo.phoneNumber || '',
-          checkInTime: new Date().toISOString(),
-          appointmentTime: checkInInfo.appointmentTime || null,
-          completionTime: new Date().toISOString(),
-          status: 'Collected',
-          
-          // Special requests data
-          dietaryRestrictions: specialRequestsData.dietaryRestrictions || [],
-          allergies: specialRequestsData.allergies || '',
-          unwantedFoods: specialRequestsData.unwantedFoods || '',
-          additionalInfo: specialRequestsData.additionalInfo || '',
-          householdInfoChanged: specialRequestsData.householdInfoChanged || false,
-          hasMobilityIssues: specialRequestsData.hasMobilityIssues || false,
-          diaperSize: specialRequestsData.diaperSize || '',
-          
-          // Appointment details
-          notificationPreference: appointmentData.notificationPreference || 'email',
-          email: appointmentData.email || '',
-          phone: appointmentData.phone || '',
-          phoneCarrier: appointmentData.phoneCarrier || '',
-          
-          // Next appointment data is auto-generated by the backend
-          
-          // Location and type
-          location: 'Foodbank Check-In and Appointment System',
-          clientType: 'returning'
-        };
-
-        // Send complete check-in data to backend
-        const result = await CheckInService.completeCheckIn(completeData);
-
-        if (result.success) {
-          // Update session storage with next appointment from response (if available)
-          if (result.data?.nextAppointmentDate) {
-            const updatedCheckInInfo = {
-              ...checkInInfo,
-              nextAppointmentDate: result.data.nextAppointmentDate,
-              nextAppointmentTime: result.data.nextAppointmentTime,
-              nextAppointmentISO: result.data.nextAppointmentISO,
-              ticketNumber: result.data.ticketNumber,
-              isAutoGenerated: result.data.isAutoGenerated
-            };
-            sessionStorage.setItem('checkInInfo', JSON.stringify(updatedCheckInInfo));
-          }
-          
-          // Fetch next appointment data using checkInId (ensures latest data including admin changes)
-          // Falls back to session storage if API call fails
-          if (checkInInfo.checkInId) {
-            await fetchNextAppointment(checkInInfo.checkInId);
-          } else if (checkInInfo.nextAppointmentDate) {
-            // Fallback: Use session storage data
-            const nextDate = new Date(checkInInfo.nextAppointmentDate);
-            const formatTime = (timeStr: string): string => {
-              if (!timeStr) return '10:00 AM';
-              const [hours, minutes] = timeStr.split(':');
-              const hour24 = parseInt(hours);
-              const hour12 = hour24 > 12 ? hour24 - 12 : (hour24 === 0 ? 12 : hour24);
-              const ampm = hour24 >= 12 ? 'PM' : 'AM';
-              return `${hour12}:${minutes} ${ampm}`;
-            };
-            
-            setNextAppointment({
-              date: checkInInfo.nextAppointmentDate,
-              time: formatTime(checkInInfo.nextAppointmentTime || '10:00'),
-              formattedDate: nextDate.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric'
-              })
-            });
-          }
-        } else {
-          console.error('Failed to complete check-in:', result.error);
+      // Check-in was made offline and its completion is already queued
+      if (checkInInfo?.queuedCompletionId) {
+        setSaveStatus('queued');
+        return;
+      }
+
+      // Check-in is still queued on the kiosk - queue the completion behind it;
+      // the replayer fills in the ids once the backend has matched the appointment
+      if (isQueuedCheckIn(checkInInfo)) {
+        const completionKey = checkInInfo.completionKey || createLocalId();
+        if (!checkInInfo.completionKey) {
+          updateCheckInInfo({ completionKey });
         }
+        const queued = await CheckInService.queueCompletion(
+          getCompletionDetails(checkInInfo, completionKey),
+          checkInInfo.queuedRequestId
+        );
+        updateCheckInInfo({ queuedCompletionId: queued.id });
+        setSaveStatus('queued');
+        return;
+      }
+
+      // Validate required data
+      if (!isConfirmedCheckIn(checkInInfo)) {
+        console.error('Missing required check-in data:', checkInInfo);
+        setSaveStatus('error');
+        return;
+      }
+
+      // Already saved (e.g. the page was refreshed) - don't post it again
+      if (checkInInfo.completionStatus === 'saved') {
+        setSaveStatus('saved');
+        await fetchNextAppointment(checkInInfo.checkInId);
+        return;
+      }
+
+      // Keep the key with the flow state so every attempt for this visit reuses it
+      const completionKey = checkInInfo.completionKey || createLocalId();
+      if (!checkInInfo.completionKey) {
+        updateCheckInInfo({ completionKey });
+      }
+
+      setSaveStatus('saving');
+
+      // Prepare complete check-in data
+      const completeData: CompleteCheckInData = {
+        checkInId: checkInInfo.checkInId,
+        clientId: checkInInfo.clientId,
+        clientName: checkInInfo.clientName || 'Unknown Client',
+        ...getCompletionDetails(checkInInfo, completionKey),
+      };
+
+      // Send complete check-in data to backend
+      let result: CheckInResponse;
+      try {
+        result = await CheckInService.completeCheckIn(completeData);
       } catch (error) {
-        console.error('Error completing check-in:', error);
+        if (!isNetworkError(error) || !isQueueSupported()) throw error;
+
+        // Network dropped - keep the completion on the kiosk and replay it later
+        const queued = await CheckInService.queueCompletion(completeData);
+        updateCheckInInfo({ queuedCompletionId: queued.id });
+        setSaveStatus('queued');
+        return;
       }
-    };
 
-    // Complete the check-in process
+      if (result.success) {
+        // Update the check-in flow with next appointment from response (if available)
+        updateCheckInInfo({
+          completionStatus: 'saved',
+          ...(result.data?.nextAppointmentDate ? {
+            nextAppointmentDate: result.data.nextAppointmentDate,
+            nextAppointmentTime: result.data.nextAppointmentTime,
+            nextAppointmentISO: result.data.nextAppointmentISO,
+            ticketNumber: result.data.ticketNumber,
+            isAutoGenerated: result.data.isAutoGenerated
+          } : {})
+        });
+        setSaveStatus('saved');
+        
+        // Fetch next appointment data using checkInId (ensures latest data including admin changes)
+        // Falls back to session storage if API call fails
+        await fetchNextAppointment(checkInInfo.checkInId);
+      } else {
+        console.error('Failed to complete check-in:', result.error);
+        setSaveStatus('error');
+      }
+    } catch (error) {
+      console.error('Error completing check-in:', error);
+      setSaveStatus('error');
+    }
+  };
+
+  // Complete the check-in process when component mounts
+  React.useEffect(() => {
     completeCheckIn();
   }, []);
 
@@ -299,38 +358,31 @@ const Confirmation: React.FC = () => {
 
   // Get check-in data
   const checkInData = React.useMemo(() => {
-    try {
-      const data = JSON.parse(sessionStorage.getItem('checkInInfo') || '{}');
-      return {
-        ...data,
-        lastName: data.clientName?.split(' ').pop() || 'Guest',
-      };
-    } catch (error) {
-      return { lastName: 'Guest' };
-    }
+    const data = getCheckInInfo();
+    return {
+      ...data,
+      lastName: data?.clientName?.split(' ').pop() || 'Guest',
+    };
   }, []);
 
   // Get special requests data
-  const specialRequestsData = React.useMemo(() => {
-    try {
-      return JSON.parse(sessionStorage.getItem('specialRequestsData') || '{}');
-    } catch (error) {
-      return {};
-    }
-  }, []);
+  const specialRequestsData = React.useMemo<Partial<SpecialRequestsData>>(() => getSpecialRequests() || {}, []);
+  const householdUpdate = React.useMemo(() => getHouseholdUpdate(), []);
+  // Check-in the queue status follows; not shown for visits still queued offline
+  const queueCheckIn = React.useMemo(() => getCheckInInfo(), []);
 
   // Get appointment details for display
   const appointmentDetails = React.useMemo(() => {
-    const checkInInfo = JSON.parse(sessionStorage.getItem('checkInInfo') || '{}');
-    const appointment = checkInInfo.appointment;
-    const client = checkInInfo.client;
+    const checkInInfo = getCheckInInfo();
+    const appointment = checkInInfo?.appointment;
+    const client = checkInInfo?.client;
     
     // Use the correct next appointment data from backend instead of session storage
     const nextAppointmentFormatted = nextAppointment?.formattedDate || "Loading...";
     const nextAppointmentTime = nextAppointment?.time || "10:00 AM";
     
     return {
-      sortOd: checkInInfo.clientId || "1234",
+      sortOd: checkInInfo?.clientId || "1234",
       orderTypeOdd: "Regular",
       clientName: checkInData.lastName || "Guest",
       rebookMonth: nextAppointmentFormatted.split(' ')[1] || "October",
@@ -357,15 +409,9 @@ const Confirmation: React.FC = () => {
       provisions: appointment?.provisions || "Standard provisions"
     };
   }, [checkInData, nextAppointment, specialRequestsData]);
-  // Dietary preference translation mapping
-  const dietaryKeyMap: Record<string, string> = {
-    'vegetarian': 'vegetarian',
-    'vegan': 'vegan',
-    'glutenFree': 'glutenFree',
-    'dairyFree': 'dairyFree',
-    'halal': 'halal',
-    'kosher': 'kosher',
-  };
+  // Catalog options the client selected; older flows only saved dietary IDs
+  const requestSummary = specialRequestsData.requestSelections
+    || (specialRequestsData.dietaryRestrictions || []).map((optionId) => ({ optionId, detail: undefined }));
 
   return (
     <PageLayout showBackButton={false} isScrollable>
@@ -382,12 +428,14 @@ const Confirmation: React.FC = () => {
         boxShadow="sm"
       >
         <ProgressSteps
-          currentStep={4}
-          totalSteps={4}
+          currentStep={6}
+          totalSteps={6}
           labels={[
             'Initial Check-in',
             'Special Requests',
+            'Household',
             'Appointment Details',
+            'Reminders',
             'Confirmation'
           ]}
         />
@@ -457,6 +505,72 @@ const Confirmation: React.FC = () => {
             </VStack>
           </ScaleFade>
 
+          {/* Save state of the completion */}
+          {saveStatus === 'saving' && (
+            <HStack spacing={2} justify="center" mb={6} color="brand.700">
+              <Spinner size="sm" />
+              <Text fontSize="sm" fontWeight="600">{t('completion.saving')}</Text>
+            </HStack>
+          )}
+
+          {saveStatus === 'saved' && (
+            <HStack spacing={2} justify="center" mb={6} color="accent.green.500">
+              <Icon as={FiCheck} boxSize={4} />
+              <Text fontSize="sm" fontWeight="600">{t('completion.saved')}</Text>
+            </HStack>
+          )}
+
+          {saveStatus === 'error' && (
+            <Alert
+              status="error"
+              variant="left-accent"
+              borderRadius="lg"
+              mb={6}
+              maxW={{ base: "100%", md: "600px" }}
+              mx="auto"
+              alignItems="flex-start"
+              textAlign="left"
+            >
+              <AlertIcon />
+              <Box flex="1">
+                <AlertTitle>{t('completion.errorTitle')}</AlertTitle>
+                <AlertDescription fontSize="sm">
+                  {t('completion.errorDescription')}
+                </AlertDescription>
+              </Box>
+              <Button size="sm" colorScheme="red" variant="outline" ml={3} onClick={completeCheckIn}>
+                {t('completion.retry')}
+              </Button>
+            </Alert>
+          )}
+
+          {/* Provisional confirmation while the visit waits on the kiosk */}
+          {saveStatus === 'queued' && (
+            <Alert
+              status="warning"
+              variant="left-accent"
+              borderRadius="lg"
+              mb={6}
+              maxW={{ base: "100%", md: "600px" }}
+              mx="auto"
+              alignItems="flex-start"
+              textAlign="left"
+            >
+              <AlertIcon />
+              <Box>
+                <AlertTitle>{t('offline.queuedTitle')}</AlertTitle>
+                <AlertDescription fontSize="sm">
+                  {t('offline.queuedDescription')}
+                </AlertDescription>
+              </Box>
+            </Alert>
+          )}
+
+          {/* Live place in today's pickup queue */}
+          {isConfirmedCheckIn(queueCheckIn) && (
+            <QueueStatusCard checkInId={queueCheckIn.checkInId} ticketNumber={queueCheckIn.ticketNumber} />
+          )}
+
           {/* Appointment Summary - Compact */}
           <Fade in={true} delay={0.2}>
             <Box 
@@ -512,18 +626,33 @@ const Confirmation: React.FC = () => {
                     px={1}
                     wordBreak="break-word"
                   >
-                    {nextAppointment ? nextAppointment.formattedDate : 'Loading...'}
-                  </Text>
-                  <Text 
-                    fontSize={{ base: "sm", md: "md" }} 
-                    fontWeight="600" 
-                    color="brand.700"
-                    textAlign="center"
-                    px={1}
-                  >
-                    at {nextAppointment ? nextAppointment.time : 'Loading...'}
+                    {nextAppointment
+                      ? nextAppointment.formattedDate
+                      : saveStatus === 'queued'
+                        ? t('offline.nextAppointmentPending')
+                        : 'Loading...'}
                   </Text>
+                  {saveStatus !== 'queued' && (
+                    <Text 
+                      fontSize={{ base: "sm", md: "md" }} 
+                      fontWeight="600" 
+                      color="brand.700"
+                      textAlign="center"
+                      px={1}
+                    >
+                      at {nextAppointment ? nextAppointment.time : 'Loading...'}
+                    </Text>
+                  )}
                 </Box>
+
+                {saveStatus !== 'queued' && nextAppointment?.start && (
+                  <AppointmentSaveOptions
+                    start={nextAppointment.start}
+                    uid={`${getCheckInInfo()?.checkInId || nextAppointment.start.getTime()}-next-appointment@foodbank-checkin`}
+                  />
+                )}
+
+                <OrganizationContactDetails />
               </VStack>
             </Box>
           </Fade>
@@ -571,15 +700,15 @@ const Confirmation: React.FC = () => {
                       <HStack spacing={3}>
                         <Text fontSize="lg">🥗</Text>
                         <Text fontWeight="600" color="accent.green.500" fontSize="md">
-                          Dietary Preferences
+                          Dietary Preferences & Requests
                         </Text>
                       </HStack>
                       
-                      {appointmentDetails.dietaryRestrictions?.length > 0 ? (
+                      {requestSummary.length > 0 ? (
                         <VStack spacing={2} align="stretch" w="full">
-                          {appointmentDetails.dietaryRestrictions.map((restriction: any) => (
+                          {requestSummary.map((selection) => (
                             <HStack 
-                              key={restriction} 
+                              key={selection.optionId} 
                               spacing={3} 
                               bg="accent.green.50" 
                               p={3} 
@@ -589,14 +718,15 @@ const Confirmation: React.FC = () => {
                             >
                               <Icon as={FiCheck} color="accent.green.400" boxSize={4} />
                               <Text color="accent.green.600" fontSize="sm">
-                                {t(`specialRequests.${dietaryKeyMap[restriction] || restriction.toLowerCase()}`)}
+                                {getRequestOptionLabel(selection.optionId, i18n.language)}
+                                {selection.detail ? `: ${selection.detail}` : ''}
                               </Text>
                             </HStack>
                           ))}
                         </VStack>
                       ) : (
                         <Text color="gray.500" fontSize="sm" fontStyle="italic">
-                          No dietary preferences specified
+                          No dietary preferences or requests specified
                         </Text>
                       )}
                     </VStack>
@@ -650,6 +780,20 @@ const Confirmation: React.FC = () => {
                             </Text>
                           </HStack>
                         )}
+
+                        {householdUpdate?.proposed && (
+                          <HStack 
+                            spacing={3} 
+                            bg="accent.purple.50" 
+                            p={3} 
+                            borderRadius="lg"
+                          >
+                            <Icon as={FiCheck} color="accent.purple.400" boxSize={4} />
+                            <Text color="accent.purple.600" fontSize="sm">
+                              Household changes sent for staff review
+                            </Text>
+                          </HStack>
+                        )}
                       </VStack>
                     </VStack>
                   </Box>
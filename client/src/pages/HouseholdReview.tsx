@@ -0,0 +1,345 @@
+/**
+ * @fileoverview Household review page for Foodbank Check-In and Appointment System client application
+ *
+ * This step shows clients the household counts on their record (adults,
+ * seniors, children and the children's ages) and lets them propose changes.
+ * A proposal is submitted with the check-in completion and waits for staff
+ * to approve or reject it in the admin panel - it never changes the record
+ * directly.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-16
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./SpecialRequests.tsx} Special requests page
+ * @see {@link ./AppointmentDetails.tsx} Appointment details page
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  SimpleGrid,
+  Stack,
+  Text,
+  Textarea,
+  VStack,
+} from '@chakra-ui/react';
+import { FiCheck, FiEdit2, FiMinus, FiPlus } from 'react-icons/fi';
+
+import PageLayout from '../components/layout/PageLayout';
+import ProgressSteps from '../components/layout/ProgressSteps';
+import PrimaryButton from '../components/buttons/PrimaryButton';
+import AssistanceButton from '../components/buttons/AssistanceButton';
+import PageHeader from '../components/ui/PageHeader';
+import { getCheckInInfo, getHouseholdUpdate, saveHouseholdUpdate } from '../lib/flowStore';
+import type { HouseholdComposition } from '../common/types/Household';
+
+type CountField = 'adults' | 'seniors' | 'children';
+
+const COUNT_FIELDS: CountField[] = ['adults', 'seniors', 'children'];
+const MAX_COUNT = 20;
+const MAX_CHILD_AGE = 17;
+
+interface HouseholdErrors {
+  total?: string;
+  ages?: string;
+}
+
+const toCount = (value: unknown): number => {
+  const count = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(count) && count > 0 ? count : 0;
+};
+
+const splitAges = (ages: string): string[] => {
+  return ages
+    .split(/[,;/]+/)
+    .map((age) => age.trim())
+    .filter(Boolean);
+};
+
+// One age field per child
+const resizeAges = (ages: string[], children: number): string[] => {
+  return ages.slice(0, children).concat(Array(Math.max(0, children - ages.length)).fill(''));
+};
+
+// Household counts as they are on the client's record
+const getRecordedHousehold = (): HouseholdComposition => {
+  const client = getCheckInInfo()?.client || {};
+  return {
+    adults: toCount(client.adults),
+    seniors: toCount(client.seniors),
+    children: toCount(client.children),
+    childrensAges: splitAges(String(client.childrensAges || client.childrenAges || '')).join(', '),
+  };
+};
+
+const isSameHousehold = (a: HouseholdComposition, b: HouseholdComposition): boolean => {
+  return (
+    a.adults === b.adults &&
+    a.seniors === b.seniors &&
+    a.children === b.children &&
+    splitAges(a.childrensAges).join(', ') === splitAges(b.childrensAges).join(', ')
+  );
+};
+
+const HouseholdReview: React.FC = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const current = useMemo(getRecordedHousehold, []);
+  // Restore an earlier proposal when the client comes back to this step
+  const [saved] = useState(() => getHouseholdUpdate());
+  const [isEditing, setIsEditing] = useState(!!saved?.proposed);
+  const [counts, setCounts] = useState<Record<CountField, number>>(() => {
+    const start = saved?.proposed || current;
+    return { adults: start.adults, seniors: start.seniors, children: start.children };
+  });
+  const [ages, setAges] = useState<string[]>(() => {
+    const start = saved?.proposed || current;
+    return resizeAges(splitAges(start.childrensAges), start.children);
+  });
+  const [note, setNote] = useState(saved?.note || '');
+  const [errors, setErrors] = useState<HouseholdErrors>({});
+
+  const labels: Record<CountField, { label: string; hint: string }> = {
+    adults: { label: t('household.adults'), hint: t('household.adultsHint') },
+    seniors: { label: t('household.seniors'), hint: t('household.seniorsHint') },
+    children: { label: t('household.children'), hint: t('household.childrenHint') },
+  };
+
+  const changeCount = (field: CountField, delta: number) => {
+    const next = Math.min(MAX_COUNT, Math.max(0, counts[field] + delta));
+    setCounts((prev) => ({ ...prev, [field]: next }));
+    if (field === 'children') {
+      setAges((prev) => resizeAges(prev, next));
+    }
+    setErrors({});
+  };
+
+  const validate = (): HouseholdErrors => {
+    const next: HouseholdErrors = {};
+    if (counts.adults + counts.seniors + counts.children === 0) {
+      next.total = t('household.errors.atLeastOne');
+    }
+    if (ages.some((age) => age.trim() === '')) {
+      next.ages = t('household.errors.ageRequired');
+    } else if (ages.some((age) => !/^\d+$/.test(age.trim()) || Number(age) > MAX_CHILD_AGE)) {
+      next.ages = t('household.errors.ageInvalid', { max: MAX_CHILD_AGE });
+    }
+    return next;
+  };
+
+  const continueWith = (proposed?: HouseholdComposition) => {
+    const changed = proposed && !isSameHousehold(current, proposed);
+    saveHouseholdUpdate({
+      current,
+      proposed: changed ? proposed : undefined,
+      note: changed ? note.trim() || undefined : undefined,
+      reviewedAt: new Date().toISOString(),
+    });
+    navigate('/appointment-details');
+  };
+
+  const handleSubmit = () => {
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    continueWith({
+      ...counts,
+      childrensAges: ages.map((age) => String(Number(age))).join(', '),
+    });
+  };
+
+  return (
+    <PageLayout showBackButton isScrollable>
+      <Box w="full" bg="white" pb={1} pt={0}>
+        <ProgressSteps
+          currentStep={3}
+          totalSteps={6}
+          labels={[
+            t('navigation.progressSteps.initialCheckIn'),
+            t('navigation.progressSteps.specialRequests'),
+            t('navigation.progressSteps.household'),
+            t('navigation.progressSteps.appointmentDetails'),
+            t('navigation.progressSteps.reminders'),
+            t('navigation.progressSteps.confirmation'),
+          ]}
+        />
+      </Box>
+
+      <VStack spacing={{ base: 4, md: 6 }} width="full" maxW="700px" mx="auto" px={{ base: 4, md: 6 }} py={{ base: 4, md: 6 }}>
+        <Box w="full" bg="white" borderRadius="xl" boxShadow="sm" p={{ base: 4, md: 6, lg: 8 }}>
+          <PageHeader title={t('household.title')} subTitle={t('household.subtitle')} logoSize="sm" mb={4} />
+
+          {/* Household on record */}
+          <Box bg="brand.50" border="1px solid" borderColor="brand.200" borderRadius="xl" p={{ base: 4, md: 5 }} mb={6}>
+            <Text fontWeight="600" color="client.primary" mb={3}>
+              {t('household.currentTitle')}
+            </Text>
+            <SimpleGrid columns={3} spacing={3} mb={3}>
+              {COUNT_FIELDS.map((field) => (
+                <VStack key={field} spacing={0}>
+                  <Text fontSize="2xl" fontWeight="700" color="client.primary">
+                    {current[field]}
+                  </Text>
+                  <Text fontSize="sm" color="gray.600" textAlign="center">
+                    {labels[field].label}
+                  </Text>
+                </VStack>
+              ))}
+            </SimpleGrid>
+            <Text fontSize="sm" color="gray.700" textAlign="center">
+              {t('household.childrensAges')}: {current.childrensAges || t('household.notOnFile')}
+            </Text>
+          </Box>
+
+          {!isEditing ? (
+            <Stack direction={{ base: 'column', md: 'row' }} spacing={3} justify="center">
+              <Button
+                leftIcon={<FiCheck />}
+                onClick={() => continueWith()}
+                height="52px"
+                borderRadius="lg"
+              >
+                {t('household.confirmCorrect')}
+              </Button>
+              <Button
+                leftIcon={<FiEdit2 />}
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+                height="52px"
+                borderRadius="lg"
+              >
+                {t('household.somethingChanged')}
+              </Button>
+            </Stack>
+          ) : (
+            <VStack spacing={5} align="stretch">
+              <Text fontWeight="600" color="gray.800">
+                {t('household.editTitle')}
+              </Text>
+
+              <FormControl isInvalid={!!errors.total}>
+                <VStack spacing={3} align="stretch">
+                  {COUNT_FIELDS.map((field) => (
+                    <HStack key={field} justify="space-between" bg="gray.50" borderRadius="lg" px={4} py={3}>
+                      <Box>
+                        <Text fontWeight="500" color="gray.800">
+                          {labels[field].label}
+                        </Text>
+                        <Text fontSize="sm" color="gray.500">
+                          {labels[field].hint}
+                        </Text>
+                      </Box>
+                      <HStack spacing={3} flexShrink={0}>
+                        <IconButton
+                          aria-label={t('household.decrease', { label: labels[field].label })}
+                          icon={<FiMinus />}
+                          variant="outline"
+                          borderRadius="full"
+                          onClick={() => changeCount(field, -1)}
+                          isDisabled={counts[field] === 0}
+                        />
+                        <Text fontSize="xl" fontWeight="700" minW="2ch" textAlign="center" aria-live="polite">
+                          {counts[field]}
+                        </Text>
+                        <IconButton
+                          aria-label={t('household.increase', { label: labels[field].label })}
+                          icon={<FiPlus />}
+                          variant="outline"
+                          borderRadius="full"
+                          onClick={() => changeCount(field, 1)}
+                          isDisabled={counts[field] === MAX_COUNT}
+                        />
+                      </HStack>
+                    </HStack>
+                  ))}
+                </VStack>
+                <FormErrorMessage>{errors.total}</FormErrorMessage>
+              </FormControl>
+
+              {counts.children > 0 && (
+                <FormControl isInvalid={!!errors.ages}>
+                  <FormLabel fontSize="md" fontWeight="medium">
+                    {t('household.childrensAges')}
+                  </FormLabel>
+                  <SimpleGrid columns={{ base: 2, md: 4 }} spacing={3}>
+                    {ages.map((age, index) => (
+                      <Input
+                        key={index}
+                        type="number"
+                        inputMode="numeric"
+                        min={0}
+                        max={MAX_CHILD_AGE}
+                        value={age}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          setAges((prev) => prev.map((prevAge, i) => (i === index ? value : prevAge)));
+                          setErrors((prev) => ({ ...prev, ages: undefined }));
+                        }}
+                        placeholder={t('household.childAge', { number: index + 1 })}
+                        aria-label={t('household.childAge', { number: index + 1 })}
+                        borderRadius="lg"
+                      />
+                    ))}
+                  </SimpleGrid>
+                  <FormErrorMessage>{errors.ages}</FormErrorMessage>
+                </FormControl>
+              )}
+
+              <FormControl>
+                <FormLabel fontSize="md" fontWeight="medium">
+                  {t('household.noteLabel')}
+                </FormLabel>
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={t('household.notePlaceholder')}
+                  rows={3}
+                  borderRadius="lg"
+                  resize="vertical"
+                />
+              </FormControl>
+
+              <Box bg="brand.50" border="1px solid" borderColor="brand.200" borderRadius="lg" p={4}>
+                <Text fontSize="sm" color="gray.700">
+                  {t('household.reviewNotice')}
+                </Text>
+              </Box>
+            </VStack>
+          )}
+
+          {/* Action Buttons */}
+          <Stack
+            spacing={{ base: 4, md: 6 }}
+            direction={{ base: 'column', md: 'row' }}
+            width="full"
+            pt={{ base: 6, md: 8 }}
+            justify="center"
+            align="center"
+          >
+            <AssistanceButton width={{ base: '100%', md: '240px' }} height="48px" fontSize="md" />
+            {isEditing && (
+              <PrimaryButton onClick={handleSubmit} width={{ base: '100%', md: '240px' }} height="48px" fontSize="md">
+                {t('common.continue')}
+              </PrimaryButton>
+            )}
+          </Stack>
+        </Box>
+      </VStack>
+    </PageLayout>
+  );
+};
+
+export default HouseholdReview;
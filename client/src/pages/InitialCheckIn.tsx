@@ -21,11 +21,14 @@
  * @see {@link ../SpecialRequests.tsx} Special requests page
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { api } from '../lib/api';
-import { CheckInResponse } from '../common/types/CheckInResponse';
+import { CheckInData, CheckInService } from '../lib/checkInService';
+import { isNetworkError, isQueueSupported } from '../lib/offlineQueue';
+import { getCheckInInfo, getPrivacyConsent, startFlow } from '../lib/flowStore';
+import { AppointmentMatch, CheckInResponse, UpcomingAppointment } from '../common/types/CheckInResponse';
 import {
   VStack,
   FormControl,
@@ -42,6 +45,10 @@ import ProgressSteps from '../components/layout/ProgressSteps';
 import PageHeader from '../components/ui/PageHeader';
 import PrimaryButton from '../components/buttons/PrimaryButton';
 import AssistanceButton from '../components/buttons/AssistanceButton';
+import AppointmentMatchList from '../components/ui/AppointmentMatchList';
+import UpcomingAppointmentNotice from '../components/ui/UpcomingAppointmentNotice';
+import NameMatchConfirmation from '../components/ui/NameMatchConfirmation';
+import { normalizeLastName } from '../utils/nameMatching';
 
 interface FormState {
   phone: string;
@@ -60,15 +67,32 @@ const InitialCheckIn: React.FC = () => {
   const toast = useToast();
 
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [formState, setFormState] = useState<FormState>({
-    phone: '',
-    lastName: '',
-    errors: {
-      phone: '',
-      lastName: '',
-    },
+  // Set when the phone number and last name match more than one of today's appointments
+  const [matches, setMatches] = useState<AppointmentMatch[] | null>(null);
+  const [selectedMatchId, setSelectedMatchId] = useState<string | null>(null);
+  const [upcomingAppointment, setUpcomingAppointment] = useState<UpcomingAppointment | null>(null);
+  // Last name on record is a close variant of the entered one, waiting for the client to confirm
+  const [needsNameConfirmation, setNeedsNameConfirmation] = useState(false);
+  // Keep what the client entered if they came back to this step
+  const [formState, setFormState] = useState<FormState>(() => {
+    const checkInInfo = getCheckInInfo();
+    return {
+      phone: checkInInfo?.phone || '',
+      lastName: checkInInfo?.lastName || '',
+      errors: {
+        phone: '',
+        lastName: '',
+      },
+    };
   });
 
+  // Nothing is collected until the client has accepted the privacy notice
+  useEffect(() => {
+    if (!getPrivacyConsent()) {
+      navigate('/privacy', { replace: true });
+    }
+  }, [navigate]);
+
   // Format phone number as user types
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -135,6 +159,26 @@ const InitialCheckIn: React.FC = () => {
     return isValid;
   };
 
+  /**
+   * Queue the check-in on the kiosk
+   * 
+   * The client carries on through the same steps as an online check-in; the
+   * Confirmation page queues the completion behind this entry, and the
+   * replayer fills in the checkInId and clientId once the backend has matched
+   * the appointment.
+   */
+  const queueProvisionalCheckIn = async (checkInData: CheckInData) => {
+    const queuedCheckIn = await CheckInService.queueCheckIn(checkInData);
+
+    startFlow({
+      phone: checkInData.phoneNumber,
+      lastName: checkInData.lastName,
+      checkInTime: new Date().toISOString(),
+      provisional: true,
+      queuedRequestId: queuedCheckIn.id,
+    });
+  };
+
   // Submit form and check in client
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -159,6 +203,43 @@ const InitialCheckIn: React.FC = () => {
       return;
     }
 
+    setMatches(null);
+    await submitCheckIn();
+  };
+
+  // Check in with the appointment the client picked from the list
+  const handleSelectMatch = async (match: AppointmentMatch) => {
+    setSelectedMatchId(match.appointmentId);
+    await submitCheckIn({ appointmentId: match.appointmentId });
+  };
+
+  // The client confirmed that the appointment under a similar name is theirs
+  const handleConfirmCloseName = async () => {
+    setNeedsNameConfirmation(false);
+    await submitCheckIn({ confirmCloseNameMatch: true });
+  };
+
+  /**
+   * Send the check-in to the backend
+   * 
+   * Called again with the chosen appointment when several of today's
+   * appointments match the phone number and last name, and with the client's
+   * confirmation when the name on record only differs in spelling. The backend
+   * compares the names; the kiosk never receives the name on record.
+   */
+  const submitCheckIn = async ({
+    appointmentId,
+    confirmCloseNameMatch,
+  }: { appointmentId?: string; confirmCloseNameMatch?: boolean } = {}) => {
+    const checkInData: CheckInData = {
+      phoneNumber: formState.phone,
+      lastName: formState.lastName,
+      // Folded form (case, accents, hyphens, apostrophes, spacing) for the lookup
+      normalizedLastName: normalizeLastName(formState.lastName),
+      ...(appointmentId && { appointmentId }),
+      ...(confirmCloseNameMatch && { confirmCloseNameMatch }),
+      privacyConsent: getPrivacyConsent(),
+    };
     setIsSubmitting(true);
 
     try {
@@ -168,10 +249,7 @@ const InitialCheckIn: React.FC = () => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          phoneNumber: formState.phone,
-          lastName: formState.lastName,
-        }),
+        body: JSON.stringify(checkInData),
       });
 
       // IMPORTANT: Parse response body regardless of status code
@@ -188,6 +266,26 @@ const InitialCheckIn: React.FC = () => {
       // Backend returns 400 status for validation errors (too early/late)
       // So we need to check both response.ok AND result.success
       if (!response.ok || !result.success || !result.data) {
+        // Several household members share this phone number and last name - let the client pick
+        if (result.matches && result.matches.length > 1) {
+          setMatches(result.matches);
+          return;
+        }
+
+        // The name on record is spelled a little differently - ask before checking in
+        // (only on the first attempt, so a confirmed resubmission can't loop)
+        if (result.nameMatch === 'close' && !confirmCloseNameMatch) {
+          setNeedsNameConfirmation(true);
+          return;
+        }
+
+        // No appointment today, but one is coming up - tell them when instead of failing
+        if (result.upcomingAppointment) {
+          setMatches(null);
+          setUpcomingAppointment(result.upcomingAppointment);
+          return;
+        }
+
         // Handle error response (400 status or success: false)
         // This includes: appointment not found, too early, too late, etc.
         let errorMessage = typeof result.error === 'string' 
@@ -232,9 +330,9 @@ const InitialCheckIn: React.FC = () => {
         // Save check-in data for next steps
         // IMPORTANT: Include next appointment data from backend response
         // This ensures the auto-generated appointment is available immediately
-        const checkInData = {
+        startFlow({
           phone: formState.phone,
-          lastName: formState.lastName,
+          lastName: checkInData.lastName,
           checkInTime: new Date().toISOString(),
           checkInId: result.data.checkInId,
           clientId: result.data.clientId,
@@ -253,9 +351,7 @@ const InitialCheckIn: React.FC = () => {
           // Include CSV data if available
           appointment: result.data.appointment,
           client: result.data.client
-        };
-
-        sessionStorage.setItem('checkInInfo', JSON.stringify(checkInData));
+        });
 
         // Success!
         toast({
@@ -280,6 +376,17 @@ const InitialCheckIn: React.FC = () => {
       }
     } catch (error) {
       console.error('Check-in error:', error);
+
+      // Network is down - save the visit on the kiosk instead of losing it
+      if (isNetworkError(error) && isQueueSupported()) {
+        try {
+          await queueProvisionalCheckIn(checkInData);
+          navigate('/special-requests');
+          return;
+        } catch (queueError) {
+          console.error('Failed to queue check-in:', queueError);
+        }
+      }
       
       toast({
         title: 'Connection Error',
@@ -299,6 +406,7 @@ const InitialCheckIn: React.FC = () => {
       });
     } finally {
       setIsSubmitting(false);
+      setSelectedMatchId(null);
     }
   };
 
@@ -318,11 +426,13 @@ const InitialCheckIn: React.FC = () => {
       >
         <ProgressSteps
           currentStep={1}
-          totalSteps={4}
+          totalSteps={6}
           labels={[
             'Initial Check-in',
             'Special Requests',
+            'Household',
             'Appointment Details',
+            'Reminders',
             'Confirmation'
           ]}
         />
@@ -372,84 +482,104 @@ const InitialCheckIn: React.FC = () => {
             mb={4}
           />
 
-          {/* Check-in Form */}
-          <form onSubmit={handleSubmit} style={{ width: '100%' }}>
-            <VStack spacing={{ base: 4, md: 3 }} align="stretch" w="full">
-              <FormControl isRequired isInvalid={!!formState.errors.phone}>
-                <FormLabel mb={2} fontSize="md" fontWeight="medium">{t('checkIn.phoneLabel')}</FormLabel>
-                <Input
-                  type="tel"
-                  name="phone"
-                  value={formState.phone}
-                  onChange={handleInputChange}
-                  placeholder="(555) 555-5555"
-                  size="lg"
-                  bg="white"
-                  _hover={{ borderColor: 'gray.300' }}
-                  _focus={{ borderColor: 'brand.500', boxShadow: 'none' }}
-                  borderRadius="lg"
-                  fontSize="md"
-                  height={{ base: "48px", md: "48px" }}
-                  px={4}
-                  maxLength={14}
-                  aria-describedby="phone-error"
-                />
-                <FormErrorMessage id="phone-error" fontSize="sm" mt={1}>
-                  {formState.errors.phone}
-                </FormErrorMessage>
-              </FormControl>
-
-              <FormControl isRequired isInvalid={!!formState.errors.lastName}>
-                <FormLabel mb={2} fontSize="md" fontWeight="medium">{t('checkIn.lastNameLabel')}</FormLabel>
-                <Input
-                  type="text"
-                  name="lastName"
-                  value={formState.lastName}
-                  onChange={handleInputChange}
-                  placeholder={t('checkIn.namePlaceholder', 'Last name')}
-                  size="lg"
-                  bg="white"
-                  _hover={{ borderColor: 'gray.300' }}
-                  _focus={{ borderColor: 'brand.500', boxShadow: 'none' }}
-                  borderRadius="lg"
-                  fontSize="md"
-                  height={{ base: "48px", md: "48px" }}
-                  px={4}
-                  aria-describedby="lastName-error"
-                />
-                <FormErrorMessage id="lastName-error" fontSize="sm" mt={1}>
-                  {formState.errors.lastName}
-                </FormErrorMessage>
-              </FormControl>
-
-              {/* Buttons Row */}
-              <Stack
-                spacing={{ base: 4, md: 4 }}
-                direction={{ base: "column", md: "row" }}
-                width="full"
-                pt={4}
-                justify="center"
-                align="center"
-                mt={4}
-              >
-                <AssistanceButton 
-                  width={{ base: "100%", md: "240px" }}
-                  height={{ base: "48px", md: "48px" }}
-                  fontSize="md"
-                />
-                <PrimaryButton
-                  type="submit"
-                  isLoading={isSubmitting}
-                  width={{ base: "100%", md: "240px" }}
-                  height={{ base: "48px", md: "48px" }}
-                  fontSize="md"
-                  isDisabled={!formState.phone || !formState.lastName}
+          {upcomingAppointment ? (
+            <UpcomingAppointmentNotice
+              appointment={upcomingAppointment}
+              onDone={() => navigate('/')}
+            />
+          ) : needsNameConfirmation ? (
+            <NameMatchConfirmation
+              onConfirm={handleConfirmCloseName}
+              onReject={() => setNeedsNameConfirmation(false)}
+              isSubmitting={isSubmitting}
+            />
+          ) : matches ? (
+            <AppointmentMatchList
+              matches={matches}
+              onSelect={handleSelectMatch}
+              onCancel={() => setMatches(null)}
+              selectedId={selectedMatchId}
+            />
+          ) : (
+            /* Check-in Form */
+            <form onSubmit={handleSubmit} style={{ width: '100%' }}>
+              <VStack spacing={{ base: 4, md: 3 }} align="stretch" w="full">
+                <FormControl isRequired isInvalid={!!formState.errors.phone}>
+                  <FormLabel mb={2} fontSize="md" fontWeight="medium">{t('checkIn.phoneLabel')}</FormLabel>
+                  <Input
+                    type="tel"
+                    name="phone"
+                    value={formState.phone}
+                    onChange={handleInputChange}
+                    placeholder="(555) 555-5555"
+                    size="lg"
+                    bg="white"
+                    _hover={{ borderColor: 'gray.300' }}
+                    _focus={{ borderColor: 'brand.500', boxShadow: 'none' }}
+                    borderRadius="lg"
+                    fontSize="md"
+                    height={{ base: "48px", md: "48px" }}
+                    px={4}
+                    maxLength={14}
+                    aria-describedby="phone-error"
+                  />
+                  <FormErrorMessage id="phone-error" fontSize="sm" mt={1}>
+                    {formState.errors.phone}
+                  </FormErrorMessage>
+                </FormControl>
+
+                <FormControl isRequired isInvalid={!!formState.errors.lastName}>
+                  <FormLabel mb={2} fontSize="md" fontWeight="medium">{t('checkIn.lastNameLabel')}</FormLabel>
+                  <Input
+                    type="text"
+                    name="lastName"
+                    value={formState.lastName}
+                    onChange={handleInputChange}
+                    placeholder={t('checkIn.namePlaceholder', 'Last name')}
+                    size="lg"
+                    bg="white"
+                    _hover={{ borderColor: 'gray.300' }}
+                    _focus={{ borderColor: 'brand.500', boxShadow: 'none' }}
+                    borderRadius="lg"
+                    fontSize="md"
+                    height={{ base: "48px", md: "48px" }}
+                    px={4}
+                    aria-describedby="lastName-error"
+                  />
+                  <FormErrorMessage id="lastName-error" fontSize="sm" mt={1}>
+                    {formState.errors.lastName}
+                  </FormErrorMessage>
+                </FormControl>
+
+                {/* Buttons Row */}
+                <Stack
+                  spacing={{ base: 4, md: 4 }}
+                  direction={{ base: "column", md: "row" }}
+                  width="full"
+                  pt={4}
+                  justify="center"
+                  align="center"
+                  mt={4}
                 >
-                  {isSubmitting ? 'Checking In...' : t('common.continue')}
-                </PrimaryButton>
-              </Stack>
-            </VStack>
-          </form>
+                  <AssistanceButton 
+                    width={{ base: "100%", md: "240px" }}
+                    height={{ base: "48px", md: "48px" }}
+                    fontSize="md"
+                  />
+                  <PrimaryButton
+                    type="submit"
+                    isLoading={isSubmitting}
+                    width={{ base: "100%", md: "240px" }}
+                    height={{ base: "48px", md: "48px" }}
+                    fontSize="md"
+                    isDisabled={!formState.phone || !formState.lastName}
+                  >
+                    {isSubmitting ? 'Checking In...' : t('common.continue')}
+                  </PrimaryButton>
+                </Stack>
+              </VStack>
+            </form>
+          )}
         </Box>
       </VStack>
     </PageLayout>
@@ -17,10 +17,10 @@
  * @since 2025-10-20
  * @license Proprietary - see LICENSE file for details
  * 
- * @see {@link ../InitialCheckIn.tsx} Initial check-in page
+ * @see {@link ./PrivacyConsent.tsx} Privacy consent page
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { VStack, useToast, Box } from '@chakra-ui/react';
 import { useTranslation } from 'react-i18next';
 import { useNavigate } from 'react-router-dom';
@@ -28,7 +28,9 @@ import PageLayout from '../components/layout/PageLayout';
 import PageHeader from '../components/ui/PageHeader';
 import LanguageSelector from '../components/ui/LanguageSelector';
 import PrimaryButton from '../components/buttons/PrimaryButton';
+import OfflineQueueStatus from '../components/ui/OfflineQueueStatus';
 import { useLanguageSelection } from '../hooks/useLanguageSelection';
+import { clearFlow } from '../lib/flowStore';
 
 const Landing: React.FC = () => {
   const navigate = useNavigate();
@@ -36,6 +38,11 @@ const Landing: React.FC = () => {
   const toast = useToast();
   const { selectedLanguage, handleLanguageSelect } = useLanguageSelection();
 
+  // Every visit to the start page begins a fresh check-in for the next client
+  useEffect(() => {
+    clearFlow();
+  }, []);
+
   // Continue to check-in (make sure language is selected)
   const handleContinue = () => {
     if (!selectedLanguage) {
@@ -59,7 +66,7 @@ const Landing: React.FC = () => {
     }
     
     toast.closeAll();
-    navigate('/initial-check-in');
+    navigate('/privacy');
   };
 
   return (
@@ -114,6 +121,9 @@ const Landing: React.FC = () => {
             {t('common.continue')}
           </PrimaryButton>
         </Box>
+
+        {/* Check-ins saved on this kiosk while offline */}
+        <OfflineQueueStatus />
       </VStack>
     </PageLayout>
   );
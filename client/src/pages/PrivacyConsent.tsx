@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Privacy consent page for Foodbank Check-In and Appointment System client application
+ *
+ * Clients see this page after choosing their language and before they enter
+ * any personal information. It shows the current version of the privacy
+ * notice in their language; accepting it records the version, the time and
+ * the language in the flow store so they are sent with the check-in. Clients
+ * who do not agree are asked to see a staff member instead of checking in at
+ * the kiosk.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-17
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../lib/privacyNotice.ts} Privacy notice loading
+ * @see {@link ./InitialCheckIn.tsx} Initial check-in page
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Box, Button, Stack, Text, VStack } from '@chakra-ui/react';
+
+import PageLayout from '../components/layout/PageLayout';
+import PrimaryButton from '../components/buttons/PrimaryButton';
+import AssistanceButton from '../components/buttons/AssistanceButton';
+import PageHeader from '../components/ui/PageHeader';
+import { getCachedPrivacyNotice, loadPrivacyNotice } from '../lib/privacyNotice';
+import { savePrivacyConsent } from '../lib/flowStore';
+import type { PrivacyNotice } from '../common/types/Privacy';
+
+// Language the notice is actually shown in - English when it has no translation yet
+const getNoticeLanguage = (notice: PrivacyNotice, language: string): string => {
+  if (notice.text[language]) return language;
+  const baseLanguage = language.split('-')[0];
+  return notice.text[baseLanguage] ? baseLanguage : 'en';
+};
+
+const PrivacyConsent: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+
+  const [notice, setNotice] = useState<PrivacyNotice>(getCachedPrivacyNotice);
+  const [hasDeclined, setHasDeclined] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPrivacyNotice().then((loaded) => {
+      if (!cancelled) setNotice(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const noticeLanguage = getNoticeLanguage(notice, i18n.language);
+
+  const handleAccept = () => {
+    // Record the version on screen, even if a newer one was published since
+    savePrivacyConsent({
+      version: notice.version,
+      acceptedAt: new Date().toISOString(),
+      language: noticeLanguage,
+    });
+    navigate('/initial-check-in');
+  };
+
+  return (
+    <PageLayout showBackButton isScrollable>
+      <VStack spacing={{ base: 4, md: 6 }} width="full" maxW="700px" mx="auto" px={{ base: 4, md: 6 }} py={{ base: 4, md: 6 }}>
+        <Box w="full" bg="white" borderRadius="xl" boxShadow="sm" p={{ base: 4, md: 6, lg: 8 }}>
+          <PageHeader title={t('privacy.title')} subTitle={t('privacy.subtitle')} logoSize="sm" mb={4} />
+
+          {hasDeclined ? (
+            <Box bg="orange.50" border="1px solid" borderColor="orange.200" borderRadius="xl" p={{ base: 4, md: 5 }}>
+              <Text fontWeight="600" color="gray.800" mb={2}>
+                {t('privacy.declinedTitle')}
+              </Text>
+              <Text fontSize="sm" color="gray.700">
+                {t('privacy.declinedMessage')}
+              </Text>
+            </Box>
+          ) : (
+            <>
+              <Box
+                bg="gray.50"
+                border="1px solid"
+                borderColor="gray.200"
+                borderRadius="xl"
+                p={{ base: 4, md: 5 }}
+                maxH={{ base: '50vh', md: '400px' }}
+                overflowY="auto"
+                tabIndex={0}
+                lang={noticeLanguage}
+                dir={i18n.dir(noticeLanguage)}
+              >
+                <Text fontSize="md" color="gray.800" whiteSpace="pre-wrap" lineHeight="tall">
+                  {notice.text[noticeLanguage]}
+                </Text>
+              </Box>
+              <Text fontSize="xs" color="gray.500" mt={2} textAlign="right">
+                {t('privacy.version', { version: notice.version })}
+              </Text>
+            </>
+          )}
+
+          {/* Action Buttons */}
+          <Stack
+            spacing={{ base: 4, md: 6 }}
+            direction={{ base: 'column', md: 'row' }}
+            width="full"
+            pt={{ base: 6, md: 8 }}
+            justify="center"
+            align="center"
+          >
+            <AssistanceButton width={{ base: '100%', md: '200px' }} height="48px" fontSize="md" />
+            {hasDeclined ? (
+              <PrimaryButton onClick={() => navigate('/')} width={{ base: '100%', md: '200px' }} height="48px" fontSize="md">
+                {t('privacy.startOver')}
+              </PrimaryButton>
+            ) : (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => setHasDeclined(true)}
+                  width={{ base: '100%', md: '200px' }}
+                  height="48px"
+                  borderRadius="lg"
+                >
+                  {t('privacy.decline')}
+                </Button>
+                <PrimaryButton onClick={handleAccept} width={{ base: '100%', md: '200px' }} height="48px" fontSize="md">
+                  {t('privacy.accept')}
+                </PrimaryButton>
+              </>
+            )}
+          </Stack>
+        </Box>
+      </VStack>
+    </PageLayout>
+  );
+};
+
+export default PrivacyConsent;
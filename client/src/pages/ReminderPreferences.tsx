@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Reminder preferences page for Foodbank Check-In and Appointment System client application
+ *
+ * This optional step lets clients choose how they want to be reminded of
+ * their next appointment: by text message, by email, or not at all. Text
+ * reminders need a phone number and carrier, email reminders a valid email
+ * address. The choice, when the client agreed to it and the language they
+ * used are submitted with the check-in completion so staff can see them on
+ * the client's record.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-12
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./AppointmentDetails.tsx} Appointment details page
+ * @see {@link ./Confirmation.tsx} Confirmation page
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormLabel,
+  Icon,
+  Input,
+  Select,
+  SimpleGrid,
+  Stack,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { FiBellOff, FiMail, FiMessageSquare } from 'react-icons/fi';
+
+import PageLayout from '../components/layout/PageLayout';
+import ProgressSteps from '../components/layout/ProgressSteps';
+import PrimaryButton from '../components/buttons/PrimaryButton';
+import AssistanceButton from '../components/buttons/AssistanceButton';
+import PageHeader from '../components/ui/PageHeader';
+import {
+  NotificationPreference,
+  getAppointmentData,
+  getCheckInInfo,
+  saveAppointmentData,
+} from '../lib/flowStore';
+
+// Canadian carriers; the carrier is used to deliver text reminders
+const PHONE_CARRIERS = [
+  'Bell',
+  'Rogers',
+  'Telus',
+  'Fido',
+  'Koodo',
+  'Virgin Plus',
+  'Freedom Mobile',
+  'Chatr',
+  'Public Mobile',
+  'Lucky Mobile',
+  'Fizz',
+  'SaskTel',
+  'Vidéotron',
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface ReminderErrors {
+  phone?: string;
+  phoneCarrier?: string;
+  email?: string;
+}
+
+// Format a phone number as (555) 555-5555
+const formatPhone = (value: string): string => {
+  const digitsOnly = value.replace(/\D/g, '');
+  if (digitsOnly.length <= 3) return digitsOnly;
+  if (digitsOnly.length <= 6) return `(${digitsOnly.slice(0, 3)}) ${digitsOnly.slice(3)}`;
+  return `(${digitsOnly.slice(0, 3)}) ${digitsOnly.slice(3, 6)}-${digitsOnly.slice(6, 10)}`;
+};
+
+const ReminderPreferences: React.FC = () => {
+  const navigate = useNavigate();
+  const { t, i18n } = useTranslation();
+
+  // Restore an earlier choice, and offer the check-in phone number for text reminders
+  const [saved] = useState(() => getAppointmentData());
+  const [preference, setPreference] = useState<NotificationPreference>(saved?.notificationPreference || 'None');
+  const [phone, setPhone] = useState(() => formatPhone(saved?.phone || getCheckInInfo()?.phone || ''));
+  const [phoneCarrier, setPhoneCarrier] = useState(saved?.phoneCarrier || '');
+  const [email, setEmail] = useState(saved?.email || '');
+  const [errors, setErrors] = useState<ReminderErrors>({});
+
+  // The appointment step has to come first
+  useEffect(() => {
+    if (!saved) {
+      navigate('/appointment-details', { replace: true });
+    }
+  }, [saved, navigate]);
+
+  const options: Array<{ value: NotificationPreference; label: string; description: string; icon: React.ElementType }> = [
+    { value: 'SMS', label: t('reminders.sms'), description: t('reminders.smsDescription'), icon: FiMessageSquare },
+    { value: 'Email', label: t('reminders.email'), description: t('reminders.emailDescription'), icon: FiMail },
+    { value: 'None', label: t('reminders.none'), description: t('reminders.noneDescription'), icon: FiBellOff },
+  ];
+
+  const validate = (): ReminderErrors => {
+    const next: ReminderErrors = {};
+
+    if (preference === 'SMS') {
+      const digits = phone.replace(/\D/g, '');
+      if (!digits) {
+        next.phone = t('checkIn.errors.phoneRequired');
+      } else if (digits.length !== 10) {
+        next.phone = t('checkIn.errors.phoneInvalid');
+      }
+      if (!phoneCarrier) {
+        next.phoneCarrier = t('reminders.errors.carrierRequired');
+      }
+    }
+
+    if (preference === 'Email') {
+      if (!email.trim()) {
+        next.email = t('reminders.errors.emailRequired');
+      } else if (!EMAIL_PATTERN.test(email.trim())) {
+        next.email = t('reminders.errors.emailInvalid');
+      }
+    }
+
+    return next;
+  };
+
+  const saveAndContinue = (choice: NotificationPreference) => {
+    if (!saved) return;
+
+    saveAppointmentData({
+      ...saved,
+      notificationPreference: choice,
+      phone: choice === 'SMS' ? phone : '',
+      phoneCarrier: choice === 'SMS' ? phoneCarrier : '',
+      email: choice === 'Email' ? email.trim() : '',
+      reminderConsentAt: choice === 'None' ? undefined : new Date().toISOString(),
+      reminderLanguage: choice === 'None' ? undefined : i18n.language,
+    });
+    navigate('/confirmation');
+  };
+
+  const handleSubmit = () => {
+    const validationErrors = validate();
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    saveAndContinue(preference);
+  };
+
+  return (
+    <PageLayout showBackButton isScrollable>
+      <Box w="full" bg="white" pb={1} pt={0}>
+        <ProgressSteps
+          currentStep={5}
+          totalSteps={6}
+          labels={[
+            t('navigation.progressSteps.initialCheckIn'),
+            t('navigation.progressSteps.specialRequests'),
+            t('navigation.progressSteps.household'),
+            t('navigation.progressSteps.appointmentDetails'),
+            t('navigation.progressSteps.reminders'),
+            t('navigation.progressSteps.confirmation'),
+          ]}
+        />
+      </Box>
+
+      <VStack spacing={{ base: 4, md: 6 }} width="full" maxW="700px" mx="auto" px={{ base: 4, md: 6 }} py={{ base: 4, md: 6 }}>
+        <Box w="full" bg="white" borderRadius="xl" boxShadow="sm" p={{ base: 4, md: 6, lg: 8 }}>
+          <PageHeader title={t('reminders.title')} subTitle={t('reminders.subtitle')} logoSize="sm" mb={4} />
+
+          {/* Reminder options */}
+          <SimpleGrid columns={{ base: 1, md: 3 }} spacing={3} mb={6} role="radiogroup" aria-label={t('reminders.title')}>
+            {options.map((option) => {
+              const isSelected = preference === option.value;
+              return (
+                <Button
+                  key={option.value}
+                  role="radio"
+                  aria-checked={isSelected}
+                  onClick={() => {
+                    setPreference(option.value);
+                    setErrors({});
+                  }}
+                  h="auto"
+                  py={4}
+                  px={3}
+                  flexDirection="column"
+                  whiteSpace="normal"
+                  variant={isSelected ? 'solid' : 'outline'}
+                  bg={isSelected ? 'client.primary' : 'white'}
+                  color={isSelected ? 'white' : 'gray.700'}
+                  borderColor={isSelected ? 'client.primary' : 'gray.300'}
+                  borderRadius="lg"
+                  _hover={{ bg: isSelected ? 'client.primary' : 'brand.50' }}
+                >
+                  <Icon as={option.icon} boxSize={6} mb={2} />
+                  <Text fontWeight="600">{option.label}</Text>
+                  <Text fontSize="xs" fontWeight="normal" mt={1} opacity={0.85}>
+                    {option.description}
+                  </Text>
+                </Button>
+              );
+            })}
+          </SimpleGrid>
+
+          {/* Contact details for the chosen reminder */}
+          {preference === 'SMS' && (
+            <VStack spacing={4} align="stretch" mb={4}>
+              <FormControl isRequired isInvalid={!!errors.phone}>
+                <FormLabel fontSize="md" fontWeight="medium">{t('checkIn.phoneLabel')}</FormLabel>
+                <Input
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => {
+                    setPhone(formatPhone(e.target.value));
+                    setErrors((prev) => ({ ...prev, phone: undefined }));
+                  }}
+                  placeholder="(555) 555-5555"
+                  size="lg"
+                  maxLength={14}
+                  borderRadius="lg"
+                />
+                <FormErrorMessage>{errors.phone}</FormErrorMessage>
+              </FormControl>
+              <FormControl isRequired isInvalid={!!errors.phoneCarrier}>
+                <FormLabel fontSize="md" fontWeight="medium">{t('reminders.carrierLabel')}</FormLabel>
+                <Select
+                  value={phoneCarrier}
+                  onChange={(e) => {
+                    setPhoneCarrier(e.target.value);
+                    setErrors((prev) => ({ ...prev, phoneCarrier: undefined }));
+                  }}
+                  placeholder={t('reminders.carrierPlaceholder')}
+                  size="lg"
+                  borderRadius="lg"
+                >
+                  {PHONE_CARRIERS.map((carrier) => (
+                    <option key={carrier} value={carrier}>
+                      {carrier}
+                    </option>
+                  ))}
+                  <option value="Other">{t('reminders.carrierOther')}</option>
+                </Select>
+                <FormErrorMessage>{errors.phoneCarrier}</FormErrorMessage>
+              </FormControl>
+            </VStack>
+          )}
+
+          {preference === 'Email' && (
+            <FormControl isRequired isInvalid={!!errors.email} mb={4}>
+              <FormLabel fontSize="md" fontWeight="medium">{t('reminders.emailLabel')}</FormLabel>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setErrors((prev) => ({ ...prev, email: undefined }));
+                }}
+                placeholder="name@example.com"
+                size="lg"
+                borderRadius="lg"
+                autoComplete="email"
+              />
+              <FormErrorMessage>{errors.email}</FormErrorMessage>
+            </FormControl>
+          )}
+
+          {preference !== 'None' && (
+            <Box bg="brand.50" border="1px solid" borderColor="brand.200" borderRadius="lg" p={4}>
+              <Text fontSize="sm" color="gray.700">
+                {t('reminders.consent')}
+              </Text>
+            </Box>
+          )}
+
+          {/* Action Buttons */}
+          <Stack
+            spacing={{ base: 4, md: 6 }}
+            direction={{ base: 'column', md: 'row' }}
+            width="full"
+            pt={{ base: 6, md: 8 }}
+            justify="center"
+            align="center"
+          >
+            <AssistanceButton width={{ base: '100%', md: '200px' }} height="48px" fontSize="md" />
+            <Button
+              variant="outline"
+              onClick={() => saveAndContinue('None')}
+              width={{ base: '100%', md: '200px' }}
+              height="48px"
+              borderRadius="lg"
+            >
+              {t('reminders.skip')}
+            </Button>
+            <PrimaryButton onClick={handleSubmit} width={{ base: '100%', md: '200px' }} height="48px" fontSize="md">
+              {t('common.continue')}
+            </PrimaryButton>
+          </Stack>
+        </Box>
+      </VStack>
+    </PageLayout>
+  );
+};
+
+export default ReminderPreferences;
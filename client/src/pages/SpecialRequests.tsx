@@ -5,12 +5,17 @@
  * dietary restrictions, accessibility needs, and other requirements
  * for their food bank visit.
  * 
+ * The request options are rendered from the catalog staff manage in the
+ * admin Settings page, grouped by category. Selections are saved with the
+ * option IDs so reports stay stable when labels change.
+ * 
  * @author Lindsey D. Stead
  * @version 1.0.0
  * @since 2025-10-20
  * @license Proprietary - see LICENSE file for details
  * 
  * @see {@link ../AppointmentDetails.tsx} Appointment details page
+ * @see {@link ../lib/requestCatalog.ts} Special-request catalog
  */
 
 import React, { useEffect, useMemo, useState } from 'react';
@@ -22,13 +27,28 @@ import {
   FormControl,
   FormLabel,
   Heading,
+  Input,
   Stack,
   Text,
   Textarea,
   useToast,
   VStack,
 } from '@chakra-ui/react';
-import { FaCarrot, FaLeaf, FaBreadSlice } from 'react-icons/fa';
+import {
+  FaAllergies,
+  FaAppleAlt,
+  FaBaby,
+  FaBreadSlice,
+  FaCarrot,
+  FaCheese,
+  FaEgg,
+  FaFish,
+  FaLeaf,
+  FaPaw,
+  FaPumpSoap,
+  FaTooth,
+} from 'react-icons/fa';
+import { GiPeanut } from 'react-icons/gi';
 import { MdMosque, MdSynagogue, MdNoFood } from 'react-icons/md';
 
 import PageLayout from '../components/layout/PageLayout';
@@ -36,16 +56,50 @@ import ProgressSteps from '../components/layout/ProgressSteps';
 import PrimaryButton from '../components/buttons/PrimaryButton';
 import AssistanceButton from '../components/buttons/AssistanceButton';
 import PageHeader from '../components/ui/PageHeader';
+import {
+  CheckInInfo,
+  canContinueCheckIn,
+  getCheckInInfo,
+  getSpecialRequests,
+  saveSpecialRequests,
+} from '../lib/flowStore';
+import {
+  DIAPER_OPTION_ID,
+  REQUEST_CATEGORIES,
+  getCachedRequestCatalog,
+  isOutOfStock,
+  loadRequestCatalog,
+  localizedText,
+} from '../lib/requestCatalog';
+import type { RequestOption, RequestOptionIcon, RequestSelection } from '../common/types/SpecialRequests';
 
 // Mobile-friendly version with natural scrolling
 
+const REQUEST_ICONS: Record<RequestOptionIcon, React.ElementType> = {
+  carrot: FaCarrot,
+  leaf: FaLeaf,
+  bread: FaBreadSlice,
+  noFood: MdNoFood,
+  mosque: MdMosque,
+  synagogue: MdSynagogue,
+  allergy: FaAllergies,
+  peanut: GiPeanut,
+  egg: FaEgg,
+  fish: FaFish,
+  cheese: FaCheese,
+  baby: FaBaby,
+  soap: FaPumpSoap,
+  tooth: FaTooth,
+  paw: FaPaw,
+  apple: FaAppleAlt,
+};
+
 interface SpecialRequest {
-  dietaryRestrictions: string[];
+  selections: RequestSelection[];
   additionalInfo: string;
   unwantedFoods: string;
   allergies: string;
   hasMobilityIssues: boolean;
-  diaperSize?: string;
 }
 
 const ToggleButton: React.FC<{
@@ -53,10 +107,12 @@ const ToggleButton: React.FC<{
   onToggle: () => void;
   label: string;
   icon?: React.ElementType;
-}> = ({ isActive, onToggle, label, icon: IconCmp }) => {
+  isDisabled?: boolean;
+}> = ({ isActive, onToggle, label, icon: IconCmp, isDisabled }) => {
   return (
     <Button
       onClick={onToggle}
+      isDisabled={isDisabled}
       width="100%"
       height="52px"
       variant={isActive ? 'solid' : 'outline'}
@@ -113,49 +169,52 @@ const SpecialRequests: React.FC = () => {
   const [clientName, setClientName] = useState('');
   const [appointmentTime, setAppointmentTime] = useState('');
   const [appointmentDate, setAppointmentDate] = useState('');
-  const [checkInData, setCheckInData] = useState<any>(null);
-  const [formData, setFormData] = useState<SpecialRequest>({
-    dietaryRestrictions: [],
-    additionalInfo: '',
-    unwantedFoods: '',
-    allergies: '',
-    hasMobilityIssues: false,
-    diaperSize: '',
+  const [checkInData, setCheckInData] = useState<CheckInInfo | null>(null);
+  // Restore earlier answers when the client comes back to this step
+  const [formData, setFormData] = useState<SpecialRequest>(() => {
+    const saved = getSpecialRequests();
+    return {
+      selections: saved?.requestSelections || [],
+      additionalInfo: saved?.additionalInfo || '',
+      unwantedFoods: saved?.unwantedFoods || '',
+      allergies: saved?.allergies || '',
+      hasMobilityIssues: saved?.hasMobilityIssues || false,
+    };
   });
+  // Show the cached catalog right away and refresh it from the backend
+  const [catalog, setCatalog] = useState<RequestOption[]>(getCachedRequestCatalog);
 
-  // Build once – avoids recreating on every render
-  const dietaryOptions = useMemo(
-    () => [
-      { value: 'vegetarian', label: t('specialRequests.vegetarian'), icon: FaCarrot },
-      { value: 'vegan', label: t('specialRequests.vegan'), icon: FaLeaf },
-      { value: 'glutenFree', label: t('specialRequests.glutenFree'), icon: FaBreadSlice },
-      { value: 'dairyFree', label: t('specialRequests.dairyFree'), icon: MdNoFood },
-      { value: 'halal', label: t('specialRequests.halal'), icon: MdMosque },
-      { value: 'kosher', label: t('specialRequests.kosher'), icon: MdSynagogue },
-    ],
-    // Recompute when language changes so labels update
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [i18n.language]
+  useEffect(() => {
+    let cancelled = false;
+    loadRequestCatalog().then((options) => {
+      if (!cancelled) setCatalog(options);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const catalogByCategory = useMemo(
+    () =>
+      REQUEST_CATEGORIES.map((category) => ({
+        category,
+        options: catalog.filter((option) => option.category === category),
+      })).filter((group) => group.options.length > 0),
+    [catalog]
   );
 
   useEffect(() => {
-    // Defensive: sessionStorage may not exist on server or in certain embedded browsers
-    if (typeof window === 'undefined') return;
-
-    const raw = window.sessionStorage.getItem('checkInInfo');
-    if (!raw) return;
+    const parsed = getCheckInInfo();
+    if (!parsed) return;
 
     try {
-      const parsed = JSON.parse(raw);
       setCheckInData(parsed);
 
       const name =
-        parsed?.client?.firstName ||
-        parsed?.client?.fullName ||
-        parsed?.client?.lastName ||
-        parsed?.firstName ||
-        parsed?.fullName ||
-        parsed?.lastName ||
+        parsed.client?.firstName ||
+        parsed.client?.fullName ||
+        parsed.client?.lastName ||
+        parsed.lastName ||
         'Client';
       setClientName(name);
 
@@ -257,24 +316,37 @@ const SpecialRequests: React.FC = () => {
         );
       }
     } catch (e) {
-      console.error('Invalid checkInData in sessionStorage', e);
+      console.error('Invalid appointment data in check-in flow', e);
     }
   }, [i18n.language]);
 
-  const toggleDietary = (value: string) => {
+  const isSelected = (optionId: string) => formData.selections.some((selection) => selection.optionId === optionId);
+
+  const toggleOption = (option: RequestOption) => {
     setFormData((prev) => {
-      const exists = prev.dietaryRestrictions.includes(value);
+      const exists = prev.selections.some((selection) => selection.optionId === option.id);
       return {
         ...prev,
-        dietaryRestrictions: exists
-          ? prev.dietaryRestrictions.filter((v) => v !== value)
-          : [...prev.dietaryRestrictions, value],
+        selections: exists
+          ? prev.selections.filter((selection) => selection.optionId !== option.id)
+          : [...prev.selections, { optionId: option.id, category: option.category }],
       };
     });
   };
 
+  const setOptionDetail = (optionId: string, detail: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      selections: prev.selections.map((selection) =>
+        selection.optionId === optionId ? { ...selection, detail } : selection
+      ),
+    }));
+  };
+
   const handleSubmit = () => {
-    if (!checkInData) {
+    // Never submit special requests without the check-in they belong to,
+    // either matched by the backend or queued on the kiosk while offline
+    if (!canContinueCheckIn(checkInData)) {
       toast({
         title: 'Session Expired',
         description: 'Your check-in session has expired. Please return to the start page and begin again.',
@@ -288,25 +360,28 @@ const SpecialRequests: React.FC = () => {
     }
 
     try {
-      const payload = {
-        checkInId: checkInData?.checkInId || String(Date.now()),
-        clientId: checkInData?.clientId || 'unknown',
-        dietaryRestrictions: formData.dietaryRestrictions,
-        allergies: formData.allergies?.trim(),
-        unwantedFoods: formData.unwantedFoods?.trim(),
-        additionalInfo: formData.additionalInfo?.trim(),
+      const requestSelections = formData.selections.map((selection) => ({
+        ...selection,
+        detail: selection.detail?.trim() || undefined,
+      }));
+
+      saveSpecialRequests({
+        requestSelections,
+        // Kept for existing reports: dietary option IDs and the diaper size
+        dietaryRestrictions: requestSelections
+          .filter((selection) => selection.category === 'dietary')
+          .map((selection) => selection.optionId),
+        allergies: formData.allergies.trim(),
+        unwantedFoods: formData.unwantedFoods.trim(),
+        additionalInfo: formData.additionalInfo.trim(),
         hasMobilityIssues: !!formData.hasMobilityIssues,
-        diaperSize: formData.diaperSize?.trim(),
+        diaperSize: requestSelections.find((selection) => selection.optionId === DIAPER_OPTION_ID)?.detail || '',
         submittedAt: new Date().toISOString(),
-      };
-
-      if (typeof window !== 'undefined') {
-        window.sessionStorage.setItem('specialRequestsData', JSON.stringify(payload));
-      }
+      });
 
       toast({
         title: 'Preferences Saved',
-        description: 'Your dietary preferences and special requests have been saved. Continuing to appointment details...',
+        description: 'Your dietary preferences and special requests have been saved. Continuing to your household details...',
         status: 'success',
         duration: 3000,
         isClosable: true,
@@ -314,7 +389,7 @@ const SpecialRequests: React.FC = () => {
         variant: 'subtle',
       });
 
-      navigate('/appointment-details');
+      navigate('/household');
     } catch (e) {
       console.error('Save error', e);
       toast({
@@ -345,11 +420,13 @@ const SpecialRequests: React.FC = () => {
       >
         <ProgressSteps
           currentStep={2}
-          totalSteps={4}
+          totalSteps={6}
           labels={[
             t('navigation.progressSteps.initialCheckIn'),
             t('navigation.progressSteps.specialRequests'),
+            t('navigation.progressSteps.household'),
             t('navigation.progressSteps.appointmentDetails'),
+            t('navigation.progressSteps.reminders'),
             t('navigation.progressSteps.confirmation'),
           ]}
         />
@@ -444,29 +521,67 @@ const SpecialRequests: React.FC = () => {
               Choose one or more of the options below that apply to you
             </Heading>
             
-            <Box
-              display="grid"
-              gridTemplateColumns={{
-                base: "1fr",
-                sm: "repeat(2, 1fr)",
-                md: "repeat(3, 1fr)"
-              }}
-              gap={3}
-              mb={4}
-            >
-              {dietaryOptions.map((opt) => (
-                <ToggleButton
-                  key={opt.value}
-                  isActive={formData.dietaryRestrictions.includes(opt.value)}
-                  onToggle={() => toggleDietary(opt.value)}
-                  label={opt.label}
-                  icon={opt.icon}
-                />
+            <VStack spacing={6} align="stretch" mb={4}>
+              {catalogByCategory.map(({ category, options }) => (
+                <Box key={category}>
+                  <Text fontSize="sm" fontWeight="600" color="gray.600" mb={2}>
+                    {t(`specialRequests.categories.${category}`)}
+                  </Text>
+                  <Box
+                    display="grid"
+                    gridTemplateColumns={{
+                      base: "1fr",
+                      sm: "repeat(2, 1fr)",
+                      md: "repeat(3, 1fr)"
+                    }}
+                    gap={3}
+                  >
+                    {options.map((option) => {
+                      const selected = isSelected(option.id);
+                      const soldOut = isOutOfStock(option) && !selected;
+                      const label = localizedText(option.labels, i18n.language);
+                      return (
+                        <ToggleButton
+                          key={option.id}
+                          isActive={selected}
+                          onToggle={() => toggleOption(option)}
+                          label={soldOut ? `${label} (${t('specialRequests.outOfStock')})` : label}
+                          icon={REQUEST_ICONS[option.icon]}
+                          isDisabled={soldOut}
+                        />
+                      );
+                    })}
+                  </Box>
+
+                  {/* Details asked for by selected options, e.g. diaper size */}
+                  {options
+                    .filter((option) => option.detailPrompt && isSelected(option.id))
+                    .map((option) => (
+                      <FormControl key={option.id} mt={3}>
+                        <FormLabel mb={2} fontSize="md" fontWeight="medium" color="gray.700">
+                          {localizedText(option.labels, i18n.language)} – {t('specialRequests.details')}
+                        </FormLabel>
+                        <Input
+                          value={formData.selections.find((selection) => selection.optionId === option.id)?.detail || ''}
+                          onChange={(e) => setOptionDetail(option.id, e.target.value)}
+                          placeholder={localizedText(option.detailPrompt, i18n.language)}
+                          borderRadius="lg"
+                          borderColor="gray.300"
+                          _focus={{
+                            borderColor: 'client.primary',
+                            boxShadow: '0 0 0 1px var(--chakra-colors-client-primary)',
+                            outline: 'none'
+                          }}
+                          _hover={{ borderColor: 'gray.400' }}
+                        />
+                      </FormControl>
+                    ))}
+                </Box>
               ))}
-            </Box>
+            </VStack>
             
             {/* Interactive feedback */}
-            {formData.dietaryRestrictions.length > 0 && (
+            {formData.selections.length > 0 && (
               <Box
                 bg="accent.green.50"
                 border="1px solid"
@@ -493,10 +608,10 @@ const SpecialRequests: React.FC = () => {
                   fontSize="xs"
                   fontWeight="bold"
                 >
-                  {formData.dietaryRestrictions.length}
+                  {formData.selections.length}
                 </Box>
                 <Text color="accent.green.500" fontSize="sm" fontWeight="500">
-                  {formData.dietaryRestrictions.length === 1 ? '1 selected' : `${formData.dietaryRestrictions.length} selected`}
+                  {formData.selections.length === 1 ? '1 selected' : `${formData.selections.length} selected`}
                 </Text>
               </Box>
             )}
@@ -593,8 +708,8 @@ const SpecialRequests: React.FC = () => {
                   borderRadius="lg"
                   borderColor="gray.300"
                   _focus={{ 
-                    borderColor: '#25385D', 
-                    boxShadow: '0 0 0 1px #25385D',
+                    borderColor: 'client.primary', 
+                    boxShadow: '0 0 0 1px var(--chakra-colors-client-primary)',
                     outline: 'none'
                   }}
                   _hover={{ borderColor: 'gray.400' }}
@@ -614,32 +729,8 @@ const SpecialRequests: React.FC = () => {
                   borderRadius="lg"
                   borderColor="gray.300"
                   _focus={{ 
-                    borderColor: '#25385D', 
-                    boxShadow: '0 0 0 1px #25385D',
-                    outline: 'none'
-                  }}
-                  _hover={{ borderColor: 'gray.400' }}
-                  resize="vertical"
-                />
-              </FormControl>
-
-              {/* Diaper Size for Tiny Bundles */}
-              <FormControl>
-                <FormLabel mb={2} fontSize="md" fontWeight="medium" color="gray.700">
-                  Diaper Size (for Tiny Bundles clients)
-                </FormLabel>
-                <Textarea
-                  placeholder="What size do you need? (like Size 3, Size 4, etc.)"
-                  value={formData.diaperSize || ''}
-                  onChange={(e) => setFormData((p) => ({ ...p, diaperSize: e.target.value }))}
-                  rows={2}
-                  bg="white"
-                  border="1px solid"
-                  borderColor="gray.300"
-                  borderRadius="md"
-                  _focus={{
-                    borderColor: 'blue.500',
-                    boxShadow: '0 0 0 1px #3182ce',
+                    borderColor: 'client.primary', 
+                    boxShadow: '0 0 0 1px var(--chakra-colors-client-primary)',
                     outline: 'none'
                   }}
                   _hover={{ borderColor: 'gray.400' }}
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview iCalendar export for Foodbank Check-In and Appointment System client application
+ *
+ * This module builds an .ics file for a client's next appointment, with the
+ * food bank's address and a reminder alarm, so it can be added to any phone
+ * or desktop calendar. It also provides the download helper shared with the
+ * appointment card.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-11
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc5545} RFC 5545 (iCalendar)
+ */
+
+export interface CalendarAppointment {
+  uid: string;
+  start: Date;
+  durationMinutes?: number;
+  title: string;
+  description?: string;
+  location?: string;
+  // Minutes before the appointment to show the reminder
+  reminderMinutesBefore?: number;
+}
+
+const DEFAULT_DURATION_MINUTES = 30;
+const DEFAULT_REMINDER_MINUTES = 24 * 60;
+
+// UTC timestamp in iCalendar form (20251201T173000Z)
+const formatIcsDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+// Escape text values (RFC 5545 section 3.3.11)
+const escapeText = (value: string): string => {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+};
+
+// Fold lines longer than 75 octets without splitting a multi-byte character
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Build the contents of an .ics file for one appointment
+ */
+export const buildAppointmentIcs = (appointment: CalendarAppointment): string => {
+  const duration = appointment.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+  const reminder = appointment.reminderMinutesBefore ?? DEFAULT_REMINDER_MINUTES;
+  const end = new Date(appointment.start.getTime() + duration * 60 * 1000);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Foodbank Check-In//Appointments//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${appointment.uid}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(appointment.start)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeText(appointment.title)}`,
+    ...(appointment.description ? [`DESCRIPTION:${escapeText(appointment.description)}`] : []),
+    ...(appointment.location ? [`LOCATION:${escapeText(appointment.location)}`] : []),
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(appointment.title)}`,
+    `TRIGGER:-PT${reminder}M`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Save a file through the browser's download prompt
+ */
+export const downloadFile = (content: Blob, filename: string): void => {
+  const url = URL.createObjectURL(content);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Download an appointment as an .ics file
+ */
+export const downloadAppointmentIcs = (appointment: CalendarAppointment, filename = 'food-bank-appointment.ics'): void => {
+  const blob = new Blob([buildAppointmentIcs(appointment)], { type: 'text/calendar;charset=utf-8' });
+  downloadFile(blob, filename);
+};
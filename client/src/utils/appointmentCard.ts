@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Printable appointment card for Foodbank Check-In and Appointment System client application
+ *
+ * This module draws a client's next appointment onto a canvas and exports it
+ * as a PNG, so it can be saved to a phone or printed. All text is passed in
+ * already translated; right-to-left languages are drawn with the canvas
+ * direction set so Arabic text is shaped and ordered correctly.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-11
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./appointmentCalendar.ts} Calendar export and download helper
+ */
+
+import theme from '../common/theme';
+import type { OrganizationColors } from '../common/types/Organization';
+
+export interface AppointmentCardContent {
+  organizationName: string;
+  heading: string;
+  date: string;
+  time: string;
+  address?: string;
+  phone?: string;
+  note?: string;
+  // Organization brand colors; the default theme colors when not given
+  colors?: OrganizationColors;
+  direction?: 'ltr' | 'rtl';
+}
+
+// 3.5 x 2 in card at 300 dpi - prints at business card size
+const CARD_WIDTH = 1050;
+const CARD_HEIGHT = 600;
+const PADDING = 60;
+const FONT_FAMILY = 'Open Sans, system-ui, sans-serif';
+
+// Draw text centered on the card, shrinking it until it fits the width
+const drawCentered = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  y: number,
+  size: number,
+  weight: number,
+  color: string
+) => {
+  let fontSize = size;
+  ctx.font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  while (ctx.measureText(text).width > CARD_WIDTH - PADDING * 2 && fontSize > 14) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+  }
+  ctx.fillStyle = color;
+  ctx.fillText(text, CARD_WIDTH / 2, y);
+};
+
+/**
+ * Render the appointment card as a PNG image
+ */
+export const renderAppointmentCard = async (content: AppointmentCardContent): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported');
+  }
+
+  const primary = content.colors?.primary || theme.colors.client.primary;
+  const accent = content.colors?.accent || theme.colors.brand[500];
+
+  // Make sure the web font is loaded before drawing
+  if (document.fonts) {
+    await document.fonts.ready;
+  }
+
+  ctx.direction = content.direction || 'ltr';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  // Card background and border
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.strokeStyle = primary;
+  ctx.lineWidth = 6;
+  ctx.strokeRect(3, 3, CARD_WIDTH - 6, CARD_HEIGHT - 6);
+
+  // Header band
+  ctx.fillStyle = primary;
+  ctx.fillRect(0, 0, CARD_WIDTH, 110);
+  drawCentered(ctx, content.organizationName, 55, 44, 700, '#FFFFFF');
+
+  drawCentered(ctx, content.heading, 170, 34, 600, accent);
+  drawCentered(ctx, content.date, 260, 56, 700, primary);
+  drawCentered(ctx, content.time, 340, 50, 700, primary);
+
+  const contactLine = [content.address, content.phone].filter(Boolean).join('  ·  ');
+  if (contactLine) {
+    drawCentered(ctx, contactLine, 430, 30, 400, '#4A5568');
+  }
+  if (content.note) {
+    drawCentered(ctx, content.note, 520, 24, 400, '#718096');
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to create appointment card image'));
+      }
+    }, 'image/png');
+  });
+};
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for last-name normalization
+ *
+ * Name variants are taken from the ways Link2Feed records and kiosk entries
+ * differ in practice: case, accents, punctuation, spacing and compound names,
+ * in Latin, Arabic, Devanagari, Gurmukhi and Chinese script.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-08
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./nameMatching.ts} Name matching module
+ */
+
+import { describe, expect, it } from 'vitest';
+import { normalizeLastName } from './nameMatching';
+
+describe('normalizeLastName', () => {
+  it.each([
+    ['SMITH', 'smith'],
+    ['  Smith  ', 'smith'],
+    ["O'Brien", 'obrien'],
+    ['O’Brien', 'obrien'],
+    ['O Brien', 'obrien'],
+    ['Mac Donald', 'macdonald'],
+    ['Smith-Jones', 'smithjones'],
+    ['Smith – Jones', 'smithjones'],
+    ['García López', 'garcialopez'],
+    ['Nguyễn', 'nguyen'],
+    ['Müller', 'muller'],
+    ['Straße', 'strasse'],
+    ['Øster', 'oster'],
+    ['Łukasz', 'lukasz'],
+    ['St. Pierre', 'stpierre'],
+    ['İnce', 'ince'],
+  ])('normalizes %s to %s', (name, expected) => {
+    expect(normalizeLastName(name)).toBe(expected);
+  });
+
+  it('keeps Devanagari and Gurmukhi vowel signs', () => {
+    expect(normalizeLastName('सिंह')).toBe('सिंह'.normalize('NFC'));
+    expect(normalizeLastName('ਸਿੰਘ')).toBe('ਸਿੰਘ'.normalize('NFC'));
+  });
+
+  it('removes optional Arabic diacritics and tatweel', () => {
+    expect(normalizeLastName('مُحَمَّد')).toBe('محمد');
+    expect(normalizeLastName('محـــمد')).toBe('محمد');
+  });
+
+  it('keeps Chinese characters', () => {
+    expect(normalizeLastName('王')).toBe('王');
+  });
+});
+
+describe('normalizeLastName variants', () => {
+  it.each([
+    ['smith', 'Smith'],
+    ["O'Brien", 'OBRIEN'],
+    ['obrien', 'O’Brien'],
+    ['Smith Jones', 'Smith-Jones'],
+    ['Garcia Lopez', 'García-López'],
+    ['nguyen', 'Nguyễn'],
+    ['Dupre', 'Dupré'],
+    ['Le Blanc', 'LeBlanc'],
+    ['van der berg', 'Van der Berg'],
+    ['Abdulrahman', 'Abdul Rahman'],
+    ['مُحَمَّد', 'محمد'],
+    ['王', '王'],
+  ])('%s normalizes the same as %s', (entered, recorded) => {
+    expect(normalizeLastName(entered)).toBe(normalizeLastName(recorded));
+  });
+
+  it.each([
+    ['Mohamed', 'Mohammed'],
+    ['Li', 'Lee'],
+    ['Garcia', 'Garcia Lopez'],
+  ])('leaves spelling differences between %s and %s to the backend', (entered, recorded) => {
+    expect(normalizeLastName(entered)).not.toBe(normalizeLastName(recorded));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview Last-name normalization for Foodbank Check-In and Appointment System client application
+ *
+ * Last names in Link2Feed are often entered differently from how clients type
+ * them at the kiosk: with or without accents, hyphens, apostrophes or spaces.
+ * This module folds those differences before the check-in lookup. The kiosk
+ * only sends the folded name; the backend compares it with the name on record
+ * and decides whether a close variant may check in, so names on record never
+ * reach the public kiosk.
+ *
+ * Accents are only removed from Latin letters. Vowel signs in Devanagari and
+ * Gurmukhi are part of the spelling and are kept; optional marks (Arabic
+ * harakat and tatweel, nukta) are removed.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-08
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ./nameMatching.test.ts} Name variant test suite
+ */
+
+// Letters that don't decompose into a base letter plus an accent
+const LETTER_FOLDS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  ł: 'l',
+  đ: 'd',
+  ð: 'd',
+  þ: 'th',
+  ı: 'i',
+};
+
+// Hyphens, dashes, apostrophes, quotes, periods and whitespace between name parts
+const SEPARATORS = /[\s\-\u2010-\u2015'\u2018\u2019`\u00B4\u02BB\u02BC".,]+/g;
+
+// Arabic harakat, superscript alef and tatweel; Devanagari and Gurmukhi nukta
+const OPTIONAL_MARKS = /[\u064B-\u065F]|\u0670|\u0640|\u093C|\u0A3C/gu;
+
+/**
+ * Normalize a last name for comparison
+ *
+ * "O'Brien", "o brien" and "OBRIEN" all normalize to "obrien";
+ * "García-López" and "Garcia Lopez" to "garcialopez".
+ */
+export const normalizeLastName = (name: string): string => {
+  return name
+    // Lowercase first - "İ" lowercases to "i" plus a combining dot, removed below
+    .toLowerCase()
+    .normalize('NFD')
+    // Strip accents from Latin letters only
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .replace(OPTIONAL_MARKS, '')
+    .normalize('NFC')
+    .replace(/[ßæœøłđðþı]/g, (letter) => LETTER_FOLDS[letter])
+    .replace(SEPARATORS, '');
+};
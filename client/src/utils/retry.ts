@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Retry with exponential backoff for client application requests
+ *
+ * This module retries an async operation when it fails with a temporary error
+ * (connection drop, server error, rate limit), waiting longer between each
+ * attempt. Permanent failures are returned to the caller immediately.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-04
+ * @license Proprietary - see LICENSE file for details
+ */
+
+import { logger } from './logger';
+
+// Thrown for HTTP responses that are worth retrying (5xx, 429)
+export class RetryableResponseError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`Server responded with ${status}`);
+    this.name = 'RetryableResponseError';
+    this.status = status;
+  }
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retry an async operation with exponential backoff (1s, 2s, 4s ... by default)
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    shouldRetry = (error) => error instanceof RetryableResponseError,
+  }: RetryOptions = {}
+): Promise<T> => {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      logger.warn(`Request failed, retrying in ${delay}ms (attempt ${attempt + 1} of ${retries})`);
+      await wait(delay);
+      attempt += 1;
+    }
+  }
+};
@@ -4,6 +4,11 @@ interface ImportMetaEnv {
   readonly VITE_API_BASE_URL?: string;
   readonly VITE_SUPABASE_URL?: string;
   readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_KIOSK_MODE?: string;
+  readonly VITE_KIOSK_IDLE_TIMEOUT_SECONDS?: string;
+  readonly VITE_KIOSK_IDLE_WARNING_SECONDS?: string;
+  readonly VITE_FOOD_BANK_NAME?: string;
+  readonly VITE_FOOD_BANK_ADDRESS?: string;
   readonly MODE: string;
   readonly DEV: boolean;
   readonly PROD: boolean;
@@ -20,6 +20,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 3002,
+    fs: {
+      // The slot picker imports shared logic from ../shared
+      allow: ['..'],
+    },
     proxy: {
       '/api': 'http://localhost:3001',
     }
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Appointment slot logic shared by the client application and the admin panel
+ *
+ * Both apps let someone pick the next appointment from the backend's
+ * availability: clients when they reschedule at the kiosk, staff in the
+ * rebook modal. This module holds the availability types and the calendar
+ * rules (which days and slots can be picked, and why the others can't), so
+ * the two slot pickers only differ in how they present them. The date and time
+ * helpers are also used wherever either app shows an appointment.
+ *
+ * The module has no dependencies; each app imports it directly.
+ *
+ * @author Lindsey D. Stead
+ * @version 1.0.0
+ * @since 2025-11-10
+ * @license Proprietary - see LICENSE file for details
+ *
+ * @see {@link ../client/src/components/ui/AppointmentSlotPicker.tsx} Client slot picker
+ * @see {@link ../admin/src/components/features/appointments/AppointmentSlotPicker.tsx} Admin slot picker
+ */
+
+export interface AvailabilitySlot {
+  // HH:MM (24-hour)
+  time: string;
+  capacity: number;
+  remaining: number;
+}
+
+export interface AvailabilityDay {
+  // YYYY-MM-DD
+  date: string;
+  isOpen: boolean;
+  // Why the day is closed (e.g. "Closed on Sundays", "Statutory holiday")
+  closedReason?: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface SlotSelection {
+  date: string;
+  time: string;
+}
+
+// Why a day on the calendar can't be picked; closedReason is the backend's own wording
+export type UnavailableReason = { kind: 'closed'; closedReason?: string } | { kind: 'full' };
+
+export interface CalendarDay {
+  // YYYY-MM-DD
+  key: string;
+  date: Date;
+  isAvailable: boolean;
+  isFull: boolean;
+  // Only set for days the backend sent; days still loading have no reason
+  unavailableReason?: UnavailableReason;
+}
+
+// Format a local date as YYYY-MM-DD
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse YYYY-MM-DD as a local date to avoid timezone shifts
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// "17:30" -> "5:30 PM"
+export const formatTimeOfDay = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${hour12}:${String(minutes).padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`;
+};
+
+// Inclusive YYYY-MM-DD range covering the month that starts on `month`
+export const getMonthRange = (month: Date): { from: string; to: string } => ({
+  from: toDateKey(new Date(month.getFullYear(), month.getMonth(), 1)),
+  to: toDateKey(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+});
+
+export const isSlotFull = (slot: AvailabilitySlot): boolean => slot.remaining <= 0;
+
+export const isDayFull = (day: AvailabilityDay): boolean => {
+  return day.slots.length > 0 && day.slots.every(isSlotFull);
+};
+
+// Blank cells before the 1st, so it lands on the right weekday (weeks start on Sunday)
+export const getLeadingBlanks = (month: Date): number => {
+  return new Date(month.getFullYear(), month.getMonth(), 1).getDay();
+};
+
+// Short weekday names, Sunday first
+export const getWeekdayLabels = (locale: string): string[] => {
+  return Array.from({ length: 7 }, (_, i) =>
+    new Date(2024, 0, 7 + i).toLocaleDateString(locale, { weekday: 'short' })
+  );
+};
+
+/**
+ * Every day of the month with whether it can be picked
+ *
+ * A day can be picked when the backend reports it open, it still has a slot
+ * with places left, and it isn't in the past.
+ */
+export const getCalendarDays = (
+  month: Date,
+  days: Record<string, AvailabilityDay>,
+  todayKey: string = toDateKey(new Date())
+): CalendarDay[] => {
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+
+  return Array.from({ length: daysInMonth }, (_, i) => {
+    const date = new Date(month.getFullYear(), month.getMonth(), i + 1);
+    const key = toDateKey(date);
+    const day = days[key];
+    const full = day ? isDayFull(day) : false;
+
+    let unavailableReason: UnavailableReason | undefined;
+    if (day && !day.isOpen) {
+      unavailableReason = { kind: 'closed', closedReason: day.closedReason };
+    } else if (full) {
+      unavailableReason = { kind: 'full' };
+    }
+
+    return {
+      key,
+      date,
+      isAvailable: !!day && day.isOpen && !full && key >= todayKey,
+      isFull: full,
+      unavailableReason,
+    };
+  });
+};
+
+// Whether `month` is the current month or earlier - nothing before it can be picked
+export const isCurrentOrPastMonth = (month: Date, todayKey: string = toDateKey(new Date())): boolean => {
+  return toDateKey(month) <= todayKey.slice(0, 8) + '01';
+};